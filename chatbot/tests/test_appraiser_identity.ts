@@ -0,0 +1,155 @@
+/**
+ * Unit Tests - Appraiser Identity
+ * Clustering of appraiser spellings, stable appraiser ids, name lookup and
+ * the appraiser profile with extracted coefficients and outcomes
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_appraiser_identity.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { clusterAppraiserNames } from '../../mcp-server/src/appraiser-identity.js';
+import { resolveCommittee } from '../../mcp-server/src/committee-gazetteer.js';
+import { extractParameters } from '../../mcp-server/src/parameter-extractor.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-appraisers-'));
+
+function decision(id: string, appraiser: string, year: string, committee: string) {
+  return {
+    id, database: 'decisive_appraiser' as const, title: `היטל השבחה ${id}`, url: null, block: null, plot: null,
+    committee, committeeId: resolveCommittee(committee)?.id ?? null, appraiser, caseType: 'היטל השבחה', decisionDate: `01-06-${year}`, year,
+    publishDate: null, contentHash: `h-${id}`, pdfText: null
+  };
+}
+
+/**
+ * Test: test_appraiser_identity
+ * Verifies clustering, ids, lookup and the profile
+ */
+async function test_appraiser_identity(): Promise<void> {
+  console.log('Running: test_appraiser_identity()');
+  let passed = 0;
+  let failed = 0;
+
+  const db = new DecisionDatabase(path.join(TEMP_DIR, 'decisions.db'));
+  await db.initialize();
+  db.insertDecisions([
+    decision('a', 'יוסי כהן', '2023', 'ועדה מקומית נתניה'),
+    decision('b', 'עו"ד יוסי כהן', '2024', 'ועדה מקומית נתניה'),
+    decision('c', 'כהן יוסי, שמאי מקרקעין', '2024', 'ועדה מקומית רעננה'),
+    decision('d', "י' כהן", '2024', 'ועדה מקומית רעננה'),
+    decision('e', 'דנה כהן', '2024', 'ועדה מקומית חיפה')
+  ]);
+
+  const cases: Array<{ name: string; run: () => Promise<void> | void }> = [
+    {
+      name: 'Spellings cluster into appraisers; ambiguous initials stay apart',
+      run: () => {
+        const clusters = clusterAppraiserNames([
+          { name: 'יוסי כהן', count: 3 },
+          { name: 'ד"ר יוסי כהן', count: 1 },
+          { name: 'י. כהן', count: 1 },
+          { name: 'השמאי המכריע משה דוויק', count: 2 },
+          { name: 'משה דויק', count: 1 },
+          { name: "מ' לוי", count: 1 },
+          { name: 'משה לוי', count: 1 },
+          { name: 'מירב לוי', count: 1 }
+        ]);
+        const byName = new Map(clusters.map(c => [c.canonicalName, c.variants.map(v => v.name)]));
+        assert.deepStrictEqual(byName.get('יוסי כהן'), ['יוסי כהן', 'ד"ר יוסי כהן', 'י. כהן']);
+        assert.deepStrictEqual(byName.get('משה דוויק'), ['השמאי המכריע משה דוויק', 'משה דויק']);
+        assert.deepStrictEqual(byName.get("מ' לוי"), ["מ' לוי"]);
+        assert.strictEqual(clusters.length, 5);
+      }
+    },
+    {
+      name: 'Clustering assigns stable appraiser ids',
+      run: () => {
+        assert.strictEqual(db.refreshAppraisers(), 5);
+        const id = db.getDecision('a')?.appraiserId;
+        assert.ok(id);
+        assert.deepStrictEqual(['b', 'c', 'd'].map(d => db.getDecision(d)?.appraiserId), [id, id, id]);
+        assert.notStrictEqual(db.getDecision('e')?.appraiserId, id);
+
+        db.insertDecision(decision('f', 'השמאי יוסי כהן', '2022', 'ועדה מקומית חולון'));
+        assert.strictEqual(db.refreshAppraisers(), 1);
+        assert.strictEqual(db.getDecision('f')?.appraiserId, id);
+        assert.strictEqual(db.refreshAppraisers(), 0);
+      }
+    },
+    {
+      name: 'Lookup by any spelling, or candidates for a last name',
+      run: () => {
+        const [yossi] = db.findAppraisers('כהן יוסי');
+        assert.deepStrictEqual([yossi.name, yossi.decisionCount, yossi.aliases.length], ['יוסי כהן', 5, 5]);
+        assert.deepStrictEqual(db.findAppraisers(String(yossi.id)).map(a => a.name), ['יוסי כהן']);
+        assert.deepStrictEqual(db.findAppraisers('כהן').map(a => a.name), ['יוסי כהן', 'דנה כהן']);
+        assert.deepStrictEqual(db.findAppraisers('לוי'), []);
+      }
+    },
+    {
+      name: 'Profile: years, committees, coefficients and outcomes',
+      run: async () => {
+        const texts: Record<string, string> = {
+          a: 'נקבע מקדם דחייה 0.8. לאור האמור הערר נדחה.',
+          b: 'נקבע מקדם דחייה 0.9. אשר על כן הערר מתקבל בחלקו.',
+          c: 'נקבע מקדם דחייה 1.0 ומקדם גודל 0.85. לפיכך אני מקבל את הערר.'
+        };
+        for (const [id, text] of Object.entries(texts)) {
+          db.insertParameters(id, await extractParameters(text, id));
+        }
+
+        const profile = db.getAppraiserProfile(db.findAppraisers('יוסי כהן')[0].id)!;
+        assert.deepStrictEqual(profile.byYear, [
+          { year: '2024', count: 3 }, { year: '2023', count: 1 }, { year: '2022', count: 1 }
+        ]);
+        assert.deepStrictEqual(profile.committees.slice(0, 2).map(c => [c.committeeId, c.count]), [['netanya', 2], ['raanana', 2]]);
+        assert.deepStrictEqual(profile.coefficients[0], {
+          subtype: 'דחייה', decisions: 3, count: 3, min: 0.8, p25: 0.85, median: 0.9, p75: 0.95, max: 1, mean: 0.9
+        });
+        assert.deepStrictEqual(profile.outcomes.map(o => o.outcome), ['התקבל', 'התקבל חלקית', 'נדחה']);
+        assert.strictEqual(profile.decisionsWithParameters, 3);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Appraiser Identity Unit Tests =====\n');
+
+  try {
+    await test_appraiser_identity();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,131 @@
+/**
+ * Unit Tests - Committee Gazetteer
+ * Canonical committees from scraped spellings, aliases and localities, the
+ * committee_id backfill, filters by id and analytics grouped by committee
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_committee_gazetteer.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { assignCommitteeIds } from '../../mcp-server/src/migrations.js';
+import { findCommitteeIds, resolveCommittee } from '../../mcp-server/src/committee-gazetteer.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-committees-'));
+
+function decision(id: string, committee: string) {
+  return {
+    id, database: 'decisive_appraiser' as const, title: `היטל השבחה ${id}`, url: null, block: null, plot: null,
+    committee, appraiser: null, caseType: null, decisionDate: null, year: '2024',
+    publishDate: null, contentHash: `h-${id}`, pdfText: null
+  };
+}
+
+/**
+ * Test: test_committee_gazetteer
+ * Verifies resolution, the backfill and committee filters and counts
+ */
+async function test_committee_gazetteer(): Promise<void> {
+  console.log('Running: test_committee_gazetteer()');
+  let passed = 0;
+  let failed = 0;
+
+  // Decisions written before committee ids existed
+  const db = new DecisionDatabase(path.join(TEMP_DIR, 'decisions.db'));
+  await db.initialize();
+  db.insertDecisions([
+    decision('a', 'ועדה מקומית לתכנון ובניה תל אביב-יפו'),
+    decision('b', 'הוועדה המקומית ת"א-יפו'),
+    decision('c', 'תל-אביב יפו'),
+    decision('d', 'ועדה מקומית רמת השרון'),
+    decision('e', 'ועדה מקומית רמת גן'),
+    decision('f', 'ועדה מרחבית שרונים'),
+    decision('g', 'ועדה מקומית גבעת שמואל')
+  ]);
+
+  const cases: Array<{ name: string; run: () => void }> = [
+    {
+      name: 'Spellings, abbreviations and localities resolve to one committee',
+      run: () => {
+        assert.strictEqual(resolveCommittee('הוועדה המקומית לתו"ב ת"א-יפו')?.id, 'tel-aviv-yafo');
+        assert.strictEqual(resolveCommittee('ועדה מקומית קריית אונו')?.id, 'kiryat-ono');
+        assert.strictEqual(resolveCommittee('ועדה מקומית פתח-תקוה')?.id, 'petah-tikva');
+        // The longest name wins: not רמת גן, not יפו alone
+        assert.strictEqual(resolveCommittee('ועדה מקומית רמת השרון')?.id, 'ramat-hasharon');
+        assert.strictEqual(resolveCommittee('ועדה מקומית גבעת שמואל'), null);
+
+        assert.deepStrictEqual(findCommitteeIds('בכפר יונה'), ['sharonim']);
+        assert.deepStrictEqual(findCommitteeIds('ב"ש'), ['beer-sheva']);
+        assert.deepStrictEqual(findCommitteeIds('רמת'), []);
+      }
+    },
+    {
+      name: 'Backfill assigns committee_id to existing decisions',
+      run: () => {
+        assert.strictEqual(assignCommitteeIds((db as any).db), 6);
+        assert.strictEqual(assignCommitteeIds((db as any).db), 0);
+        assert.strictEqual(db.getDecision('b')?.committeeId, 'tel-aviv-yafo');
+        assert.strictEqual(db.getDecision('g')?.committeeId, null);
+      }
+    },
+    {
+      name: 'Committee filters match by id, unknown names by text',
+      run: () => {
+        const ids = (committee: string) => db.search({ committee }).decisions.map(d => d.id).sort();
+        assert.deepStrictEqual(ids('תל אביב'), ['a', 'b', 'c']);
+        assert.deepStrictEqual(ids('רמת גן'), ['e']);
+        assert.deepStrictEqual(ids('תל מונד'), ['f']);
+        assert.deepStrictEqual(ids('גבעת שמואל'), ['g']);
+      }
+    },
+    {
+      name: 'Spelling variants are counted as one committee',
+      run: () => {
+        assert.deepStrictEqual(db.getDecisionsByCommittee(1)[0], { name: 'תל אביב-יפו', count: 3, committeeId: 'tel-aviv-yafo' });
+        const telAviv = db.getCommitteesWithCounts().find(c => c.committeeId === 'tel-aviv-yafo');
+        assert.deepStrictEqual([telAviv?.count, telAviv?.variants.length], [3, 3]);
+        assert.strictEqual(db.getStats().byCommittee?.[0].committee, 'תל אביב-יפו');
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Committee Gazetteer Unit Tests =====\n');
+
+  try {
+    await test_committee_gazetteer();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
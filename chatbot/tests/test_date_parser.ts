@@ -0,0 +1,94 @@
+/**
+ * Unit Tests - Date Parser
+ * ISO normalization of decision dates and date-range filter bounds
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_date_parser.ts
+ */
+
+import assert from 'node:assert';
+import { parseDateToIso, toIsoDateBound } from '../../mcp-server/src/date-parser.js';
+
+/**
+ * Test: test_parse_date_to_iso
+ * Verifies every date format the scraper encounters normalizes to YYYY-MM-DD
+ */
+function test_parse_date_to_iso(): void {
+  console.log('Running: test_parse_date_to_iso()');
+  let passed = 0;
+  let failed = 0;
+
+  const cases = [
+    { name: 'DD-MM-YYYY', input: '15-03-2024', expected: '2024-03-15' },
+    { name: 'DD/MM/YYYY single digits', input: '5/3/2024', expected: '2024-03-05' },
+    { name: 'DD.MM.YYYY', input: '15.03.2024', expected: '2024-03-15' },
+    { name: 'DD/MM/YY', input: '15/03/24', expected: '2024-03-15' },
+    { name: 'DD/MM/YY previous century', input: '15/03/98', expected: '1998-03-15' },
+    { name: 'ISO timestamp', input: '2024-03-15T10:00:00Z', expected: '2024-03-15' },
+    { name: 'Date inside text', input: 'החלטה מיום 15.03.2024', expected: '2024-03-15' },
+    { name: 'Hebrew full date', input: 'החלטה מיום ט"ו בשבט תשפ"ג', expected: '2023-02-06' },
+    { name: 'Impossible date', input: '31-02-2024', expected: null },
+    { name: 'Hebrew year only (no day)', input: 'תשפ"ד', expected: null },
+    { name: 'Empty', input: '', expected: null }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      assert.strictEqual(parseDateToIso(testCase.input), testCase.expected);
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Test: test_date_bounds
+ * Verifies fromDate/toDate inputs resolve to inclusive day bounds
+ */
+function test_date_bounds(): void {
+  console.log('Running: test_date_bounds()');
+  let passed = 0;
+  let failed = 0;
+
+  const cases = [
+    { name: 'Day start', input: '01-04-2024', bound: 'start' as const, expected: '2024-04-01' },
+    { name: 'Month end (leap year)', input: '2024-02', bound: 'end' as const, expected: '2024-02-29' },
+    { name: 'December end', input: '2023-12', bound: 'end' as const, expected: '2023-12-31' },
+    { name: 'Year start', input: '2024', bound: 'start' as const, expected: '2024-01-01' },
+    { name: 'Hebrew year end', input: 'תשפ"ד', bound: 'end' as const, expected: '2024-10-02' },
+    { name: 'Hebrew month start', input: 'שבט תשפ"ג', bound: 'start' as const, expected: '2023-01-23' },
+    { name: 'Invalid', input: 'last year', bound: 'start' as const, expected: null }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      assert.strictEqual(toIsoDateBound(testCase.input, testCase.bound), testCase.expected);
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests
+console.log('===== Date Parser Unit Tests =====\n');
+test_parse_date_to_iso();
+console.log('');
+test_date_bounds();
+console.log('\n✓ All tests passed!');
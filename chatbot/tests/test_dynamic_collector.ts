@@ -0,0 +1,242 @@
+/**
+ * Unit Tests - Dynamic Collector Client
+ * Paging, filters and field mapping of the gov.il JSON search endpoint,
+ * against a local stand-in server replaying recorded responses, and the
+ * indexer's api and auto sources
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_dynamic_collector.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { closeDatabase, getDatabase } from '../../mcp-server/src/database.js';
+import { createDynamicCollectorClient } from '../../mcp-server/src/dynamic-collector.js';
+import { createIndexer } from '../../mcp-server/src/indexer.js';
+import { createTransport } from '../../mcp-server/src/transport.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-collector-'));
+
+// No rate limiting against the stand-in
+const transport = createTransport({ ratePerSecond: 1000, burst: 100 });
+
+// Recorded responses, keyed by "DynamicTemplateID skip"
+const RECORDED: Record<string, object> = {
+  'decisive_appraisal_decisions 0': {
+    TotalResults: 3,
+    Results: [
+      {
+        UrlName: '44349',
+        Data: {
+          title: 'הכרעת שמאי מכריע מיום 01-02-2024 בעניין היטל השבחה נ ועדה מקומית נתניה ג 7000 ח 12 - יוסי כהן',
+          publish_date: '2024-02-10T00:00:00',
+          document: [{ FileName: '044349285973.pdf', DisplayName: 'הכרעה' }]
+        }
+      },
+      {
+        UrlName: '50346',
+        Data: {
+          Title: 'הכרעת שמאי מכריע בעניין פיצויים',
+          Gush: '6214',
+          Helka: '353',
+          Committee: { Value: 'ועדה מקומית חיפה' },
+          Decision_Date: '15.3.2023'
+        }
+      }
+    ]
+  },
+  'decisive_appraisal_decisions 2': {
+    TotalResults: 3,
+    Results: [
+      { UrlName: '50400', Data: { title: 'הכרעת שמאי מכריע בעניין ירידת ערך גוש 8000 חלקה 4', link: 'https://free-justice.openapi.gov.il/free/moj/portal/rest/1' } },
+      { UrlName: '50401', Data: {} }
+    ]
+  }
+};
+
+interface StandIn {
+  url: string;
+  requests: any[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Local stand-in for the search endpoint: replays RECORDED, 404 for anything else
+ */
+async function startStandIn(): Promise<StandIn> {
+  const requests: any[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const request = JSON.parse(body || '{}');
+      requests.push(request);
+      const recorded = RECORDED[`${request.DynamicTemplateID} ${request.QueryFilters?.skip?.Query}`];
+      res.writeHead(recorded ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(recorded ?? { error: 'not recorded' }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/he/api/DynamicCollector`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+/**
+ * Test: test_dynamic_collector
+ * Verifies the client and the indexer sources
+ */
+async function test_dynamic_collector(): Promise<void> {
+  console.log('Running: test_dynamic_collector()');
+  let passed = 0;
+  let failed = 0;
+
+  const standIn = await startStandIn();
+  const db = await getDatabase(path.join(TEMP_DIR, 'decisions.db'));
+
+  const cases: Array<{ name: string; run: () => Promise<void> }> = [
+    {
+      name: 'Pages are requested with skip, limit and filters',
+      run: async () => {
+        const client = createDynamicCollectorClient({ apiUrl: standIn.url, pageSize: 2, transport });
+        await client.fetchPage('decisive_appraiser', 1, { decision_type: 'היטל השבחה' });
+        assert.deepStrictEqual(standIn.requests.pop(), {
+          DynamicTemplateID: 'decisive_appraisal_decisions',
+          QueryFilters: { skip: { Query: 2 }, limit: { Query: 2 }, decision_type: { Query: 'היטל השבחה' } },
+          From: 2
+        });
+      }
+    },
+    {
+      name: 'Result fields map to decisions, the title filling the rest',
+      run: async () => {
+        const client = createDynamicCollectorClient({ apiUrl: standIn.url, pageSize: 2, transport });
+        const page = await client.fetchPage('decisive_appraiser', 0);
+        assert.deepStrictEqual([page.totalResults, page.totalPages, page.hasMore], [3, 2, true]);
+
+        const [titled, fielded] = page.decisions;
+        assert.deepStrictEqual(titled, {
+          title: 'הכרעת שמאי מכריע מיום 01-02-2024 בעניין היטל השבחה נ ועדה מקומית נתניה ג 7000 ח 12 - יוסי כהן',
+          url: 'https://www.gov.il/BlobFolder/dynamiccollectorresultitem/44349/he/044349285973.pdf',
+          block: '7000',
+          plot: '12',
+          committee: 'נתניה',
+          appraiser: 'יוסי כהן',
+          caseType: 'היטל השבחה',
+          decisionDate: '01-02-2024',
+          publishDate: '10-02-2024'
+        });
+        assert.deepStrictEqual(
+          [fielded.block, fielded.plot, fielded.committee, fielded.caseType, fielded.decisionDate, fielded.url],
+          ['6214', '353', 'חיפה', 'פיצויים', '15-03-2023', null]
+        );
+
+        // Items without a title are skipped; the last page has no more
+        const last = await client.fetchPage('decisive_appraiser', 1);
+        assert.deepStrictEqual(last.decisions.map(d => [d.block, d.plot, d.url]), [
+          ['8000', '4', 'https://free-justice.openapi.gov.il/free/moj/portal/rest/1']
+        ]);
+        assert.strictEqual(last.hasMore, false);
+      }
+    },
+    {
+      name: 'Errors and unexpected responses are reported',
+      run: async () => {
+        const client = createDynamicCollectorClient({ apiUrl: standIn.url, transport });
+        await assert.rejects(client.fetchPage('appeals_board', 0), /gov\.il API error: 404/);
+        assert.throws(() => client.parseResponse('<html></html>', 'appeals_board'), /no Results list/);
+        assert.deepStrictEqual(client.getTemplateId('appeals_committee'), 'objections_committee_decisions');
+      }
+    },
+    {
+      name: 'The api source indexes a database without ScraperAPI',
+      run: async () => {
+        const indexer = createIndexer({
+          scraperApiKey: '', source: 'api', apiUrl: standIn.url, transport, delayMs: 1, embed: false, maxPages: 5
+        });
+        await indexer.initialize();
+        // Page size 10: the first page holds everything TotalResults counts
+        assert.strictEqual(await indexer.indexDatabase('decisive_appraiser'), 2);
+        assert.deepStrictEqual(db.search({ block: '6214', plot: '353' }).decisions.map(d => d.committee), ['חיפה']);
+
+        // A failing endpoint fails the api source
+        const strict = createIndexer({
+          scraperApiKey: '', source: 'api', apiUrl: standIn.url, transport, delayMs: 1, embed: false, continueOnError: false
+        });
+        await strict.initialize();
+        await assert.rejects(strict.indexRange('appeals_board', 0, 0), /gov\.il API error: 404/);
+      }
+    },
+    {
+      name: 'The auto source falls back to HTML once the endpoint fails',
+      run: async () => {
+        const indexer = createIndexer({
+          scraperApiKey: 'test', source: 'auto', apiUrl: standIn.url, transport, delayMs: 1, embed: false, continueOnError: false
+        });
+        await indexer.initialize();
+        const apiRequests = standIn.requests.length;
+        // The HTML fallback goes out to ScraperAPI; stub it for this run
+        const realFetch = globalThis.fetch;
+        const fetched: string[] = [];
+        globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+          const url = String(input);
+          if (url.startsWith(standIn.url)) return realFetch(input, init);
+          fetched.push(url);
+          return new Response('<html><body></body></html>', { status: 200 });
+        }) as typeof fetch;
+        try {
+          assert.strictEqual(await indexer.indexRange('appeals_board', 0, 1), 0);
+        } finally {
+          globalThis.fetch = realFetch;
+        }
+        assert.strictEqual(fetched.length, 2);
+        assert.ok(fetched.every(url => url.startsWith('https://api.scraperapi.com')));
+        assert.strictEqual(standIn.requests.length - apiRequests, 1);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  await standIn.close();
+  closeDatabase();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Dynamic Collector Unit Tests =====\n');
+
+  try {
+    await test_dynamic_collector();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
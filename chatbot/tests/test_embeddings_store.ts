@@ -0,0 +1,233 @@
+/**
+ * Unit Tests - Vector Stores
+ * Chunking, int8 index persistence, vector search, the incremental embedding job,
+ * the vector sync and the keyword fallback of semantic search
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_embeddings_store.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { LocalVectorStore } from '../../mcp-server/src/embeddings-db.js';
+import { chunkDecision, embedPendingDecisions, syncVectorStore } from '../../mcp-server/src/embedding-job.js';
+import { InMemoryVectorStore } from '../../mcp-server/src/vector-store.js';
+import { EmbeddingsManager } from '../../mcp-server/src/embeddings.js';
+import { Embedder } from '../../mcp-server/src/embedding-model.js';
+import { joinPages } from '../../mcp-server/src/pdf-layout.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-embeddings-'));
+
+const TOPICS = ['היטל', 'השבחה', 'פיצויים', 'הפקעה', 'מקדם', 'דחייה', 'חניה', 'קרקע', 'רקע'];
+
+/**
+ * Deterministic stand-in for the model: one dimension per topic word, normalized
+ */
+const fakeEmbed: Embedder = async (texts) => texts.map(text => {
+  const vector = new Float32Array(TOPICS.map(topic => text.split(topic).length - 1));
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map(value => value / norm);
+});
+
+function decision(id: string, title: string) {
+  return {
+    id, database: 'decisive_appraiser' as const, title, url: null, block: null, plot: null,
+    committee: 'תל אביב', appraiser: null, caseType: null, decisionDate: null, year: null,
+    publishDate: null, contentHash: `h-${id}`, pdfText: null
+  };
+}
+
+/**
+ * Test: test_embeddings_store
+ * Verifies chunk pages, quantized search, persistence and incremental updates
+ */
+async function test_embeddings_store(): Promise<void> {
+  console.log('Running: test_embeddings_store()');
+  let passed = 0;
+  let failed = 0;
+
+  const db = new DecisionDatabase(path.join(TEMP_DIR, 'decisions.db'));
+  await db.initialize();
+  db.insertDecisions([
+    decision('levy', 'היטל השבחה'),
+    decision('expropriation', 'פיצויים בגין הפקעה'),
+    decision('parking', 'כופר חניה')
+  ]);
+  db.savePdfText('levy', joinPages(['רקע '.repeat(400), 'נקבע מקדם דחייה '.repeat(120)]));
+  db.savePdfText('expropriation', 'פיצויים הפקעה קרקע');
+
+  const indexPath = path.join(TEMP_DIR, 'embeddings.idx');
+  const store = new LocalVectorStore(indexPath, 'fake-model');
+  store.load();
+
+  const cases: Array<{ name: string; run: () => void | Promise<void> }> = [
+    {
+      name: 'Chunks are the passages, with the title and their real page',
+      run: () => {
+        const chunks = chunkDecision(db.getDecision('levy')!);
+        assert.ok(chunks.length > 2);
+        assert.ok(chunks.every(chunk => chunk.text.startsWith('היטל השבחה | תל אביב\n') && chunk.text.length <= 1100));
+        assert.deepStrictEqual([chunks[0].page, chunks[chunks.length - 1].page], [1, 2]);
+        assert.deepStrictEqual(chunks.map(chunk => chunk.passage), db.getPassages('levy').map(p => p.index));
+        assert.deepStrictEqual(
+          chunkDecision(db.getDecision('parking')!),
+          [{ text: 'כופר חניה | תל אביב', page: null, passage: null, section: null }]
+        );
+      }
+    },
+    {
+      name: 'Job embeds every decision and search ranks by best chunk',
+      run: async () => {
+        const result = await embedPendingDecisions(db, store, { embed: fakeEmbed });
+        assert.deepStrictEqual([result.embedded, result.removed, result.pending], [3, 0, 0]);
+
+        const [query] = await fakeEmbed(['מקדם דחייה'], 'query');
+        const [best] = await store.query(query, { topK: 1 });
+        assert.strictEqual(best.id.split('#')[0], 'levy');
+        assert.ok(best.score > 0.95 && best.metadata.page === 2);
+
+        const filtered = await store.query(query, { filter: { decision_id: 'expropriation' } });
+        assert.deepStrictEqual(filtered.map(match => match.id), ['expropriation#0']);
+        assert.ok(filtered[0].score < 0.1 && !('page' in filtered[0].metadata));
+      }
+    },
+    {
+      name: 'Index survives a reload; another model discards it',
+      run: async () => {
+        const reloaded = new LocalVectorStore(indexPath, 'fake-model');
+        reloaded.load();
+        assert.deepStrictEqual(await reloaded.stats(), await store.stats());
+
+        const [query] = await fakeEmbed(['פיצויים הפקעה'], 'query');
+        assert.deepStrictEqual(await reloaded.query(query, { topK: 3 }), await store.query(query, { topK: 3 }));
+
+        const otherModel = new LocalVectorStore(indexPath, 'other-model');
+        otherModel.load();
+        assert.strictEqual((await otherModel.stats()).vectorCount, 0);
+      }
+    },
+    {
+      name: 'Only changed decisions are re-embedded; deleted ones are dropped',
+      run: async () => {
+        assert.strictEqual((await embedPendingDecisions(db, store, { embed: fakeEmbed })).embedded, 0);
+
+        db.savePdfText('parking', 'כופר חניה בגין מקומות חניה');
+        const fingerprints = new Map(db.getDecisionFingerprints().map(d => [d.id, d.fingerprint]));
+        await store.upsert([{ id: 'deleted#0', values: new Float32Array(TOPICS.length).fill(0.5), metadata: { content_hash: 'h' } }]);
+
+        const result = await embedPendingDecisions(db, store, { embed: fakeEmbed });
+        assert.deepStrictEqual([result.embedded, result.removed], [1, 1]);
+        const metadata = await store.fetch(['parking#0', 'deleted#0']);
+        assert.strictEqual(metadata.get('parking#0')?.fingerprint, fingerprints.get('parking'));
+        assert.ok(!metadata.has('deleted#0'));
+      }
+    },
+    {
+      name: 'Sync removes vectors of deleted and re-hashed decisions',
+      run: async () => {
+        const memory = new InMemoryVectorStore();
+        await embedPendingDecisions(db, memory, { embed: fakeEmbed });
+        const levyChunks = (await memory.listIds()).filter(id => id.startsWith('levy#')).length;
+
+        db.insertDecision({ ...decision('expropriation', 'פיצויים בגין הפקעה'), contentHash: 'h-changed' });
+        await memory.upsert([{ id: 'gone', values: new Float32Array(TOPICS.length).fill(0.5) }]);
+
+        const dryRun = await syncVectorStore(db, memory);
+        assert.deepStrictEqual([dryRun.orphaned, dryRun.stale, dryRun.deletedVectors], [['gone'], ['expropriation'], 2]);
+        assert.strictEqual((await memory.stats()).vectorCount, levyChunks + 3);
+
+        await syncVectorStore(db, memory, { delete: true });
+        assert.deepStrictEqual((await memory.listIds()).filter(id => !id.startsWith('levy#')), ['parking#0']);
+      }
+    },
+    {
+      name: 'Sync refuses to delete from Pinecone without force',
+      run: async () => {
+        const remote = new InMemoryVectorStore();
+        Object.defineProperty(remote, 'kind', { value: 'pinecone' });
+        await remote.upsert([{ id: 'remote-only#0', values: new Float32Array(TOPICS.length).fill(0.5) }]);
+
+        await assert.rejects(syncVectorStore(db, remote, { delete: true }), /Pinecone/);
+        assert.strictEqual((await remote.stats()).vectorCount, 1);
+
+        const forced = await syncVectorStore(db, remote, { delete: true, force: true });
+        assert.deepStrictEqual([forced.orphaned, (await remote.stats()).vectorCount], [['remote-only'], 0]);
+      }
+    },
+    {
+      name: 'A failed query embedding falls back for that query only',
+      run: async () => {
+        const remote = new InMemoryVectorStore();
+        Object.defineProperty(remote, 'kind', { value: 'pinecone' });
+        await remote.upsert([{ id: 'levy#0', values: new Float32Array(TOPICS.length).fill(0.5) }]);
+
+        const manager = new EmbeddingsManager();
+        Object.assign(manager, { db, store: remote, vectorCount: 1 });
+
+        // Pinecone queries are embedded with OpenAI: without a key every query fails
+        const apiKey = process.env.OPENAI_API_KEY;
+        delete process.env.OPENAI_API_KEY;
+        try {
+          const first = await manager.searchWithMode('היטל השבחה');
+          assert.deepStrictEqual([first.mode, first.results.map(r => r.decision.id)], ['keyword-fallback', ['levy']]);
+          assert.match(first.error!, /OPENAI_API_KEY/);
+          assert.deepStrictEqual([(await manager.getStats()).mode, (await manager.getStats()).modelError], ['vectors', null]);
+
+          process.env.OPENAI_API_KEY = 'test-key';
+          Object.assign(remote, { query: async () => [{ id: 'levy#0', score: 0.9, metadata: {} }] });
+          const embedding = Array(1024).fill(0.1);
+          const realFetch = globalThis.fetch;
+          globalThis.fetch = (async () => new Response(JSON.stringify({ data: [{ embedding }] }))) as typeof fetch;
+          try {
+            const second = await manager.searchWithMode('היטל השבחה');
+            assert.deepStrictEqual([second.mode, second.error, second.results.map(r => r.decision.id)], ['vectors', null, ['levy']]);
+          } finally {
+            globalThis.fetch = realFetch;
+          }
+        } finally {
+          if (apiKey === undefined) delete process.env.OPENAI_API_KEY;
+          else process.env.OPENAI_API_KEY = apiKey;
+        }
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Vector Store Unit Tests =====\n');
+
+  try {
+    await test_embeddings_store();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit Tests - Gush Layer
+ * Centroids, localities and neighbors read from a gush boundary dataset, and
+ * the proximity and neighboring-block searches over decisions
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_gush_layer.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { itmToWgs84, loadGushLayer } from '../../mcp-server/src/gush-layer.js';
+import { DatabaseType } from '../../mcp-server/src/types.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-gush-'));
+
+// One square kilometer in ITM meters
+function square(x: number, y: number): number[][][] {
+  return [[[x, y], [x + 1000, y], [x + 1000, y + 1000], [x, y + 1000], [x, y]]];
+}
+
+function feature(properties: Record<string, unknown>, coordinates: number[][][]) {
+  return { type: 'Feature', properties, geometry: { type: 'Polygon', coordinates } };
+}
+
+function decision(id: string, block: string, date: string, database: DatabaseType = 'decisive_appraiser') {
+  return {
+    id, database, title: `היטל השבחה ${id}`, url: null, block, plot: '1',
+    committee: null, appraiser: null, caseType: null, decisionDate: date, year: date.slice(-4),
+    publishDate: null, contentHash: `h-${id}`, pdfText: null
+  };
+}
+
+/**
+ * Test: test_gush_layer
+ * Verifies the dataset reader and the gush searches
+ */
+async function test_gush_layer(): Promise<void> {
+  console.log('Running: test_gush_layer()');
+  let passed = 0;
+  let failed = 0;
+
+  // 6001-6003 meet around (181000, 666000) in Tel Aviv; 6004 is 5 km east
+  const datasetPath = path.join(TEMP_DIR, 'gushim.geojson');
+  fs.writeFileSync(datasetPath, JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      feature({ GUSH_NUM: '6001', LOCALITY_N: 'תל אביב-יפו' }, square(180000, 665000)),
+      feature({ GUSH_NUM: '6002', LOCALITY_N: 'תל אביב-יפו' }, square(181000, 665000)),
+      feature({ gush_num: 6003, locality_n: 'תל אביב-יפו' }, square(180000, 666000)),
+      feature({ GUSH_NUM: '06004', LOCALITY_N: 'רמת גן' }, square(185000, 665000)),
+      feature({ NAME: 'ללא גוש' }, square(190000, 665000))
+    ]
+  }));
+
+  const db = new DecisionDatabase(path.join(TEMP_DIR, 'decisions.db'));
+  await db.initialize();
+  db.insertDecisions([
+    decision('a', '6001', '01-03-2023'),
+    decision('b', '6002', '01-03-2024'),
+    decision('c', '6003', '01-03-2022'),
+    decision('d', '6004', '01-03-2024'),
+    decision('e', '9999', '01-03-2024'),
+    decision('f', '6001', '01-03-2024', 'appeals_committee')
+  ]);
+
+  const cases: Array<{ name: string; run: () => void }> = [
+    {
+      name: 'ITM coordinates convert to WGS84',
+      run: () => {
+        const origin = itmToWgs84(219529.584, 626907.39);
+        assert.deepStrictEqual([origin.lat.toFixed(6), origin.lon.toFixed(6)], ['31.734394', '35.204517']);
+      }
+    },
+    {
+      name: 'Dataset yields one centroid, locality and neighbor list per gush',
+      run: () => {
+        const locations = loadGushLayer(datasetPath);
+        assert.deepStrictEqual(locations.map(l => l.gush), ['6001', '6002', '6003', '6004']);
+
+        const [telAviv] = locations;
+        assert.ok(telAviv.lat > 32.0 && telAviv.lat < 32.15 && telAviv.lon > 34.7 && telAviv.lon < 34.85);
+        assert.deepStrictEqual([telAviv.locality, telAviv.areaSqm, telAviv.neighbors], ['תל אביב-יפו', 1000000, ['6002', '6003']]);
+        assert.deepStrictEqual(locations[3].neighbors, []);
+
+        assert.strictEqual(db.replaceGushLocations(locations), 4);
+        assert.strictEqual(db.getGushLocation('06003')?.locality, 'תל אביב-יפו');
+        assert.throws(() => loadGushLayer(path.join(TEMP_DIR, 'gushim.kml')), /not found/);
+      }
+    },
+    {
+      name: 'Decisions within a radius, nearest first',
+      run: () => {
+        const near = db.searchNearGush('6001', 2)!;
+        assert.deepStrictEqual(near.decisions.map(d => d.decision.id), ['f', 'a', 'b', 'c']);
+        assert.deepStrictEqual(near.decisions.map(d => Math.round(d.distanceKm)), [0, 0, 1, 1]);
+
+        const wider = db.searchNearGush('6001', 6, { database: 'decisive_appraiser' })!;
+        assert.deepStrictEqual(wider.decisions.map(d => [d.decision.id, d.locality]).slice(-1), [['d', 'רמת גן']]);
+        assert.strictEqual(wider.totalCount, 4);
+
+        assert.strictEqual(db.searchNearGush('9999', 2), null);
+      }
+    },
+    {
+      name: 'Decisions in neighboring blocks',
+      run: () => {
+        const ids = (includeSelf: boolean) =>
+          db.searchNeighboringBlocks('6001', { includeSelf })!.decisions.map(d => d.decision.id).sort();
+        assert.deepStrictEqual(ids(true), ['a', 'b', 'c', 'f']);
+        assert.deepStrictEqual(ids(false), ['b', 'c']);
+        assert.deepStrictEqual(db.searchNeighboringBlocks('6004')!.decisions.map(d => d.decision.id), ['d']);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Gush Layer Unit Tests =====\n');
+
+  try {
+    await test_gush_layer();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit Tests - Hebrew Calendar
+ * Gematria years, full Hebrew dates and month ranges converted to Gregorian
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_hebrew_calendar.ts
+ */
+
+import assert from 'node:assert';
+import {
+  parseHebrewYear,
+  hebrewYearToIsoRange,
+  parseHebrewDate,
+  parseHebrewDateRange
+} from '../../mcp-server/src/hebrew-calendar.js';
+
+/**
+ * Test: test_hebrew_year
+ * Verifies gematria year parsing and the Gregorian span of a Hebrew year
+ */
+function test_hebrew_year(): void {
+  console.log('Running: test_hebrew_year()');
+  let passed = 0;
+  let failed = 0;
+
+  const cases: Array<{ name: string; run: () => void }> = [
+    { name: 'תשפ"ד = 5784', run: () => assert.strictEqual(parseHebrewYear('תשפ"ד'), 5784) },
+    { name: 'Gershayim and ה prefix', run: () => assert.strictEqual(parseHebrewYear('בשנת התשפ״ג'), 5783) },
+    { name: "ה' millennium prefix", run: () => assert.strictEqual(parseHebrewYear('ה\'תשפ"ה'), 5785) },
+    { name: 'Final letter year תש"ם', run: () => assert.strictEqual(parseHebrewYear('תש"ם'), 5740) },
+    { name: 'Without gershayim', run: () => assert.strictEqual(parseHebrewYear('החלטות תשפד'), 5784) },
+    { name: 'Word is not a year', run: () => assert.strictEqual(parseHebrewYear('תשלום היטל השבחה'), null) },
+    {
+      name: '5784 spans Rosh Hashana to Elul',
+      run: () => assert.deepStrictEqual(hebrewYearToIsoRange(5784), { from: '2023-09-16', to: '2024-10-02' })
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Test: test_hebrew_date
+ * Verifies full Hebrew dates and month/year expressions in free text
+ */
+function test_hebrew_date(): void {
+  console.log('Running: test_hebrew_date()');
+  let passed = 0;
+  let failed = 0;
+
+  const cases: Array<{ name: string; run: () => void }> = [
+    { name: 'ט"ו בשבט תשפ"ג', run: () => assert.strictEqual(parseHebrewDate('ט"ו בשבט תשפ"ג'), '2023-02-06') },
+    { name: 'Digit day, ה prefix', run: () => assert.strictEqual(parseHebrewDate('ניתנה ביום 15 בשבט, התשפ"ג'), '2023-02-06') },
+    { name: "אדר ב' in leap year", run: () => assert.strictEqual(parseHebrewDate('י"ד באדר ב\' תשפ"ד'), '2024-03-24') },
+    { name: 'Plain אדר in leap year is Adar II', run: () => assert.strictEqual(parseHebrewDate('י"ד באדר תשפ"ד'), '2024-03-24') },
+    { name: 'Day 30 in a 29-day month', run: () => assert.strictEqual(parseHebrewDate('ל\' בטבת תשפ"ג'), null) },
+    {
+      name: 'Month and year range',
+      run: () => assert.deepStrictEqual(parseHebrewDateRange('החלטות משבט תשפ"ג'), { from: '2023-01-23', to: '2023-02-21' })
+    },
+    {
+      name: 'Full date range is a single day',
+      run: () => assert.deepStrictEqual(parseHebrewDateRange('ט"ו בשבט תשפ"ג'), { from: '2023-02-06', to: '2023-02-06' })
+    },
+    { name: 'No Hebrew date', run: () => assert.strictEqual(parseHebrewDateRange('היטל השבחה 2024'), null) }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests
+console.log('===== Hebrew Calendar Unit Tests =====\n');
+test_hebrew_year();
+console.log('');
+test_hebrew_date();
+console.log('\n✓ All tests passed!');
@@ -0,0 +1,236 @@
+/**
+ * Unit Tests - Hebrew Normalizer
+ * Search tokenization: prefix stripping, final letters, niqqud, gershayim
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_hebrew_normalizer.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import {
+  normalizeHebrew,
+  getHebrewStems,
+  createHebrewMatcher,
+  expandHebrewSearchTerm
+} from '../../mcp-server/src/hebrew-normalizer.js';
+
+// Document text -> query terms that must match it
+const MATCH_CASES = [
+  { name: 'Prefix ו+ה', text: 'והמקדם נקבע', term: 'מקדם' },
+  { name: 'Prefix ב', text: 'במקדם דחייה', term: 'מקדם' },
+  { name: 'Prefix ל + construct plural', text: 'למקדמי היוון', term: 'מקדם' },
+  { name: 'Plural query, singular text', text: 'המקדם', term: 'מקדמים' },
+  { name: 'Ktiv male vs haser', text: 'מקדם הדחיה', term: 'דחייה' },
+  { name: 'Gershayim variant', text: 'מחיר למ״ר', term: 'מ"ר' },
+  { name: 'Niqqud in text', text: 'שָׁמַאי מַכְרִיעַ', term: 'מכריע' },
+  { name: 'Prefix in query', text: 'היטל השבחה', term: 'בהיטל' },
+  { name: 'Number substring', text: 'גוש 6638 חלקה 96', term: '6638' }
+];
+
+const NO_MATCH_CASES = [
+  { name: 'Unrelated word', text: 'היטל השבחה', term: 'פיצויים' },
+  { name: 'Different number', text: 'גוש 6638', term: '6639' }
+];
+
+/**
+ * Test: test_normalize_hebrew
+ * Verifies niqqud removal and geresh/gershayim unification
+ */
+function test_normalize_hebrew(): void {
+  console.log('Running: test_normalize_hebrew()');
+  let passed = 0;
+  let failed = 0;
+
+  const cases = [
+    { name: 'Niqqud removed', input: 'שָׁלוֹם', expected: 'שלום' },
+    { name: 'Gershayim to double quote', input: 'מ״ר', expected: 'מ"ר' },
+    { name: 'Geresh to single quote', input: 'ג׳', expected: "ג'" },
+    { name: 'Directional marks removed', input: '\u200Fתב"ע\u200E', expected: 'תב"ע' }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      assert.strictEqual(normalizeHebrew(testCase.input), testCase.expected);
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  try {
+    const stems = getHebrewStems('והמקדמים');
+    assert.ok(stems.includes('מקדמ'), `Expected stem מקדמ in ${stems.join(', ')}`);
+    console.log('  ✓ Stems strip prefix, suffix and final letter');
+    passed++;
+  } catch (error) {
+    console.log(`  ✗ Stems: ${(error as Error).message}`);
+    failed++;
+  }
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Test: test_hebrew_matcher
+ * Verifies morphology-aware term matching used by the keyword re-ranker
+ */
+function test_hebrew_matcher(): void {
+  console.log('Running: test_hebrew_matcher()');
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of MATCH_CASES) {
+    try {
+      assert.strictEqual(createHebrewMatcher(testCase.text)(testCase.term), true,
+        `"${testCase.term}" should match "${testCase.text}"`);
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  for (const testCase of NO_MATCH_CASES) {
+    try {
+      assert.strictEqual(createHebrewMatcher(testCase.text)(testCase.term), false,
+        `"${testCase.term}" should NOT match "${testCase.text}"`);
+      console.log(`  ✓ Negative: ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ Negative: ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Test: test_expand_search_term
+ * Verifies the surface forms generated for full-text index queries
+ */
+function test_expand_search_term(): void {
+  console.log('Running: test_expand_search_term()');
+  let passed = 0;
+  let failed = 0;
+
+  const forms = expandHebrewSearchTerm('מקדם');
+  const has = (text: string, prefix: boolean) =>
+    forms.some(f => f.text === text && f.prefix === prefix);
+
+  const cases = [
+    { name: 'Surface form prefix-matched', ok: has('מקדם', true) },
+    { name: 'ו+ה prefixed surface form', ok: has('והמקדם', true) },
+    { name: 'Plural form matched exactly', ok: has('מקדמים', false) },
+    { name: 'ל prefixed construct form', ok: has('למקדמי', false) },
+    { name: 'Stem never prefix-matched', ok: !forms.some(f => f.text === 'מקדמ' || (f.prefix && f.text.endsWith('מקדמ'))) },
+    { name: 'Masculine word gets no feminine form', ok: !forms.some(f => f.text.endsWith('מקדמה')) },
+    { name: 'Feminine word gets ות plural', ok: expandHebrewSearchTerm('השבחה').some(f => f.text === 'השבחות' && !f.prefix) },
+    { name: 'Prefix in query adds the bare word', ok: expandHebrewSearchTerm('בהיטל').some(f => f.text === 'היטל' && !f.prefix) },
+    { name: 'Non-Hebrew passthrough', ok: expandHebrewSearchTerm('6638').length === 1 }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      assert.ok(testCase.ok, testCase.name);
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Test: test_fts_search_precision
+ * Verifies full-text search finds inflected forms without matching
+ * unrelated words that merely share a stem prefix
+ */
+async function test_fts_search_precision(): Promise<void> {
+  console.log('Running: test_fts_search_precision()');
+  let passed = 0;
+  let failed = 0;
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-hebrew-'));
+  const db = new DecisionDatabase(path.join(tempDir, 'decisions.db'));
+  await db.initialize();
+
+  const decision = (id: string, title: string) => ({
+    id, database: 'decisive_appraiser' as const, title, url: null, block: null, plot: null,
+    committee: null, appraiser: null, caseType: null, decisionDate: null, year: null,
+    publishDate: null, contentHash: `h-${id}`, pdfText: null
+  });
+  db.insertDecisions([
+    decision('value', 'קביעת שווי הקרקע'),
+    decision('comparison', 'השוואה למחירי שוק'),
+    decision('coefficients', 'למקדמי היוון שונים'),
+    decision('advance', 'החזר מקדמה ששולמה')
+  ]);
+
+  const ids = (query: string) => db.search({ query, limit: 10 }).decisions.map(d => d.id).sort();
+
+  const cases = [
+    { name: 'שווי does not match השוואה', run: () => assert.deepStrictEqual(ids('שווי'), ['value']) },
+    { name: 'מקדם matches למקדמי but not מקדמה', run: () => assert.deepStrictEqual(ids('מקדם'), ['coefficients']) },
+    { name: 'השוואה still matches itself', run: () => assert.deepStrictEqual(ids('השוואה'), ['comparison']) }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+  fs.rmSync(tempDir, { recursive: true, force: true });
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Hebrew Normalizer Unit Tests =====\n');
+  test_normalize_hebrew();
+  console.log('');
+  test_hebrew_matcher();
+  console.log('');
+  test_expand_search_term();
+  console.log('');
+  await test_fts_search_precision();
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,269 @@
+/**
+ * Unit Tests - HTTP Cassettes and Stand-ins
+ * Record/replay of outbound fetch with redacted secrets, and the indexer, PDF
+ * extraction and semantic search run end to end against the local stand-ins
+ * for gov.il, ScraperAPI, OpenAI and Pinecone
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_http_cassette.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { closeDatabase, getDatabase } from '../../mcp-server/src/database.js';
+import { closeEmbeddings, getEmbeddings } from '../../mcp-server/src/embeddings.js';
+import { closeEmbeddingsStore, getVectorStore } from '../../mcp-server/src/embeddings-db.js';
+import { closeHttpCassette, installHttpCassette } from '../../mcp-server/src/http-cassette.js';
+import { createIndexer } from '../../mcp-server/src/indexer.js';
+import { createPdfExtractor } from '../../mcp-server/src/pdf-extractor.js';
+import { exportFixtures, standInEmbedding, startStandIns } from '../../mcp-server/src/stand-ins.js';
+import { createTransport } from '../../mcp-server/src/transport.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-cassette-'));
+const FIXTURES_DIR = path.join(TEMP_DIR, 'fixtures');
+
+// No rate limiting against the stand-ins
+const transport = createTransport({ ratePerSecond: 1000, burst: 100 });
+
+const PDF_URL = 'https://www.gov.il/BlobFolder/dynamiccollectorresultitem/44349/he/044349285973.pdf';
+
+// A recorded listing page of decisive_appraisal_decisions
+const LISTING_PAGE = `<html><body>
+  <div class="dynamic-card">
+    <h3 class="txt bold">הכרעת שמאי מכריע מיום 01-02-2024 בעניין היטל השבחה נ ועדה מקומית נתניה ג 7000 ח 12 - יוסי כהן</h3>
+    <a href="${PDF_URL}">הורדה</a>
+    <bdi class="ng-binding">10.02.2024</bdi>
+  </div>
+  <div class="dynamic-card">
+    <h3 class="txt bold">הכרעת שמאי מכריע מיום 15-03-2023 בעניין פיצויים נ ועדה מקומית חיפה ג 6214 ח 353 - דנה לוי</h3>
+    <a href="https://www.gov.il/BlobFolder/dynamiccollectorresultitem/50346/he/050346.pdf">הורדה</a>
+    <bdi class="ng-binding">20.03.2023</bdi>
+  </div>
+</body></html>`;
+
+/**
+ * A one-page PDF showing the given lines in Helvetica. Padded past 4KB with
+ * comment lines: the pdf.js bundled with pdf-parse misreads smaller Buffers.
+ */
+function buildPdf(lines: string[]): Buffer {
+  const content = ['BT', '/F1 12 Tf', '72 720 Td', ...lines.map((line, i) => `${i > 0 ? '0 -16 Td ' : ''}(${line}) Tj`), 'ET'].join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ];
+  let pdf = '%PDF-1.4\n' + `%${' '.repeat(99)}\n`.repeat(40);
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+function writeFixture(relativePath: string, content: string | Buffer): void {
+  const file = path.join(FIXTURES_DIR, relativePath);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+/**
+ * Test: test_http_cassette
+ * Verifies cassettes and the stand-ins
+ */
+async function test_http_cassette(): Promise<void> {
+  console.log('Running: test_http_cassette()');
+  let passed = 0;
+  let failed = 0;
+
+  writeFixture('govil/decisive_appraisal_decisions/skip-0.html', LISTING_PAGE);
+  writeFixture('pdfs/044349285973.pdf', buildPdf(['Decisive appraiser decision', 'Block 7000 plot 12, Netanya', 'Betterment levy set at 150000 NIS']));
+
+  const standIns = await startStandIns({ fixturesDir: FIXTURES_DIR });
+  const db = await getDatabase(path.join(TEMP_DIR, 'decisions.db'));
+  const listingUrl = 'https://api.scraperapi.com/?api_key=secret-key&url=' +
+    encodeURIComponent('https://www.gov.il/he/departments/dynamiccollectors/decisive_appraisal_decisions?skip=0');
+
+  const cases: Array<{ name: string; run: () => Promise<void> }> = [
+    {
+      name: 'Requests are recorded with secrets redacted and replayed offline',
+      run: async () => {
+        const cassettePath = path.join(TEMP_DIR, 'cassette.json');
+        const embed = () => fetch('https://api.openai.com/v1/embeddings', {
+          method: 'POST',
+          headers: { 'Authorization': 'Bearer secret-openai', 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model: 'text-embedding-3-small', input: 'היטל השבחה', dimensions: 8 })
+        }).then(r => r.json());
+
+        installHttpCassette({ path: cassettePath, mode: 'record', standInUrl: standIns.url });
+        let recordedPage: string;
+        let recordedEmbedding: unknown;
+        try {
+          recordedPage = await (await fetch(listingUrl)).text();
+          recordedEmbedding = await embed();
+        } finally {
+          closeHttpCassette();
+        }
+        assert.ok(recordedPage.includes('dynamic-card'));
+        const file = fs.readFileSync(cassettePath, 'utf8');
+        assert.ok(!file.includes('secret'), 'cassette holds a secret');
+        assert.ok(file.includes('api_key=REDACTED'));
+
+        // Replay: no stand-in, nothing reaches the network
+        const served = standIns.requests.length;
+        const cassette = installHttpCassette({ path: cassettePath, mode: 'replay' })!;
+        try {
+          assert.strictEqual(await (await fetch(listingUrl.replace('secret-key', 'other-key'))).text(), recordedPage);
+          assert.deepStrictEqual(await embed(), recordedEmbedding);
+          await assert.rejects(fetch('https://www.gov.il/unrecorded'), /No recorded response for GET https:\/\/www\.gov\.il\/unrecorded/);
+          assert.deepStrictEqual([cassette.getStats().replayed, cassette.getStats().missed], [2, 1]);
+        } finally {
+          closeHttpCassette();
+        }
+        assert.strictEqual(standIns.requests.length, served);
+
+        // The recorded listing page becomes a stand-in fixture
+        const exported = path.join(TEMP_DIR, 'exported');
+        assert.deepStrictEqual(exportFixtures(cassette.getInteractions(), exported), [
+          path.join('govil', 'decisive_appraisal_decisions', 'skip-0.html')
+        ]);
+      }
+    },
+    {
+      name: 'indexDatabase indexes the recorded listing pages through the ScraperAPI stand-in',
+      run: async () => {
+        installHttpCassette({ standInUrl: standIns.url });
+        try {
+          const indexer = createIndexer({ scraperApiKey: 'test', source: 'html', transport, delayMs: 1, embed: false, maxPages: 5 });
+          await indexer.initialize();
+          assert.strictEqual(await indexer.indexDatabase('decisive_appraiser'), 2);
+        } finally {
+          closeHttpCassette();
+        }
+        assert.deepStrictEqual(db.search({ block: '7000', plot: '12' }).decisions.map(d => [d.committee, d.url]), [['נתניה', PDF_URL]]);
+        // The recording above, then page 0 and the empty page 1 that ends the crawl
+        const pages = standIns.requests.filter(r => r.url.includes('dynamiccollectors'));
+        assert.strictEqual(pages.length, 3);
+        assert.ok(pages.slice(1).every(r => r.url.startsWith('https://api.scraperapi.com/?api_key=REDACTED')));
+      }
+    },
+    {
+      name: 'extractWithCache downloads the recorded PDF once',
+      run: async () => {
+        const decision = db.search({ block: '7000', plot: '12' }).decisions[0];
+        const extractor = createPdfExtractor('test', { database: db, transport });
+        installHttpCassette({ standInUrl: standIns.url });
+        try {
+          const downloaded = await extractor.extractWithCache(decision.id, decision.url!);
+          assert.strictEqual(downloaded.cached, false);
+          assert.match(downloaded.fullText, /Betterment levy set at 150000 NIS/);
+
+          const cached = await extractor.extractWithCache(decision.id, decision.url!);
+          assert.strictEqual(cached.cached, true);
+        } finally {
+          closeHttpCassette();
+        }
+        assert.strictEqual(standIns.requests.filter(r => r.url.includes('044349285973.pdf')).length, 1);
+        assert.match(db.getCachedPdfText(decision.id)!, /Block 7000 plot 12/);
+      }
+    },
+    {
+      name: 'Semantic search embeds with the OpenAI stand-in and queries the Pinecone stand-in',
+      run: async () => {
+        process.env.VECTOR_STORE = 'pinecone';
+        process.env.PINECONE_API_KEY = 'test';
+        process.env.PINECONE_INDEX_HOST = 'https://decisions-test.svc.pinecone.io';
+        process.env.OPENAI_API_KEY = 'test';
+        installHttpCassette({ standInUrl: standIns.url });
+        try {
+          const decisions = db.search({ limit: 10 }).decisions;
+          await getVectorStore().upsert(decisions.map(d => ({
+            id: `${d.id}#0`,
+            values: standInEmbedding(d.title),
+            metadata: { database: d.database, title: d.title }
+          })));
+
+          const embeddings = await getEmbeddings();
+          const results = await embeddings.search('פיצויים חיפה', 5);
+          assert.strictEqual((await embeddings.getStats()).mode, 'vectors');
+          assert.deepStrictEqual(results.map(r => r.decision.committee), ['חיפה', 'נתניה']);
+          assert.ok(results[0].score > results[1].score);
+        } finally {
+          closeHttpCassette();
+          await closeEmbeddings();
+          closeEmbeddingsStore();
+        }
+        assert.ok(standIns.requests.some(r => r.url === 'https://api.openai.com/v1/embeddings'));
+        assert.ok(standIns.requests.some(r => r.url === 'https://decisions-test.svc.pinecone.io/query'));
+      }
+    },
+    {
+      name: 'The cassette file is written on close, not per request; headers do not take part in matching',
+      run: async () => {
+        const cassettePath = path.join(TEMP_DIR, 'batched.json');
+        const cassette = installHttpCassette({ path: cassettePath, mode: 'record', standInUrl: standIns.url })!;
+        try {
+          for (let i = 0; i < 3; i++) await (await fetch(listingUrl)).text();
+          assert.strictEqual(cassette.getStats().recorded, 3);
+          assert.ok(!fs.existsSync(cassettePath), 'cassette written before close');
+        } finally {
+          closeHttpCassette();
+        }
+        assert.strictEqual(JSON.parse(fs.readFileSync(cassettePath, 'utf8')).interactions.length, 3);
+
+        installHttpCassette({ path: cassettePath, mode: 'replay' });
+        try {
+          const page = await (await fetch(listingUrl, { headers: { 'Accept-Language': 'en' } })).text();
+          assert.ok(page.includes('dynamic-card'));
+        } finally {
+          closeHttpCassette();
+        }
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  await standIns.close();
+  closeDatabase();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== HTTP Cassette Unit Tests =====\n');
+
+  try {
+    await test_http_cassette();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit Tests - Hybrid Retrieval
+ * Question parsing, reciprocal rank fusion and fused hybrid_search results
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_hybrid_search.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { hybridSearch, parseHybridQuery, reciprocalRankFusion } from '../../mcp-server/src/hybrid-search.js';
+import { ExtractedParameter } from '../../mcp-server/src/types.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-hybrid-'));
+
+function decision(id: string, committee: string, year: string, block: string | null = null) {
+  return {
+    id, database: 'decisive_appraiser' as const, title: `היטל השבחה ${id}`, url: null, block, plot: null,
+    committee, appraiser: null, caseType: null, decisionDate: null, year,
+    publishDate: null, contentHash: `h-${id}`, pdfText: null
+  };
+}
+
+function coefficient(subtype: string, value: number): ExtractedParameter {
+  return {
+    param_type: 'coefficient', param_subtype: subtype, value_numeric: value, value_text: null,
+    unit: null, confidence: 0.85, context_snippet: `מקדם ${subtype} ${value}`, extraction_method: 'regex'
+  };
+}
+
+/**
+ * Test: test_hybrid_search
+ * Verifies the parsed question, RRF order and per-result explanations
+ */
+async function test_hybrid_search(): Promise<void> {
+  console.log('Running: test_hybrid_search()');
+  let passed = 0;
+  let failed = 0;
+
+  const db = new DecisionDatabase(path.join(TEMP_DIR, 'decisions.db'));
+  await db.initialize();
+  db.insertDecisions([
+    decision('netanya-2024', 'ועדה מקומית נתניה', '2024'),
+    decision('netanya-2019', 'ועדה מקומית נתניה', '2019'),
+    decision('tel-aviv-2024', 'תל אביב', '2024'),
+    decision('block', 'ועדה מקומית רעננה', '2020', '6638')
+  ]);
+  db.savePdfText('netanya-2024', 'לאחר בחינת הנתונים נקבע מקדם דחייה 0.9 לתקופה של שלוש שנים');
+  db.savePdfText('netanya-2019', 'הצדדים חלוקים בשאלת מקדם דחייה ובשאלת מועד המימוש');
+  db.savePdfText('tel-aviv-2024', 'נקבע מקדם דחייה 0.85');
+  db.savePdfText('block', 'פיצויים בגין הפקעה');
+  db.insertParameters('netanya-2024', [coefficient('דחייה', 0.9)]);
+  db.insertParameters('tel-aviv-2024', [coefficient('דחייה', 0.85)]);
+
+  const cases: Array<{ name: string; run: () => void | Promise<void> }> = [
+    {
+      name: 'Question is split into text, city, year, block and parameter',
+      run: () => {
+        const committees = db.getCommittees();
+        assert.deepStrictEqual(parseHybridQuery('מקדם דחייה בנתניה 2024', committees), {
+          text: 'מקדם דחייה', committee: 'נתניה', year: '2024', block: null, plot: null,
+          parameter: { param_type: 'coefficient', param_subtype: 'דחייה' }
+        });
+        const parsed = parseHybridQuery('שווי קרקע בתשפ"ד גוש 6638 חלקה 12 ברעננה', committees);
+        assert.deepStrictEqual(
+          [parsed.text, parsed.committee, parsed.year, parsed.block, parsed.plot, parsed.parameter],
+          ['שווי קרקע', 'רעננה', 'תשפ"ד', '6638', '12', { param_type: 'land_value' }]
+        );
+      }
+    },
+    {
+      name: 'RRF favors decisions ranked by several retrievers',
+      run: () => {
+        const fused = reciprocalRankFusion({
+          lexical: [{ id: 'a' }, { id: 'b' }],
+          structured: [{ id: 'b', detail: 'coefficient = 0.9' }, { id: 'c' }]
+        });
+        const order = [...fused.entries()].sort((x, y) => y[1].score - x[1].score).map(([id]) => id);
+        assert.deepStrictEqual(order, ['b', 'a', 'c']);
+        assert.strictEqual(fused.get('b')!.score, 1 / 62 + 1 / 61);
+        assert.deepStrictEqual(fused.get('b')!.matchedBy, [
+          { retriever: 'lexical', rank: 2 },
+          { retriever: 'structured', rank: 1, detail: 'coefficient = 0.9' }
+        ]);
+      }
+    },
+    {
+      name: 'Exact and topical matches fuse with committee and year boosts',
+      run: async () => {
+        const response = await hybridSearch(db, null, 'מקדם דחייה בנתניה 2024');
+        assert.deepStrictEqual(response.results.map(r => r.decision.id), ['netanya-2024', 'netanya-2019', 'tel-aviv-2024']);
+
+        const [best] = response.results;
+        assert.deepStrictEqual(best.matchedBy.map(m => m.retriever), ['lexical', 'structured']);
+        assert.strictEqual(best.matchedBy[1].detail, 'coefficient/דחייה = 0.9');
+        assert.deepStrictEqual(best.boosts, ['committee', 'year']);
+        assert.deepStrictEqual(response.results[1].boosts, ['committee']);
+        assert.strictEqual(response.retrievers.semantic.skipped, 'semantic search not initialized');
+      }
+    },
+    {
+      name: 'Block-only question skips lexical and boosts the block',
+      run: async () => {
+        const response = await hybridSearch(db, null, 'גוש 6638', { retrievers: ['lexical', 'structured'] });
+        assert.ok(response.retrievers.lexical.skipped);
+        assert.strictEqual(response.retrievers.semantic.skipped, 'disabled');
+        assert.deepStrictEqual(response.results.map(r => [r.decision.id, r.boosts]), [['block', ['block']]]);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Hybrid Retrieval Unit Tests =====\n');
+
+  try {
+    await test_hybrid_search();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
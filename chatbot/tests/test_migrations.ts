@@ -0,0 +1,217 @@
+/**
+ * Unit Tests - Schema Migrations
+ * Upgrading pre-versioning databases, dry-run rollback, backups and
+ * migrating in batches without blocking the event loop
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_migrations.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { LATEST_SCHEMA_VERSION } from '../../mcp-server/src/migrations.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-migrations-'));
+
+/**
+ * Write a database file with the schema used before migrations existed
+ * (no year, ISO date or full-text columns)
+ */
+async function createLegacyDatabase(dbPath: string, extraDecisions = 0): Promise<void> {
+  const legacy = new DecisionDatabase(dbPath);
+  await legacy.initialize({ migrate: false });
+  const db = (legacy as any).db;
+  db.run(`
+    CREATE TABLE decisions (
+      id TEXT PRIMARY KEY, database TEXT NOT NULL, title TEXT NOT NULL, url TEXT,
+      block TEXT, plot TEXT, committee TEXT, appraiser TEXT, case_type TEXT,
+      decision_date TEXT, publish_date TEXT, content_hash TEXT NOT NULL,
+      pdf_text TEXT, indexed_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+  db.run(`
+    INSERT INTO decisions (id, database, title, decision_date, content_hash) VALUES
+    ('a', 'decisive_appraiser', 'היטל השבחה במקדם', '15-03-2024', 'h1'),
+    ('b', 'decisive_appraiser', 'פיצויים', '01-04-2023', 'h2')
+  `);
+  for (let i = 0; i < extraDecisions; i++) {
+    db.run(
+      `INSERT INTO decisions (id, database, title, block, plot, content_hash, pdf_text) VALUES (?, 'appeals_board', ?, ?, ?, ?, ?)`,
+      [`x${i}`, `ערר ${i} גוש 6638 חלקה ${i + 1}`, '6638', String(i + 1), `hx${i}`, `החלטה ${i}\n\nהוועדה קבעה מקדם דחייה של 0.9 בעניין ${i}.`]
+    );
+  }
+  legacy.close();
+}
+
+/**
+ * Test: test_migrate_legacy_database
+ * Verifies dry-run leaves the database untouched and a real run backfills it
+ */
+async function test_migrate_legacy_database(): Promise<void> {
+  console.log('Running: test_migrate_legacy_database()');
+  let passed = 0;
+  let failed = 0;
+
+  const dbPath = path.join(TEMP_DIR, 'legacy.db');
+  await createLegacyDatabase(dbPath);
+
+  const db = new DecisionDatabase(dbPath);
+  await db.initialize({ migrate: false });
+
+  const cases: Array<{ name: string; run: () => void }> = [
+    {
+      name: 'Pre-versioning database is version 0',
+      run: () => assert.strictEqual(db.getSchemaVersion(), 0)
+    },
+    {
+      name: 'Dry run reports backfills and rolls back',
+      run: () => {
+        const result = db.migrate({ dryRun: true });
+        assert.strictEqual(result.toVersion, LATEST_SCHEMA_VERSION);
+        assert.ok(result.applied.some(m => m.name === 'iso_dates' && m.backfilledRows === 2));
+        assert.strictEqual(db.getSchemaVersion(), 0);
+        assert.strictEqual(db.getPendingMigrations().length, LATEST_SCHEMA_VERSION);
+      }
+    },
+    {
+      name: 'Backup copies the database file',
+      run: () => {
+        const backupPath = db.backup();
+        assert.ok(fs.existsSync(backupPath));
+        assert.ok(path.basename(backupPath).startsWith('legacy-v0-'));
+      }
+    },
+    {
+      name: 'Migrate reaches the latest version',
+      run: () => {
+        const result = db.migrate();
+        assert.strictEqual(result.fromVersion, 0);
+        assert.strictEqual(db.getSchemaVersion(), LATEST_SCHEMA_VERSION);
+        assert.strictEqual(db.getPendingMigrations().length, 0);
+      }
+    },
+    {
+      name: 'Backfilled year, ISO date and full-text index',
+      run: () => {
+        const result = db.search({ query: 'מקדם', fromDate: '2024-01-01' });
+        assert.deepStrictEqual(
+          result.decisions.map(d => [d.id, d.year, d.decisionDateIso]),
+          [['a', '2024', '2024-03-15']]
+        );
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Test: test_migrate_in_background
+ * Verifies initialize() migrates a large database in batches, letting the
+ * event loop run, and ends with the same backfills
+ */
+async function test_migrate_in_background(): Promise<void> {
+  console.log('Running: test_migrate_in_background()');
+  let passed = 0;
+  let failed = 0;
+
+  const dbPath = path.join(TEMP_DIR, 'large.db');
+  await createLegacyDatabase(dbPath, 1200);
+
+  // Count event loop turns while the migrations run
+  let turns = 0;
+  let migrating = true;
+  const tick = () => {
+    if (!migrating) return;
+    turns++;
+    setImmediate(tick);
+  };
+  setImmediate(tick);
+
+  const started: string[] = [];
+  const db = new DecisionDatabase(dbPath);
+  await db.initialize({ onMigration: migration => started.push(migration.name) });
+  migrating = false;
+
+  const cases: Array<{ name: string; run: () => void }> = [
+    {
+      name: 'Every migration is reported as it starts',
+      run: () => {
+        assert.strictEqual(started.length, LATEST_SCHEMA_VERSION);
+        assert.strictEqual(db.getSchemaVersion(), LATEST_SCHEMA_VERSION);
+      }
+    },
+    {
+      name: 'The event loop runs between backfill batches',
+      // Three batched backfills over 1202 decisions, 500 per batch
+      run: () => assert.ok(turns >= 9, `${turns} turns`)
+    },
+    {
+      name: 'Full-text index, passages and parcels cover the last batch',
+      run: () => {
+        // x1198 is on plot 1199
+        assert.deepStrictEqual(db.search({ query: 'ערר 1199' }).decisions.map(d => d.id).sort(), ['x1198', 'x1199']);
+        assert.ok(db.searchPassages({ query: 'מקדם דחייה', decisionIds: ['x1199'] }).length > 0);
+        assert.deepStrictEqual(db.getDecisionParcels('x1199').map(p => [p.block, p.plots?.from]), [[6638, 1200]]);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Schema Migration Unit Tests =====\n');
+
+  try {
+    await test_migrate_legacy_database();
+    console.log('');
+    await test_migrate_in_background();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
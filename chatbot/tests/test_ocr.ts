@@ -0,0 +1,134 @@
+/**
+ * Unit Tests - OCR of Scanned Decisions
+ * Tesseract TSV parsing, per-page confidence storage and the extraction method in pdf_cache
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_ocr.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { parseTesseractTsv } from '../../mcp-server/src/ocr.js';
+import { joinPages } from '../../mcp-server/src/pdf-layout.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-ocr-'));
+
+const TSV_HEADER = 'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+
+/**
+ * One TSV word row (level 5) of the given line
+ */
+function word(block: number, line: number, num: number, conf: number, text: string): string {
+  return ['5', '1', block, '1', line, num, '100', '100', '50', '20', conf, text].join('\t');
+}
+
+const TSV = [
+  TSV_HEADER,
+  '1\t1\t0\t0\t0\t0\t0\t0\t2480\t3508\t-1\t',
+  '4\t1\t1\t1\t1\t0\t100\t100\t800\t20\t-1\t',
+  word(1, 1, 1, 96, 'הכרעת'),
+  word(1, 1, 2, 91, 'שמאי'),
+  word(1, 1, 3, 88, 'מכריע'),
+  word(1, 2, 1, 75, 'גוש'),
+  word(1, 2, 2, -1, ' '),
+  word(1, 2, 3, 70, '6628'),
+  ''
+].join('\n');
+
+/**
+ * Test: test_ocr
+ * Verifies TSV parsing and OCR metadata storage
+ */
+async function test_ocr(): Promise<void> {
+  console.log('Running: test_ocr()');
+  let passed = 0;
+  let failed = 0;
+
+  const dbPath = path.join(TEMP_DIR, 'decisions.db');
+  const db = new DecisionDatabase(dbPath);
+  await db.initialize();
+
+  const cases: Array<{ name: string; run: () => void | Promise<void> }> = [
+    {
+      name: 'Words are joined per line with the mean word confidence',
+      run: () => {
+        assert.deepStrictEqual(parseTesseractTsv(TSV), { text: 'הכרעת שמאי מכריע\nגוש 6628', confidence: 84 });
+      }
+    },
+    {
+      name: 'Output without words is empty with zero confidence',
+      run: () => assert.deepStrictEqual(parseTesseractTsv(TSV_HEADER + '\n'), { text: '', confidence: 0 })
+    },
+    {
+      name: 'Page confidence is stored with the pages',
+      run: () => {
+        db.insertDecisions([{
+          id: 'scan', database: 'decisive_appraiser', title: 'היטל השבחה', url: 'https://www.gov.il/scan.pdf',
+          block: null, plot: null, committee: null, appraiser: null, caseType: null, decisionDate: null,
+          year: null, publishDate: null, contentHash: 'h1', pdfText: null
+        }]);
+        assert.deepStrictEqual(db.getDecisionsWithoutPdfText().map(d => [d.id, d.extractionStatus]), [['scan', null]]);
+
+        const pages = [
+          { pageNumber: 1, text: 'הכרעת שמאי מכריע', lines: [], ocrConfidence: 84 },
+          { pageNumber: 2, text: '', lines: [], ocrConfidence: 0 }
+        ];
+        assert.ok(db.savePdfText('scan', joinPages(pages.map(page => page.text))));
+        assert.ok(db.savePdfPages('scan', pages));
+        assert.deepStrictEqual(db.getPdfPages('scan'), pages);
+        assert.deepStrictEqual(db.getDecisionsWithoutPdfText(), []);
+      }
+    },
+    {
+      name: 'Extraction method is recorded and kept on later status updates',
+      run: () => {
+        assert.ok(db.recordPdfCache('scan', '/cache/scan.pdf', 1024, 'hash', 'pending'));
+        assert.strictEqual(db.getPdfCacheEntry('scan')?.extractionMethod, null);
+
+        assert.ok(db.updatePdfCacheStatus('scan', 'extracted', 'ocr'));
+        assert.ok(db.updatePdfCacheStatus('scan', 'extracted'));
+        const entry = db.getPdfCacheEntry('scan');
+        assert.deepStrictEqual([entry?.extractionStatus, entry?.extractionMethod], ['extracted', 'ocr']);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== OCR Unit Tests =====\n');
+
+  try {
+    await test_ocr();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit Tests - Structured Parameter Extraction
+ * Rule-based extraction from decision text and the decision_parameters table
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_parameter_extractor.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { extractParameters, extractParametersBatch } from '../../mcp-server/src/parameter-extractor.js';
+import { ExtractedParameter } from '../../mcp-server/src/types.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-parameters-'));
+
+const DECISION_TEXT = `
+הכרעת שמאי מכריע בעניין היטל השבחה. המקרקעין מצויים בשכונת רמת אביב,
+ייעוד הקרקע: מגורים לפי תכנית מס' תא/ 2650/ב ו-תמ"א 38.
+לאחר בחינת הנתונים נקבע מקדם גודל 0.85 ומקדם הדחייה 0.9.
+שווי למ"ר נטו 22 ,500 ₪. שווי הקרקע לדונם 3,200,000 ₪.
+דמי סחירות למ"ר 150 ₪, שיעור ריבונות 40%.
+ההחלטה ניתנה ביום 2.4.2003.
+`;
+
+/**
+ * Find the extracted parameters of one type
+ */
+function ofType(results: ExtractedParameter[], type: string): ExtractedParameter[] {
+  return results.filter(r => r.param_type === type);
+}
+
+/**
+ * Test: test_parameter_extraction
+ * Verifies extracted values, subtypes and units, and storage round-trips
+ */
+async function test_parameter_extraction(): Promise<void> {
+  console.log('Running: test_parameter_extraction()');
+  let passed = 0;
+  let failed = 0;
+
+  const results = await extractParameters(DECISION_TEXT, 'p1', { committee: 'תל אביב-יפו' });
+
+  const dbPath = path.join(TEMP_DIR, 'decisions.db');
+  const db = new DecisionDatabase(dbPath);
+  await db.initialize();
+  db.insertDecisions([{
+    id: 'p1', database: 'decisive_appraiser', title: 'היטל השבחה', url: null, block: '6628', plot: '12',
+    committee: 'תל אביב-יפו', appraiser: 'שמאי', caseType: 'היטל השבחה', decisionDate: '02-04-2003',
+    year: '2003', publishDate: null, contentHash: 'h1', pdfText: null
+  }]);
+  db.updatePdfText('p1', DECISION_TEXT);
+
+  const cases: Array<{ name: string; run: () => void | Promise<void> }> = [
+    {
+      name: 'Coefficients with subtypes',
+      run: () => assert.deepStrictEqual(
+        ofType(results, 'coefficient').filter(r => r.param_subtype).map(r => [r.param_subtype, r.value_numeric]),
+        [['גודל', 0.85], ['דחייה', 0.9]]
+      )
+    },
+    {
+      name: 'Date fragments are not coefficients',
+      run: () => assert.ok(!results.some(r => r.value_numeric === 2.4))
+    },
+    {
+      name: 'Price per meter with subtype and spaced thousands',
+      run: () => {
+        const [price] = ofType(results, 'price_per_meter');
+        assert.deepStrictEqual([price.param_subtype, price.value_numeric, price.unit], ['נטו', 22500, '₪/מ"ר']);
+      }
+    },
+    {
+      name: 'Land value, tradability fee and sovereignty rate',
+      run: () => {
+        assert.strictEqual(ofType(results, 'land_value')[0]?.value_numeric, 3200000);
+        assert.strictEqual(ofType(results, 'tradability_fee')[0]?.value_numeric, 150);
+        assert.deepStrictEqual(
+          ofType(results, 'sovereignty_rate').map(r => [r.value_numeric, r.unit]),
+          [[40, '%']]
+        );
+      }
+    },
+    {
+      name: 'Text parameters',
+      run: () => {
+        assert.deepStrictEqual(ofType(results, 'land_use').map(r => r.value_text), ['מגורים']);
+        assert.deepStrictEqual(ofType(results, 'neighborhood').map(r => r.value_text), ['רמת אביב']);
+        assert.deepStrictEqual(ofType(results, 'building_plan').map(r => r.value_text), ['תא/2650/ב', 'תמ"א 38']);
+        assert.deepStrictEqual(ofType(results, 'city').map(r => [r.value_text, r.extraction_method]), [['תל אביב-יפו', 'metadata']]);
+      }
+    },
+    {
+      name: 'Extraction is deterministic',
+      run: async () => {
+        const batch = await extractParametersBatch([
+          { id: 'p1', text: DECISION_TEXT, committee: 'תל אביב-יפו' },
+          { id: 'p2', text: null }
+        ]);
+        assert.deepStrictEqual(batch.get('p1'), results);
+        assert.deepStrictEqual(batch.get('p2'), []);
+      }
+    },
+    {
+      name: 'Stored parameters are searchable and replace earlier runs',
+      run: () => {
+        assert.deepStrictEqual(db.getUnextractedDecisionIds(), ['p1']);
+        db.insertParameters('p1', results);
+        assert.strictEqual(db.insertParameters('p1', results), results.length);
+        assert.strictEqual(db.getParametersForDecision('p1').length, results.length);
+
+        const { rows, totalCount } = db.searchByParameters({
+          param_type: 'coefficient', param_subtype: 'דחי', value_min: 0.88, committee: 'תל אביב'
+        });
+        assert.strictEqual(totalCount, 1);
+        assert.deepStrictEqual([rows[0].id, rows[0].value_numeric, rows[0].block], ['p1', 0.9, '6628']);
+      }
+    },
+    {
+      name: 'Extraction progress',
+      run: () => {
+        const stats = db.getParameterExtractionStats();
+        assert.deepStrictEqual(
+          [stats.totalDecisions, stats.extracted, stats.pending, stats.totalParameters],
+          [1, 1, 0, results.length]
+        );
+        assert.deepStrictEqual(db.getUnextractedDecisionIds(), []);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Parameter Extraction Unit Tests =====\n');
+
+  try {
+    await test_parameter_extraction();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
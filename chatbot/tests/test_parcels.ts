@@ -0,0 +1,144 @@
+/**
+ * Unit Tests - Parcels
+ * Parsing of parcel lists, ranges, partial plots, sub-plots and lots, and
+ * searches matching any parcel of a decision
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_parcels.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { formatParcel, parseParcels } from '../../mcp-server/src/parcel-parser.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-parcels-'));
+
+function decision(id: string, title: string, block: string | null = null, plot: string | null = null) {
+  return {
+    id, database: 'decisive_appraiser' as const, title, url: null, block, plot,
+    committee: null, appraiser: null, caseType: null, decisionDate: null, year: '2024',
+    publishDate: null, contentHash: `h-${id}`, pdfText: null
+  };
+}
+
+/**
+ * Test: test_parcels
+ * Verifies the parcel parser and parcel searches
+ */
+async function test_parcels(): Promise<void> {
+  console.log('Running: test_parcels()');
+  let passed = 0;
+  let failed = 0;
+
+  const db = new DecisionDatabase(path.join(TEMP_DIR, 'decisions.db'));
+  await db.initialize();
+  db.insertDecisions([
+    decision('a', 'היטל השבחה גוש 6214 חלקות 353-357, 401', '6214', '353'),
+    decision('b', 'פיצויים גוש 6214 חלקה 5, גוש 6215 חלקה 3'),
+    decision('c', 'הכרעת שמאי מכריע מיום 01-02-2024 בעניין היטל השבחה נ ועדה מקומית נתניה ג 7000 ח 12 - יוסי כהן'),
+    decision('d', 'היטל השבחה', '8000', '1')
+  ]);
+
+  const cases: Array<{ name: string; run: () => void }> = [
+    {
+      name: 'Lists, ranges, partial plots, sub-plots and lots are parsed',
+      run: () => {
+        const parsed = (text: string, abbreviations = false) =>
+          parseParcels(text, { abbreviations }).map(formatParcel);
+        assert.deepStrictEqual(parsed('גוש 6214 חלקות 353-357, 401 ו-403'), ['6214/353-357', '6214/401', '6214/403']);
+        assert.deepStrictEqual(parsed('גוש 6214 חלק מחלקה 12 וחלקה 13 תת חלקה 2'), ['חלק מ-6214/12', '6214/13/2']);
+        assert.deepStrictEqual(parsed('חלקה 12 בגוש 6214, בגוש 6215 חלקה 3'), ['6214/12', '6215/3']);
+        assert.deepStrictEqual(parsed('גושים 6214, 6215 מגרשים 101-103'), ['6214', '6215 מגרש 101-103']);
+        assert.deepStrictEqual(parsed('ג 6214 ח 353'), []);
+        assert.deepStrictEqual(parsed('ג 6214 ח 353', true), ['6214/353']);
+        // A lone abbreviated block is a list item, not a parcel
+        assert.deepStrictEqual(parsed('סעיף ג 3 לתוספת', true), []);
+      }
+    },
+    {
+      name: 'Ranges written with "עד" or "ל-", and sub-plots after a slash',
+      run: () => {
+        const parsed = (text: string) => parseParcels(text).map(formatParcel);
+        assert.deepStrictEqual(parsed('גוש 6214 חלקות 353 עד 357'), ['6214/353-357']);
+        assert.deepStrictEqual(parsed('גוש 6214 חלקות 353 ל-357 ו-401'), ['6214/353-357', '6214/401']);
+        assert.deepStrictEqual(parsed('גוש 6214 חלקה 353/2'), ['6214/353/2']);
+        assert.deepStrictEqual(parseParcels('גוש 6214 חלקות 12/3, 14')[0], {
+          block: 6214, plots: { from: 12, to: 12 }, subPlot: 3, lots: null, partial: false
+        });
+        assert.deepStrictEqual(parsed('גוש 6214 חלקות 12/3, 14'), ['6214/12/3', '6214/14']);
+      }
+    },
+    {
+      name: 'A plot inside a range or later in the list matches',
+      run: () => {
+        const ids = (params: Parameters<DecisionDatabase['search']>[0]) =>
+          db.search(params).decisions.map(d => d.id).sort();
+        assert.deepStrictEqual(ids({ block: '6214', plot: '355' }), ['a']);
+        assert.deepStrictEqual(ids({ block: '6214', plot: '401' }), ['a']);
+        assert.deepStrictEqual(ids({ block: '6214' }), ['a', 'b']);
+        assert.deepStrictEqual(ids({ block: '6214', plot: '358' }), []);
+        assert.deepStrictEqual(ids({ plotRange: { from: 400, to: 410 } }), ['a']);
+        assert.deepStrictEqual(ids({ blockRange: { from: 6215, to: 7000 } }), ['b', 'c']);
+      }
+    },
+    {
+      name: 'Block and plot must belong to the same parcel',
+      run: () => {
+        const ids = (block: string, plot: string) => db.search({ block, plot }).decisions.map(d => d.id);
+        assert.deepStrictEqual(ids('6215', '3'), ['b']);
+        assert.deepStrictEqual(ids('6215', '5'), []);
+        assert.deepStrictEqual(ids('8000', '1'), ['d']);
+      }
+    },
+    {
+      name: 'Parcels named in the PDF heading are added',
+      run: () => {
+        db.updatePdfText('d', 'הנכס: גוש 8000 חלקה 1 ומגרש 204 בגוש 8001\f\nעסקת השוואה: גוש 9000 חלקה 7');
+        assert.deepStrictEqual(db.getDecisionParcels('d').map(p => [formatParcel(p), p.source]), [
+          ['8000/1', 'pdf'], ['8001 מגרש 204', 'pdf']
+        ]);
+        assert.deepStrictEqual(db.search({ lot: '204' }).decisions.map(d => d.id), ['d']);
+        assert.deepStrictEqual(db.search({ block: '9000' }).decisions, []);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Parcel Unit Tests =====\n');
+
+  try {
+    await test_parcels();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
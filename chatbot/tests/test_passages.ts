@@ -0,0 +1,157 @@
+/**
+ * Unit Tests - Decision Passages
+ * Section-aware splitting, page ranges, keeping passages in step with pdf_text,
+ * passage search and the migration backfill
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_passages.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { MIGRATIONS, runBackfill } from '../../mcp-server/src/migrations.js';
+import { PASSAGE_MAX_CHARS, splitPassages } from '../../mcp-server/src/passage-chunker.js';
+import { joinPages } from '../../mcp-server/src/pdf-layout.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-passages-'));
+
+// Three pages: background, the applicant's claims, and a ruling that runs onto page 3
+const DECISION_TEXT = joinPages([
+  'החלטת שמאי מכריע\nגוש 6638 חלקה 96\n\nרקע עובדתי על הנכס והתכנית.\n\n' +
+    '1. טענות שמאי המבקש:\nגובה פנים הדירה חריג ולכן יש להפחית את השווי.\n',
+  'טענות שמאי הוועדה\nאין מקום להפחתה בשל גובה פנים.\n\n' +
+    '2. הכרעה\n' + 'שקלתי את טענות הצדדים לגבי שווי הקרקע. '.repeat(30),
+  'לאור האמור, גובה פנים הדירה מצדיק מקדם של 0.95.\n'
+]);
+
+function decision(id: string, title: string, committee: string) {
+  return {
+    id, database: 'decisive_appraiser' as const, title, url: null, block: null, plot: null,
+    committee, appraiser: null, caseType: null, decisionDate: null, year: null,
+    publishDate: null, contentHash: `h-${id}`, pdfText: null
+  };
+}
+
+/**
+ * Test: test_passages
+ * Verifies section types, page ranges, rebuilds on text changes and search
+ */
+async function test_passages(): Promise<void> {
+  console.log('Running: test_passages()');
+  let passed = 0;
+  let failed = 0;
+
+  const db = new DecisionDatabase(path.join(TEMP_DIR, 'decisions.db'));
+  await db.initialize();
+  db.insertDecisions([
+    decision('tlv', 'היטל השבחה', 'תל אביב'),
+    decision('haifa', 'היטל השבחה', 'חיפה')
+  ]);
+
+  const cases: Array<{ name: string; run: () => void }> = [
+    {
+      name: 'Passages follow section headers and carry their pages',
+      run: () => {
+        const passages = splitPassages(DECISION_TEXT);
+        assert.deepStrictEqual(
+          [...new Set(passages.map(p => p.sectionType))],
+          ['preamble', 'partyA', 'partyB', 'ruling']
+        );
+        const claims = passages.find(p => p.sectionType === 'partyA')!;
+        assert.strictEqual(claims.sectionTitle, 'טענות שמאי המבקש');
+        assert.ok(claims.text.startsWith('1. טענות שמאי המבקש:'));
+        assert.deepStrictEqual([claims.pageStart, claims.pageEnd], [1, 1]);
+
+        const ruling = passages.filter(p => p.sectionType === 'ruling');
+        assert.ok(ruling.length > 1 && ruling.every(p => p.text.length <= PASSAGE_MAX_CHARS));
+        assert.deepStrictEqual([ruling[0].pageStart, ruling[ruling.length - 1].pageEnd], [2, 3]);
+        assert.ok(passages.every(p => !p.text.includes('\f')));
+        assert.strictEqual(DECISION_TEXT.slice(claims.charStart, claims.charEnd).trim(), claims.text);
+      }
+    },
+    {
+      name: 'Passages are rebuilt with the text and removed with the decision',
+      run: () => {
+        db.savePdfText('tlv', DECISION_TEXT);
+        assert.deepStrictEqual(db.getPassages('tlv'), splitPassages(DECISION_TEXT));
+
+        db.savePdfText('tlv', joinPages(['הכרעה\nהערעור נדחה.\n']));
+        assert.deepStrictEqual(db.getPassages('tlv').map(p => [p.sectionType, p.text]), [['ruling', 'הכרעה\nהערעור נדחה.']]);
+
+        db.insertDecision(decision('tlv', 'היטל השבחה', 'תל אביב'));
+        assert.deepStrictEqual(db.getPassages('tlv'), []);
+      }
+    },
+    {
+      name: 'Search returns the best passage per decision with its location',
+      run: () => {
+        db.savePdfText('tlv', DECISION_TEXT);
+        db.savePdfText('haifa', DECISION_TEXT);
+
+        const all = db.searchPassages({ query: 'גובה פנים', limit: 10 });
+        assert.strictEqual(all.length, 6);
+        const best = db.searchPassages({ query: 'גובה פנים', perDecision: 1 });
+        assert.deepStrictEqual(best.map(p => p.decisionId).sort(), ['haifa', 'tlv']);
+
+        const ruling = db.searchPassages({ query: 'גובה פנים', sectionType: 'ruling', committee: 'חיפה' });
+        assert.strictEqual(ruling.length, 1);
+        assert.strictEqual(ruling[0].decisionId, 'haifa');
+        assert.strictEqual(ruling[0].pageEnd, 3);
+        assert.ok(ruling[0].snippet.includes('[גובה] [פנים]'));
+        assert.deepStrictEqual(db.getPassage('haifa', ruling[0].index)?.text, ruling[0].text);
+      }
+    },
+    {
+      name: 'Migration backfills passages for existing text',
+      run: () => {
+        const storage = (db as any).db;
+        storage.run(`DELETE FROM decision_passages`);
+        assert.deepStrictEqual(db.searchPassages({ query: 'גובה' }), []);
+
+        const migration = MIGRATIONS.find(m => m.name === 'decision_passages')!;
+        assert.strictEqual(runBackfill(storage, migration), 2);
+        assert.strictEqual(db.getPassages('haifa').length, splitPassages(DECISION_TEXT).length);
+        assert.strictEqual(db.searchPassages({ query: 'גובה', perDecision: 1 }).length, 2);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Decision Passages Unit Tests =====\n');
+
+  try {
+    await test_passages();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
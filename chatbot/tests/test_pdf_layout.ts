@@ -0,0 +1,144 @@
+/**
+ * Unit Tests - PDF Page Layout
+ * Line/column reconstruction, page boundaries in pdf_text and the pdf_pages table
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_pdf_layout.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import {
+  buildLines,
+  countPages,
+  joinPages,
+  linesToText,
+  pageAtOffset,
+  pageStartOffset,
+  PositionedTextItem
+} from '../../mcp-server/src/pdf-layout.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-pdf-layout-'));
+
+function item(text: string, x: number, y: number, width: number): PositionedTextItem {
+  return { text, x, y, width, height: 10, page: 1 };
+}
+
+// Items in content stream order, not reading order
+const PAGE_ITEMS: PositionedTextItem[] = [
+  item('Page 2 of 3', 260, 40, 60),
+  item('הכרעת', 460, 700, 40),
+  item('שמאי מכריע', 380, 701, 75),
+  item('מחיר למ"ר', 300, 650, 50),
+  item('כתובת', 450, 650, 40)
+];
+
+const PAGES = ['עמוד ראשון', 'נקבע מקדם דחייה 0.9', 'סוף ההחלטה'];
+
+/**
+ * Test: test_pdf_layout
+ * Verifies reading order, page offsets and page storage
+ */
+async function test_pdf_layout(): Promise<void> {
+  console.log('Running: test_pdf_layout()');
+  let passed = 0;
+  let failed = 0;
+
+  const lines = buildLines(PAGE_ITEMS);
+  const pdfText = joinPages(PAGES);
+
+  const dbPath = path.join(TEMP_DIR, 'decisions.db');
+  const db = new DecisionDatabase(dbPath);
+  await db.initialize();
+
+  const cases: Array<{ name: string; run: () => void | Promise<void> }> = [
+    {
+      name: 'Lines top to bottom, Hebrew cells right to left',
+      run: () => {
+        assert.deepStrictEqual(
+          lines.map(line => line.cells.map(cell => cell.text)),
+          [['הכרעת שמאי מכריע'], ['כתובת', 'מחיר למ"ר'], ['Page 2 of 3']]
+        );
+        assert.strictEqual(linesToText(lines), 'הכרעת שמאי מכריע\nכתובת מחיר למ"ר\nPage 2 of 3');
+      }
+    },
+    {
+      name: 'Cells keep their horizontal extent',
+      run: () => assert.deepStrictEqual([lines[1].cells[0].left, lines[1].cells[0].right], [450, 490])
+    },
+    {
+      name: 'Offsets map to real pages',
+      run: () => {
+        assert.strictEqual(countPages(pdfText), 3);
+        assert.strictEqual(pageAtOffset(pdfText, pdfText.indexOf('מקדם')), 2);
+        assert.strictEqual(pageAtOffset(pdfText, pdfText.indexOf('סוף')), 3);
+        assert.strictEqual(pageStartOffset(pdfText, 2), pdfText.indexOf('נקבע'));
+        assert.strictEqual(pageStartOffset(pdfText, 4), null);
+      }
+    },
+    {
+      name: 'Text without page boundaries has no real pages',
+      run: () => {
+        assert.strictEqual(pageAtOffset(PAGES.join(' '), 15), null);
+        assert.strictEqual(countPages(PAGES.join(' ')), null);
+      }
+    },
+    {
+      name: 'Pages are stored alongside pdf_text and replaced on re-extraction',
+      run: () => {
+        db.insertDecisions([{
+          id: 'd1', database: 'decisive_appraiser', title: 'היטל השבחה', url: null, block: null, plot: null,
+          committee: null, appraiser: null, caseType: null, decisionDate: null, year: null, publishDate: null,
+          contentHash: 'h1', pdfText: null
+        }]);
+        const pages = PAGES.map((text, i) => ({ pageNumber: i + 1, text, lines: i === 1 ? lines : [] }));
+        assert.ok(db.savePdfText('d1', pdfText));
+        assert.ok(db.savePdfPages('d1', pages));
+        assert.ok(db.savePdfPages('d1', pages));
+
+        assert.strictEqual(db.getCachedPdfText('d1'), pdfText);
+        assert.deepStrictEqual(db.getPdfPages('d1'), pages);
+        assert.deepStrictEqual(db.getPdfPages('missing'), []);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== PDF Page Layout Unit Tests =====\n');
+
+  try {
+    await test_pdf_layout();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit Tests - Query Understanding
+ * Slots and confidences read from free Hebrew questions, date and value
+ * comparators, the filters built from them and block ranges in search
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_query_understanding.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { parseQuery, toParameterFilter, toSearchParams } from '../../mcp-server/src/query-understanding.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-query-'));
+
+function decision(id: string, block: string | null) {
+  return {
+    id, database: 'decisive_appraiser' as const, title: `היטל השבחה ${id}`, url: null, block, plot: null,
+    committee: 'ועדה מקומית נתניה', appraiser: null, caseType: null, decisionDate: null, year: '2024',
+    publishDate: null, contentHash: `h-${id}`, pdfText: null
+  };
+}
+
+/**
+ * Test: test_query_understanding
+ * Verifies parsing and the search filters built from it
+ */
+async function test_query_understanding(): Promise<void> {
+  console.log('Running: test_query_understanding()');
+  let passed = 0;
+  let failed = 0;
+
+  const db = new DecisionDatabase(path.join(TEMP_DIR, 'decisions.db'));
+  await db.initialize();
+  db.insertDecisions([decision('a', '6001'), decision('b', '6010'), decision('c', '6011'), decision('d', 'לא ידוע')]);
+
+  const cases: Array<{ name: string; run: () => void }> = [
+    {
+      name: 'A question is read into slots with confidences',
+      run: () => {
+        const parsed = parseQuery('מקדם דחייה מעל 0.9 בנתניה בין 2020 ל-2023 שמאי מכריע');
+        assert.strictEqual(parsed.text, 'מקדם דחייה');
+        assert.deepStrictEqual(parsed.parameter?.value, { param_type: 'coefficient', param_subtype: 'דחייה' });
+        assert.deepStrictEqual(parsed.value?.value, { min: 0.9 });
+        assert.deepStrictEqual(parsed.dateRange?.value, { from: '2020-01-01', to: '2023-12-31' });
+        assert.deepStrictEqual([parsed.database?.value, parsed.database?.confidence], ['decisive_appraiser', 0.95]);
+        assert.deepStrictEqual([parsed.committee?.value, parsed.committee?.matched], ['נתניה', 'בנתניה']);
+        assert.ok(parsed.committee!.confidence < parseQuery('נתניה').committee!.confidence);
+      }
+    },
+    {
+      name: 'Dates: open bounds, Hebrew months and prefixed Hebrew years',
+      run: () => {
+        assert.deepStrictEqual(parseQuery('היטל השבחה אחרי 2020').dateRange?.value, { from: '2021-01-01', to: '2099-12-31' });
+        assert.deepStrictEqual(parseQuery('החלטות מאז 2020 ולפני 2023').dateRange?.value, { from: '2020-01-01', to: '2022-12-31' });
+        assert.deepStrictEqual(parseQuery('החלטות מניסן תשפ"ד').dateRange?.value, { from: '2024-04-09', to: '2024-05-08' });
+
+        const hebrewYear = parseQuery('שווי קרקע בתשפ"ד');
+        assert.deepStrictEqual([hebrewYear.year?.value, hebrewYear.text], ['תשפ"ד', 'שווי קרקע']);
+
+        // A comparator is a value, not a year
+        const price = parseQuery('מחיר למ"ר מעל 2000');
+        assert.deepStrictEqual([price.value?.value, price.year, price.dateRange], [{ min: 2000 }, null, null]);
+      }
+    },
+    {
+      name: 'Connecting words around the filters are not left in the text',
+      run: () => {
+        const parsed = parseQuery('החלטות בשנת תשפ"ד ברמת גן');
+        assert.deepStrictEqual([parsed.year?.value, parsed.committee?.value, parsed.text], ['תשפ"ד', 'רמת גן', '']);
+        assert.strictEqual(toSearchParams(parsed).query, undefined);
+
+        assert.strictEqual(parseQuery('החלטות של היטל השבחה בגוש 6638 עד 2020').text, 'היטל השבחה');
+      }
+    },
+    {
+      name: 'A number with a unit is an amount, not a year',
+      run: () => {
+        const price = parseQuery('מחיר 2000 ש"ח למ"ר בנתניה');
+        assert.deepStrictEqual([price.year, price.dateRange, price.committee?.value], [null, null, 'נתניה']);
+        assert.strictEqual(toSearchParams(price).year, undefined);
+
+        const area = parseQuery('שווי קרקע 1950 מ"ר');
+        assert.deepStrictEqual([area.year, area.dateRange], [null, null]);
+        assert.strictEqual(toSearchParams(area).year, undefined);
+
+        for (const query of ['דמי סחירות 2010 ₪', 'שטח 1999 דונם', 'שיעור 2000%', 'עסקאות אחרי 2005 מ"ר']) {
+          assert.deepStrictEqual([parseQuery(query).year, parseQuery(query).dateRange], [null, null], query);
+        }
+
+        // A year next to a unit elsewhere in the question is still a year
+        assert.strictEqual(parseQuery('מחיר למ"ר בנתניה 2024').year?.value, '2024');
+      }
+    },
+    {
+      name: 'Only confident slots become filters',
+      run: () => {
+        const parsed = parseQuery('ערר על היטל השבחה גושים 6001-6010 בין 0.8 ל-0.9', { committees: ['ועדה מקומית רעננה'] });
+        assert.deepStrictEqual([parsed.database?.value, parsed.database?.confidence], ['appeals_board', 0.5]);
+        assert.deepStrictEqual(parsed.caseType?.value, 'היטל השבחה');
+        assert.deepStrictEqual(toSearchParams(parsed), {
+          query: 'ערר על היטל השבחה',
+          blockRange: { from: 6001, to: 6010 }
+        });
+        assert.strictEqual(toParameterFilter(parsed), null);
+
+        assert.deepStrictEqual(toParameterFilter(parseQuery('מקדמי גודל עד 0.85 ברעננה', { committees: ['ועדה מקומית רעננה'] })), {
+          param_type: 'coefficient', param_subtype: 'גודל', value_max: 0.85, committee: 'רעננה'
+        });
+      }
+    },
+    {
+      name: 'Search filters by a block range',
+      run: () => {
+        const result = db.search(toSearchParams(parseQuery('גושים 6001-6010 בנתניה')));
+        assert.deepStrictEqual(result.decisions.map(d => d.id).sort(), ['a', 'b']);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Query Understanding Unit Tests =====\n');
+
+  try {
+    await test_query_understanding();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit Tests - Search Re-ranking
+ * Heuristic scoring, the top-N window, score caching and the fallback to the
+ * original order on timeout or error
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_reranker.ts
+ */
+
+import assert from 'node:assert';
+import { HeuristicScorer, RerankCandidate, Reranker, RerankScorer } from '../../mcp-server/src/reranker.js';
+
+const CANDIDATES: RerankCandidate[] = [
+  { id: 'parking', title: 'כופר חניה | תל אביב', text: 'הוועדה דרשה כופר חניה עבור שני מקומות.' },
+  { id: 'height-far', title: 'היטל השבחה | תל אביב', text: 'נטען כי הגובה חריג. בעניין הפנים של הדירה לא נטען דבר.' },
+  { id: 'height', title: 'היטל השבחה | נתניה', text: 'נקבע מקדם גובה פנים הדירה של 0.95 בשל גובה חריג.' }
+];
+
+/**
+ * Scores by a fixed table and counts the candidates it was asked about
+ */
+function tableScorer(scores: Record<string, number>, delayMs = 0): RerankScorer & { scored: string[] } {
+  const scored: string[] = [];
+  return {
+    name: 'heuristic',
+    scored,
+    async score(_query, candidates) {
+      scored.push(...candidates.map(candidate => candidate.id));
+      if (delayMs) await new Promise(resolve => setTimeout(resolve, delayMs));
+      return candidates.map(candidate => scores[candidate.id] ?? 0);
+    }
+  };
+}
+
+/**
+ * Test: test_reranker
+ * Verifies ordering, caching and fallbacks
+ */
+async function test_reranker(): Promise<void> {
+  console.log('Running: test_reranker()');
+  let passed = 0;
+  let failed = 0;
+
+  const cases: Array<{ name: string; run: () => Promise<void> }> = [
+    {
+      name: 'Heuristic prefers the candidate with the query terms together',
+      run: async () => {
+        const reranker = new Reranker(new HeuristicScorer());
+        const result = await reranker.rerank('מקדם גובה פנים דירה', CANDIDATES, candidate => candidate);
+        assert.deepStrictEqual(result.items.map(c => c.id), ['height', 'height-far', 'parking']);
+        assert.strictEqual(result.info.status, 'reranked');
+        assert.ok(result.scores[0]! > result.scores[1]! && result.scores[2] === 0);
+      }
+    },
+    {
+      name: 'Only the top N are re-ranked; the rest keep their place',
+      run: async () => {
+        const reranker = new Reranker(tableScorer({ parking: 0.1, 'height-far': 0.9 }), { topN: 2 });
+        const result = await reranker.rerank('גובה', CANDIDATES, candidate => candidate);
+        assert.deepStrictEqual(result.items.map(c => c.id), ['height-far', 'parking', 'height']);
+        assert.deepStrictEqual(result.scores, [0.9, 0.1, null]);
+      }
+    },
+    {
+      name: 'Scores are cached per query and candidate',
+      run: async () => {
+        const scorer = tableScorer({ height: 1 });
+        const reranker = new Reranker(scorer);
+        await reranker.rerank('גובה פנים', CANDIDATES, candidate => candidate);
+        const again = await reranker.rerank('  גובה   פנים ', CANDIDATES.slice(1), candidate => candidate);
+        assert.strictEqual(again.info.cached, 2);
+        await reranker.rerank('כופר חניה', CANDIDATES.slice(0, 1), candidate => candidate);
+        assert.deepStrictEqual(scorer.scored, ['parking', 'height-far', 'height', 'parking']);
+      }
+    },
+    {
+      name: 'A slow or failing scorer leaves the original order',
+      run: async () => {
+        const slow = tableScorer({ height: 1 }, 200);
+        const timedOut = await new Reranker(slow, { timeoutMs: 20 }).rerank('גובה', CANDIDATES, candidate => candidate);
+        assert.deepStrictEqual(timedOut.items, CANDIDATES);
+        assert.deepStrictEqual([timedOut.info.status, timedOut.scores], ['timeout', [null, null, null]]);
+
+        const failing: RerankScorer = { name: 'anthropic', score: async () => { throw new Error('overloaded'); } };
+        const errored = await new Reranker(failing).rerank('גובה', CANDIDATES, candidate => candidate);
+        assert.deepStrictEqual(errored.items, CANDIDATES);
+        assert.deepStrictEqual([errored.info.status, errored.info.error], ['error', 'overloaded']);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Re-ranking Unit Tests =====\n');
+
+  await test_reranker();
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit Tests - Selector Learning
+ * Learning primary selectors from indexed decisions after a listing page
+ * redesign, and the versioned selector configs with activation and rollback
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_selector_learner.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { closeDatabase, getDatabase } from '../../mcp-server/src/database.js';
+import { closeHttpCassette, installHttpCassette } from '../../mcp-server/src/http-cassette.js';
+import { createIndexer } from '../../mcp-server/src/indexer.js';
+import { createScraper } from '../../mcp-server/src/scraper.js';
+import { learnSelectors, mergeSelectors } from '../../mcp-server/src/selector-learner.js';
+import { startStandIns } from '../../mcp-server/src/stand-ins.js';
+import { createTransport } from '../../mcp-server/src/transport.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-selectors-'));
+const FIXTURES_DIR = path.join(TEMP_DIR, 'fixtures');
+const LISTING_FIXTURE = path.join(FIXTURES_DIR, 'govil', 'decisive_appraisal_decisions', 'skip-0.html');
+
+// No rate limiting against the stand-ins
+const transport = createTransport({ ratePerSecond: 1000, burst: 100 });
+
+const PDF_BASE = 'https://www.gov.il/BlobFolder/dynamiccollectorresultitem';
+
+const DECISIONS = [
+  { title: 'הכרעת שמאי מכריע מיום 01-02-2024 בעניין היטל השבחה נ ועדה מקומית נתניה ג 7000 ח 12 - יוסי כהן', pdf: `${PDF_BASE}/44349/he/044349.pdf`, date: '10.02.2024' },
+  { title: 'הכרעת שמאי מכריע מיום 15-03-2023 בעניין פיצויים נ ועדה מקומית חיפה ג 6214 ח 353 - דנה לוי', pdf: `${PDF_BASE}/50346/he/050346.pdf`, date: '20.03.2023' },
+  { title: 'הכרעת שמאי מכריע מיום 05-06-2024 בעניין היטל השבחה נ ועדה מקומית רעננה ג 6580 ח 40 - משה פרץ', pdf: `${PDF_BASE}/61001/he/061001.pdf`, date: '12.06.2024' },
+  { title: 'הכרעת שמאי מכריע מיום 20-07-2024 בעניין ירידת ערך נ ועדה מקומית הרצליה ג 6525 ח 7 - רונית בר', pdf: `${PDF_BASE}/61002/he/061002.pdf`, date: '28.07.2024' }
+];
+
+// The listing page as the built-in selectors know it
+function originalPage(count: number): string {
+  return `<html><body>${DECISIONS.slice(0, count).map(d => `
+  <div class="dynamic-card">
+    <h3 class="txt bold">${d.title}</h3>
+    <a href="${d.pdf}">הורדה</a>
+    <bdi class="ng-binding">${d.date}</bdi>
+  </div>`).join('')}
+</body></html>`;
+}
+
+// The same listing after a redesign: new markup and class names throughout
+function redesignedPage(count: number): string {
+  return `<html><body>
+  <nav class="site-menu"><span class="menu-entry">ראשי</span><span class="menu-entry">מאגרים</span></nav>
+  <section class="results-grid">${DECISIONS.slice(0, count).map(d => `
+    <article class="decision-tile" data-result>
+      <p class="tile-heading"><span>${d.title}</span></p>
+      <footer class="tile-meta">
+        <time class="tile-when">${d.date}</time>
+        <a class="tile-file" href="${d.pdf}">קובץ</a>
+      </footer>
+    </article>`).join('')}
+  </section>
+</body></html>`;
+}
+
+/**
+ * Test: test_selector_learner
+ * Verifies learning and the selector config history
+ */
+async function test_selector_learner(): Promise<void> {
+  console.log('Running: test_selector_learner()');
+  let passed = 0;
+  let failed = 0;
+
+  const db = await getDatabase(path.join(TEMP_DIR, 'decisions.db'));
+  const anchors = DECISIONS.slice(0, 2).map(d => ({ title: d.title, url: d.pdf }));
+
+  const cases: Array<{ name: string; run: () => Promise<void> }> = [
+    {
+      name: 'Selectors are learned from indexed decisions in a redesigned page',
+      run: async () => {
+        const learned = learnSelectors(redesignedPage(4), anchors);
+        assert.ok(learned);
+        assert.deepStrictEqual(learned.selectors, {
+          container: ['article.decision-tile'],
+          title: ['p.tile-heading'],
+          pdfLink: ['a[href*="www.gov.il"]'],
+          date: ['time.tile-when']
+        });
+        assert.deepStrictEqual([learned.anchors, learned.itemCount], [2, 4]);
+        assert.deepStrictEqual(mergeSelectors(learned.selectors, { container: ['div.dynamic-card'], title: ['p.tile-heading'], pdfLink: [], date: [] }).title, ['p.tile-heading']);
+      }
+    },
+    {
+      name: 'Learning fails without enough located decisions',
+      run: async () => {
+        assert.strictEqual(learnSelectors(redesignedPage(4), anchors.slice(0, 1)), null);
+        assert.strictEqual(learnSelectors(redesignedPage(4), [{ title: 'הכרעה שאינה באתר', url: null }, { title: 'הכרעה אחרת שאינה באתר', url: null }]), null);
+        // Both decisions in one container: no item structure to learn from
+        const merged = `<html><body><div class="x"><p>${DECISIONS[0].title}</p><p>${DECISIONS[1].title}</p></div></body></html>`;
+        assert.strictEqual(learnSelectors(merged, anchors), null);
+      }
+    },
+    {
+      name: 'The scraper learns when the primary selectors fail and keeps the learned ones',
+      run: async () => {
+        const scraper = createScraper('test', { transport });
+        const learnedFor: string[] = [];
+        scraper.setSelectorAnchorProvider(() => anchors);
+        scraper.setSelectorsLearnedHandler((_, database) => learnedFor.push(database));
+
+        const decisions = scraper.parseDecisions(redesignedPage(4), 'decisive_appraiser');
+        assert.strictEqual(scraper.getLastStrategyUsed(), 'css_primary');
+        assert.deepStrictEqual(decisions.map(d => d.url), DECISIONS.map(d => d.pdf));
+        assert.deepStrictEqual(learnedFor, ['decisive_appraiser']);
+        assert.strictEqual(scraper.getPrimarySelectors().container[0], 'article.decision-tile');
+
+        // The built-in selectors still apply to the old layout
+        assert.strictEqual(scraper.parseDecisions(originalPage(2), 'decisive_appraiser').length, 2);
+        scraper.setPrimarySelectors(null);
+        assert.strictEqual(scraper.getPrimarySelectors().container[0], 'div.dynamic-card');
+      }
+    },
+    {
+      name: 'The indexer stores learned selectors and indexes the redesigned page',
+      run: async () => {
+        fs.mkdirSync(path.dirname(LISTING_FIXTURE), { recursive: true });
+        const standIns = await startStandIns({ fixturesDir: FIXTURES_DIR });
+        installHttpCassette({ standInUrl: standIns.url });
+        try {
+          fs.writeFileSync(LISTING_FIXTURE, originalPage(2));
+          const first = createIndexer({ scraperApiKey: 'test', source: 'html', transport, delayMs: 1, embed: false, maxPages: 3 });
+          await first.initialize();
+          assert.strictEqual(await first.indexDatabase('decisive_appraiser'), 2);
+
+          fs.writeFileSync(LISTING_FIXTURE, redesignedPage(4));
+          const second = createIndexer({ scraperApiKey: 'test', source: 'html', transport, delayMs: 1, embed: false, maxPages: 3 });
+          await second.initialize();
+          assert.strictEqual(await second.indexDatabase('decisive_appraiser'), 2);
+        } finally {
+          closeHttpCassette();
+          await standIns.close();
+        }
+
+        assert.deepStrictEqual(db.search({ block: '6525' }).decisions.map(d => d.url), [DECISIONS[3].pdf]);
+        const active = db.getActiveSelectorConfig();
+        assert.ok(active);
+        assert.deepStrictEqual([active.version, active.source, active.database, active.anchors, active.itemCount], [1, 'learned', 'decisive_appraiser', 2, 4]);
+        assert.strictEqual(active.selectors.title[0], 'p.tile-heading');
+      }
+    },
+    {
+      name: 'Selector configs keep their history and roll back',
+      run: async () => {
+        const manual = db.saveSelectorConfig({
+          selectors: { container: ['div.card'], title: ['h2'], pdfLink: [], date: [] },
+          source: 'manual',
+          database: null,
+          anchors: 0,
+          itemCount: 0
+        });
+        assert.strictEqual(manual.version, 2);
+        assert.deepStrictEqual(db.getSelectorConfigHistory().map(c => [c.version, c.active]), [[2, true], [1, false]]);
+
+        assert.strictEqual(db.rollbackSelectorConfig()?.version, 1);
+        assert.strictEqual(db.getActiveSelectorConfig()?.version, 1);
+        assert.strictEqual(db.rollbackSelectorConfig(), null);
+        assert.strictEqual(db.getActiveSelectorConfig(), null);
+
+        assert.strictEqual(db.activateSelectorConfig(2)?.selectors.container[0], 'div.card');
+        assert.throws(() => db.activateSelectorConfig(99), /Unknown selector config version: 99/);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  closeDatabase();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Selector Learning Unit Tests =====\n');
+
+  try {
+    await test_selector_learner();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit Tests - Comparison Transaction Extraction
+ * Table reconstruction from positioned PDF text items and the comparison_transactions table
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_transaction_extractor.ts
+ */
+
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionDatabase } from '../../mcp-server/src/database.js';
+import { PositionedTextItem } from '../../mcp-server/src/pdf-layout.js';
+import { extractTransactionsFromItems } from '../../mcp-server/src/transaction-extractor.js';
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'govil-transactions-'));
+
+// Right-to-left column positions (x of each cell's left edge)
+const COLUMN_X = [450, 370, 290, 220, 140, 60];
+
+/**
+ * One table row: cells listed right to left, as read
+ */
+function row(page: number, y: number, cells: string[]): PositionedTextItem[] {
+  return cells.map((text, i) => ({ text, x: COLUMN_X[i], y, width: 40, height: 10, page }));
+}
+
+const HEADER = ['כתובת', 'גוש/חלקה', 'תאריך', 'שטח מ"ר', 'מחיר', 'מחיר למ"ר'];
+
+const DECISION_A: PositionedTextItem[] = [
+  { text: 'להלן עסקאות ההשוואה שנבחנו:', x: 300, y: 740, width: 190, height: 10, page: 2 },
+  ...row(2, 700, HEADER),
+  ...row(2, 680, ['הרצל 10', '6628/12', '15/03/2021', '100', '2,500,000', '25,000']),
+  ...row(2, 660, ['ויצמן 4', '6630/7', '06/2022', '80', '1.6 מיליון', '']),
+  { text: 'עמוד 2 מתוך 5', x: 250, y: 40, width: 60, height: 10, page: 2 },
+  // Header repeated on the next page
+  ...row(3, 700, HEADER),
+  ...row(3, 680, ['סוקולוב 1', '6640/3', '01/11/2019', '120', '2,160,000', '18,000']),
+  { text: 'לאחר בחינת העסקאות ועריכת ההתאמות הנדרשות, השווי נקבע כמפורט להלן.', x: 60, y: 640, width: 430, height: 10, page: 3 },
+  { text: 'מקדם גודל 0.9 ומקדם דחייה 0.85.', x: 300, y: 620, width: 190, height: 10, page: 3 },
+  { text: 'אין בכך כדי לשנות מהמסקנה.', x: 300, y: 600, width: 190, height: 10, page: 3 },
+  // Past the end of the table: a look-alike row in a later list is not a transaction
+  ...row(3, 580, ['ז\'בוטינסקי 2', '6650/1', '2020', '50', '900,000', '18,000'])
+];
+
+// The same deal cited by a second decision, with the address spelled differently
+const DECISION_B: PositionedTextItem[] = [
+  ...row(1, 500, HEADER),
+  ...row(1, 480, ['רח\' הרצל 10, חולון', '6628 / 12', '15.03.2021', '100', '2,500,000 ₪', '25,000 ₪'])
+];
+
+/**
+ * Test: test_transaction_extraction
+ * Verifies table reconstruction, normalization, deduplication and search
+ */
+async function test_transaction_extraction(): Promise<void> {
+  console.log('Running: test_transaction_extraction()');
+  let passed = 0;
+  let failed = 0;
+
+  const transactionsA = extractTransactionsFromItems(DECISION_A);
+  const transactionsB = extractTransactionsFromItems(DECISION_B);
+
+  const dbPath = path.join(TEMP_DIR, 'decisions.db');
+  const db = new DecisionDatabase(dbPath);
+  await db.initialize();
+  db.insertDecisions(['a', 'b'].map(id => ({
+    id, database: 'decisive_appraiser' as const, title: `היטל השבחה ${id}`, url: null, block: null, plot: null,
+    committee: 'חולון', appraiser: 'שמאי', caseType: 'היטל השבחה', decisionDate: '01-01-2023',
+    year: '2023', publishDate: null, contentHash: `h-${id}`, pdfText: null
+  })));
+
+  const cases: Array<{ name: string; run: () => void | Promise<void> }> = [
+    {
+      name: 'Rows are mapped to header columns across pages',
+      run: () => {
+        assert.deepStrictEqual(
+          transactionsA.map(t => [t.address, t.block, t.plot, t.transactionDate, t.page]),
+          [
+            ['הרצל 10', '6628', '12', '2021-03-15', 2],
+            ['ויצמן 4', '6630', '7', '2022-06', 2],
+            ['סוקולוב 1', '6640', '3', '2019-11-01', 3]
+          ]
+        );
+      }
+    },
+    {
+      name: 'Numbers are normalized and price per m² is computed when missing',
+      run: () => {
+        assert.deepStrictEqual(
+          transactionsA.map(t => [t.areaSqm, t.price, t.pricePerSqm]),
+          [[100, 2500000, 25000], [80, 1600000, 20000], [120, 2160000, 18000]]
+        );
+      }
+    },
+    {
+      name: 'The table ends after non-transaction rows',
+      run: () => assert.strictEqual(transactionsA.length, 3)
+    },
+    {
+      name: 'Text without a header yields no transactions',
+      run: () => assert.deepStrictEqual(extractTransactionsFromItems(row(1, 500, HEADER.slice(0, 2))), [])
+    },
+    {
+      name: 'The same deal cited by two decisions is stored once',
+      run: () => {
+        assert.deepStrictEqual(db.getUnextractedTransactionDecisions().map(d => d.id), ['a', 'b']);
+        assert.strictEqual(db.insertComparisonTransactions('a', transactionsA.map(t => ({ ...t, city: 'חולון' }))), 3);
+        assert.strictEqual(db.insertComparisonTransactions('b', transactionsB), 1);
+        assert.deepStrictEqual(db.getUnextractedTransactionDecisions(), []);
+
+        const { transactions, totalCount } = db.searchComparisonTransactions({ block: '6628' });
+        assert.strictEqual(totalCount, 1);
+        assert.deepStrictEqual([transactions[0].city, transactions[0].citedBy.sort()], ['חולון', ['a', 'b']]);
+      }
+    },
+    {
+      name: 'Search by city, date range and price',
+      run: () => {
+        const byDate = db.searchComparisonTransactions({ city: 'חולון', fromDate: '2021', toDate: '2022-06-30' });
+        assert.deepStrictEqual(byDate.transactions.map(t => t.address), ['ויצמן 4', 'הרצל 10']);
+
+        const byPrice = db.searchComparisonTransactions({ pricePerSqmMax: 20000 });
+        assert.deepStrictEqual(byPrice.transactions.map(t => t.address), ['ויצמן 4', 'סוקולוב 1']);
+
+        assert.throws(() => db.searchComparisonTransactions({ fromDate: 'not a date' }), /Invalid fromDate/);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  db.close();
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Comparison Transaction Extraction Unit Tests =====\n');
+
+  try {
+    await test_transaction_extraction();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,238 @@
+/**
+ * Unit Tests - Fetch Transport
+ * Retries with backoff, per-host rate limiting, the circuit breaker, proxy
+ * rotation and per-backend metrics, against local stand-in servers
+ *
+ * Run with: cd mcp-server && node --import tsx ../chatbot/tests/test_transport.ts
+ */
+
+import assert from 'node:assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ScraperApiBackend, createTransport } from '../../mcp-server/src/transport.js';
+
+interface StandIn {
+  url: string;
+  hits: string[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Local server answering each request with the next status in `statuses`
+ * (the last one repeats); `proxy` also records absolute-URI request targets
+ */
+async function startStandIn(statuses: number[], headers: Record<string, string> = {}): Promise<StandIn> {
+  const hits: string[] = [];
+  const server = http.createServer((req, res) => {
+    const status = statuses[Math.min(hits.length, statuses.length - 1)];
+    hits.push(req.url || '');
+    res.writeHead(status, { 'Content-Type': 'text/plain', ...headers });
+    res.end(`status ${status}`);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    hits,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+const FAST = { ratePerSecond: 1000, burst: 100, baseDelayMs: 5, maxDelayMs: 20 };
+
+/**
+ * Test: test_transport
+ * Verifies the transport against stand-in servers
+ */
+async function test_transport(): Promise<void> {
+  console.log('Running: test_transport()');
+  let passed = 0;
+  let failed = 0;
+
+  const cases: Array<{ name: string; run: () => Promise<void> }> = [
+    {
+      name: '5xx and 429 are retried with backoff; other statuses are returned as is',
+      run: async () => {
+        const flaky = await startStandIn([503, 429, 200]);
+        const missing = await startStandIn([404]);
+        try {
+          const transport = createTransport({ ...FAST, backends: ['direct'] });
+          const response = await transport.fetch({ url: `${flaky.url}/page` });
+          assert.deepStrictEqual([response.status, await response.text(), flaky.hits.length], [200, 'status 200', 3]);
+
+          assert.strictEqual((await transport.fetch({ url: `${missing.url}/gone` })).status, 404);
+          assert.strictEqual(missing.hits.length, 1);
+
+          const [direct] = transport.getBackendMetrics();
+          assert.deepStrictEqual(
+            [direct.backend, direct.requests, direct.successes, direct.failures, direct.retries, direct.rateLimited, direct.circuit],
+            ['direct', 4, 2, 2, 2, 1, 'closed']
+          );
+        } finally {
+          await flaky.close();
+          await missing.close();
+        }
+      }
+    },
+    {
+      name: 'Retries give up with the last response',
+      run: async () => {
+        const down = await startStandIn([502]);
+        try {
+          const transport = createTransport({ ...FAST, backends: ['direct'], maxRetries: 2 });
+          assert.strictEqual((await transport.fetch({ url: down.url })).status, 502);
+          assert.strictEqual(down.hits.length, 3);
+        } finally {
+          await down.close();
+        }
+      }
+    },
+    {
+      name: 'Requests to one host are rate limited',
+      run: async () => {
+        const server = await startStandIn([200]);
+        try {
+          const transport = createTransport({ backends: ['direct'], ratePerSecond: 20, burst: 1 });
+          const start = Date.now();
+          await Promise.all([1, 2, 3].map(() => transport.fetch({ url: server.url }).then(r => r.text())));
+          // One token at once, then one per 50ms
+          assert.ok(Date.now() - start >= 90, `took ${Date.now() - start}ms`);
+        } finally {
+          await server.close();
+        }
+      }
+    },
+    {
+      name: 'A failing backend is paused and the next one serves',
+      run: async () => {
+        const target = await startStandIn([200]);
+        const proxy = await startStandIn([200]);
+        try {
+          const transport = createTransport({
+            ...FAST,
+            backends: ['scraperapi', 'proxy'],
+            proxies: [proxy.url],
+            maxRetries: 2,
+            breakerFailures: 2,
+            breakerCooldownMs: 60000,
+            custom: {
+              scraperapi: { name: 'scraperapi', send: async () => { throw new Error('socket hang up'); } }
+            }
+          });
+
+          const response = await transport.fetch({ url: `${target.url}/decision.pdf` });
+          assert.strictEqual(response.status, 200);
+          // The proxy got the absolute-URI request; the target was not contacted directly
+          assert.deepStrictEqual([proxy.hits, target.hits], [[`${target.url}/decision.pdf`], []]);
+
+          // Each request's retries count as one failure: the second failed request pauses it
+          assert.strictEqual(transport.getBackendMetrics()[0].circuit, 'closed');
+          await transport.fetch({ url: `${target.url}/other.pdf` });
+          const metrics = transport.getBackendMetrics();
+          assert.deepStrictEqual(metrics.map(m => [m.backend, m.circuit, m.failures, m.circuitOpens]), [
+            ['scraperapi', 'open', 6, 1],
+            ['proxy', 'closed', 0, 0]
+          ]);
+          assert.match(metrics[0].lastError!, /socket hang up/);
+
+          // While paused the backend is skipped
+          await transport.fetch({ url: `${target.url}/next` });
+          assert.strictEqual(transport.getBackendMetrics()[0].requests, 6);
+        } finally {
+          await target.close();
+          await proxy.close();
+        }
+      }
+    },
+    {
+      name: 'A 4xx does not reset the breaker, and a paused backend gets one probe',
+      run: async () => {
+        const statuses = [503, 404, 503];
+        let release: () => void = () => {};
+        const slow = new Promise<void>(resolve => { release = resolve; });
+        let sent = 0;
+        const transport = createTransport({
+          ...FAST,
+          backends: ['direct'],
+          maxRetries: 0,
+          breakerFailures: 2,
+          breakerCooldownMs: 20,
+          custom: {
+            direct: {
+              name: 'direct',
+              send: async () => {
+                sent++;
+                const status = statuses.shift();
+                if (status === undefined) await slow;
+                return new Response(null, { status: status ?? 200 });
+              }
+            }
+          }
+        });
+
+        for (const expected of [503, 404, 503]) {
+          assert.strictEqual((await transport.fetch({ url: 'http://gov.il/page' })).status, expected);
+        }
+        assert.deepStrictEqual(transport.getBackendMetrics().map(m => [m.circuit, m.circuitOpens]), [['open', 1]]);
+
+        // After the cooldown one request probes; the others are refused until it answers
+        await new Promise(resolve => setTimeout(resolve, 30));
+        const probe = transport.fetch({ url: 'http://gov.il/probe' });
+        await assert.rejects(transport.fetch({ url: 'http://gov.il/other' }), /paused/);
+        release();
+        assert.strictEqual((await probe).status, 200);
+        assert.strictEqual(sent, 4);
+        assert.strictEqual(transport.getBackendMetrics()[0].circuit, 'closed');
+      }
+    },
+    {
+      name: 'ScraperAPI requests carry the key and render options',
+      run: async () => {
+        const backend = new ScraperApiBackend('env-key');
+        const url = new URL(backend.buildUrl({
+          url: 'https://www.gov.il/he/departments/dynamiccollectors/decisive_appraisal_decisions?skip=10',
+          apiKey: 'key', render: true, ultraPremium: true, waitForMs: 5000
+        }));
+        assert.deepStrictEqual(Object.fromEntries(url.searchParams), {
+          api_key: 'key',
+          url: 'https://www.gov.il/he/departments/dynamiccollectors/decisive_appraisal_decisions?skip=10',
+          render: 'true',
+          ultra_premium: 'true',
+          wait_for: '5000'
+        });
+        assert.strictEqual(new ScraperApiBackend('').unavailable({ url: 'https://www.gov.il' })?.includes('SCRAPER_API_KEY'), true);
+      }
+    }
+  ];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`  ✓ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`  ✗ ${testCase.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function runTests(): Promise<void> {
+  console.log('===== Fetch Transport Unit Tests =====\n');
+
+  await test_transport();
+
+  console.log('\n✓ All tests passed!');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,130 @@
+#!/usr/bin/env tsx
+/**
+ * Alerts Script
+ * Runs the index health checks (stale databases, ScraperAPI credits) and sends
+ * what they find to the alert sinks (src/alerts.ts), tests the sinks, or lists
+ * logged alerts. Meant for cron or n8n next to the daily update:
+ *
+ *   ALERT_SINKS=stdout,webhook ALERT_WEBHOOK_URL=https://... npm run alerts -- --check
+ *
+ * Usage:
+ *   npx tsx scripts/alerts.ts [--history]
+ *
+ * Options:
+ *   --history         List logged alerts, newest first (default)
+ *   --check           Run the checks and send what they find
+ *   --test            Send a test alert to every configured sink
+ *   --stale-days=N    Days without new decisions before a database is stale (default: ALERT_STALE_DAYS or 7)
+ *   --limit=N         Alerts to list (default: 20)
+ *   --db=PATH         Database file (default: ~/.gov-il-mcp/decisions.db)
+ */
+
+import { DecisionDatabase } from '../src/database.js';
+import { Alert } from '../src/types.js';
+import { installHttpCassette } from '../src/http-cassette.js';
+import { closeAlertNotifier, createAlertSinksFromEnv, formatAlert, getAlertNotifier, runAlertChecks } from '../src/alerts.js';
+
+// Parse command line arguments
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    check: false,
+    test: false,
+    staleDays: undefined as number | undefined,
+    limit: 20,
+    dbPath: undefined as string | undefined
+  };
+
+  for (const arg of args) {
+    if (arg === '--check') {
+      options.check = true;
+    } else if (arg === '--test') {
+      options.test = true;
+    } else if (arg.startsWith('--stale-days=')) {
+      options.staleDays = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--limit=')) {
+      options.limit = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--db=')) {
+      options.dbPath = arg.split('=')[1];
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs();
+  installHttpCassette();
+
+  // Banners go to stderr: the stdout sink writes JSON lines for n8n
+  console.error('='.repeat(60));
+  console.error('Gov.il Decision Alerts');
+  console.error('='.repeat(60));
+
+  const sinks = createAlertSinksFromEnv();
+  console.error(`Sinks: ${sinks.map(sink => sink.name).join(', ')}`);
+
+  if (options.test) {
+    const alert: Alert = {
+      type: 'test',
+      severity: 'warning',
+      key: 'test',
+      title: 'Test alert',
+      message: 'A test alert from scripts/alerts.ts. If you can read this, the sink works.',
+      database: null,
+      details: {},
+      timestamp: new Date().toISOString()
+    };
+    let failed = 0;
+    for (const sink of sinks) {
+      try {
+        await sink.send(alert);
+        console.error(`  ✓ ${sink.name}`);
+      } catch (error) {
+        failed++;
+        console.error(`  ✗ ${sink.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    if (failed > 0) process.exit(1);
+    return;
+  }
+
+  const db = new DecisionDatabase(options.dbPath);
+  await db.initialize();
+
+  try {
+    if (options.check) {
+      const notifier = getAlertNotifier();
+      notifier.setDatabase(db);
+      const deliveries = await runAlertChecks(notifier, db, {
+        staleDays: options.staleDays,
+        scraperApiKey: process.env.SCRAPER_API_KEY || undefined
+      });
+      console.error(`\nChecks found ${deliveries.length} problems`);
+      for (const delivery of deliveries) {
+        console.error(`  ${delivery.status.padEnd(10)} ${formatAlert(delivery.alert)}${delivery.errors.length ? ` (${delivery.errors.join('; ')})` : ''}`);
+      }
+      return;
+    }
+
+    const alerts = db.getRecentAlerts(options.limit);
+    console.error(`Database: ${db.getDbPath()}`);
+    console.error('='.repeat(60));
+    if (alerts.length === 0) {
+      console.error('\nNo alerts logged');
+      return;
+    }
+    for (const alert of alerts) {
+      console.error(`\n${alert.timestamp} ${formatAlert(alert)} - ${alert.status}${alert.sinks.length ? ` (${alert.sinks.join(', ')})` : ''}`);
+      console.error(`    ${alert.message}`);
+    }
+  } finally {
+    await closeAlertNotifier();
+    db.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -9,10 +9,19 @@
  * Options:
  *   --pages=N         Number of recent pages to check per database (default: 5)
  *   --delay=N         Delay in ms between requests (default: 1000)
+ *   --source=NAME     Listing source: html (ScraperAPI), api (gov.il JSON endpoint, no
+ *                     SCRAPER_API_KEY needed) or auto (api, falling back to html)
+ *                     (default: INDEX_SOURCE or html)
+ *
+ * Afterwards, stale databases and ScraperAPI credits are checked and reported
+ * to the alert sinks (ALERT_SINKS, src/alerts.ts).
  */
 
-import { createIndexer } from '../src/indexer.js';
+import { createIndexer, resolveIndexSource } from '../src/indexer.js';
 import { getDatabase, closeDatabase } from '../src/database.js';
+import { closeTransport } from '../src/transport.js';
+import { closeAlertNotifier, getAlertNotifier, runAlertChecks } from '../src/alerts.js';
+import { installHttpCassette } from '../src/http-cassette.js';
 import { DATABASE_CONFIG, DatabaseType } from '../src/types.js';
 
 // Parse command line arguments
@@ -20,7 +29,8 @@ function parseArgs() {
   const args = process.argv.slice(2);
   const options = {
     pages: 5,
-    delay: 1000
+    delay: 1000,
+    source: resolveIndexSource()
   };
 
   for (const arg of args) {
@@ -28,6 +38,8 @@ function parseArgs() {
       options.pages = parseInt(arg.split('=')[1], 10);
     } else if (arg.startsWith('--delay=')) {
       options.delay = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--source=')) {
+      options.source = resolveIndexSource(arg.split('=')[1]);
     }
   }
 
@@ -35,23 +47,24 @@ function parseArgs() {
 }
 
 async function main() {
-  const apiKey = process.env.SCRAPER_API_KEY;
+  const options = parseArgs();
+  installHttpCassette();
+  const apiKey = process.env.SCRAPER_API_KEY || '';
 
-  if (!apiKey) {
-    console.error('Error: SCRAPER_API_KEY environment variable is required');
+  if (!apiKey && options.source !== 'api') {
+    console.error('Error: SCRAPER_API_KEY environment variable is required (or --source=api)');
     console.error('');
     console.error('PowerShell usage:');
     console.error('  $env:SCRAPER_API_KEY="your_key"; npx tsx scripts/daily-update.ts');
     process.exit(1);
   }
-
-  const options = parseArgs();
   const timestamp = new Date().toISOString();
 
   console.log('='.repeat(60));
   console.log(`Gov.il Daily Update - ${timestamp}`);
   console.log('='.repeat(60));
   console.log(`Checking ${options.pages} recent pages per database`);
+  console.log(`Listing source: ${options.source}`);
   console.log('='.repeat(60));
 
   // Initialize
@@ -65,6 +78,7 @@ async function main() {
   // Create indexer
   const indexer = createIndexer({
     scraperApiKey: apiKey,
+    source: options.source,
     delayMs: options.delay,
     continueOnError: true
   });
@@ -107,11 +121,19 @@ async function main() {
     };
     console.log('\nJSON Log:', JSON.stringify(logEntry));
 
+    // Stale databases and ScraperAPI credits
+    const alerts = await runAlertChecks(getAlertNotifier(), db, { scraperApiKey: apiKey || undefined });
+    for (const delivery of alerts) {
+      console.log(`Alert (${delivery.status}): ${delivery.alert.title}`);
+    }
+
   } catch (error) {
     console.error('\nError during update:', error);
     process.exit(1);
   } finally {
+    await closeAlertNotifier();
     closeDatabase();
+    await closeTransport();
   }
 }
 
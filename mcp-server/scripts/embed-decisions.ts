@@ -0,0 +1,105 @@
+#!/usr/bin/env tsx
+/**
+ * Embedding Script
+ * Embeds new and changed decisions with the local model into the vector store
+ * used by semantic_search (VECTOR_STORE, default: ~/.gov-il-mcp/embeddings.idx).
+ * Vectors of deleted or re-hashed decisions are removed first (see sync-vectors.ts).
+ *
+ * The first run downloads the model (~120 MB) into ~/.gov-il-mcp/models; later
+ * runs work offline and only embed decisions added or changed since.
+ *
+ * Usage:
+ *   npx tsx scripts/embed-decisions.ts
+ *
+ * Options:
+ *   --limit=N         Maximum number of decisions to embed (default: all pending)
+ *   --database=TYPE   Limit to specific database (decisive_appraiser, appeals_committee, appeals_board)
+ */
+
+import { getDatabase, closeDatabase } from '../src/database.js';
+import { getVectorStore, closeEmbeddingsStore } from '../src/embeddings-db.js';
+import { embedPendingDecisions } from '../src/embedding-job.js';
+import { installHttpCassette } from '../src/http-cassette.js';
+import { isLocalEmbeddingAvailable, LOCAL_EMBEDDING_MODEL } from '../src/embedding-model.js';
+import { DatabaseType } from '../src/types.js';
+
+// Parse command line arguments
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    limit: 0,  // 0 = all pending
+    database: undefined as DatabaseType | undefined
+  };
+
+  for (const arg of args) {
+    if (arg.startsWith('--limit=')) {
+      options.limit = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--database=')) {
+      const db = arg.split('=')[1];
+      if (['decisive_appraiser', 'appeals_committee', 'appeals_board'].includes(db)) {
+        options.database = db as DatabaseType;
+      } else {
+        console.error(`Invalid database: ${db}. Valid options: decisive_appraiser, appeals_committee, appeals_board`);
+        process.exit(1);
+      }
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs();
+  installHttpCassette();
+
+  console.log('='.repeat(60));
+  console.log('Local Embedding');
+  console.log('='.repeat(60));
+  console.log(`  Model: ${LOCAL_EMBEDDING_MODEL}`);
+  console.log(`  Limit: ${options.limit || 'all pending'}`);
+  console.log(`  Database: ${options.database || 'all'}`);
+  console.log('='.repeat(60));
+
+  if (!(await isLocalEmbeddingAvailable())) {
+    console.error('\nLocal embedding model could not be loaded.');
+    console.error('Install it with: npm install @huggingface/transformers');
+    process.exit(1);
+  }
+
+  const db = await getDatabase();
+  const store = getVectorStore();
+  if (store.kind === 'pinecone') {
+    console.error('\nThe Pinecone index is built by the Python indexer with OpenAI embeddings.');
+    console.error('Use VECTOR_STORE=local to embed with the local model, or npm run sync-vectors to clean up Pinecone.');
+    process.exit(1);
+  }
+
+  const startTime = Date.now();
+  const result = await embedPendingDecisions(db, store, {
+    limit: options.limit || undefined,
+    database: options.database,
+    onProgress: (done, total) => {
+      if (done % 50 === 0 || done === total) {
+        const rate = done / ((Date.now() - startTime) / 1000);
+        console.log(`[${done}/${total}] ${rate.toFixed(1)} decisions/sec`);
+      }
+    }
+  });
+
+  const stats = await store.stats();
+  const duration = Math.round((Date.now() - startTime) / 1000);
+  console.log('\n' + '='.repeat(60));
+  console.log(`Embedded: ${result.embedded} (${result.chunks} chunks), removed: ${result.removed}, still pending: ${result.pending} (${duration}s)`);
+  console.log(`Store (${store.kind}): ${stats.vectorCount} vectors, ${stats.dimensions ?? '?'} dimensions`);
+  console.log('='.repeat(60));
+
+  closeEmbeddingsStore();
+  closeDatabase();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  closeEmbeddingsStore();
+  closeDatabase();
+  process.exit(1);
+});
@@ -0,0 +1,124 @@
+#!/usr/bin/env tsx
+/**
+ * Comparison Transaction Extraction Script
+ * Reads the comparison transaction tables of cached decision PDFs into the
+ * comparison_transactions table (searched by search_comparison_transactions)
+ *
+ * Works offline on the PDF file cache - run scripts/prefetch-pdfs.ts first.
+ * Decisions whose PDF is not cached are left pending for a later run.
+ *
+ * Usage:
+ *   npx tsx scripts/extract-transactions.ts
+ *
+ * Options:
+ *   --limit=N         Maximum number of decisions to process (default: unlimited)
+ *   --database=TYPE   Limit to specific database (decisive_appraiser, appeals_committee, appeals_board)
+ *   --dry-run         Extract and print transactions without storing them
+ */
+
+import { getDatabase, closeDatabase } from '../src/database.js';
+import { getPdfCache } from '../src/pdf-cache.js';
+import { cityFromCommittee } from '../src/parameter-extractor.js';
+import { extractComparisonTransactions } from '../src/transaction-extractor.js';
+import { DatabaseType } from '../src/types.js';
+
+// Parse command line arguments
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    limit: 0,  // 0 = unlimited
+    database: undefined as DatabaseType | undefined,
+    dryRun: false
+  };
+
+  for (const arg of args) {
+    if (arg.startsWith('--limit=')) {
+      options.limit = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--database=')) {
+      const db = arg.split('=')[1];
+      if (['decisive_appraiser', 'appeals_committee', 'appeals_board'].includes(db)) {
+        options.database = db as DatabaseType;
+      } else {
+        console.error(`Invalid database: ${db}. Valid options: decisive_appraiser, appeals_committee, appeals_board`);
+        process.exit(1);
+      }
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs();
+
+  console.log('='.repeat(60));
+  console.log('Comparison Transaction Extraction');
+  console.log('='.repeat(60));
+  console.log(`  Limit: ${options.limit || 'unlimited'}`);
+  console.log(`  Database: ${options.database || 'all'}`);
+  console.log(`  Dry run: ${options.dryRun}`);
+  console.log('='.repeat(60));
+
+  const db = await getDatabase();
+  const pdfCache = getPdfCache();
+
+  const pending = db.getUnextractedTransactionDecisions(1000000, options.database)
+    .filter(d => pdfCache.isCached(d.id, d.database));
+  const decisions = options.limit ? pending.slice(0, options.limit) : pending;
+
+  console.log(`\nFound ${pending.length} cached PDFs not yet processed, processing ${decisions.length}\n`);
+
+  const startTime = Date.now();
+  let processed = 0;
+  let failed = 0;
+  let totalTransactions = 0;
+
+  for (let i = 0; i < decisions.length; i++) {
+    const decision = decisions[i];
+    const progress = `[${i + 1}/${decisions.length}]`;
+
+    try {
+      const buffer = await pdfCache.loadPdf(decision.id, decision.database);
+      if (!buffer) throw new Error('PDF missing from cache');
+
+      // Tables rarely repeat the city; the local committee's city is the default
+      const committeeCity = cityFromCommittee(decision.committee);
+      const transactions = (await extractComparisonTransactions(buffer))
+        .map(t => ({ ...t, city: t.city ?? committeeCity }));
+
+      if (options.dryRun) {
+        for (const t of transactions) {
+          console.log(`${progress} ${decision.id} p.${t.page}: ${[
+            t.address, t.city, t.block && `${t.block}/${t.plot ?? ''}`, t.transactionDate,
+            t.areaSqm && `${t.areaSqm} מ"ר`, t.price && `${t.price} ₪`, t.pricePerSqm && `${t.pricePerSqm} ₪/מ"ר`
+          ].filter(Boolean).join(' | ')}`);
+        }
+      } else {
+        const linked = db.insertComparisonTransactions(decision.id, transactions);
+        totalTransactions += linked;
+        if (linked > 0) console.log(`${progress} ${decision.id}: ${linked} transactions`);
+      }
+      processed++;
+    } catch (error) {
+      failed++;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error(`${progress} ✗ ${decision.id}: ${errorMsg}`);
+      if (!options.dryRun) db.setTransactionExtractionStatus(decision.id, 'failed', errorMsg);
+    }
+  }
+
+  const duration = Math.round((Date.now() - startTime) / 1000);
+  console.log('\n' + '='.repeat(60));
+  console.log(`Processed: ${processed}, failed: ${failed}, transactions linked: ${totalTransactions} (${duration}s)`);
+  console.log('='.repeat(60));
+
+  closeDatabase();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  closeDatabase();
+  process.exit(1);
+});
@@ -9,11 +9,17 @@
  * Options:
  *   --max-pages=N     Maximum pages to scrape per database (default: 1000)
  *   --delay=N         Delay in ms between requests (default: 1000)
+ *   --source=NAME     Listing source: html (ScraperAPI), api (gov.il JSON endpoint, no
+ *                     SCRAPER_API_KEY needed) or auto (api, falling back to html)
+ *                     (default: INDEX_SOURCE or html)
  *   --database=NAME   Only index specific database (decisive_appraiser, appeals_committee, appeals_board)
  */
 
-import { createIndexer } from '../src/indexer.js';
+import { createIndexer, resolveIndexSource } from '../src/indexer.js';
 import { getDatabase, closeDatabase } from '../src/database.js';
+import { closeTransport } from '../src/transport.js';
+import { closeAlertNotifier } from '../src/alerts.js';
+import { installHttpCassette } from '../src/http-cassette.js';
 import { DatabaseType, DATABASE_CONFIG } from '../src/types.js';
 
 // Parse command line arguments
@@ -22,6 +28,7 @@ function parseArgs() {
   const options = {
     maxPages: 1000,
     delay: 1000,
+    source: resolveIndexSource(),
     database: null as DatabaseType | null
   };
 
@@ -30,6 +37,8 @@ function parseArgs() {
       options.maxPages = parseInt(arg.split('=')[1], 10);
     } else if (arg.startsWith('--delay=')) {
       options.delay = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--source=')) {
+      options.source = resolveIndexSource(arg.split('=')[1]);
     } else if (arg.startsWith('--database=')) {
       options.database = arg.split('=')[1] as DatabaseType;
     }
@@ -39,10 +48,12 @@ function parseArgs() {
 }
 
 async function main() {
-  const apiKey = process.env.SCRAPER_API_KEY;
+  const options = parseArgs();
+  installHttpCassette();
+  const apiKey = process.env.SCRAPER_API_KEY || '';
 
-  if (!apiKey) {
-    console.error('Error: SCRAPER_API_KEY environment variable is required');
+  if (!apiKey && options.source !== 'api') {
+    console.error('Error: SCRAPER_API_KEY environment variable is required (or --source=api)');
     console.error('');
     console.error('PowerShell usage:');
     console.error('  $env:SCRAPER_API_KEY="your_key"; npx tsx scripts/index-all.ts');
@@ -52,13 +63,12 @@ async function main() {
     process.exit(1);
   }
 
-  const options = parseArgs();
-
   console.log('='.repeat(60));
   console.log('Gov.il Land Appraisal Full Index');
   console.log('='.repeat(60));
   console.log(`Max pages per database: ${options.maxPages}`);
   console.log(`Delay between requests: ${options.delay}ms`);
+  console.log(`Listing source: ${options.source}`);
   if (options.database) {
     console.log(`Database filter: ${options.database}`);
   }
@@ -71,6 +81,7 @@ async function main() {
   // Create indexer
   const indexer = createIndexer({
     scraperApiKey: apiKey,
+    source: options.source,
     maxPages: options.maxPages,
     delayMs: options.delay,
     continueOnError: true,
@@ -126,7 +137,9 @@ async function main() {
     console.error('\nFatal error during indexing:', error);
     process.exit(1);
   } finally {
+    await closeAlertNotifier();
     closeDatabase();
+    await closeTransport();
   }
 }
 
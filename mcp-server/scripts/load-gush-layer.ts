@@ -0,0 +1,93 @@
+#!/usr/bin/env tsx
+/**
+ * Gush Layer Loading Script
+ * Reads an offline gush (block) boundary dataset - GeoJSON or Shapefile - into
+ * the gush_locations table (centroid, locality and neighboring blocks per gush),
+ * used by search_near_block and search_neighboring_blocks
+ *
+ * Replaces the previously loaded layer. Coordinates may be WGS84 or ITM.
+ *
+ * Usage:
+ *   npx tsx scripts/load-gush-layer.ts --file=gushim.shp
+ *
+ * Options:
+ *   --file=PATH           Dataset (.geojson, .json or .shp with its .dbf)
+ *                         (default: GUSH_LAYER_PATH or ~/.gov-il-mcp/gush-layer.geojson)
+ *   --gush-field=NAME     Attribute holding the gush number (default: GUSH_NUM, GUSH, ...)
+ *   --locality-field=NAME Attribute holding the locality (default: LOCALITY_N, SETL_NAME, ...)
+ *   --dry-run             Read the dataset and print a summary without storing it
+ */
+
+import os from 'os';
+import path from 'path';
+import { getDatabase, closeDatabase } from '../src/database.js';
+import { loadGushLayer } from '../src/gush-layer.js';
+
+// Parse command line arguments
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    file: process.env.GUSH_LAYER_PATH || path.join(os.homedir(), '.gov-il-mcp', 'gush-layer.geojson'),
+    gushField: undefined as string | undefined,
+    localityField: undefined as string | undefined,
+    dryRun: false
+  };
+
+  for (const arg of args) {
+    if (arg.startsWith('--file=')) {
+      options.file = arg.slice('--file='.length);
+    } else if (arg.startsWith('--gush-field=')) {
+      options.gushField = arg.split('=')[1];
+    } else if (arg.startsWith('--locality-field=')) {
+      options.localityField = arg.split('=')[1];
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs();
+
+  console.log('='.repeat(60));
+  console.log('Gush Layer Loading');
+  console.log('='.repeat(60));
+  console.log(`  File: ${options.file}`);
+  console.log(`  Dry run: ${options.dryRun}`);
+  console.log('='.repeat(60));
+
+  const startTime = Date.now();
+  const locations = loadGushLayer(options.file, {
+    gushField: options.gushField,
+    localityField: options.localityField
+  });
+
+  const withLocality = locations.filter(l => l.locality).length;
+  const withNeighbors = locations.filter(l => l.neighbors.length > 0).length;
+  console.log(`\nRead ${locations.length} gushim (${withLocality} with a locality, ${withNeighbors} with neighbors)`);
+
+  if (options.dryRun) {
+    for (const location of locations.slice(0, 10)) {
+      console.log(`  ${location.gush}: ${location.locality ?? '-'} (${location.lat}, ${location.lon}) neighbors: ${location.neighbors.join(' ') || '-'}`);
+    }
+    return;
+  }
+
+  const db = await getDatabase();
+  const stored = db.replaceGushLocations(locations);
+
+  const duration = Math.round((Date.now() - startTime) / 1000);
+  console.log('\n' + '='.repeat(60));
+  console.log(`Stored: ${stored} gushim (${duration}s)`);
+  console.log('='.repeat(60));
+
+  closeDatabase();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  closeDatabase();
+  process.exit(1);
+});
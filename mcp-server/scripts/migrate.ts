@@ -0,0 +1,111 @@
+#!/usr/bin/env tsx
+/**
+ * Schema Migration Script
+ * Shows the schema version of the decisions database and applies pending migrations
+ *
+ * Usage:
+ *   npx tsx scripts/migrate.ts
+ *
+ * Options:
+ *   --status          Show current version and pending migrations, change nothing
+ *   --dry-run         Apply pending migrations in a rolled-back transaction and report
+ *   --no-backup       Skip the backup copy of the database file
+ *   --db=PATH         Database file (default: ~/.gov-il-mcp/decisions.db)
+ */
+
+import fs from 'fs';
+import { DecisionDatabase } from '../src/database.js';
+import { LATEST_SCHEMA_VERSION } from '../src/migrations.js';
+
+// Parse command line arguments
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    status: false,
+    dryRun: false,
+    backup: true,
+    dbPath: undefined as string | undefined
+  };
+
+  for (const arg of args) {
+    if (arg === '--status') {
+      options.status = true;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--no-backup') {
+      options.backup = false;
+    } else if (arg.startsWith('--db=')) {
+      options.dbPath = arg.split('=')[1];
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs();
+
+  const db = new DecisionDatabase(options.dbPath);
+  if (!fs.existsSync(db.getDbPath())) {
+    console.log(`Database not found: ${db.getDbPath()}`);
+    console.log('A new database is created at the latest schema version on first use.');
+    return;
+  }
+
+  await db.initialize({ migrate: false });
+
+  const currentVersion = db.getSchemaVersion();
+  const pending = db.getPendingMigrations();
+
+  console.log('='.repeat(60));
+  console.log('Gov.il Decisions Database Migrations');
+  console.log('='.repeat(60));
+  console.log(`Database: ${db.getDbPath()}`);
+  console.log(`Schema version: ${currentVersion} (latest: ${LATEST_SCHEMA_VERSION})`);
+  console.log(`Pending migrations: ${pending.length}`);
+  for (const migration of pending) {
+    console.log(`  - ${migration.version} ${migration.name}: ${migration.description}`);
+  }
+  console.log('='.repeat(60));
+
+  if (options.status || pending.length === 0) {
+    if (pending.length === 0) console.log('\nDatabase is up to date');
+    db.close();
+    return;
+  }
+
+  try {
+    if (options.dryRun) {
+      console.log('\nDry run - changes will be rolled back');
+    } else if (options.backup) {
+      const backupPath = db.backup();
+      console.log(`\nBackup: ${backupPath}`);
+    }
+
+    const startTime = Date.now();
+    const result = db.migrate({
+      dryRun: options.dryRun,
+      onProgress: (migration) => console.log(`\nApplying ${migration.version} ${migration.name}...`)
+    });
+
+    for (const migration of result.applied) {
+      console.log(`  ${migration.version} ${migration.name}: ${migration.backfilledRows} rows backfilled (${migration.durationMs}ms)`);
+    }
+
+    const duration = Math.round((Date.now() - startTime) / 1000);
+    console.log('\n' + '='.repeat(60));
+    console.log(options.dryRun
+      ? `Dry run complete: would migrate ${result.fromVersion} → ${result.toVersion}`
+      : `Migrated ${result.fromVersion} → ${result.toVersion} in ${duration}s`);
+    console.log('='.repeat(60));
+
+  } catch (error) {
+    console.error('\nMigration failed:', error instanceof Error ? error.message : error);
+    console.error('The database was left at its previous version.');
+    process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -15,11 +15,15 @@
  *   --database=TYPE   Limit to specific database (decisive_appraiser, appeals_committee, appeals_board)
  *   --skip-cached     Skip PDFs already in file cache (default: true)
  *   --dry-run         Show what would be downloaded without downloading
+ *   --ocr             Extract text from cached PDFs that have no pdf_text yet,
+ *                     OCRing scanned ones (requires tesseract with the heb model)
  */
 
 import { getDatabase, closeDatabase } from '../src/database.js';
 import { PdfCache, getPdfCache } from '../src/pdf-cache.js';
 import { createPdfExtractor } from '../src/pdf-extractor.js';
+import { installHttpCassette } from '../src/http-cassette.js';
+import { closeAlertNotifier, getAlertNotifier } from '../src/alerts.js';
 import { DatabaseType } from '../src/types.js';
 
 interface PrefetchOptions {
@@ -28,6 +32,7 @@ interface PrefetchOptions {
   database?: DatabaseType;
   skipCached: boolean;
   dryRun: boolean;
+  ocr: boolean;
 }
 
 function parseArgs(): PrefetchOptions {
@@ -36,7 +41,8 @@ function parseArgs(): PrefetchOptions {
     limit: 0,  // 0 = unlimited
     delay: 2000,  // 2 seconds between requests to avoid rate limiting
     skipCached: true,
-    dryRun: false
+    dryRun: false,
+    ocr: false
   };
 
   for (const arg of args) {
@@ -58,6 +64,8 @@ function parseArgs(): PrefetchOptions {
       options.skipCached = false;
     } else if (arg === '--dry-run') {
       options.dryRun = true;
+    } else if (arg === '--ocr') {
+      options.ocr = true;
     } else if (arg === '--help' || arg === '-h') {
       printHelp();
       process.exit(0);
@@ -81,6 +89,8 @@ Options:
   --skip-cached     Skip PDFs already cached (default)
   --no-skip-cached  Re-download all PDFs
   --dry-run         Show what would be downloaded without downloading
+  --ocr             Extract text from cached PDFs without pdf_text, OCRing scanned
+                    ones (no download; requires tesseract-ocr + tesseract-ocr-heb)
   --help, -h        Show this help message
 
 Examples:
@@ -92,6 +102,9 @@ Examples:
 
   # See what would be downloaded
   npx tsx scripts/prefetch-pdfs.ts --dry-run
+
+  # OCR up to 50 cached scanned decisions
+  npx tsx scripts/prefetch-pdfs.ts --ocr --limit=50
 `);
 }
 
@@ -119,7 +132,101 @@ function formatDuration(ms: number): string {
   return `${seconds}s`;
 }
 
+/**
+ * Extract text from cached PDFs that have no pdf_text yet, running OCR on
+ * scanned ones. Works entirely from the local file cache.
+ */
+async function runOcrPass(options: PrefetchOptions): Promise<void> {
+  const db = await getDatabase();
+  const pdfCache = getPdfCache();
+  const pdfExtractor = createPdfExtractor(process.env.SCRAPER_API_KEY ?? '', {
+    database: db,
+    pdfCache,
+    ocr: true
+  });
+
+  const candidates = db
+    .getDecisionsWithoutPdfText(options.limit || 100000, options.database)
+    .filter(d => pdfCache.isCached(d.id, d.database));
+
+  console.log(`\nFound ${candidates.length} cached PDFs without text`);
+
+  if (options.dryRun) {
+    console.log('\n--- DRY RUN - No extraction will be performed ---');
+    for (const d of candidates.slice(0, 20)) {
+      console.log(`  [${d.database}] ${d.id} (${d.extractionStatus ?? 'pending'})`);
+    }
+    if (candidates.length > 20) {
+      console.log(`  ... and ${candidates.length - 20} more`);
+    }
+    closeDatabase();
+    return;
+  }
+
+  const startTime = Date.now();
+  let extracted = 0;
+  let ocred = 0;
+  let failed = 0;
+
+  for (let i = 0; i < candidates.length; i++) {
+    const decision = candidates[i];
+    const progress = `[${i + 1}/${candidates.length}]`;
+
+    try {
+      const buffer = await pdfCache.loadPdf(decision.id, decision.database);
+      if (!buffer) throw new Error('PDF missing from cache');
+
+      const result = await pdfExtractor.extractFromBuffer(decision.id, buffer);
+      if (!result) {
+        failed++;
+        console.log(`${progress} ✗ ${decision.id}: no text found`);
+      } else if (result.method === 'ocr') {
+        ocred++;
+        const confidences = result.pages.map(page => page.ocrConfidence ?? 0);
+        const meanConfidence = confidences.reduce((sum, c) => sum + c, 0) / Math.max(confidences.length, 1);
+        console.log(`${progress} ✓ ${decision.id}: OCR ${result.fullText.length} chars, confidence ${meanConfidence.toFixed(1)}`);
+      } else {
+        extracted++;
+        console.log(`${progress} ✓ ${decision.id}: ${result.fullText.length} chars`);
+      }
+    } catch (error) {
+      failed++;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error(`${progress} ✗ Failed: ${errorMsg}`);
+    }
+  }
+
+  const duration = Date.now() - startTime;
+
+  console.log('\n' + '='.repeat(60));
+  console.log('Extraction Complete!');
+  console.log('='.repeat(60));
+  console.log(`  Text layer: ${extracted}`);
+  console.log(`  OCR: ${ocred}`);
+  console.log(`  No text: ${failed}`);
+  console.log(`  Duration: ${formatDuration(duration)}`);
+  console.log('='.repeat(60));
+
+  console.log('\nJSON Log:', JSON.stringify({
+    timestamp: new Date().toISOString(),
+    extracted,
+    ocr: ocred,
+    failed,
+    durationMs: duration
+  }));
+
+  closeDatabase();
+}
+
 async function main() {
+  const options = parseArgs();
+  installHttpCassette();
+
+  if (options.ocr) {
+    await runOcrPass(options);
+    return;
+  }
+
   const apiKey = process.env.SCRAPER_API_KEY;
 
   if (!apiKey) {
@@ -130,7 +237,6 @@ async function main() {
     process.exit(1);
   }
 
-  const options = parseArgs();
   const timestamp = new Date().toISOString();
 
   console.log('='.repeat(60));
@@ -218,9 +324,9 @@ async function main() {
     return;
   }
 
-  // Create PDF extractor
-  const pdfExtractor = createPdfExtractor({
-    apiKey,
+  // Create PDF extractor (download failure spikes are alerted, alerts.ts)
+  getAlertNotifier().setDatabase(db);
+  const pdfExtractor = createPdfExtractor(apiKey, {
     database: db,
     pdfCache
   });
@@ -300,6 +406,7 @@ async function main() {
   };
   console.log('\nJSON Log:', JSON.stringify(logEntry));
 
+  await closeAlertNotifier();
   closeDatabase();
 }
 
@@ -0,0 +1,103 @@
+#!/usr/bin/env tsx
+/**
+ * Selector Configs Script
+ * Lists the primary selector versions learned from indexed decisions when a
+ * gov.il redesign broke the built-in ones (src/selector-learner.ts), and
+ * activates or rolls them back. The active version is loaded when the indexer
+ * initializes.
+ *
+ * Usage:
+ *   npx tsx scripts/selectors.ts [--history]
+ *
+ * Options:
+ *   --history         List versions, newest first (default)
+ *   --rollback        Activate the version before the active one (or the built-in selectors)
+ *   --activate=N      Activate version N
+ *   --reset           Use the built-in selectors only
+ *   --limit=N         Versions to list (default: 20)
+ *   --db=PATH         Database file (default: ~/.gov-il-mcp/decisions.db)
+ */
+
+import { DecisionDatabase } from '../src/database.js';
+import { SelectorConfigVersion } from '../src/types.js';
+
+// Parse command line arguments
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    rollback: false,
+    activate: undefined as number | undefined,
+    reset: false,
+    limit: 20,
+    dbPath: undefined as string | undefined
+  };
+
+  for (const arg of args) {
+    if (arg === '--rollback') {
+      options.rollback = true;
+    } else if (arg.startsWith('--activate=')) {
+      options.activate = parseInt(arg.split('=')[1], 10);
+    } else if (arg === '--reset') {
+      options.reset = true;
+    } else if (arg.startsWith('--limit=')) {
+      options.limit = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--db=')) {
+      options.dbPath = arg.split('=')[1];
+    }
+  }
+
+  return options;
+}
+
+function describe(config: SelectorConfigVersion | null): string {
+  return config ? `version ${config.version}` : 'built-in selectors';
+}
+
+async function main() {
+  const options = parseArgs();
+
+  const db = new DecisionDatabase(options.dbPath);
+  await db.initialize();
+
+  try {
+    if (options.activate !== undefined) {
+      console.log(`Activated ${describe(db.activateSelectorConfig(options.activate))}`);
+    } else if (options.rollback) {
+      const from = db.getActiveSelectorConfig();
+      console.log(`Rolled back from ${describe(from)} to ${describe(db.rollbackSelectorConfig())}`);
+    } else if (options.reset) {
+      db.activateSelectorConfig(null);
+      console.log('Activated built-in selectors');
+    }
+
+    const history = db.getSelectorConfigHistory(options.limit);
+
+    console.log('='.repeat(60));
+    console.log('Primary Selector Versions');
+    console.log('='.repeat(60));
+    console.log(`Database: ${db.getDbPath()}`);
+    console.log(`Active: ${describe(db.getActiveSelectorConfig())}`);
+    console.log('='.repeat(60));
+
+    if (history.length === 0) {
+      console.log('\nNo learned selectors - the built-in selectors are in use');
+      return;
+    }
+
+    for (const config of history) {
+      console.log(`\n${config.active ? '*' : ' '} Version ${config.version} (${config.source}, ${config.createdAt})`);
+      console.log(`    Learned from: ${config.database ?? '-'}, ${config.anchors} anchors, ${config.itemCount} items`);
+      console.log(`    Container: ${config.selectors.container.join(', ')}`);
+      console.log(`    Title:     ${config.selectors.title.join(', ')}`);
+      console.log(`    PDF link:  ${config.selectors.pdfLink.join(', ') || '-'}`);
+      console.log(`    Date:      ${config.selectors.date.join(', ') || '-'}`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
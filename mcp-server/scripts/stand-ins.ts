@@ -0,0 +1,100 @@
+#!/usr/bin/env tsx
+/**
+ * Stand-in Server Script
+ * Serves recorded gov.il listing pages and PDFs, and stands in for ScraperAPI,
+ * OpenAI embeddings and Pinecone (src/stand-ins.ts), so the server and the
+ * scripts run offline:
+ *
+ *   npm run stand-ins
+ *   HTTP_STAND_IN=http://127.0.0.1:8787 SCRAPER_API_KEY=test npm run index-all -- --database=decisive_appraiser --max-pages=3
+ *
+ * With --export, fills the fixtures directory from a recorded cassette
+ * (HTTP_CASSETTE_MODE=record) instead, so one run with credits can be
+ * replayed by the stand-ins from then on.
+ *
+ * Usage:
+ *   npx tsx scripts/stand-ins.ts [--fixtures=DIR] [--port=8787]
+ *   npx tsx scripts/stand-ins.ts --export=cassette.json [--fixtures=DIR]
+ *
+ * Options:
+ *   --fixtures=DIR    Fixtures directory (default: STAND_IN_FIXTURES or ~/.gov-il-mcp/stand-ins)
+ *   --port=N          Port to listen on (default: 8787)
+ *   --export=FILE     Write the gov.il responses of a cassette to the fixtures directory and exit
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Cassette } from '../src/http-cassette.js';
+import { exportFixtures, startStandIns } from '../src/stand-ins.js';
+
+// Parse command line arguments
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    fixtures: process.env.STAND_IN_FIXTURES || path.join(os.homedir(), '.gov-il-mcp', 'stand-ins'),
+    port: 8787,
+    exportFrom: undefined as string | undefined
+  };
+
+  for (const arg of args) {
+    if (arg.startsWith('--fixtures=')) {
+      options.fixtures = arg.slice('--fixtures='.length);
+    } else if (arg.startsWith('--port=')) {
+      options.port = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--export=')) {
+      options.exportFrom = arg.slice('--export='.length);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs();
+
+  console.log('='.repeat(60));
+  console.log(options.exportFrom ? 'Stand-in Fixture Export' : 'Stand-in Server');
+  console.log('='.repeat(60));
+  console.log(`  Fixtures: ${options.fixtures}`);
+
+  if (options.exportFrom) {
+    console.log(`  Cassette: ${options.exportFrom}`);
+    console.log('='.repeat(60));
+
+    const cassette = JSON.parse(fs.readFileSync(options.exportFrom, 'utf8')) as Cassette;
+    const written = exportFixtures(cassette.interactions, options.fixtures);
+    for (const file of written) {
+      console.log(`  ${file}`);
+    }
+    console.log(`\nWrote ${written.length} fixtures from ${cassette.interactions.length} recorded requests`);
+    return;
+  }
+
+  const server = await startStandIns({ fixturesDir: options.fixtures, port: options.port });
+  console.log(`  Listening: ${server.url}`);
+  console.log('='.repeat(60));
+  console.log(`\nRun the server or scripts with HTTP_STAND_IN=${server.url}`);
+  console.log('(any non-empty SCRAPER_API_KEY, OPENAI_API_KEY and PINECONE_API_KEY are accepted)\n');
+
+  let logged = 0;
+  const logInterval = setInterval(() => {
+    for (const request of server.requests.slice(logged)) {
+      console.log(`  ${request.status} ${request.method} ${request.url}`);
+    }
+    logged = server.requests.length;
+  }, 500);
+
+  const shutdown = async () => {
+    clearInterval(logInterval);
+    await server.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
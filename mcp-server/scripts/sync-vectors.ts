@@ -0,0 +1,90 @@
+#!/usr/bin/env tsx
+/**
+ * Vector Sync Script
+ * Reconciles the vector store (VECTOR_STORE) with the decisions table: vectors
+ * of decisions that were deleted, or whose content hash changed since they were
+ * embedded, are reported, and with --delete removed so they no longer show up
+ * in semantic_search. Changed decisions are embedded again by the next npm run embed.
+ *
+ * Usage:
+ *   npx tsx scripts/sync-vectors.ts
+ *   npx tsx scripts/sync-vectors.ts --delete
+ *
+ * Options:
+ *   --delete          Delete the orphaned and stale vectors (default: report only)
+ *   --force           Allow --delete on Pinecone, whose index may hold decisions
+ *                     missing from the local database
+ *   --namespace=NS    Vector store namespace (default: gov-il-decisions)
+ */
+
+import { getDatabase, closeDatabase } from '../src/database.js';
+import { getVectorStore, closeEmbeddingsStore } from '../src/embeddings-db.js';
+import { syncVectorStore } from '../src/embedding-job.js';
+import { installHttpCassette } from '../src/http-cassette.js';
+
+// Parse command line arguments
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    delete: false,
+    force: false,
+    namespace: undefined as string | undefined
+  };
+
+  for (const arg of args) {
+    if (arg === '--delete') {
+      options.delete = true;
+    } else if (arg === '--force') {
+      options.force = true;
+    } else if (arg.startsWith('--namespace=')) {
+      options.namespace = arg.split('=')[1];
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs();
+  installHttpCassette();
+
+  const db = await getDatabase();
+  const store = getVectorStore();
+  if (options.delete && store.kind === 'pinecone' && !options.force) {
+    console.error('\nThe Pinecone index may hold decisions missing from the local database,');
+    console.error('and read_pdf falls back to it. Run without --delete to review, then add --force.');
+    closeDatabase();
+    process.exit(1);
+  }
+
+  const before = await store.stats(options.namespace);
+
+  console.log('='.repeat(60));
+  console.log('Vector Store Sync');
+  console.log('='.repeat(60));
+  console.log(`  Store: ${store.kind}`);
+  console.log(`  Namespace: ${before.namespace}`);
+  console.log(`  Vectors: ${before.vectorCount}`);
+  console.log(`  Mode: ${options.delete ? 'delete' : 'dry run'}`);
+  console.log('='.repeat(60));
+
+  const result = await syncVectorStore(db, store, options);
+
+  const preview = (ids: string[]) => ids.slice(0, 10).join(', ') + (ids.length > 10 ? `, ... (${ids.length - 10} more)` : '');
+  console.log(`\nDecisions in store: ${result.decisions}`);
+  console.log(`Orphaned (deleted from database): ${result.orphaned.length}`);
+  if (result.orphaned.length > 0) console.log(`  ${preview(result.orphaned)}`);
+  console.log(`Stale (content hash changed): ${result.stale.length}`);
+  if (result.stale.length > 0) console.log(`  ${preview(result.stale)}`);
+  console.log(`${options.delete ? 'Deleted' : 'Would delete'} ${result.deletedVectors} vectors`);
+
+  closeEmbeddingsStore();
+  closeDatabase();
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  closeEmbeddingsStore();
+  closeDatabase();
+  process.exit(1);
+});
@@ -0,0 +1,130 @@
+/**
+ * Appraiser Identity Resolution
+ * Titles put the appraiser as free text after the dash, so one decisive
+ * appraiser appears as "יוסי כהן", "עו"ד יוסי כהן", "כהן יוסי, שמאי מקרקעין"
+ * and "י. כהן". Variants are clustered into one appraiser (appraisers table,
+ * decisions.appraiser_id) with every spelling kept as an alias:
+ * - titles and roles (עו"ד, ד"ר, שמאי מכריע...) and punctuation are ignored
+ * - word order is ignored ("כהן יוסי")
+ * - ktiv male doubling is folded (דוויק/דויק)
+ * - a name with initials joins the one full name it abbreviates; when two
+ *   full names fit ("י' כהן" for יוסי כהן and יעל כהן) it stays apart
+ */
+
+import { normalizeHebrew } from './hebrew-normalizer.js';
+
+// Titles and roles written around names, compared without quotes or geresh
+const TITLE_WORDS = new Set([
+  'עוד', 'עוהד', 'דר', 'רוח', 'אינג', 'פרופ', 'מר', 'גב', 'הגב',
+  'שמאי', 'שמאית', 'השמאי', 'השמאית', 'מקרקעין',
+  'מכריע', 'מכריעה', 'המכריע', 'המכריעה', 'מייעץ', 'מייעצת', 'המייעץ', 'המייעצת'
+]);
+
+export interface AppraiserNameCount {
+  name: string;                 // As written in decisions.appraiser
+  count: number;                // Decisions with this spelling
+}
+
+export interface AppraiserCluster {
+  key: string;                  // appraiserKey() of the full name
+  canonicalName: string;
+  variants: AppraiserNameCount[];  // Most used first
+}
+
+/**
+ * Name words without titles, roles and punctuation; initials are one letter
+ */
+function nameTokens(name: string): string[] {
+  return normalizeHebrew(name)
+    .replace(/[(),;:\/\\–—-]/g, ' ')
+    .split(/\s+/)
+    .map(token => token.replace(/^["'.]+|["'.]+$/g, ''))
+    .filter(token => token && !TITLE_WORDS.has(token.replace(/["'.]/g, '')));
+}
+
+function fold(token: string): string {
+  return token.replace(/וו/g, 'ו').replace(/יי/g, 'י');
+}
+
+function isInitial(token: string): boolean {
+  return token.length === 1;
+}
+
+/**
+ * The name as displayed: no titles, initials with a geresh ("י' כהן")
+ */
+export function appraiserDisplayName(name: string): string {
+  return nameTokens(name).map(token => (isInitial(token) ? `${token}'` : token)).join(' ');
+}
+
+/**
+ * Comparison key: folded name words in sorted order, so spellings and word
+ * orders of one name share a key
+ */
+export function appraiserKey(name: string): string {
+  return nameTokens(name).map(fold).sort().join(' ');
+}
+
+/**
+ * Whether a name with initials ("י כהן") abbreviates a full name ("יוסי כהן"):
+ * its full words are in the full name and its initials start the others
+ */
+function abbreviates(short: string[], full: string[]): boolean {
+  if (short.length !== full.length || short.every(isInitial)) return false;
+
+  const rest = [...full];
+  for (const token of short.filter(token => !isInitial(token))) {
+    const index = rest.indexOf(token);
+    if (index === -1) return false;
+    rest.splice(index, 1);
+  }
+  const initials = short.filter(isInitial).sort().join('');
+  return rest.map(token => token[0]).sort().join('') === initials;
+}
+
+/**
+ * Canonical name: the most used form of the name without titles, preferring
+ * forms without initials
+ */
+function canonicalName(variants: AppraiserNameCount[]): string {
+  const forms = new Map<string, number>();
+  for (const variant of variants) {
+    const form = appraiserDisplayName(variant.name);
+    forms.set(form, (forms.get(form) ?? 0) + variant.count);
+  }
+  const hasInitials = (form: string) => form.split(' ').some(word => word.endsWith("'"));
+  return [...forms].sort(([a, countA], [b, countB]) =>
+    Number(hasInitials(a)) - Number(hasInitials(b)) || countB - countA || a.localeCompare(b, 'he')
+  )[0][0];
+}
+
+/**
+ * Cluster the appraiser spellings found in decisions into appraisers
+ */
+export function clusterAppraiserNames(names: AppraiserNameCount[]): AppraiserCluster[] {
+  const groups = new Map<string, { tokens: string[]; variants: AppraiserNameCount[] }>();
+  for (const entry of names) {
+    const tokens = nameTokens(entry.name).map(fold);
+    if (tokens.length === 0) continue;
+    const key = [...tokens].sort().join(' ');
+    const group = groups.get(key) ?? { tokens, variants: [] };
+    group.variants.push(entry);
+    groups.set(key, group);
+  }
+
+  // Names with initials join the only full name they abbreviate
+  const fullNames = [...groups.values()].filter(group => !group.tokens.some(isInitial));
+  for (const [key, group] of groups) {
+    if (!group.tokens.some(isInitial)) continue;
+    const targets = fullNames.filter(full => abbreviates(group.tokens, full.tokens));
+    if (targets.length !== 1) continue;
+    targets[0].variants.push(...group.variants);
+    groups.delete(key);
+  }
+
+  return [...groups].map(([key, group]) => ({
+    key,
+    canonicalName: canonicalName(group.variants),
+    variants: [...group.variants].sort((a, b) => b.count - a.count)
+  }));
+}
@@ -0,0 +1,202 @@
+/**
+ * Gazetteer of Local Planning Committees
+ * The scraped committee field is free text: "ועדה מקומית לתכנון ובניה תל אביב-יפו",
+ * "הוועדה המקומית ת"א-יפו" and "תל-אביב יפו" are one committee. Every decision
+ * gets the canonical committee_id of its committee (DecisionIndexer, migration
+ * v10), and committee filters match by id rather than by substring, so
+ * "תל אביב" finds "ת"א-יפו" and "רמת גן" no longer depends on how it was spelled.
+ *
+ * Entries cover city committees, regional council committees and merged
+ * (מרחבית) committees, with the spellings and abbreviations seen in decisions
+ * and the localities in each planning area. A decision whose committee is not
+ * listed keeps a null committee_id and is matched by its text.
+ *
+ * After adding entries or aliases, append a migration that re-runs
+ * assignCommitteeIds() so existing decisions are resolved again.
+ */
+
+import { normalizeHebrew } from './hebrew-normalizer.js';
+
+export type CommitteeKind = 'city' | 'regional' | 'merged';
+
+export interface CommitteeEntry {
+  id: string;                   // Stable slug, stored in decisions.committee_id
+  name: string;                 // Canonical name, without "ועדה מקומית"
+  kind: CommitteeKind;
+  aliases: string[];            // Other spellings and abbreviations
+  localities: string[];         // Localities in its planning area (besides the name)
+}
+
+export const COMMITTEES: CommitteeEntry[] = [
+  // City committees
+  { id: 'jerusalem', name: 'ירושלים', kind: 'city', aliases: ['י-ם', 'ירושלם'], localities: [] },
+  { id: 'tel-aviv-yafo', name: 'תל אביב-יפו', kind: 'city', aliases: ['תל אביב', 'ת"א', 'ת"א-יפו', 'תא"י', 'יפו'], localities: [] },
+  { id: 'haifa', name: 'חיפה', kind: 'city', aliases: [], localities: [] },
+  { id: 'rishon-lezion', name: 'ראשון לציון', kind: 'city', aliases: ['ראשל"צ'], localities: [] },
+  { id: 'petah-tikva', name: 'פתח תקווה', kind: 'city', aliases: ['פ"ת', 'פתח תקוה'], localities: [] },
+  { id: 'ashdod', name: 'אשדוד', kind: 'city', aliases: [], localities: [] },
+  { id: 'netanya', name: 'נתניה', kind: 'city', aliases: [], localities: [] },
+  { id: 'beer-sheva', name: 'באר שבע', kind: 'city', aliases: ['ב"ש', 'באר-שבע'], localities: [] },
+  { id: 'bnei-brak', name: 'בני ברק', kind: 'city', aliases: ['ב"ב'], localities: [] },
+  { id: 'holon', name: 'חולון', kind: 'city', aliases: [], localities: [] },
+  { id: 'ramat-gan', name: 'רמת גן', kind: 'city', aliases: ['ר"ג'], localities: [] },
+  { id: 'ashkelon', name: 'אשקלון', kind: 'city', aliases: [], localities: [] },
+  { id: 'rehovot', name: 'רחובות', kind: 'city', aliases: [], localities: [] },
+  { id: 'bat-yam', name: 'בת ים', kind: 'city', aliases: [], localities: [] },
+  { id: 'beit-shemesh', name: 'בית שמש', kind: 'city', aliases: [], localities: [] },
+  { id: 'kfar-saba', name: 'כפר סבא', kind: 'city', aliases: ['כ"ס'], localities: [] },
+  { id: 'herzliya', name: 'הרצליה', kind: 'city', aliases: [], localities: [] },
+  { id: 'hadera', name: 'חדרה', kind: 'city', aliases: [], localities: [] },
+  { id: 'modiin', name: 'מודיעין-מכבים-רעות', kind: 'city', aliases: ['מודיעין', 'מודיעין מכבים רעות'], localities: ['מכבים'] },
+  { id: 'lod', name: 'לוד', kind: 'city', aliases: [], localities: [] },
+  { id: 'ramla', name: 'רמלה', kind: 'city', aliases: [], localities: [] },
+  { id: 'raanana', name: 'רעננה', kind: 'city', aliases: [], localities: [] },
+  { id: 'rosh-haayin', name: 'ראש העין', kind: 'city', aliases: [], localities: [] },
+  { id: 'hod-hasharon', name: 'הוד השרון', kind: 'city', aliases: [], localities: [] },
+  { id: 'givatayim', name: 'גבעתיים', kind: 'city', aliases: [], localities: [] },
+  { id: 'ramat-hasharon', name: 'רמת השרון', kind: 'city', aliases: ['רמה"ש'], localities: [] },
+  { id: 'kiryat-gat', name: 'קרית גת', kind: 'city', aliases: [], localities: [] },
+  { id: 'nahariya', name: 'נהריה', kind: 'city', aliases: [], localities: [] },
+  { id: 'afula', name: 'עפולה', kind: 'city', aliases: [], localities: [] },
+  { id: 'eilat', name: 'אילת', kind: 'city', aliases: [], localities: [] },
+  { id: 'kiryat-ata', name: 'קרית אתא', kind: 'city', aliases: [], localities: [] },
+  { id: 'kiryat-bialik', name: 'קרית ביאליק', kind: 'city', aliases: [], localities: [] },
+  { id: 'kiryat-motzkin', name: 'קרית מוצקין', kind: 'city', aliases: [], localities: [] },
+  { id: 'kiryat-yam', name: 'קרית ים', kind: 'city', aliases: [], localities: [] },
+  { id: 'kiryat-ono', name: 'קרית אונו', kind: 'city', aliases: [], localities: [] },
+  { id: 'kiryat-shmona', name: 'קרית שמונה', kind: 'city', aliases: [], localities: [] },
+  { id: 'kiryat-malakhi', name: 'קרית מלאכי', kind: 'city', aliases: [], localities: [] },
+  { id: 'acre', name: 'עכו', kind: 'city', aliases: [], localities: [] },
+  { id: 'tiberias', name: 'טבריה', kind: 'city', aliases: [], localities: [] },
+  { id: 'safed', name: 'צפת', kind: 'city', aliases: [], localities: [] },
+  { id: 'karmiel', name: 'כרמיאל', kind: 'city', aliases: [], localities: [] },
+  { id: 'nazareth', name: 'נצרת', kind: 'city', aliases: [], localities: [] },
+  { id: 'nof-hagalil', name: 'נוף הגליל', kind: 'city', aliases: ['נצרת עילית'], localities: [] },
+  { id: 'yavne', name: 'יבנה', kind: 'city', aliases: [], localities: [] },
+  { id: 'or-yehuda', name: 'אור יהודה', kind: 'city', aliases: [], localities: [] },
+  { id: 'yehud-monosson', name: 'יהוד-מונוסון', kind: 'city', aliases: ['יהוד', 'יהוד מונוסון'], localities: ['נווה מונוסון'] },
+  { id: 'ness-ziona', name: 'נס ציונה', kind: 'city', aliases: [], localities: [] },
+  { id: 'dimona', name: 'דימונה', kind: 'city', aliases: [], localities: [] },
+  { id: 'arad', name: 'ערד', kind: 'city', aliases: [], localities: [] },
+  { id: 'nesher', name: 'נשר', kind: 'city', aliases: [], localities: [] },
+  { id: 'tirat-carmel', name: 'טירת כרמל', kind: 'city', aliases: [], localities: [] },
+  { id: 'yokneam', name: 'יקנעם', kind: 'city', aliases: ['יקנעם עילית'], localities: [] },
+  { id: 'ofakim', name: 'אופקים', kind: 'city', aliases: [], localities: [] },
+  { id: 'netivot', name: 'נתיבות', kind: 'city', aliases: [], localities: [] },
+  { id: 'sderot', name: 'שדרות', kind: 'city', aliases: [], localities: [] },
+  { id: 'elad', name: 'אלעד', kind: 'city', aliases: [], localities: [] },
+  { id: 'maale-adumim', name: 'מעלה אדומים', kind: 'city', aliases: [], localities: [] },
+  { id: 'ariel', name: 'אריאל', kind: 'city', aliases: [], localities: [] },
+  { id: 'umm-al-fahm', name: 'אום אל-פחם', kind: 'city', aliases: ['אום אל פחם'], localities: [] },
+  { id: 'gedera', name: 'גדרה', kind: 'city', aliases: [], localities: [] },
+  { id: 'shoham', name: 'שוהם', kind: 'city', aliases: [], localities: [] },
+
+  // Regional council committees
+  { id: 'emek-hefer', name: 'עמק חפר', kind: 'regional', aliases: [], localities: ['מכמורת', 'בית ינאי', 'כפר ויתקין', 'חופית', 'בת חפר'] },
+  { id: 'mateh-yehuda', name: 'מטה יהודה', kind: 'regional', aliases: [], localities: ['צור הדסה', 'אבן ספיר', 'נווה אילן', 'קרית ענבים', 'מעלה החמישה'] },
+  { id: 'hof-hacarmel', name: 'חוף הכרמל', kind: 'regional', aliases: [], localities: ['עין הוד', 'עתלית', 'נחשולים', 'בית אורן'] },
+  { id: 'misgav', name: 'משגב', kind: 'regional', aliases: [], localities: ['יודפת'] },
+  { id: 'emek-yizrael', name: 'עמק יזרעאל', kind: 'regional', aliases: [], localities: ['נהלל', 'תמרת', 'כפר יהושע', 'גניגר'] },
+  { id: 'lev-hasharon', name: 'לב השרון', kind: 'regional', aliases: [], localities: ['צור משה', 'נורדיה', 'ינוב', 'כפר הס'] },
+  { id: 'drom-hasharon', name: 'דרום השרון', kind: 'regional', aliases: [], localities: ['נירית', 'צור יצחק', 'ירחיב'] },
+  { id: 'hof-hasharon', name: 'חוף השרון', kind: 'regional', aliases: [], localities: ['שפיים', 'רשפון', 'בני ציון'] },
+  { id: 'galil-elyon', name: 'הגליל העליון', kind: 'regional', aliases: ['גליל עליון'], localities: ['כפר בלום', 'שדה נחמיה'] },
+  { id: 'mateh-asher', name: 'מטה אשר', kind: 'regional', aliases: [], localities: ['עברון', 'לוחמי הגטאות', 'שבי ציון', 'אחיהוד', 'בצת'] },
+  { id: 'hevel-modiin', name: 'חבל מודיעין', kind: 'regional', aliases: [], localities: ['בני עטרות', 'גנתון'] },
+  { id: 'shaar-hanegev', name: 'שער הנגב', kind: 'regional', aliases: [], localities: ['ניר עם', 'כפר עזה', 'יכיני'] },
+
+  // Merged committees of several local councils
+  { id: 'sharonim', name: 'שרונים', kind: 'merged', aliases: [], localities: ['אבן יהודה', 'כפר יונה', 'קדימה-צורן', 'צורן', 'תל מונד', 'פרדסיה'] }
+];
+
+// "ועדה מקומית לתכנון ובניה", "הוועדה המרחבית לתו"ב" and similar lead-ins
+const COMMITTEE_PREFIX = /(?:ה)?(?:וו|ו)עד(?:ה|ת)\s+(?:ה)?(?:מקומית|מרחבית|משותפת)(?:\s+(?:לתכנון\s+(?:ו)?(?:בנייה|בניה)|לתו"ב))?/g;
+
+/**
+ * Comparison key: no lead-in, niqqud or punctuation, hyphens as spaces, and
+ * ktiv male doubling folded (קריית/קרית, תקווה/תקוה)
+ */
+export function committeeKey(text: string): string {
+  return normalizeHebrew(text)
+    .replace(COMMITTEE_PREFIX, ' ')
+    .replace(/[-–—,.()]/g, ' ')
+    .replace(/וו/g, 'ו')
+    .replace(/יי/g, 'י')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const BY_ID = new Map(COMMITTEES.map(entry => [entry.id, entry]));
+
+// Key of each name and alias → committee; key of each locality → committees
+const BY_NAME = new Map<string, CommitteeEntry>();
+const BY_LOCALITY = new Map<string, CommitteeEntry[]>();
+for (const entry of COMMITTEES) {
+  for (const name of [entry.name, ...entry.aliases]) BY_NAME.set(committeeKey(name), entry);
+  for (const locality of entry.localities) {
+    const key = committeeKey(locality);
+    BY_LOCALITY.set(key, [...(BY_LOCALITY.get(key) ?? []), entry]);
+  }
+}
+
+// Name keys longest first, for finding a name inside a longer committee string
+const NAME_KEYS = [...BY_NAME.keys()].sort((a, b) => b.length - a.length);
+
+/**
+ * Every name, alias and locality in the gazetteer (for matching questions)
+ */
+export const COMMITTEE_NAMES: string[] = COMMITTEES.flatMap(entry => [entry.name, ...entry.aliases, ...entry.localities]);
+
+export function getCommittee(id: string): CommitteeEntry | null {
+  return BY_ID.get(id) ?? null;
+}
+
+/**
+ * The committee of a scraped committee string, or null when it is not in the
+ * gazetteer. The longest name found as whole words wins, so "רמת השרון" is
+ * not read as "רמת גן" and "תל אביב-יפו" not as "יפו".
+ */
+export function resolveCommittee(committee: string | null | undefined): CommitteeEntry | null {
+  if (!committee) return null;
+  const key = committeeKey(committee);
+  if (!key) return null;
+
+  const exact = BY_NAME.get(key);
+  if (exact) return exact;
+
+  const padded = ` ${key} `;
+  const found = NAME_KEYS.find(name => padded.includes(` ${name} `));
+  return found ? BY_NAME.get(found)! : null;
+}
+
+/**
+ * Committee ids a committee filter refers to: a committee id, name or alias,
+ * or a locality (the committees whose planning area includes it). A leading
+ * prefix letter is tried off ("בנתניה"). Empty when the term is unknown.
+ */
+export function findCommitteeIds(term: string | null | undefined): string[] {
+  if (!term?.trim()) return [];
+  if (BY_ID.has(term.trim())) return [term.trim()];
+
+  const key = committeeKey(term);
+  for (const candidate of [key, key.replace(/^[בלמוה]/, '')]) {
+    const entry = BY_NAME.get(candidate);
+    if (entry) return [entry.id];
+    const areas = BY_LOCALITY.get(candidate);
+    if (areas) return areas.map(area => area.id);
+  }
+  return [];
+}
+
+/**
+ * Whether a decision belongs to the committee a filter names: by id when the
+ * term is in the gazetteer, otherwise by text
+ */
+export function committeeMatches(
+  decision: { committee: string | null; committeeId?: string | null },
+  term: string
+): boolean {
+  const ids = findCommitteeIds(term);
+  if (ids.length > 0 && decision.committeeId) return ids.includes(decision.committeeId);
+  return decision.committee?.includes(term) ?? false;
+}
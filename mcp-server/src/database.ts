@@ -1,26 +1,175 @@
 /**
  * SQLite Database Manager for Gov.il Land Appraisal Decisions
- * Uses sql.js (pure JavaScript SQLite) for cross-platform compatibility
+ * Runs on native SQLite (better-sqlite3, WAL mode) with sql.js as a pure
+ * JavaScript fallback - see storage.ts. Both builds include FTS5 so decisions
+ * can be full-text indexed.
  */
 
-import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { fileURLToPath } from 'url';
+import { expandHebrewSearchTerm, normalizeHebrew } from './hebrew-normalizer.js';
+import { parseDateToIso, toIsoDateBound } from './date-parser.js';
+import {
+  FTS_COLUMNS,
+  FtsColumn,
+  Migration,
+  MigrationResult,
+  getSchemaVersion,
+  getPendingMigrations,
+  assignAppraiserIds,
+  replaceDecisionParcels,
+  replaceDecisionPassages,
+  runMigrations,
+  runMigrationsAsync
+} from './migrations.js';
+import { StorageBackend, StorageBackendType, openStorageBackend } from './storage.js';
+import { parseHebrewYear, hebrewYearToIsoRange } from './hebrew-calendar.js';
+import { buildTransactionKey } from './transaction-extractor.js';
+import { COMMITTEE_NAMES, findCommitteeIds, getCommittee } from './committee-gazetteer.js';
+import { appraiserKey } from './appraiser-identity.js';
+import { boundingBox, distanceKm, normalizeGush } from './gush-layer.js';
 import {
   Decision,
   DecisionRow,
+  PdfPage,
+  PdfExtractionMethod,
   DatabaseType,
   SearchParams,
   SearchResult,
   IndexerStats,
+  ParamType,
+  ExtractedParameter,
+  ExtractionMethod,
+  DecisionParameter,
+  ParameterFilter,
+  ParameterSearchRow,
+  ParameterExtractionStats,
+  ComparisonTransaction,
+  ComparisonTransactionFilter,
+  StoredComparisonTransaction,
+  DecisionPassage,
+  PassageFilter,
+  PassageSearchResult,
+  PassageSectionType,
+  Appraiser,
+  AppraiserProfile,
+  ValueDistribution,
+  GushLocation,
+  LocatedDecision,
+  DecisionParcel,
+  ParcelSource,
+  PrimarySelectors,
+  Alert,
+  AlertRecord,
+  AlertSeverity,
+  AlertStatus,
+  AlertType,
+  SelectorAnchor,
+  SelectorConfigSource,
+  SelectorConfigVersion,
   rowToDecision
 } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+export { FTS_COLUMNS };
+export type { FtsColumn };
+
+/**
+ * bm25 column weights used by search(): metadata hits outrank a passing
+ * mention somewhere in the PDF body.
+ */
+const SEARCH_BM25_WEIGHTS: Record<FtsColumn, number> = {
+  title: 10.0,
+  committee: 5.0,
+  appraiser: 5.0,
+  case_type: 5.0,
+  pdf_text: 1.0
+};
+
+/**
+ * Build an FTS5 MATCH expression from free-text terms.
+ * Every word becomes quoted phrases (so punctuation such as תב"ע or quotes in
+ * user input can never break the query syntax). With morphology enabled (the
+ * default) each word is expanded to its Hebrew prefixed/inflected surface forms,
+ * see expandHebrewSearchTerm(). Multi-word terms require all of their words.
+ * Returns null when no term contains a searchable letter or digit.
+ */
+export function buildFtsMatchQuery(
+  terms: string[],
+  options: { columns?: FtsColumn[]; operator?: 'AND' | 'OR'; prefix?: boolean; morphology?: boolean } = {}
+): string | null {
+  const { columns, operator = 'AND', prefix = true, morphology = true } = options;
+
+  const quote = (text: string, isPrefix: boolean) =>
+    `"${text.replace(/"/g, '""')}"${isPrefix ? '*' : ''}`;
+
+  const wordExpression = (word: string): string | null => {
+    const forms = morphology
+      ? expandHebrewSearchTerm(word)
+      : [{ text: normalizeHebrew(word), prefix }];
+    const phrases = forms
+      .filter(f => /[\p{L}\p{N}]/u.test(f.text))
+      .map(f => quote(f.text, f.prefix && prefix));
+    if (phrases.length === 0) return null;
+    return phrases.length === 1 ? phrases[0] : `(${phrases.join(' OR ')})`;
+  };
+
+  const groups = terms
+    .map(term => term.trim().split(/\s+/).map(wordExpression).filter((e): e is string => e !== null))
+    .filter(words => words.length > 0)
+    .map(words => words.length === 1 ? words[0] : `(${words.join(' AND ')})`);
+
+  if (groups.length === 0) return null;
+
+  const expression = groups.join(` ${operator} `);
+  if (!columns || columns.length === 0) return expression;
+  return `{${columns.join(' ')}} : (${expression})`;
+}
+
+// decision_passages columns read by rowToPassage(), in its order
+const PASSAGE_COLUMNS = 'passage_index, section_type, section_title, text, char_start, char_end, page_start, page_end';
+
+function rowToPassage(row: unknown[]): DecisionPassage {
+  return {
+    index: Number(row[0]),
+    sectionType: row[1] as PassageSectionType,
+    sectionTitle: row[2] as string | null,
+    text: String(row[3]),
+    charStart: Number(row[4]),
+    charEnd: Number(row[5]),
+    pageStart: row[6] === null ? null : Number(row[6]),
+    pageEnd: row[7] === null ? null : Number(row[7])
+  };
+}
+
+/**
+ * Quartiles, range and mean of a non-empty list of values
+ */
+function valueDistribution(values: number[]): Omit<ValueDistribution, 'subtype' | 'decisions'> {
+  const sorted = [...values].sort((a, b) => a - b);
+  const quantile = (q: number) => {
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  };
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    p25: round(quantile(0.25)),
+    median: round(quantile(0.5)),
+    p75: round(quantile(0.75)),
+    max: sorted[sorted.length - 1],
+    mean: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length)
+  };
+}
+
 /**
  * Extended statistics type for US-004 compliance
  */
@@ -35,10 +184,9 @@ interface ExtendedStats extends IndexerStats {
 }
 
 export class DecisionDatabase {
-  private db: SqlJsDatabase | null = null;
+  private db: StorageBackend | null = null;
   private dbPath: string;
   private initialized = false;
-  private SQL: any = null;
 
   constructor(dbPath?: string) {
     // Default to ~/.gov-il-mcp/decisions.db as specified in PRD
@@ -46,115 +194,125 @@ export class DecisionDatabase {
   }
 
   /**
-   * Initialize the database (must be called before use)
+   * Initialize the database (must be called before use).
+   * Pending schema migrations are applied unless migrate is false
+   * (used by scripts/migrate.ts to inspect or dry-run first); long backfills
+   * yield to the event loop, with onMigration called as each one starts.
    */
-  async initialize(): Promise<void> {
+  async initialize(options: {
+    migrate?: boolean;
+    backend?: StorageBackendType;
+    onMigration?: (migration: Migration) => void;
+  } = {}): Promise<void> {
     if (this.initialized) return;
 
-    // Initialize sql.js
-    this.SQL = await initSqlJs();
-
     // Ensure directory exists
     const dir = path.dirname(this.dbPath);
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
     }
 
-    // Load existing database or create new one
-    if (fs.existsSync(this.dbPath)) {
-      const buffer = fs.readFileSync(this.dbPath);
-      this.db = new this.SQL.Database(buffer);
-    } else {
-      this.db = new this.SQL.Database();
-    }
+    // Open existing database or create new one
+    this.db = await openStorageBackend(this.dbPath, { type: options.backend });
+    console.error(`[Database] Using ${this.db.type === 'native' ? 'native SQLite (WAL)' : 'sql.js'} storage`);
+
+    // INSERT OR REPLACE deletes the old row; the FTS delete trigger only fires
+    // for those implicit deletes when recursive triggers are enabled.
+    // This is a connection setting, so it is set on every open.
+    this.db!.run(`PRAGMA recursive_triggers = ON`);
 
-    this.createSchema();
+    if (options.migrate !== false) {
+      await this.applyPendingMigrations(options.onMigration);
+    }
     this.initialized = true;
   }
 
   /**
-   * Create database schema
+   * Bring the schema up to date by applying pending migrations.
+   * The database file is backed up first (see backup()).
    */
-  private createSchema(): void {
+  private async applyPendingMigrations(onProgress?: (migration: Migration) => void): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    // Main decisions table
-    // PRD US-P2-003 compliant schema with year field for filtering
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS decisions (
-        id TEXT PRIMARY KEY,
-        database TEXT NOT NULL,
-        title TEXT NOT NULL,
-        url TEXT,
-        block TEXT,
-        plot TEXT,
-        committee TEXT,
-        appraiser TEXT,
-        case_type TEXT,
-        decision_date TEXT,
-        year TEXT,
-        publish_date TEXT,
-        content_hash TEXT NOT NULL,
-        pdf_text TEXT,
-        indexed_at TEXT DEFAULT (datetime('now'))
-      )
-    `);
+    const pending = getPendingMigrations(this.db);
+    if (pending.length === 0) return;
 
-    // Migrate existing tables: add year column if missing
-    try {
-      this.db.run(`ALTER TABLE decisions ADD COLUMN year TEXT`);
-    } catch (e) {
-      // Column already exists, ignore error
-    }
-
-    // Create indexes
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_database ON decisions(database)`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_committee ON decisions(committee)`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_block_plot ON decisions(block, plot)`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_appraiser ON decisions(appraiser)`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_case_type ON decisions(case_type)`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_decision_date ON decisions(decision_date)`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_year ON decisions(year)`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_content_hash ON decisions(content_hash)`);
-
-    // Metadata table for tracking
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS metadata (
-        key TEXT PRIMARY KEY,
-        value TEXT,
-        updated_at TEXT DEFAULT (datetime('now'))
-      )
-    `);
+    // Nothing to back up for a database that is being created
+    const tables = this.db.exec(`SELECT COUNT(*) FROM sqlite_master WHERE type = 'table'`);
+    if (tables.length > 0 && Number(tables[0].values[0][0]) > 0) {
+      const backupPath = this.backup();
+      console.error(`[Database] Backed up database to ${backupPath}`);
+    }
 
-    // Progress tracking table
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS indexer_progress (
-        database TEXT PRIMARY KEY,
-        current_page INTEGER DEFAULT 0,
-        total_pages INTEGER,
-        documents_indexed INTEGER DEFAULT 0,
-        status TEXT DEFAULT 'pending',
-        error TEXT,
-        updated_at TEXT DEFAULT (datetime('now'))
-      )
-    `);
+    const result = await runMigrationsAsync(this.db, { onProgress });
+    if (result.applied.length > 0) {
+      this.save();
+    }
+    for (const migration of result.applied) {
+      console.error(
+        `[Database] Applied migration ${migration.version} (${migration.name})` +
+        (migration.backfilledRows > 0 ? `, backfilled ${migration.backfilledRows} rows` : '')
+      );
+    }
+  }
 
-    // US-PDF-005: PDF cache tracking table
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS pdf_cache (
-        decision_id TEXT PRIMARY KEY,
-        file_path TEXT NOT NULL,
-        file_size INTEGER NOT NULL,
-        file_hash TEXT NOT NULL,
-        cached_at TEXT DEFAULT (datetime('now')),
-        last_accessed TEXT,
-        extraction_status TEXT DEFAULT 'pending'
-      )
-    `);
+  /**
+   * Current schema version of the open database
+   */
+  getSchemaVersion(): number {
+    if (!this.db) throw new Error('Database not initialized');
+    return getSchemaVersion(this.db);
+  }
+
+  /**
+   * Migrations not yet applied to the open database
+   */
+  getPendingMigrations(): Migration[] {
+    if (!this.db) throw new Error('Database not initialized');
+    return getPendingMigrations(this.db);
+  }
+
+  /**
+   * Apply pending migrations. With dryRun the changes are rolled back and
+   * nothing is written to disk.
+   */
+  migrate(options: { dryRun?: boolean; onProgress?: (migration: Migration) => void } = {}): MigrationResult {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = runMigrations(this.db, options);
+    if (!result.dryRun && result.applied.length > 0) {
+      this.save();
+    }
+    return result;
+  }
+
+  /**
+   * Copy the database file to backups/ next to it, named with the current
+   * schema version and a timestamp. Returns the backup path.
+   */
+  backup(): string {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const backupDir = path.join(path.dirname(this.dbPath), 'backups');
+    if (!fs.existsSync(backupDir)) {
+      fs.mkdirSync(backupDir, { recursive: true });
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const baseName = path.basename(this.dbPath, path.extname(this.dbPath));
+    const backupPath = path.join(backupDir, `${baseName}-v${this.getSchemaVersion()}-${timestamp}.db`);
+    this.db.checkpoint();
+    fs.copyFileSync(this.dbPath, backupPath);
+    return backupPath;
+  }
 
-    // Index on extraction_status for filtering
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_pdf_cache_status ON pdf_cache(extraction_status)`);
+  /**
+   * Rebuild the full-text index from the decisions table
+   */
+  rebuildFullTextIndex(): void {
+    if (!this.db) throw new Error('Database not initialized');
 
+    this.db.run(`INSERT INTO decisions_fts(decisions_fts) VALUES ('rebuild')`);
     this.save();
   }
 
@@ -163,9 +321,22 @@ export class DecisionDatabase {
    */
   private save(): void {
     if (!this.db) return;
-    const data = this.db.export();
-    const buffer = Buffer.from(data);
-    fs.writeFileSync(this.dbPath, buffer);
+    this.db.persist();
+  }
+
+  /**
+   * Flush pending changes to disk immediately.
+   * Only the sql.js backend buffers writes; native commits are already durable.
+   */
+  forceSave(): void {
+    this.save();
+  }
+
+  /**
+   * Storage backend in use
+   */
+  getBackendType(): StorageBackendType | null {
+    return this.db?.type ?? null;
   }
 
   /**
@@ -173,27 +344,34 @@ export class DecisionDatabase {
    */
   insertDecision(decision: Omit<Decision, 'indexedAt'>): boolean {
     if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
 
     try {
-      this.db.run(`
-        INSERT OR REPLACE INTO decisions
-        (id, database, title, url, block, plot, committee, appraiser, case_type, decision_date, year, publish_date, content_hash)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `, [
-        decision.id,
-        decision.database,
-        decision.title,
-        decision.url,
-        decision.block,
-        decision.plot,
-        decision.committee,
-        decision.appraiser,
-        decision.caseType,
-        decision.decisionDate,
-        decision.year,
-        decision.publishDate,
-        decision.contentHash
-      ]);
+      db.transaction(() => {
+        db.run(`
+          INSERT OR REPLACE INTO decisions
+          (id, database, title, url, block, plot, committee, committee_id, appraiser, case_type, decision_date, year, publish_date, decision_date_iso, publish_date_iso, content_hash)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          decision.id,
+          decision.database,
+          decision.title,
+          decision.url,
+          decision.block,
+          decision.plot,
+          decision.committee,
+          decision.committeeId ?? null,
+          decision.appraiser,
+          decision.caseType,
+          decision.decisionDate,
+          decision.year,
+          decision.publishDate,
+          parseDateToIso(decision.decisionDate),
+          parseDateToIso(decision.publishDate),
+          decision.contentHash
+        ]);
+        replaceDecisionParcels(db, decision.id);
+      });
       this.save();
       return true;
     } catch (error) {
@@ -207,42 +385,52 @@ export class DecisionDatabase {
    */
   insertDecisions(decisions: Omit<Decision, 'indexedAt'>[]): number {
     if (!this.db) throw new Error('Database not initialized');
-
-    let inserted = 0;
-    for (const decision of decisions) {
-      try {
-        // Check if already exists by hash
-        const existing = this.db.exec(
-          `SELECT 1 FROM decisions WHERE content_hash = ?`,
-          [decision.contentHash]
-        );
-
-        if (existing.length === 0 || existing[0].values.length === 0) {
-          this.db.run(`
-            INSERT INTO decisions
-            (id, database, title, url, block, plot, committee, appraiser, case_type, decision_date, year, publish_date, content_hash)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-          `, [
-            decision.id,
-            decision.database,
-            decision.title,
-            decision.url,
-            decision.block,
-            decision.plot,
-            decision.committee,
-            decision.appraiser,
-            decision.caseType,
-            decision.decisionDate,
-            decision.year,
-            decision.publishDate,
-            decision.contentHash
-          ]);
-          inserted++;
+    const db = this.db;
+
+    // One transaction per batch: a single commit instead of one per row,
+    // and a crash mid-batch never leaves a partially written page
+    const inserted = db.transaction(() => {
+      let count = 0;
+      for (const decision of decisions) {
+        try {
+          // Check if already exists by hash
+          const existing = db.exec(
+            `SELECT 1 FROM decisions WHERE content_hash = ?`,
+            [decision.contentHash]
+          );
+
+          if (existing.length === 0 || existing[0].values.length === 0) {
+            db.run(`
+              INSERT INTO decisions
+              (id, database, title, url, block, plot, committee, committee_id, appraiser, case_type, decision_date, year, publish_date, decision_date_iso, publish_date_iso, content_hash)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `, [
+              decision.id,
+              decision.database,
+              decision.title,
+              decision.url,
+              decision.block,
+              decision.plot,
+              decision.committee,
+              decision.committeeId ?? null,
+              decision.appraiser,
+              decision.caseType,
+              decision.decisionDate,
+              decision.year,
+              decision.publishDate,
+              parseDateToIso(decision.decisionDate),
+              parseDateToIso(decision.publishDate),
+              decision.contentHash
+            ]);
+            replaceDecisionParcels(db, decision.id);
+            count++;
+          }
+        } catch (error) {
+          console.error('Error inserting decision:', error);
         }
-      } catch (error) {
-        console.error('Error inserting decision:', error);
       }
-    }
+      return count;
+    });
 
     if (inserted > 0) {
       this.save();
@@ -350,6 +538,8 @@ export class DecisionDatabase {
 
   /**
    * Search decisions with filtering
+   * Free-text queries go through the FTS5 index and are ordered by bm25 relevance;
+   * filter-only searches keep the newest-indexed-first order.
    */
   search(params: SearchParams): SearchResult {
     if (!this.db) throw new Error('Database not initialized');
@@ -357,38 +547,39 @@ export class DecisionDatabase {
     const conditions: string[] = [];
     const values: any[] = [];
 
+    // Full-text match over metadata and PDF text (all terms must match)
+    let ftsJoin = '';
+    const ftsValues: any[] = [];
+    const matchQuery = params.query
+      ? buildFtsMatchQuery(params.query.split(/\s+/))
+      : null;
+
+    if (matchQuery) {
+      const weights = FTS_COLUMNS.map(c => SEARCH_BM25_WEIGHTS[c].toFixed(1)).join(', ');
+      ftsJoin = `
+        JOIN (
+          SELECT rowid AS fts_rowid, bm25(decisions_fts, ${weights}) AS fts_score
+          FROM decisions_fts WHERE decisions_fts MATCH ?
+        ) fts ON fts.fts_rowid = decisions.rowid`;
+      ftsValues.push(matchQuery);
+    }
+
     // Build WHERE conditions
     if (params.database) {
       conditions.push('database = ?');
       values.push(params.database);
     }
 
-    if (params.query) {
-      // Use LIKE for text search (no FTS5 in sql.js)
-      const searchTerms = params.query.split(/\s+/).filter(t => t.length > 0);
-      const likeConditions = searchTerms.map(() =>
-        '(title LIKE ? OR committee LIKE ? OR appraiser LIKE ? OR case_type LIKE ?)'
-      );
-      conditions.push(`(${likeConditions.join(' AND ')})`);
-      for (const term of searchTerms) {
-        const likeTerm = `%${term}%`;
-        values.push(likeTerm, likeTerm, likeTerm, likeTerm);
-      }
-    }
-
     if (params.committee) {
-      conditions.push('committee LIKE ?');
-      values.push(`%${params.committee}%`);
-    }
-
-    if (params.block) {
-      conditions.push('block = ?');
-      values.push(params.block);
+      const committeeCondition = this.buildCommitteeCondition(params.committee);
+      conditions.push(committeeCondition.sql);
+      values.push(...committeeCondition.values);
     }
 
-    if (params.plot) {
-      conditions.push('plot = ?');
-      values.push(params.plot);
+    const parcelCondition = this.buildParcelCondition(params);
+    if (parcelCondition) {
+      conditions.push(parcelCondition.sql);
+      values.push(...parcelCondition.values);
     }
 
     if (params.appraiser) {
@@ -401,50 +592,56 @@ export class DecisionDatabase {
       values.push(`%${params.caseType}%`);
     }
 
-    // Year filter (more reliable than date range due to inconsistent date formats in source data)
     if (params.year) {
-      conditions.push('year = ?');
-      values.push(params.year);
+      const yearCondition = this.buildYearCondition(params.year);
+      conditions.push(yearCondition.sql);
+      values.push(...yearCondition.values);
     }
 
-    // Date range filters - NOTE: May not work correctly due to DD-MM-YYYY format in database
-    // Prefer using year filter for reliable results
+    // Date range filters compare normalized ISO dates, inclusive to the day
     if (params.fromDate) {
-      // Extract year from ISO date and use year comparison as fallback
-      const fromYear = params.fromDate.substring(0, 4);
-      conditions.push('(year >= ? OR decision_date >= ?)');
-      values.push(fromYear, params.fromDate);
+      const fromIso = toIsoDateBound(params.fromDate, 'start');
+      if (!fromIso) throw new Error(`Invalid fromDate: ${params.fromDate}`);
+      conditions.push('decision_date_iso >= ?');
+      values.push(fromIso);
     }
 
     if (params.toDate) {
-      const toYear = params.toDate.substring(0, 4);
-      conditions.push('(year <= ? OR decision_date <= ?)');
-      values.push(toYear, params.toDate);
+      const toIso = toIsoDateBound(params.toDate, 'end');
+      if (!toIso) throw new Error(`Invalid toDate: ${params.toDate}`);
+      conditions.push('decision_date_iso <= ?');
+      values.push(toIso);
     }
 
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
     const limit = params.limit || 50;
     const offset = params.offset || 0;
+    const rankedByRelevance = matchQuery !== null;
+    const orderBy = rankedByRelevance ? 'fts.fts_score ASC' : 'decisions.indexed_at DESC';
 
     // Get total count
     const countResult = this.db.exec(
-      `SELECT COUNT(*) as count FROM decisions ${whereClause}`,
-      values
+      `SELECT COUNT(*) as count FROM decisions ${ftsJoin} ${whereClause}`,
+      [...ftsValues, ...values]
     );
     const totalCount = countResult.length > 0 ? Number(countResult[0].values[0][0]) : 0;
 
     // Get results
     const queryResult = this.db.exec(
-      `SELECT * FROM decisions ${whereClause} ORDER BY indexed_at DESC LIMIT ? OFFSET ?`,
-      [...values, limit, offset]
+      `SELECT decisions.*${rankedByRelevance ? ', fts.fts_score' : ''}
+       FROM decisions ${ftsJoin} ${whereClause}
+       ORDER BY ${orderBy} LIMIT ? OFFSET ?`,
+      [...ftsValues, ...values, limit, offset]
     );
 
     const decisions: Decision[] = [];
     if (queryResult.length > 0 && queryResult[0].values.length > 0) {
       const columns = queryResult[0].columns;
+      const scoreIndex = columns.indexOf('fts_score');
       for (const rowValues of queryResult[0].values) {
         const row = this.columnsToRow(columns, rowValues);
-        decisions.push(rowToDecision(row));
+        const score = scoreIndex >= 0 ? Number(rowValues[scoreIndex]) : undefined;
+        decisions.push(rowToDecision(row, score));
       }
     }
 
@@ -452,7 +649,96 @@ export class DecisionDatabase {
       decisions,
       totalCount,
       hasMore: offset + decisions.length < totalCount,
-      query: params
+      query: params,
+      rankedByRelevance
+    };
+  }
+
+  /**
+   * WHERE condition for a year filter on the decisions table.
+   * Hebrew years (תשפ"ד) span two Gregorian years, so they filter by date range.
+   */
+  private buildYearCondition(year: string): { sql: string; values: string[] } {
+    const hebrewYear = parseHebrewYear(year);
+    if (hebrewYear) {
+      const range = hebrewYearToIsoRange(hebrewYear);
+      return {
+        sql: 'decisions.decision_date_iso >= ? AND decisions.decision_date_iso <= ?',
+        values: [range.from, range.to]
+      };
+    }
+    return { sql: 'decisions.year = ?', values: [year] };
+  }
+
+  /**
+   * SQL condition matching decisions with any parcel (decision_parcels) in the
+   * block, plot, lot and ranges given - not only the first parcel of the
+   * title. Block, plot and lot must hold for the same parcel; a plot range
+   * ("חלקות 353-357") matches every plot in it. Null without parcel filters.
+   */
+  buildParcelCondition(params: Pick<SearchParams, 'block' | 'plot' | 'blockRange' | 'plotRange' | 'lot'>): { sql: string; values: any[] } | null {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    // Parcel numbers are integers; other block/plot values only match the text columns
+    const textConditions: string[] = [];
+    const textValues: string[] = [];
+    const isNumber = (value: string) => /^\d+$/.test(value.trim());
+
+    if (params.block && isNumber(params.block)) {
+      conditions.push('p.block = ?');
+      values.push(Number(params.block));
+    } else if (params.block) {
+      textConditions.push('decisions.block = ?');
+      textValues.push(params.block);
+    }
+
+    if (params.plot && isNumber(params.plot)) {
+      conditions.push('p.plot_from <= ? AND p.plot_to >= ?');
+      values.push(Number(params.plot), Number(params.plot));
+    } else if (params.plot) {
+      textConditions.push('decisions.plot = ?');
+      textValues.push(params.plot);
+    }
+
+    if (params.blockRange) {
+      conditions.push('p.block BETWEEN ? AND ?');
+      values.push(params.blockRange.from, params.blockRange.to);
+    }
+
+    if (params.plotRange) {
+      conditions.push('p.plot_from <= ? AND p.plot_to >= ?');
+      values.push(params.plotRange.to, params.plotRange.from);
+    }
+
+    if (params.lot) {
+      conditions.push('p.lot_from <= ? AND p.lot_to >= ?');
+      values.push(parseInt(params.lot, 10), parseInt(params.lot, 10));
+    }
+
+    if (conditions.length === 0 && textConditions.length === 0) return null;
+    const sql = [
+      ...(conditions.length > 0
+        ? [`EXISTS (SELECT 1 FROM decision_parcels p WHERE p.decision_id = decisions.id AND ${conditions.join(' AND ')})`]
+        : []),
+      ...textConditions
+    ].join(' AND ');
+    return { sql, values: [...values, ...textValues] };
+  }
+
+  /**
+   * WHERE condition for a committee filter on the decisions table. A name,
+   * alias or locality from the gazetteer matches by committee_id; decisions
+   * not resolved yet and unknown names fall back to a substring match.
+   */
+  buildCommitteeCondition(committee: string): { sql: string; values: string[] } {
+    const ids = findCommitteeIds(committee);
+    if (ids.length === 0) {
+      return { sql: 'decisions.committee LIKE ?', values: [`%${committee}%`] };
+    }
+    return {
+      sql: `(decisions.committee_id IN (${ids.map(() => '?').join(', ')}) OR (decisions.committee_id IS NULL AND decisions.committee LIKE ?))`,
+      values: [...ids, `%${committee}%`]
     };
   }
 
@@ -481,6 +767,14 @@ export class DecisionDatabase {
     return result[0].values.map(v => String(v[0]));
   }
 
+  /**
+   * Committee names a question may use: the committees in the database and
+   * the gazetteer's names, aliases and localities
+   */
+  getCommitteeNames(): string[] {
+    return [...new Set([...this.getCommittees(), ...COMMITTEE_NAMES])];
+  }
+
   /**
    * Get all unique appraisers
    */
@@ -495,6 +789,346 @@ export class DecisionDatabase {
     return result[0].values.map(v => String(v[0]));
   }
 
+  // ============================================
+  // Appraisers
+  // ============================================
+
+  /**
+   * Re-cluster appraiser spellings into appraisers (appraiser-identity.ts).
+   * Returns the number of decisions whose appraiser changed.
+   */
+  refreshAppraisers(): number {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    const changed = db.transaction(() => assignAppraiserIds(db));
+    this.save();
+    return changed;
+  }
+
+  /**
+   * Appraisers matching a name, id or spelling: all spellings of the name
+   * first (any titles, word order or initials), otherwise appraisers whose
+   * name contains every word given ("כהן"). Most decisions first.
+   */
+  findAppraisers(name: string, limit: number = 10): Appraiser[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(`
+      SELECT appraisers.id, appraisers.canonical_name, appraisers.name_key, a.alias, a.decision_count
+      FROM appraisers JOIN appraiser_aliases a ON a.appraiser_id = appraisers.id
+      ORDER BY appraisers.id, a.decision_count DESC
+    `);
+    if (result.length === 0) return [];
+
+    const appraisers = new Map<number, Appraiser & { keys: Set<string> }>();
+    for (const [id, canonical, nameKey, alias, count] of result[0].values) {
+      const appraiser = appraisers.get(Number(id)) ?? {
+        id: Number(id), name: String(canonical), aliases: [], decisionCount: 0, keys: new Set([String(nameKey)])
+      };
+      appraiser.aliases.push({ name: String(alias), count: Number(count) });
+      appraiser.decisionCount += Number(count);
+      appraiser.keys.add(appraiserKey(String(alias)));
+      appraisers.set(Number(id), appraiser);
+    }
+
+    const key = appraiserKey(name);
+    const words = key.split(' ').filter(Boolean);
+    const all = [...appraisers.values()];
+    const exact = /^\d+$/.test(name.trim())
+      ? all.filter(a => a.id === Number(name.trim()))
+      : all.filter(a => a.keys.has(key));
+    const matches = exact.length > 0 || words.length === 0
+      ? exact
+      : all.filter(a => words.every(word => [...a.keys].some(k => k.split(' ').includes(word))));
+
+    return matches
+      .sort((a, b) => b.decisionCount - a.decisionCount)
+      .slice(0, limit)
+      .map(({ keys: _keys, ...appraiser }) => appraiser);
+  }
+
+  /**
+   * How an appraiser rules: decisions by year, database, committee and case
+   * type, and the distributions of the coefficients and outcomes extracted
+   * from their decisions
+   */
+  getAppraiserProfile(appraiserId: number): AppraiserProfile | null {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    const appraiser = this.findAppraisers(String(appraiserId), 1)[0];
+    if (!appraiser) return null;
+
+    const counts = (sql: string): Array<[string | null, number]> => {
+      const result = db.exec(sql, [appraiserId]);
+      return result.length > 0
+        ? result[0].values.map(v => [v[0] !== null ? String(v[0]) : null, Number(v[1])])
+        : [];
+    };
+
+    const databases = counts(`
+      SELECT database, COUNT(*) as count FROM decisions WHERE appraiser_id = ?
+      GROUP BY database ORDER BY count DESC
+    `);
+    const byYear = counts(`
+      SELECT year, COUNT(*) as count FROM decisions WHERE appraiser_id = ? AND year IS NOT NULL
+      GROUP BY year ORDER BY year DESC
+    `);
+    const committees = counts(`
+      SELECT COALESCE(committee_id, committee) as committee_key, COUNT(*) as count FROM decisions
+      WHERE appraiser_id = ? AND committee IS NOT NULL AND committee != ''
+      GROUP BY committee_key ORDER BY count DESC, committee_key
+    `);
+    const caseTypes = counts(`
+      SELECT case_type, COUNT(*) as count FROM decisions
+      WHERE appraiser_id = ? AND case_type IS NOT NULL AND case_type != ''
+      GROUP BY case_type ORDER BY count DESC
+    `);
+    const outcomes = counts(`
+      SELECT p.value_text, COUNT(DISTINCT p.decision_id) as count FROM decision_parameters p
+      JOIN decisions ON decisions.id = p.decision_id
+      WHERE decisions.appraiser_id = ? AND p.param_type = 'outcome'
+      GROUP BY p.value_text ORDER BY count DESC, p.value_text
+    `);
+    const withParameters = db.exec(`
+      SELECT COUNT(*) FROM decisions
+      JOIN parameter_extraction pe ON pe.decision_id = decisions.id
+      WHERE decisions.appraiser_id = ? AND pe.status = 'extracted'
+    `, [appraiserId]);
+
+    const dates = db.exec(`
+      SELECT MIN(decision_date_iso), MAX(decision_date_iso) FROM decisions WHERE appraiser_id = ?
+    `, [appraiserId]);
+    const [from, to] = dates.length > 0 ? dates[0].values[0] : [null, null];
+
+    const coefficientResult = db.exec(`
+      SELECT p.param_subtype, p.decision_id, p.value_numeric FROM decision_parameters p
+      JOIN decisions ON decisions.id = p.decision_id
+      WHERE decisions.appraiser_id = ? AND p.param_type = 'coefficient'
+        AND p.value_numeric IS NOT NULL AND p.confidence >= 0.5
+    `, [appraiserId]);
+    const bySubtype = new Map<string | null, { values: number[]; decisions: Set<string> }>();
+    for (const [subtype, decisionId, value] of coefficientResult.length > 0 ? coefficientResult[0].values : []) {
+      const key = subtype !== null ? String(subtype) : null;
+      const entry = bySubtype.get(key) ?? { values: [], decisions: new Set<string>() };
+      entry.values.push(Number(value));
+      entry.decisions.add(String(decisionId));
+      bySubtype.set(key, entry);
+    }
+
+    return {
+      appraiser,
+      databases: databases.map(([name, count]) => ({ name: name as DatabaseType, count })),
+      byYear: byYear.map(([year, count]) => ({ year: year!, count })),
+      committees: committees.map(([key, count]) => {
+        const entry = getCommittee(key!);
+        return { name: entry?.name ?? key!, committeeId: entry?.id ?? null, count };
+      }),
+      caseTypes: caseTypes.map(([name, count]) => ({ name: name!, count })),
+      dateRange: { from: from !== null ? String(from) : null, to: to !== null ? String(to) : null },
+      coefficients: [...bySubtype]
+        .map(([subtype, entry]) => ({ subtype, decisions: entry.decisions.size, ...valueDistribution(entry.values) }))
+        .sort((a, b) => b.count - a.count),
+      outcomes: outcomes.map(([outcome, count]) => ({ outcome: outcome!, count })),
+      decisionsWithParameters: withParameters.length > 0 ? Number(withParameters[0].values[0][0]) : 0
+    };
+  }
+
+  // ============================================
+  // Parcels (decision_parcels)
+  // ============================================
+
+  /**
+   * Every parcel a decision refers to, title parcels first
+   */
+  getDecisionParcels(decisionId: string): DecisionParcel[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(`
+      SELECT block, plot_from, plot_to, sub_plot, lot_from, lot_to, partial, source
+      FROM decision_parcels WHERE decision_id = ? ORDER BY id
+    `, [decisionId]);
+    if (result.length === 0) return [];
+
+    const range = (from: unknown, to: unknown) => (from !== null ? { from: Number(from), to: Number(to) } : null);
+    return result[0].values.map(([block, plotFrom, plotTo, subPlot, lotFrom, lotTo, partial, source]) => ({
+      block: block !== null ? Number(block) : null,
+      plots: range(plotFrom, plotTo),
+      subPlot: subPlot !== null ? Number(subPlot) : null,
+      lots: range(lotFrom, lotTo),
+      partial: Number(partial) === 1,
+      source: source as ParcelSource
+    }));
+  }
+
+  // ============================================
+  // Gush Locations (gush-layer.ts)
+  // ============================================
+
+  /**
+   * Replace the gush layer with the locations of a boundary dataset.
+   * Returns the number of gushim stored.
+   */
+  replaceGushLocations(locations: GushLocation[]): number {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    db.transaction(() => {
+      db.run(`DELETE FROM gush_neighbors`);
+      db.run(`DELETE FROM gush_locations`);
+      for (const location of locations) {
+        db.run(
+          `INSERT OR REPLACE INTO gush_locations (gush, locality, lat, lon, area_sqm) VALUES (?, ?, ?, ?, ?)`,
+          [location.gush, location.locality, location.lat, location.lon, location.areaSqm]
+        );
+        for (const neighbor of location.neighbors) {
+          db.run(`INSERT OR IGNORE INTO gush_neighbors (gush, neighbor) VALUES (?, ?)`, [location.gush, neighbor]);
+        }
+      }
+    });
+    this.save();
+    return locations.length;
+  }
+
+  /**
+   * Number of gushim in the gush layer (0 until a boundary dataset is loaded)
+   */
+  countGushLocations(): number {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(`SELECT COUNT(*) FROM gush_locations`);
+    return result.length > 0 ? Number(result[0].values[0][0]) : 0;
+  }
+
+  /**
+   * Centroid, locality and neighbors of a gush
+   */
+  getGushLocation(gush: string): GushLocation | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const key = normalizeGush(gush);
+    if (!key) return null;
+
+    const result = this.db.exec(`SELECT gush, locality, lat, lon, area_sqm FROM gush_locations WHERE gush = ?`, [key]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    const [, locality, lat, lon, areaSqm] = result[0].values[0];
+
+    const neighbors = this.db.exec(
+      `SELECT neighbor FROM gush_neighbors WHERE gush = ? ORDER BY CAST(neighbor AS INTEGER)`,
+      [key]
+    );
+
+    return {
+      gush: key,
+      locality: locality !== null ? String(locality) : null,
+      lat: Number(lat),
+      lon: Number(lon),
+      areaSqm: areaSqm !== null ? Number(areaSqm) : null,
+      neighbors: neighbors.length > 0 ? neighbors[0].values.map(row => String(row[0])) : []
+    };
+  }
+
+  /**
+   * Decisions in blocks matching a condition on gush_locations g, nearest to
+   * the center first, newest first within a block
+   */
+  private locatedDecisions(
+    center: GushLocation,
+    condition: string,
+    values: any[],
+    options: { database?: DatabaseType; radiusKm?: number; limit?: number }
+  ): { decisions: LocatedDecision[]; totalCount: number } {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const conditions = [condition];
+    if (options.database) {
+      conditions.push('decisions.database = ?');
+      values = [...values, options.database];
+    }
+
+    // Every parcel of a decision counts; a decision in several blocks is placed at the nearest
+    const result = this.db.exec(`
+      SELECT decisions.*, g.locality AS gush_locality, g.lat AS gush_lat, g.lon AS gush_lon
+      FROM gush_locations g
+      JOIN decision_parcels p ON p.block = CAST(g.gush AS INTEGER)
+      JOIN decisions ON decisions.id = p.decision_id
+      WHERE ${conditions.join(' AND ')}
+    `, values);
+    if (result.length === 0) return { decisions: [], totalCount: 0 };
+
+    const columns = result[0].columns;
+    const [localityIndex, latIndex, lonIndex] = ['gush_locality', 'gush_lat', 'gush_lon'].map(c => columns.indexOf(c));
+    const nearest = new Map<string, LocatedDecision>();
+    for (const values of result[0].values) {
+      const decision = rowToDecision(this.columnsToRow(columns, values));
+      const distance = Math.round(distanceKm(center.lat, center.lon, Number(values[latIndex]), Number(values[lonIndex])) * 1000) / 1000;
+      const known = nearest.get(decision.id);
+      if (known && known.distanceKm <= distance) continue;
+      nearest.set(decision.id, {
+        decision,
+        locality: values[localityIndex] !== null ? String(values[localityIndex]) : null,
+        distanceKm: distance
+      });
+    }
+
+    const located = [...nearest.values()]
+      .filter(d => options.radiusKm === undefined || d.distanceKm <= options.radiusKm)
+      .sort((a, b) =>
+        a.distanceKm - b.distanceKm
+        || (b.decision.decisionDateIso ?? '').localeCompare(a.decision.decisionDateIso ?? '')
+        || a.decision.id.localeCompare(b.decision.id)
+      );
+
+    return { decisions: located.slice(0, options.limit || 50), totalCount: located.length };
+  }
+
+  /**
+   * Decisions whose block centroid is within radiusKm of a gush's centroid.
+   * Null when the gush is not in the gush layer.
+   */
+  searchNearGush(gush: string, radiusKm: number, options: { database?: DatabaseType; limit?: number } = {}): {
+    center: GushLocation;
+    decisions: LocatedDecision[];
+    totalCount: number;
+  } | null {
+    const center = this.getGushLocation(gush);
+    if (!center) return null;
+
+    const box = boundingBox(center.lat, center.lon, radiusKm);
+    const { decisions, totalCount } = this.locatedDecisions(
+      center,
+      'g.lat BETWEEN ? AND ? AND g.lon BETWEEN ? AND ?',
+      [box.minLat, box.maxLat, box.minLon, box.maxLon],
+      { ...options, radiusKm }
+    );
+    return { center, decisions, totalCount };
+  }
+
+  /**
+   * Decisions in the blocks bordering a gush (and in the gush itself unless
+   * includeSelf is false). Null when the gush is not in the gush layer.
+   */
+  searchNeighboringBlocks(gush: string, options: { database?: DatabaseType; includeSelf?: boolean; limit?: number } = {}): {
+    center: GushLocation;
+    decisions: LocatedDecision[];
+    totalCount: number;
+  } | null {
+    const center = this.getGushLocation(gush);
+    if (!center) return null;
+
+    const blocks = options.includeSelf === false ? center.neighbors : [center.gush, ...center.neighbors];
+    if (blocks.length === 0) return { center, decisions: [], totalCount: 0 };
+
+    const { decisions, totalCount } = this.locatedDecisions(
+      center,
+      `g.gush IN (${blocks.map(() => '?').join(', ')})`,
+      blocks,
+      options
+    );
+    return { center, decisions, totalCount };
+  }
+
   /**
    * Get cached PDF text for a decision
    * US-PDF-001: Returns cached text or null if not cached
@@ -520,12 +1154,17 @@ export class DecisionDatabase {
    */
   savePdfText(decisionId: string, text: string): boolean {
     if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
 
     try {
-      this.db.run(
-        `UPDATE decisions SET pdf_text = ? WHERE id = ?`,
-        [text, decisionId]
-      );
+      db.transaction(() => {
+        db.run(
+          `UPDATE decisions SET pdf_text = ? WHERE id = ?`,
+          [text, decisionId]
+        );
+        replaceDecisionPassages(db, decisionId, text);
+        replaceDecisionParcels(db, decisionId);
+      });
       this.save();
       console.error(`[Database] Saved PDF text cache for ${decisionId} (${text.length} chars)`);
       return true;
@@ -536,22 +1175,127 @@ export class DecisionDatabase {
   }
 
   /**
-   * Get database statistics
-   * US-004: Returns total count, breakdown by committee/case type/year, date range
+   * Save the per-page text and layout of a decision PDF, replacing earlier pages
    */
-  getStats(): ExtendedStats {
+  savePdfPages(decisionId: string, pages: PdfPage[]): boolean {
     if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
 
-    const totalResult = this.db.exec(`SELECT COUNT(*) FROM decisions`);
-    const totalDocuments = totalResult.length > 0 ? Number(totalResult[0].values[0][0]) : 0;
+    try {
+      db.transaction(() => {
+        db.run(`DELETE FROM pdf_pages WHERE decision_id = ?`, [decisionId]);
+        for (const page of pages) {
+          db.run(
+            `INSERT INTO pdf_pages (decision_id, page_number, text, lines, ocr_confidence) VALUES (?, ?, ?, ?, ?)`,
+            [decisionId, page.pageNumber, page.text, JSON.stringify(page.lines), page.ocrConfidence ?? null]
+          );
+        }
+      });
+      this.save();
+      return true;
+    } catch (error) {
+      console.error(`[Database] Failed to save PDF pages for ${decisionId}:`, error);
+      return false;
+    }
+  }
 
-    const byDatabase: Record<DatabaseType, number> = {
-      decisive_appraiser: 0,
-      appeals_committee: 0,
-      appeals_board: 0
-    };
+  /**
+   * Get the stored pages of a decision PDF (empty if extracted before pages were kept)
+   */
+  getPdfPages(decisionId: string): PdfPage[] {
+    if (!this.db) throw new Error('Database not initialized');
 
-    const byDbResult = this.db.exec(
+    const result = this.db.exec(
+      `SELECT page_number, text, lines, ocr_confidence FROM pdf_pages WHERE decision_id = ? ORDER BY page_number`,
+      [decisionId]
+    );
+
+    if (result.length === 0) return [];
+    return result[0].values.map(row => {
+      const page: PdfPage = {
+        pageNumber: Number(row[0]),
+        text: String(row[1]),
+        lines: row[2] ? JSON.parse(String(row[2])) : []
+      };
+      if (row[3] !== null) page.ocrConfidence = Number(row[3]);
+      return page;
+    });
+  }
+
+  /**
+   * Every decision with a fingerprint of the text it is embedded from, which
+   * changes when its metadata or PDF text changes (used by the embedding job)
+   */
+  getDecisionFingerprints(database?: DatabaseType): Array<{
+    id: string;
+    database: DatabaseType;
+    contentHash: string;
+    fingerprint: string;
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(`
+      SELECT id, database, content_hash, content_hash || ':' || COALESCE(length(pdf_text), 0) FROM decisions
+      ${database ? 'WHERE database = ?' : ''}
+      ORDER BY id
+    `, database ? [database] : []);
+
+    if (result.length === 0) return [];
+    return result[0].values.map(row => ({
+      id: String(row[0]),
+      database: row[1] as DatabaseType,
+      contentHash: String(row[2]),
+      fingerprint: String(row[3])
+    }));
+  }
+
+  /**
+   * Decisions with a PDF URL but no PDF text yet (not downloaded, or scanned),
+   * with the extraction status of their cached PDF if any
+   */
+  getDecisionsWithoutPdfText(limit: number = 50, database?: DatabaseType): Array<{
+    id: string;
+    database: DatabaseType;
+    url: string;
+    extractionStatus: string | null;
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const dbFilter = database ? ' AND decisions.database = ?' : '';
+    const result = this.db.exec(`
+      SELECT decisions.id, decisions.database, decisions.url, pc.extraction_status FROM decisions
+      LEFT JOIN pdf_cache pc ON pc.decision_id = decisions.id
+      WHERE (decisions.pdf_text IS NULL OR decisions.pdf_text = '') AND decisions.url IS NOT NULL${dbFilter}
+      ORDER BY decisions.indexed_at DESC
+      LIMIT ?
+    `, database ? [database, limit] : [limit]);
+
+    if (result.length === 0) return [];
+    return result[0].values.map(row => ({
+      id: String(row[0]),
+      database: row[1] as DatabaseType,
+      url: String(row[2]),
+      extractionStatus: row[3] !== null ? String(row[3]) : null
+    }));
+  }
+
+  /**
+   * Get database statistics
+   * US-004: Returns total count, breakdown by committee/case type/year, date range
+   */
+  getStats(): ExtendedStats {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const totalResult = this.db.exec(`SELECT COUNT(*) FROM decisions`);
+    const totalDocuments = totalResult.length > 0 ? Number(totalResult[0].values[0][0]) : 0;
+
+    const byDatabase: Record<DatabaseType, number> = {
+      decisive_appraiser: 0,
+      appeals_committee: 0,
+      appeals_board: 0
+    };
+
+    const byDbResult = this.db.exec(
       `SELECT database, COUNT(*) as count FROM decisions GROUP BY database`
     );
     if (byDbResult.length > 0) {
@@ -586,7 +1330,7 @@ export class DecisionDatabase {
 
     // Get oldest decision date (date range min)
     const oldestResult = this.db.exec(
-      `SELECT MIN(decision_date) FROM decisions WHERE decision_date IS NOT NULL`
+      `SELECT MIN(decision_date_iso) FROM decisions WHERE decision_date_iso IS NOT NULL`
     );
     const oldestDecision = oldestResult.length > 0 && oldestResult[0].values[0][0]
       ? String(oldestResult[0].values[0][0])
@@ -594,23 +1338,23 @@ export class DecisionDatabase {
 
     // Get newest decision date (date range max)
     const newestResult = this.db.exec(
-      `SELECT MAX(decision_date) FROM decisions WHERE decision_date IS NOT NULL`
+      `SELECT MAX(decision_date_iso) FROM decisions WHERE decision_date_iso IS NOT NULL`
     );
     const newestDecision = newestResult.length > 0 && newestResult[0].values[0][0]
       ? String(newestResult[0].values[0][0])
       : null;
 
-    // Breakdown by committee (top 20)
+    // Breakdown by committee (top 20), spelling variants counted together
     const byCommitteeResult = this.db.exec(
-      `SELECT committee, COUNT(*) as count FROM decisions
+      `SELECT COALESCE(committee_id, committee) as committee_key, COUNT(*) as count FROM decisions
        WHERE committee IS NOT NULL AND committee != ''
-       GROUP BY committee ORDER BY count DESC LIMIT 20`
+       GROUP BY committee_key ORDER BY count DESC LIMIT 20`
     );
     const byCommittee: Array<{ committee: string; count: number }> = [];
     if (byCommitteeResult.length > 0) {
       for (const row of byCommitteeResult[0].values) {
         byCommittee.push({
-          committee: String(row[0]),
+          committee: getCommittee(String(row[0]))?.name ?? String(row[0]),
           count: Number(row[1])
         });
       }
@@ -743,12 +1487,17 @@ export class DecisionDatabase {
    */
   updatePdfText(id: string, pdfText: string): boolean {
     if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
 
     try {
-      this.db.run(
-        `UPDATE decisions SET pdf_text = ? WHERE id = ?`,
-        [pdfText, id]
-      );
+      db.transaction(() => {
+        db.run(
+          `UPDATE decisions SET pdf_text = ? WHERE id = ?`,
+          [pdfText, id]
+        );
+        replaceDecisionPassages(db, id, pdfText);
+        replaceDecisionParcels(db, id);
+      });
       this.save();
       return true;
     } catch (error) {
@@ -758,28 +1507,63 @@ export class DecisionDatabase {
   }
 
   /**
-   * US-006: Get analytics data - decisions by committee
+   * US-006: Get analytics data - decisions by committee.
+   * Grouped by committee_id, so the spellings of one committee are one row
+   * under its canonical name; unresolved committees are grouped by their text.
    */
-  getDecisionsByCommittee(limit: number = 50, database?: DatabaseType): Array<{ name: string; count: number }> {
+  getDecisionsByCommittee(limit: number = 50, database?: DatabaseType): Array<{ name: string; count: number; committeeId?: string }> {
     if (!this.db) throw new Error('Database not initialized');
 
     const dbFilter = database ? ' AND database = ?' : '';
     const params = database ? [database, limit] : [limit];
 
     const result = this.db.exec(
-      `SELECT committee, COUNT(*) as count FROM decisions
+      `SELECT COALESCE(committee_id, committee) as committee_key, COUNT(*) as count FROM decisions
        WHERE committee IS NOT NULL AND committee != ''${dbFilter}
-       GROUP BY committee
+       GROUP BY committee_key
        ORDER BY count DESC
        LIMIT ?`,
       params
     );
 
     if (result.length === 0) return [];
-    return result[0].values.map(v => ({
-      name: String(v[0]),
-      count: Number(v[1])
-    }));
+    return result[0].values.map(v => {
+      const entry = getCommittee(String(v[0]));
+      return {
+        name: entry?.name ?? String(v[0]),
+        count: Number(v[1]),
+        ...(entry && { committeeId: entry.id })
+      };
+    });
+  }
+
+  /**
+   * Committees with decision counts: one entry per canonical committee with
+   * the spellings found in decisions, then each unresolved committee string
+   */
+  getCommitteesWithCounts(limit: number = 100): Array<{ name: string; committeeId: string | null; variants: string[]; count: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(
+      `SELECT committee_id, committee, COUNT(*) as count FROM decisions
+       WHERE committee IS NOT NULL AND committee != ''
+       GROUP BY committee_id, committee
+       ORDER BY committee`
+    );
+    if (result.length === 0) return [];
+
+    const committees = new Map<string, { name: string; committeeId: string | null; variants: string[]; count: number }>();
+    for (const [committeeId, committee, count] of result[0].values) {
+      const entry = committeeId ? getCommittee(String(committeeId)) : null;
+      const key = entry?.id ?? String(committee);
+      const item = committees.get(key) ?? { name: entry?.name ?? String(committee), committeeId: entry?.id ?? null, variants: [], count: 0 };
+      item.variants.push(String(committee));
+      item.count += Number(count);
+      committees.set(key, item);
+    }
+    return [...committees.values()]
+      .sort((a, b) => a.name.localeCompare(b.name, 'he'))
+      .slice(0, limit);
   }
 
   /**
@@ -888,6 +1672,212 @@ export class DecisionDatabase {
     return { avgPerMonth, totalMonths, totalDecisions };
   }
 
+  // ============================================
+  // Selector Configs (selector-learner.ts)
+  // ============================================
+
+  /**
+   * Titles and PDF URLs of the most recently indexed decisions of a database,
+   * to locate in a redesigned listing page
+   */
+  getSelectorAnchors(database: DatabaseType, limit = 2000): SelectorAnchor[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(
+      `SELECT title, url FROM decisions WHERE database = ? ORDER BY indexed_at DESC, id LIMIT ?`,
+      [database, limit]
+    );
+    if (result.length === 0) return [];
+    return result[0].values.map(([title, url]) => ({
+      title: String(title),
+      url: url !== null ? String(url) : null
+    }));
+  }
+
+  /**
+   * Store a new version of the primary selectors and make it the active one
+   */
+  saveSelectorConfig(config: Pick<SelectorConfigVersion, 'selectors' | 'source' | 'database' | 'anchors' | 'itemCount'>): SelectorConfigVersion {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    let version = 0;
+    db.transaction(() => {
+      db.run(`UPDATE selector_configs SET active = 0 WHERE active = 1`);
+      db.run(
+        `INSERT INTO selector_configs (selectors, source, database, anchors, item_count, active, activated_at)
+         VALUES (?, ?, ?, ?, ?, 1, datetime('now'))`,
+        [JSON.stringify(config.selectors), config.source, config.database, config.anchors, config.itemCount]
+      );
+      version = Number(db.exec(`SELECT last_insert_rowid()`)[0].values[0][0]);
+    });
+    this.save();
+    return this.getSelectorConfig(version)!;
+  }
+
+  /**
+   * The active selector version, or null when the built-in selectors are used
+   */
+  getActiveSelectorConfig(): SelectorConfigVersion | null {
+    return this.selectSelectorConfigs(`WHERE active = 1`)[0] ?? null;
+  }
+
+  getSelectorConfig(version: number): SelectorConfigVersion | null {
+    return this.selectSelectorConfigs(`WHERE version = ?`, [version])[0] ?? null;
+  }
+
+  /**
+   * Stored selector versions, newest first
+   */
+  getSelectorConfigHistory(limit = 20): SelectorConfigVersion[] {
+    return this.selectSelectorConfigs(`ORDER BY version DESC LIMIT ?`, [limit]);
+  }
+
+  /**
+   * Make a stored version the active one; null goes back to the built-in selectors
+   */
+  activateSelectorConfig(version: number | null): SelectorConfigVersion | null {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    if (version !== null && !this.getSelectorConfig(version)) {
+      throw new Error(`Unknown selector config version: ${version}`);
+    }
+
+    db.transaction(() => {
+      db.run(`UPDATE selector_configs SET active = 0 WHERE active = 1`);
+      if (version !== null) {
+        db.run(`UPDATE selector_configs SET active = 1, activated_at = datetime('now') WHERE version = ?`, [version]);
+      }
+    });
+    this.save();
+    return version !== null ? this.getSelectorConfig(version) : null;
+  }
+
+  /**
+   * Go back to the version before the active one (the built-in selectors
+   * before the first). Returns the now active version.
+   */
+  rollbackSelectorConfig(): SelectorConfigVersion | null {
+    const active = this.getActiveSelectorConfig();
+    if (!active) return null;
+
+    const previous = this.selectSelectorConfigs(`WHERE version < ? ORDER BY version DESC LIMIT 1`, [active.version])[0];
+    return this.activateSelectorConfig(previous?.version ?? null);
+  }
+
+  private selectSelectorConfigs(clause: string, params: (string | number)[] = []): SelectorConfigVersion[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(
+      `SELECT version, selectors, source, database, anchors, item_count, active, created_at, activated_at
+       FROM selector_configs ${clause}`,
+      params
+    );
+    if (result.length === 0) return [];
+    return result[0].values.map(([version, selectors, source, database, anchors, itemCount, active, createdAt, activatedAt]) => ({
+      version: Number(version),
+      selectors: JSON.parse(String(selectors)) as PrimarySelectors,
+      source: source as SelectorConfigSource,
+      database: database !== null ? database as DatabaseType : null,
+      anchors: Number(anchors),
+      itemCount: Number(itemCount),
+      active: Number(active) === 1,
+      createdAt: String(createdAt),
+      activatedAt: activatedAt !== null ? String(activatedAt) : null
+    }));
+  }
+
+  // ============================================
+  // Alert Log (alerts.ts)
+  // ============================================
+
+  /**
+   * Record an alert with what happened to it
+   */
+  recordAlert(alert: Alert, status: AlertStatus, sinks: string[] = []): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.run(
+      `INSERT INTO alert_log (type, alert_key, severity, title, message, database, details, status, sinks, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [alert.type, alert.key, alert.severity, alert.title, alert.message, alert.database,
+        JSON.stringify(alert.details), status, sinks.join(','), alert.timestamp]
+    );
+    this.save();
+  }
+
+  /**
+   * When an alert with this key was last delivered (ISO timestamp), if ever
+   */
+  getLastAlertSentAt(key: string): string | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(
+      `SELECT MAX(created_at) FROM alert_log WHERE alert_key = ? AND status = 'sent'`,
+      [key]
+    );
+    const value = result[0]?.values[0]?.[0];
+    return value !== null && value !== undefined ? String(value) : null;
+  }
+
+  /**
+   * Alerts delivered since an ISO timestamp
+   */
+  countAlertsSentSince(since: string): number {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(
+      `SELECT COUNT(*) FROM alert_log WHERE status = 'sent' AND created_at >= ?`,
+      [since]
+    );
+    return Number(result[0]?.values[0]?.[0] ?? 0);
+  }
+
+  /**
+   * Logged alerts, newest first
+   */
+  getRecentAlerts(limit = 20, status?: AlertStatus): AlertRecord[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(
+      `SELECT type, alert_key, severity, title, message, database, details, status, sinks, created_at
+       FROM alert_log ${status ? 'WHERE status = ?' : ''}
+       ORDER BY created_at DESC, id DESC LIMIT ?`,
+      status ? [status, limit] : [limit]
+    );
+    if (result.length === 0) return [];
+    return result[0].values.map(([type, key, severity, title, message, database, details, rowStatus, sinks, createdAt]) => ({
+      type: type as AlertType,
+      severity: severity as AlertSeverity,
+      key: String(key),
+      title: String(title),
+      message: String(message),
+      database: database !== null ? database as DatabaseType : null,
+      details: details !== null ? JSON.parse(String(details)) as Record<string, unknown> : {},
+      timestamp: String(createdAt),
+      status: rowStatus as AlertStatus,
+      sinks: sinks ? String(sinks).split(',') : []
+    }));
+  }
+
+  /**
+   * When each database last had a decision added (indexed_at, UTC)
+   */
+  getLastIndexedAt(): Array<{ database: DatabaseType; lastIndexedAt: string; decisions: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(
+      `SELECT database, MAX(indexed_at), COUNT(*) FROM decisions GROUP BY database ORDER BY database`
+    );
+    if (result.length === 0) return [];
+    return result[0].values.map(([database, lastIndexedAt, decisions]) => ({
+      database: database as DatabaseType,
+      lastIndexedAt: String(lastIndexedAt),
+      decisions: Number(decisions)
+    }));
+  }
+
   // ============================================
   // US-PDF-005: PDF Cache Tracking Methods
   // ============================================
@@ -988,11 +1978,12 @@ export class DecisionDatabase {
     cachedAt: string;
     lastAccessed: string | null;
     extractionStatus: string;
+    extractionMethod: PdfExtractionMethod | null;
   } | null {
     if (!this.db) throw new Error('Database not initialized');
 
     const result = this.db.exec(
-      `SELECT file_path, file_size, file_hash, cached_at, last_accessed, extraction_status
+      `SELECT file_path, file_size, file_hash, cached_at, last_accessed, extraction_status, extraction_method
        FROM pdf_cache WHERE decision_id = ?`,
       [decisionId]
     );
@@ -1008,7 +1999,8 @@ export class DecisionDatabase {
       fileHash: String(row[2]),
       cachedAt: String(row[3]),
       lastAccessed: row[4] ? String(row[4]) : null,
-      extractionStatus: String(row[5])
+      extractionStatus: String(row[5]),
+      extractionMethod: row[6] ? row[6] as PdfExtractionMethod : null
     };
   }
 
@@ -1032,15 +2024,15 @@ export class DecisionDatabase {
   }
 
   /**
-   * US-PDF-005: Update extraction status for a cached PDF
+   * US-PDF-005: Update extraction status (and how the text was obtained) for a cached PDF
    */
-  updatePdfCacheStatus(decisionId: string, status: string): boolean {
+  updatePdfCacheStatus(decisionId: string, status: string, method?: PdfExtractionMethod): boolean {
     if (!this.db) throw new Error('Database not initialized');
 
     try {
       this.db.run(
-        `UPDATE pdf_cache SET extraction_status = ? WHERE decision_id = ?`,
-        [status, decisionId]
+        `UPDATE pdf_cache SET extraction_status = ?, extraction_method = COALESCE(?, extraction_method) WHERE decision_id = ?`,
+        [status, method ?? null, decisionId]
       );
       this.save();
       return true;
@@ -1093,6 +2085,567 @@ export class DecisionDatabase {
     }));
   }
 
+  // ============================================
+  // Passages (decision_passages)
+  // ============================================
+
+  /**
+   * Passages of a decision in text order. Kept in step with pdf_text by
+   * savePdfText() / updatePdfText().
+   */
+  getPassages(decisionId: string): DecisionPassage[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(
+      `SELECT ${PASSAGE_COLUMNS} FROM decision_passages WHERE decision_id = ? ORDER BY passage_index`,
+      [decisionId]
+    );
+    if (result.length === 0) return [];
+    return result[0].values.map(row => rowToPassage(row));
+  }
+
+  getPassage(decisionId: string, index: number): DecisionPassage | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(
+      `SELECT ${PASSAGE_COLUMNS} FROM decision_passages WHERE decision_id = ? AND passage_index = ?`,
+      [decisionId, index]
+    );
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return rowToPassage(result[0].values[0]);
+  }
+
+  /**
+   * Full-text search over passages, best first. With perDecision only the
+   * best N passages of each decision are returned.
+   */
+  searchPassages(filter: PassageFilter): PassageSearchResult[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const matchQuery = buildFtsMatchQuery(filter.query.split(/\s+/));
+    if (!matchQuery) return [];
+
+    const conditions: string[] = ['passages_fts MATCH ?'];
+    const values: any[] = [matchQuery];
+
+    if (filter.sectionType) {
+      conditions.push('p.section_type = ?');
+      values.push(filter.sectionType);
+    }
+
+    if (filter.database) {
+      conditions.push('decisions.database = ?');
+      values.push(filter.database);
+    }
+
+    if (filter.committee) {
+      const committeeCondition = this.buildCommitteeCondition(filter.committee);
+      conditions.push(committeeCondition.sql);
+      values.push(...committeeCondition.values);
+    }
+
+    if (filter.year) {
+      const yearCondition = this.buildYearCondition(filter.year);
+      conditions.push(yearCondition.sql);
+      values.push(...yearCondition.values);
+    }
+
+    if (filter.decisionIds) {
+      if (filter.decisionIds.length === 0) return [];
+      conditions.push(`p.decision_id IN (${filter.decisionIds.map(() => '?').join(', ')})`);
+      values.push(...filter.decisionIds);
+    }
+
+    const matches = `
+      SELECT ${PASSAGE_COLUMNS.replace(/(^|, )/g, '$1p.')}, p.decision_id,
+             decisions.database, decisions.title, decisions.committee, decisions.appraiser,
+             decisions.block, decisions.plot, decisions.year, decisions.url,
+             snippet(passages_fts, 0, '[', ']', '…', 24) AS snippet,
+             bm25(passages_fts) AS score
+      FROM passages_fts
+      JOIN decision_passages p ON p.id = passages_fts.rowid
+      JOIN decisions ON decisions.id = p.decision_id
+      WHERE ${conditions.join(' AND ')}`;
+
+    // FTS5 auxiliary functions cannot appear in a window query, so the
+    // per-decision rank is computed over the matches
+    const result = this.db.exec(filter.perDecision
+      ? `SELECT * FROM (
+           SELECT *, ROW_NUMBER() OVER (PARTITION BY decision_id ORDER BY score) AS decision_rank
+           FROM (${matches})
+         )
+         WHERE decision_rank <= ?
+         ORDER BY score ASC
+         LIMIT ?`
+      : `${matches}
+         ORDER BY score ASC
+         LIMIT ?`,
+      [...values, ...(filter.perDecision ? [filter.perDecision] : []), filter.limit || 20]);
+
+    if (result.length === 0) return [];
+    return result[0].values.map(row => ({
+      ...rowToPassage(row),
+      decisionId: String(row[8]),
+      database: row[9] as DatabaseType,
+      title: String(row[10]),
+      committee: row[11] as string | null,
+      appraiser: row[12] as string | null,
+      block: row[13] as string | null,
+      plot: row[14] as string | null,
+      year: row[15] as string | null,
+      url: row[16] as string | null,
+      snippet: String(row[17]),
+      // bm25() is lower for better matches
+      score: Math.round(-Number(row[18]) * 1000) / 1000
+    }));
+  }
+
+  // ============================================
+  // Structured Parameters (decision_parameters)
+  // ============================================
+
+  /**
+   * Replace the extracted parameters of a decision and mark it extracted.
+   * Does not write to disk; callers extracting in batches call forceSave().
+   * Returns the number of parameters stored.
+   */
+  insertParameters(decisionId: string, parameters: ExtractedParameter[]): number {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    return db.transaction(() => {
+      db.run(`DELETE FROM decision_parameters WHERE decision_id = ?`, [decisionId]);
+      for (const p of parameters) {
+        db.run(`
+          INSERT INTO decision_parameters
+          (decision_id, param_type, param_subtype, value_numeric, value_text, unit, confidence, context_snippet, extraction_method)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          decisionId,
+          p.param_type,
+          p.param_subtype,
+          p.value_numeric,
+          p.value_text,
+          p.unit,
+          p.confidence,
+          p.context_snippet,
+          p.extraction_method
+        ]);
+      }
+      db.run(`
+        INSERT OR REPLACE INTO parameter_extraction (decision_id, status, parameter_count, error, updated_at)
+        VALUES (?, 'extracted', ?, NULL, datetime('now'))
+      `, [decisionId, parameters.length]);
+      return parameters.length;
+    });
+  }
+
+  /**
+   * Record the extraction status of a decision (e.g. 'failed' with the error)
+   */
+  setParameterExtractionStatus(decisionId: string, status: string, error?: string): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.run(`
+      INSERT OR REPLACE INTO parameter_extraction (decision_id, status, parameter_count, error, updated_at)
+      VALUES (?, ?, 0, ?, datetime('now'))
+    `, [decisionId, status, error ?? null]);
+  }
+
+  /**
+   * IDs of decisions with PDF text that have not been processed yet
+   */
+  getUnextractedDecisionIds(limit: number = 50): string[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(`
+      SELECT decisions.id FROM decisions
+      LEFT JOIN parameter_extraction pe ON pe.decision_id = decisions.id
+      WHERE decisions.pdf_text IS NOT NULL AND pe.decision_id IS NULL
+      ORDER BY decisions.indexed_at DESC
+      LIMIT ?
+    `, [limit]);
+
+    if (result.length === 0) return [];
+    return result[0].values.map(v => String(v[0]));
+  }
+
+  /**
+   * All parameters of a decision, grouped by type and most confident first
+   */
+  getParametersForDecision(decisionId: string): DecisionParameter[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec(`
+      SELECT id, decision_id, param_type, param_subtype, value_numeric, value_text, unit,
+             confidence, context_snippet, extraction_method, extracted_at
+      FROM decision_parameters
+      WHERE decision_id = ?
+      ORDER BY param_type, confidence DESC, id
+    `, [decisionId]);
+
+    if (result.length === 0) return [];
+    return result[0].values.map(row => ({
+      id: Number(row[0]),
+      decision_id: String(row[1]),
+      param_type: row[2] as ParamType,
+      param_subtype: row[3] !== null ? String(row[3]) : null,
+      value_numeric: row[4] !== null ? Number(row[4]) : null,
+      value_text: row[5] !== null ? String(row[5]) : null,
+      unit: row[6] !== null ? String(row[6]) : null,
+      confidence: Number(row[7]),
+      context_snippet: row[8] !== null ? String(row[8]) : null,
+      extraction_method: row[9] as ExtractionMethod,
+      extracted_at: String(row[10])
+    }));
+  }
+
+  /**
+   * Search decisions by extracted parameters.
+   * Returns one row per matching parameter with its decision's metadata,
+   * most confident and newest first.
+   */
+  searchByParameters(filter: ParameterFilter): { rows: ParameterSearchRow[]; totalCount: number } {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const conditions: string[] = ['dp.param_type = ?'];
+    const values: any[] = [filter.param_type];
+
+    if (filter.param_subtype) {
+      conditions.push('dp.param_subtype LIKE ?');
+      values.push(`%${filter.param_subtype}%`);
+    }
+
+    if (filter.value_min !== undefined) {
+      conditions.push('dp.value_numeric >= ?');
+      values.push(filter.value_min);
+    }
+
+    if (filter.value_max !== undefined) {
+      conditions.push('dp.value_numeric <= ?');
+      values.push(filter.value_max);
+    }
+
+    if (filter.value_text) {
+      conditions.push('dp.value_text LIKE ?');
+      values.push(`%${filter.value_text}%`);
+    }
+
+    if (filter.min_confidence !== undefined) {
+      conditions.push('dp.confidence >= ?');
+      values.push(filter.min_confidence);
+    }
+
+    if (filter.committee) {
+      const committeeCondition = this.buildCommitteeCondition(filter.committee);
+      conditions.push(committeeCondition.sql);
+      values.push(...committeeCondition.values);
+    }
+
+    if (filter.year) {
+      const yearCondition = this.buildYearCondition(filter.year);
+      conditions.push(yearCondition.sql);
+      values.push(...yearCondition.values);
+    }
+
+    if (filter.database) {
+      conditions.push('decisions.database = ?');
+      values.push(filter.database);
+    }
+
+    const fromClause = `
+      FROM decision_parameters dp
+      JOIN decisions ON decisions.id = dp.decision_id
+      WHERE ${conditions.join(' AND ')}`;
+
+    const countResult = this.db.exec(`SELECT COUNT(*) ${fromClause}`, values);
+    const totalCount = countResult.length > 0 ? Number(countResult[0].values[0][0]) : 0;
+
+    const queryResult = this.db.exec(`
+      SELECT decisions.id AS id, decisions.database AS database, decisions.title AS title,
+             decisions.committee AS committee, decisions.appraiser AS appraiser,
+             decisions.block AS block, decisions.plot AS plot, decisions.year AS year,
+             decisions.decision_date AS decision_date,
+             dp.param_type, dp.param_subtype, dp.value_numeric, dp.value_text, dp.unit,
+             dp.confidence, dp.context_snippet
+      ${fromClause}
+      ORDER BY dp.confidence DESC, decisions.decision_date_iso DESC
+      LIMIT ?
+    `, [...values, filter.limit || 50]);
+
+    if (queryResult.length === 0) return { rows: [], totalCount };
+    const columns = queryResult[0].columns;
+    const rows = queryResult[0].values.map(rowValues => {
+      const row: any = {};
+      columns.forEach((col, idx) => {
+        row[col] = rowValues[idx];
+      });
+      return row as ParameterSearchRow;
+    });
+
+    return { rows, totalCount };
+  }
+
+  /**
+   * Value statistics for one parameter type, overall and per subtype
+   */
+  getParameterStats(paramType: string): {
+    paramType: string;
+    totalParameters: number;
+    decisions: number;
+    minValue: number | null;
+    maxValue: number | null;
+    avgValue: number | null;
+    bySubtype: Array<{ subtype: string | null; count: number }>;
+  } {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const totals = this.db.exec(`
+      SELECT COUNT(*), COUNT(DISTINCT decision_id), MIN(value_numeric), MAX(value_numeric), AVG(value_numeric)
+      FROM decision_parameters WHERE param_type = ?
+    `, [paramType]);
+    const row = totals.length > 0 ? totals[0].values[0] : [0, 0, null, null, null];
+
+    const subtypeResult = this.db.exec(`
+      SELECT param_subtype, COUNT(*) as count FROM decision_parameters
+      WHERE param_type = ?
+      GROUP BY param_subtype ORDER BY count DESC
+    `, [paramType]);
+
+    return {
+      paramType,
+      totalParameters: Number(row[0]),
+      decisions: Number(row[1]),
+      minValue: row[2] !== null ? Number(row[2]) : null,
+      maxValue: row[3] !== null ? Number(row[3]) : null,
+      avgValue: row[4] !== null ? Number(row[4]) : null,
+      bySubtype: subtypeResult.length > 0
+        ? subtypeResult[0].values.map(v => ({ subtype: v[0] !== null ? String(v[0]) : null, count: Number(v[1]) }))
+        : []
+    };
+  }
+
+  /**
+   * Progress of parameter extraction over decisions with PDF text
+   */
+  getParameterExtractionStats(): ParameterExtractionStats {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const statusResult = this.db.exec(`
+      SELECT
+        COUNT(*),
+        SUM(CASE WHEN pe.status = 'extracted' THEN 1 ELSE 0 END),
+        SUM(CASE WHEN pe.status = 'failed' THEN 1 ELSE 0 END),
+        SUM(CASE WHEN pe.decision_id IS NULL THEN 1 ELSE 0 END)
+      FROM decisions
+      LEFT JOIN parameter_extraction pe ON pe.decision_id = decisions.id
+      WHERE decisions.pdf_text IS NOT NULL
+    `);
+    const status = statusResult.length > 0 ? statusResult[0].values[0] : [0, 0, 0, 0];
+
+    const typeResult = this.db.exec(`
+      SELECT param_type, COUNT(*) as count FROM decision_parameters
+      GROUP BY param_type ORDER BY count DESC
+    `);
+    const byType = typeResult.length > 0
+      ? typeResult[0].values.map(v => ({ paramType: String(v[0]), count: Number(v[1]) }))
+      : [];
+
+    return {
+      totalDecisions: Number(status[0]),
+      extracted: Number(status[1] ?? 0),
+      failed: Number(status[2] ?? 0),
+      pending: Number(status[3] ?? 0),
+      totalParameters: byType.reduce((sum, t) => sum + t.count, 0),
+      byType
+    };
+  }
+
+  // ============================================
+  // Comparison Transactions
+  // ============================================
+
+  /**
+   * Store the comparison transactions cited by a decision, merging them with
+   * the same transactions cited by other decisions, and mark it extracted.
+   * Rows that cannot be identified (see buildTransactionKey) are skipped.
+   * Returns the number of transactions linked to the decision.
+   */
+  insertComparisonTransactions(decisionId: string, transactions: ComparisonTransaction[]): number {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    const linked = db.transaction(() => {
+      db.run(`DELETE FROM decision_transactions WHERE decision_id = ?`, [decisionId]);
+
+      let count = 0;
+      for (const t of transactions) {
+        const key = buildTransactionKey(t);
+        if (!key) continue;
+
+        db.run(`
+          INSERT OR IGNORE INTO comparison_transactions
+          (transaction_key, address, city, block, plot, transaction_date, area_sqm, price, price_per_sqm)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [key, t.address, t.city, t.block, t.plot, t.transactionDate, t.areaSqm, t.price, t.pricePerSqm]);
+
+        // Another decision may have cited the same deal with fewer columns
+        db.run(`
+          UPDATE comparison_transactions SET
+            address = COALESCE(address, ?), city = COALESCE(city, ?),
+            area_sqm = COALESCE(area_sqm, ?), price = COALESCE(price, ?),
+            price_per_sqm = COALESCE(price_per_sqm, ?)
+          WHERE transaction_key = ?
+        `, [t.address, t.city, t.areaSqm, t.price, t.pricePerSqm, key]);
+
+        const idResult = db.exec(`SELECT id FROM comparison_transactions WHERE transaction_key = ?`, [key]);
+        db.run(
+          `INSERT OR IGNORE INTO decision_transactions (decision_id, transaction_id, page) VALUES (?, ?, ?)`,
+          [decisionId, idResult[0].values[0][0], t.page]
+        );
+        count++;
+      }
+
+      db.run(`
+        INSERT OR REPLACE INTO transaction_extraction (decision_id, status, transaction_count, error, updated_at)
+        VALUES (?, 'extracted', ?, NULL, datetime('now'))
+      `, [decisionId, count]);
+      return count;
+    });
+
+    this.save();
+    return linked;
+  }
+
+  /**
+   * Record the transaction extraction status of a decision (e.g. 'failed' with the error)
+   */
+  setTransactionExtractionStatus(decisionId: string, status: string, error?: string): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.run(`
+      INSERT OR REPLACE INTO transaction_extraction (decision_id, status, transaction_count, error, updated_at)
+      VALUES (?, ?, 0, ?, datetime('now'))
+    `, [decisionId, status, error ?? null]);
+    this.save();
+  }
+
+  /**
+   * Decisions whose PDFs have not been scanned for comparison transactions yet
+   */
+  getUnextractedTransactionDecisions(limit: number = 50, database?: DatabaseType): Array<{
+    id: string;
+    database: DatabaseType;
+    committee: string | null;
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const dbFilter = database ? ' AND decisions.database = ?' : '';
+    const result = this.db.exec(`
+      SELECT decisions.id, decisions.database, decisions.committee FROM decisions
+      LEFT JOIN transaction_extraction te ON te.decision_id = decisions.id
+      WHERE te.decision_id IS NULL${dbFilter}
+      ORDER BY decisions.indexed_at DESC
+      LIMIT ?
+    `, database ? [database, limit] : [limit]);
+
+    if (result.length === 0) return [];
+    return result[0].values.map(row => ({
+      id: String(row[0]),
+      database: row[1] as DatabaseType,
+      committee: row[2] !== null ? String(row[2]) : null
+    }));
+  }
+
+  /**
+   * Search comparison transactions, newest first, with the decisions citing each
+   */
+  searchComparisonTransactions(filter: ComparisonTransactionFilter): {
+    transactions: StoredComparisonTransaction[];
+    totalCount: number;
+  } {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filter.city) {
+      conditions.push('(ct.city LIKE ? OR ct.address LIKE ?)');
+      values.push(`%${filter.city}%`, `%${filter.city}%`);
+    }
+
+    if (filter.block) {
+      conditions.push('ct.block = ?');
+      values.push(filter.block);
+    }
+
+    // Month-only dates (YYYY-MM) are compared at month precision
+    if (filter.fromDate) {
+      const fromIso = toIsoDateBound(filter.fromDate, 'start');
+      if (!fromIso) throw new Error(`Invalid fromDate: ${filter.fromDate}`);
+      conditions.push('ct.transaction_date >= substr(?, 1, length(ct.transaction_date))');
+      values.push(fromIso);
+    }
+
+    if (filter.toDate) {
+      const toIso = toIsoDateBound(filter.toDate, 'end');
+      if (!toIso) throw new Error(`Invalid toDate: ${filter.toDate}`);
+      conditions.push('ct.transaction_date <= substr(?, 1, length(ct.transaction_date))');
+      values.push(toIso);
+    }
+
+    if (filter.priceMin !== undefined) {
+      conditions.push('ct.price >= ?');
+      values.push(filter.priceMin);
+    }
+
+    if (filter.priceMax !== undefined) {
+      conditions.push('ct.price <= ?');
+      values.push(filter.priceMax);
+    }
+
+    if (filter.pricePerSqmMin !== undefined) {
+      conditions.push('ct.price_per_sqm >= ?');
+      values.push(filter.pricePerSqmMin);
+    }
+
+    if (filter.pricePerSqmMax !== undefined) {
+      conditions.push('ct.price_per_sqm <= ?');
+      values.push(filter.pricePerSqmMax);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = this.db.exec(`SELECT COUNT(*) FROM comparison_transactions ct ${whereClause}`, values);
+    const totalCount = countResult.length > 0 ? Number(countResult[0].values[0][0]) : 0;
+
+    const queryResult = this.db.exec(`
+      SELECT ct.id, ct.address, ct.city, ct.block, ct.plot, ct.transaction_date,
+             ct.area_sqm, ct.price, ct.price_per_sqm,
+             (SELECT GROUP_CONCAT(dt.decision_id) FROM decision_transactions dt WHERE dt.transaction_id = ct.id)
+      FROM comparison_transactions ct
+      ${whereClause}
+      ORDER BY ct.transaction_date DESC NULLS LAST, ct.id
+      LIMIT ?
+    `, [...values, filter.limit || 50]);
+
+    if (queryResult.length === 0) return { transactions: [], totalCount };
+    const transactions = queryResult[0].values.map(row => ({
+      id: Number(row[0]),
+      address: row[1] !== null ? String(row[1]) : null,
+      city: row[2] !== null ? String(row[2]) : null,
+      block: row[3] !== null ? String(row[3]) : null,
+      plot: row[4] !== null ? String(row[4]) : null,
+      transactionDate: row[5] !== null ? String(row[5]) : null,
+      areaSqm: row[6] !== null ? Number(row[6]) : null,
+      price: row[7] !== null ? Number(row[7]) : null,
+      pricePerSqm: row[8] !== null ? Number(row[8]) : null,
+      citedBy: row[9] !== null ? String(row[9]).split(',') : []
+    }));
+
+    return { transactions, totalCount };
+  }
+
   /**
    * Close database connection
    */
@@ -1106,15 +2659,27 @@ export class DecisionDatabase {
   }
 }
 
-// Singleton instance
+// Singleton instance, and its initialization while migrations run
 let dbInstance: DecisionDatabase | null = null;
-
-export async function getDatabase(dbPath?: string): Promise<DecisionDatabase> {
-  if (!dbInstance) {
-    dbInstance = new DecisionDatabase(dbPath);
-    await dbInstance.initialize();
+let dbOpening: Promise<DecisionDatabase> | null = null;
+
+export async function getDatabase(
+  dbPath?: string,
+  options: { onMigration?: (migration: Migration) => void } = {}
+): Promise<DecisionDatabase> {
+  if (dbInstance) return dbInstance;
+  if (!dbOpening) {
+    const database = new DecisionDatabase(dbPath);
+    dbOpening = database.initialize({ onMigration: options.onMigration })
+      .then(() => {
+        dbInstance = database;
+        return database;
+      })
+      .finally(() => {
+        dbOpening = null;
+      });
   }
-  return dbInstance;
+  return dbOpening;
 }
 
 export function closeDatabase(): void {
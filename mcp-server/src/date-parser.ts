@@ -0,0 +1,118 @@
+/**
+ * Date Parser for Gov.il Decision Dates
+ * Normalizes the date formats found in scraped titles, listings and PDFs
+ * to ISO YYYY-MM-DD so they can be compared and range-filtered in SQL.
+ *
+ * Supported inputs:
+ * - DD-MM-YYYY, DD/MM/YYYY, DD.MM.YYYY (day/month may be 1 or 2 digits)
+ * - DD-MM-YY, DD/MM/YY, DD.MM.YY (2-digit years: 00-49 → 20xx, 50-99 → 19xx)
+ * - YYYY-MM-DD, YYYY/MM/DD and ISO timestamps (2024-03-15T10:00:00Z)
+ * - Hebrew-calendar dates and years (ט"ו בשבט תשפ"ג, תשפ"ד), converted by hebrew-calendar.ts
+ */
+
+import { IsoDateRange } from './types.js';
+import { parseHebrewDate, parseHebrewDateRange } from './hebrew-calendar.js';
+
+/**
+ * Zero-pad a number to the given width
+ */
+function pad(value: number, width: number = 2): string {
+  return String(value).padStart(width, '0');
+}
+
+/**
+ * Build an ISO date string, returning null for impossible dates (31-02-2024)
+ */
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Expand a 2-digit year (24 → 2024, 98 → 1998)
+ */
+function expandTwoDigitYear(year: number): number {
+  return year < 50 ? 2000 + year : 1900 + year;
+}
+
+/**
+ * Add days to an ISO date
+ */
+function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Parse a date string to ISO YYYY-MM-DD.
+ * Returns null when the string contains no complete, valid day-level date.
+ */
+export function parseDateToIso(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const text = raw.trim();
+
+  // YYYY-MM-DD (also ISO timestamps) or YYYY/MM/DD
+  const isoMatch = text.match(/(?:^|\D)(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/);
+  if (isoMatch) {
+    return toIsoDate(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+  }
+
+  // DD-MM-YYYY, DD/MM/YYYY, DD.MM.YYYY
+  const dmyMatch = text.match(/(?:^|\D)(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?!\d)/);
+  if (dmyMatch) {
+    return toIsoDate(Number(dmyMatch[3]), Number(dmyMatch[2]), Number(dmyMatch[1]));
+  }
+
+  // DD-MM-YY, DD/MM/YY, DD.MM.YY
+  const shortMatch = text.match(/(?:^|\D)(\d{1,2})[-/.](\d{1,2})[-/.](\d{2})(?!\d)/);
+  if (shortMatch) {
+    return toIsoDate(expandTwoDigitYear(Number(shortMatch[3])), Number(shortMatch[2]), Number(shortMatch[1]));
+  }
+
+  // Full Hebrew-calendar date (ט"ו בשבט תשפ"ג)
+  return parseHebrewDate(text);
+}
+
+/**
+ * Parse any supported date string to an inclusive ISO range.
+ * Day-level dates give a single-day range; Hebrew months and years give
+ * their full span.
+ */
+export function parseDateRange(raw: string | null | undefined): IsoDateRange | null {
+  const isoDate = parseDateToIso(raw);
+  if (isoDate) return { from: isoDate, to: isoDate };
+
+  return parseHebrewDateRange(raw);
+}
+
+/**
+ * Resolve a user-supplied filter bound to an ISO date.
+ * Accepts day-level dates, YYYY-MM and YYYY (expanded to the first/last day),
+ * and Hebrew months/years (expanded to their first/last day).
+ */
+export function toIsoDateBound(raw: string, bound: 'start' | 'end'): string | null {
+  const text = raw.trim();
+
+  const monthMatch = text.match(/^(\d{4})-(\d{1,2})$/);
+  if (monthMatch) {
+    const year = Number(monthMatch[1]);
+    const month = Number(monthMatch[2]);
+    if (month < 1 || month > 12) return null;
+    if (bound === 'start') return toIsoDate(year, month, 1);
+    return addDays(month === 12 ? `${year + 1}-01-01` : `${year}-${pad(month + 1)}-01`, -1);
+  }
+
+  const yearMatch = text.match(/^(\d{4})$/);
+  if (yearMatch) {
+    return bound === 'start' ? `${yearMatch[1]}-01-01` : `${yearMatch[1]}-12-31`;
+  }
+
+  const range = parseDateRange(text);
+  if (!range) return null;
+  return bound === 'start' ? range.from : range.to;
+}
@@ -0,0 +1,249 @@
+/**
+ * Gov.il Dynamic Collector Client
+ * Queries the JSON search endpoint behind the gov.il dynamiccollectors pages
+ * directly, instead of rendering the page through ScraperAPI and parsing HTML
+ *
+ * Request:  POST {apiUrl} { DynamicTemplateID, QueryFilters: { skip, limit, ...filters }, From }
+ * Response: { Results: [{ UrlName, Data: { title, decision_date, document: [...] } }], TotalResults }
+ *
+ * Each result's fields are read case-insensitively from a list of known names
+ * (TITLE_FIELDS, ...); fields the item does not carry are read from its title,
+ * as the HTML scraper does (parseTitleMetadata).
+ */
+
+import { DatabaseType, ParsedDecision, DATABASE_CONFIG } from './types.js';
+import { parseTitleMetadata } from './scraper.js';
+import { Transport, TransportBackendName, getTransport } from './transport.js';
+
+export const DEFAULT_COLLECTOR_API_URL = 'https://www.gov.il/he/api/DynamicCollector';
+const BLOB_BASE_URL = 'https://www.gov.il/BlobFolder/dynamiccollectorresultitem';
+
+const TITLE_FIELDS = ['title', 'subject', 'name'];
+const DOCUMENT_FIELDS = ['document', 'documents', 'file', 'files'];
+const LINK_FIELDS = ['url', 'link', 'pdf_url'];
+const BLOCK_FIELDS = ['block', 'gush'];
+const PLOT_FIELDS = ['plot', 'helka'];
+const COMMITTEE_FIELDS = ['committee', 'local_committee', 'vaada'];
+const APPRAISER_FIELDS = ['appraiser', 'appraiser_name', 'shamai'];
+const CASE_TYPE_FIELDS = ['case_type', 'subject_type', 'type'];
+const DECISION_DATE_FIELDS = ['decision_date', 'date', 'decisionDate'];
+const PUBLISH_DATE_FIELDS = ['publish_date', 'publication_date', 'publishDate'];
+
+export interface DynamicCollectorOptions {
+  apiUrl?: string;              // Search endpoint (default: GOVIL_API_URL or DEFAULT_COLLECTOR_API_URL)
+  pageSize?: number;            // Items per request (default: 10, as the pages show)
+  timeoutMs?: number;           // Per-request timeout (default: 30000)
+  transport?: Transport;        // Default: the shared transport (getTransport)
+  backends?: TransportBackendName[];  // Transport backends to use (default: direct - no ScraperAPI credits)
+  // DynamicTemplateID per database (default: the collector name in DATABASE_CONFIG url)
+  templateIds?: Partial<Record<DatabaseType, string>>;
+}
+
+/**
+ * Collector filter fields, sent as QueryFilters entries ({ field: { Query: value } })
+ */
+export type DynamicCollectorFilters = Record<string, string | number>;
+
+export interface DynamicCollectorPage {
+  decisions: ParsedDecision[];
+  totalResults: number | null;
+  totalPages: number | null;
+  hasMore: boolean;
+}
+
+interface CollectorItem {
+  UrlName?: string;
+  Description?: string;
+  Data?: Record<string, unknown>;
+}
+
+function field(data: Record<string, unknown>, names: string[]): unknown {
+  const byName = new Map(Object.keys(data).map(key => [key.toLowerCase(), key]));
+  for (const name of names) {
+    const key = byName.get(name.toLowerCase());
+    if (key !== undefined && data[key] !== null && data[key] !== '') return data[key];
+  }
+  return undefined;
+}
+
+/**
+ * A field as text: strings as is, lists joined, { Value/Title } objects unwrapped
+ */
+function text(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) {
+    const items = value.map(text).filter((item): item is string => !!item);
+    return items.length > 0 ? items.join(', ') : null;
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return text(record.Value ?? record.Title ?? record.Name ?? null);
+  }
+  const result = String(value).trim();
+  return result || null;
+}
+
+/**
+ * "2024-02-01T00:00:00" or "01.02.2024" -> "01-02-2024", the format of titles
+ */
+export function toDecisionDate(value: unknown): string | null {
+  const raw = text(value);
+  if (!raw) return null;
+
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[3]}-${iso[2]}-${iso[1]}`;
+
+  const dmy = raw.match(/^(\d{1,2})[-./](\d{1,2})[-./](\d{4})/);
+  if (dmy) return `${dmy[1].padStart(2, '0')}-${dmy[2].padStart(2, '0')}-${dmy[3]}`;
+
+  return null;
+}
+
+export class DynamicCollectorClient {
+  private apiUrl: string;
+  private pageSize: number;
+  private timeoutMs: number;
+  private templateIds: Partial<Record<DatabaseType, string>>;
+  private transport: Transport;
+  private backends: TransportBackendName[];
+
+  constructor(options: DynamicCollectorOptions = {}) {
+    this.apiUrl = options.apiUrl || process.env.GOVIL_API_URL || DEFAULT_COLLECTOR_API_URL;
+    this.pageSize = options.pageSize || 10;
+    this.timeoutMs = options.timeoutMs || 30000;
+    this.templateIds = options.templateIds || {};
+    this.transport = options.transport ?? getTransport();
+    this.backends = options.backends || ['direct'];
+  }
+
+  /**
+   * DynamicTemplateID of a database's collector
+   */
+  getTemplateId(database: DatabaseType): string {
+    return this.templateIds[database] || DATABASE_CONFIG[database].url.split('/').pop()!;
+  }
+
+  /**
+   * Request body for one page
+   */
+  buildRequest(database: DatabaseType, page: number, filters: DynamicCollectorFilters = {}): object {
+    const skip = page * this.pageSize;
+    const queryFilters: Record<string, { Query: string | number }> = {
+      skip: { Query: skip },
+      limit: { Query: this.pageSize }
+    };
+    for (const [name, value] of Object.entries(filters)) {
+      queryFilters[name] = { Query: value };
+    }
+    return { DynamicTemplateID: this.getTemplateId(database), QueryFilters: queryFilters, From: skip };
+  }
+
+  /**
+   * Fetch and map one page of a database's decisions
+   */
+  async fetchPage(database: DatabaseType, page: number, filters?: DynamicCollectorFilters): Promise<DynamicCollectorPage> {
+    const response = await this.transport.fetch({
+      url: this.apiUrl,
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(this.buildRequest(database, page, filters)),
+      timeoutMs: this.timeoutMs,
+      backends: this.backends
+    });
+
+    if (!response.ok) {
+      throw new Error(`gov.il API error: ${response.status} ${response.statusText}`);
+    }
+
+    return this.parseResponse(await response.json(), database, page);
+  }
+
+  /**
+   * Map a search response to decisions. Throws when the response is not a
+   * collector result list, so callers can fall back to the HTML scraper.
+   */
+  parseResponse(body: unknown, database: DatabaseType, page = 0): DynamicCollectorPage {
+    const results = (body as { Results?: unknown } | null)?.Results;
+    if (!Array.isArray(results)) {
+      throw new Error('gov.il API response has no Results list');
+    }
+
+    const decisions = results
+      .map(item => this.toParsedDecision(item as CollectorItem, database))
+      .filter((decision): decision is ParsedDecision => decision !== null);
+
+    const total = text((body as { TotalResults?: unknown }).TotalResults);
+    const totalResults = total !== null && /^\d+$/.test(total) ? parseInt(total, 10) : null;
+    const hasMore = totalResults !== null
+      ? (page + 1) * this.pageSize < totalResults
+      : results.length >= this.pageSize;
+
+    return {
+      decisions,
+      totalResults,
+      totalPages: totalResults !== null ? Math.ceil(totalResults / this.pageSize) : null,
+      hasMore
+    };
+  }
+
+  /**
+   * One result item as a ParsedDecision; null when it has no title
+   */
+  private toParsedDecision(item: CollectorItem, database: DatabaseType): ParsedDecision | null {
+    const data = item.Data || {};
+    const title = text(field(data, TITLE_FIELDS)) || text(item.Description);
+    if (!title || title.length < 5) return null;
+
+    const metadata = parseTitleMetadata(title, database);
+
+    return {
+      title,
+      url: this.documentUrl(item),
+      block: text(field(data, BLOCK_FIELDS)) ?? metadata.block ?? null,
+      plot: text(field(data, PLOT_FIELDS)) ?? metadata.plot ?? null,
+      committee: text(field(data, COMMITTEE_FIELDS))?.replace(/ועדה מקומית\s*/, '').trim() || metadata.committee || null,
+      appraiser: text(field(data, APPRAISER_FIELDS)) ?? metadata.appraiser ?? null,
+      caseType: text(field(data, CASE_TYPE_FIELDS)) ?? metadata.caseType ?? null,
+      decisionDate: toDecisionDate(field(data, DECISION_DATE_FIELDS)) ?? metadata.decisionDate ?? null,
+      publishDate: toDecisionDate(field(data, PUBLISH_DATE_FIELDS))
+    };
+  }
+
+  /**
+   * The decision PDF: a direct link, or the item's first attached file
+   * (https://www.gov.il/BlobFolder/dynamiccollectorresultitem/{UrlName}/he/{FileName})
+   */
+  private documentUrl(item: CollectorItem): string | null {
+    const data = item.Data || {};
+
+    const link = text(field(data, LINK_FIELDS));
+    if (link && /^https?:\/\//.test(link)) return link;
+
+    const documents = field(data, DOCUMENT_FIELDS);
+    const first = Array.isArray(documents) ? documents[0] : documents;
+    if (first && typeof first === 'object') {
+      const file = first as Record<string, unknown>;
+      const fileName = text(file.FileName ?? file.fileName);
+      if (fileName && item.UrlName) {
+        return `${BLOB_BASE_URL}/${encodeURIComponent(item.UrlName)}/he/${encodeURIComponent(fileName)}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get page size
+   */
+  getPageSize(): number {
+    return this.pageSize;
+  }
+}
+
+// Factory function
+export function createDynamicCollectorClient(options?: DynamicCollectorOptions): DynamicCollectorClient {
+  return new DynamicCollectorClient(options);
+}
@@ -0,0 +1,234 @@
+/**
+ * Incremental Embedding Job
+ * Splits decisions into passages, embeds them with the local model
+ * and keeps the vector store in step with the database: new decisions and
+ * decisions whose text changed (e.g. PDF text extracted later) are embedded,
+ * and vectors of deleted or re-hashed decisions are removed (syncVectorStore).
+ * Runs after the indexer inserts and from scripts/embed-decisions.ts.
+ *
+ * Each passage is stored as `${decisionId}#${passage}` with metadata: decision_id,
+ * database, content_hash, fingerprint, chunking, and passage, section and page
+ * (when the decision has PDF text).
+ */
+
+import { Decision, DatabaseType, PassageSectionType } from './types.js';
+import { DecisionDatabase } from './database.js';
+import { Embedder, embedTexts } from './embedding-model.js';
+import { splitPassages } from './passage-chunker.js';
+import { chunkVectorId, decisionIdOf, VectorMetadata, VectorRecord, VectorStore } from './vector-store.js';
+
+// Long decisions are embedded from their first pages only
+const MAX_CHUNKS_PER_DECISION = 40;
+
+const EMBED_BATCH_SIZE = 16;
+
+// Save the index every N decisions so an interrupted run keeps its progress
+const SAVE_EVERY = 100;
+
+// Stored with every vector; decisions embedded with other chunking are re-embedded
+const CHUNKING = 'passages-v1';
+
+export interface DecisionChunk {
+  text: string;
+  page: number | null;
+  passage: number | null;             // decision_passages index
+  section: PassageSectionType | null;
+}
+
+export interface EmbeddingJobOptions {
+  limit?: number;             // Maximum decisions to embed (default: all pending)
+  database?: DatabaseType;
+  namespace?: string;
+  embed?: Embedder;           // Default: the local model
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface EmbeddingJobResult {
+  embedded: number;
+  removed: number;            // Decisions whose vectors were removed by the sync
+  chunks: number;
+  pending: number;            // Still pending after this run (limit reached)
+}
+
+export interface VectorSyncResult {
+  decisions: number;          // Decisions with vectors in the store
+  orphaned: string[];         // No longer in the database
+  stale: string[];            // Content hash changed since they were embedded
+  deletedVectors: number;
+}
+
+// Fetch metadata for sync in batches (keeps remote requests small)
+const SYNC_FETCH_BATCH = 500;
+
+/**
+ * Chunks to embed for a decision: its section-aware passages (see
+ * passage-chunker.ts), each prefixed with the decision's title line so a
+ * passage keeps its context. Decisions without PDF text are embedded from
+ * their metadata alone.
+ */
+export function chunkDecision(decision: Pick<Decision, 'title' | 'committee' | 'appraiser' | 'caseType' | 'pdfText'>): DecisionChunk[] {
+  const heading = [decision.title, decision.caseType, decision.committee, decision.appraiser]
+    .filter(Boolean)
+    .join(' | ');
+  const passages = splitPassages(decision.pdfText ?? '');
+
+  if (passages.length === 0) {
+    return [{ text: heading, page: null, passage: null, section: null }];
+  }
+
+  return passages.slice(0, MAX_CHUNKS_PER_DECISION).map(passage => ({
+    text: `${heading}\n${passage.text.replace(/\s+/g, ' ')}`,
+    page: passage.pageStart,
+    passage: passage.index,
+    section: passage.sectionType
+  }));
+}
+
+/**
+ * Vector ids in the store grouped by decision, with the metadata of each
+ * decision's first vector
+ */
+async function loadStoredDecisions(
+  store: VectorStore,
+  namespace?: string
+): Promise<Map<string, { vectorIds: string[]; metadata: Record<string, unknown> }>> {
+  const decisions = new Map<string, { vectorIds: string[]; metadata: Record<string, unknown> }>();
+  for (const vectorId of await store.listIds(namespace)) {
+    const decisionId = decisionIdOf(vectorId);
+    const entry = decisions.get(decisionId);
+    if (entry) {
+      entry.vectorIds.push(vectorId);
+    } else {
+      decisions.set(decisionId, { vectorIds: [vectorId], metadata: {} });
+    }
+  }
+
+  const firstIds = [...decisions.values()].map(entry => entry.vectorIds.sort()[0]);
+  for (let i = 0; i < firstIds.length; i += SYNC_FETCH_BATCH) {
+    const metadata = await store.fetch(firstIds.slice(i, i + SYNC_FETCH_BATCH), namespace);
+    for (const [vectorId, values] of metadata) {
+      decisions.get(decisionIdOf(vectorId))!.metadata = values;
+    }
+  }
+  return decisions;
+}
+
+export interface VectorSyncOptions {
+  delete?: boolean;           // Delete the vectors found (default: report only)
+  force?: boolean;            // Allow deleting from Pinecone
+  namespace?: string;
+}
+
+/**
+ * Reconcile the store with the decisions table: find the vectors of
+ * decisions that no longer exist, or whose content hash changed since they
+ * were embedded (they are embedded again on the next run), and delete them
+ * when options.delete is set. Pinecone is refused without options.force: the
+ * local database may hold only part of the decisions indexed there, and
+ * read_pdf falls back to Pinecone for the rest.
+ */
+export async function syncVectorStore(
+  db: DecisionDatabase,
+  store: VectorStore,
+  options: VectorSyncOptions = {}
+): Promise<VectorSyncResult> {
+  if (options.delete && store.kind === 'pinecone' && !options.force) {
+    throw new Error('Refusing to delete Pinecone vectors without force: the local database may not hold every indexed decision');
+  }
+
+  const current = new Map(db.getDecisionFingerprints().map(d => [d.id, d]));
+  const stored = await loadStoredDecisions(store, options.namespace);
+
+  const orphaned: string[] = [];
+  const stale: string[] = [];
+  const toDelete: string[] = [];
+  for (const [decisionId, entry] of stored) {
+    const decision = current.get(decisionId);
+    const storedHash = entry.metadata.content_hash;
+    if (!decision) {
+      orphaned.push(decisionId);
+    } else if (typeof storedHash === 'string' && storedHash !== decision.contentHash) {
+      stale.push(decisionId);
+    } else {
+      continue;
+    }
+    toDelete.push(...entry.vectorIds);
+  }
+
+  if (options.delete && toDelete.length > 0) {
+    await store.delete(toDelete, options.namespace);
+    await store.flush();
+  }
+
+  return { decisions: stored.size, orphaned, stale, deletedVectors: toDelete.length };
+}
+
+/**
+ * Sync the store, then embed new and changed decisions
+ */
+export async function embedPendingDecisions(
+  db: DecisionDatabase,
+  store: VectorStore,
+  options: EmbeddingJobOptions = {}
+): Promise<EmbeddingJobResult> {
+  const embed = options.embed ?? embedTexts;
+  const sync = await syncVectorStore(db, store, { delete: true, namespace: options.namespace });
+  const stored = await loadStoredDecisions(store, options.namespace);
+
+  const allPending = db.getDecisionFingerprints(options.database)
+    .filter(d => {
+      const metadata = stored.get(d.id)?.metadata;
+      return metadata?.fingerprint !== d.fingerprint || metadata?.chunking !== CHUNKING;
+    });
+  const pending = options.limit ? allPending.slice(0, options.limit) : allPending;
+
+  let embedded = 0;
+  let chunkCount = 0;
+  try {
+    for (const entry of pending) {
+      const decision = db.getDecision(entry.id);
+      if (!decision) continue;
+
+      const chunks = chunkDecision(decision);
+      const records: VectorRecord[] = [];
+      for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+        const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+        const vectors = await embed(batch.map(chunk => chunk.text), 'passage');
+        batch.forEach((chunk, j) => {
+          const metadata: VectorMetadata = {
+            decision_id: entry.id,
+            database: entry.database,
+            content_hash: entry.contentHash,
+            fingerprint: entry.fingerprint,
+            chunking: CHUNKING
+          };
+          if (chunk.passage !== null) metadata.passage = chunk.passage;
+          if (chunk.section !== null) metadata.section = chunk.section;
+          if (chunk.page !== null) metadata.page = chunk.page;
+          records.push({ id: chunkVectorId(entry.id, i + j), values: vectors[j], metadata });
+        });
+      }
+
+      await store.upsert(records, options.namespace);
+      // Drop chunks left over from a longer previous version
+      const currentIds = new Set(records.map(record => record.id));
+      const leftover = (stored.get(entry.id)?.vectorIds ?? []).filter(id => !currentIds.has(id));
+      if (leftover.length > 0) await store.delete(leftover, options.namespace);
+
+      embedded++;
+      chunkCount += records.length;
+
+      options.onProgress?.(embedded, pending.length);
+      if (embedded % SAVE_EVERY === 0) await store.flush();
+    }
+  } finally {
+    await store.flush();
+  }
+
+  return {
+    embedded,
+    removed: sync.orphaned.length + sync.stale.length,
+    chunks: chunkCount,
+    pending: allPending.length - embedded
+  };
+}
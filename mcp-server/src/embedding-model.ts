@@ -0,0 +1,127 @@
+/**
+ * Local Embedding Model
+ * Embeds text on-device with a multilingual sentence-embedding model
+ * (transformers.js on ONNX Runtime), so semantic search needs no API calls.
+ * Models are downloaded once into the model directory and loaded from disk after.
+ *
+ * multilingual-e5 models expect "query: " / "passage: " prefixes; vectors are
+ * mean-pooled and L2-normalized, so a dot product is the cosine similarity.
+ *
+ * Also runs the cross-encoder used by the 'cross-encoder' reranker (reranker.ts),
+ * which scores (query, passage) pairs directly.
+ *
+ * Environment:
+ *   LOCAL_EMBEDDING_MODEL   Model id (default: Xenova/multilingual-e5-small, 384 dims)
+ *   RERANK_MODEL            Cross-encoder model id (default: jinaai/jina-reranker-v2-base-multilingual)
+ *   EMBEDDING_MODEL_DIR     Model directory (default: ~/.gov-il-mcp/models)
+ *   EMBEDDING_OFFLINE       'true' to never download models (use the model directory only)
+ */
+
+import os from 'os';
+import path from 'path';
+import type { FeatureExtractionPipeline, PreTrainedModel, PreTrainedTokenizer } from '@huggingface/transformers';
+
+export const LOCAL_EMBEDDING_MODEL = process.env.LOCAL_EMBEDDING_MODEL || 'Xenova/multilingual-e5-small';
+
+export const RERANK_MODEL = process.env.RERANK_MODEL || 'jinaai/jina-reranker-v2-base-multilingual';
+
+const MODEL_DIR = process.env.EMBEDDING_MODEL_DIR || path.join(os.homedir(), '.gov-il-mcp', 'models');
+
+export type EmbeddingKind = 'query' | 'passage';
+
+/** Embeds a batch of texts into normalized vectors */
+export type Embedder = (texts: string[], kind: EmbeddingKind) => Promise<Float32Array[]>;
+
+interface CrossEncoder {
+  tokenizer: PreTrainedTokenizer;
+  model: PreTrainedModel;
+}
+
+let extractorPromise: Promise<FeatureExtractionPipeline> | null = null;
+let crossEncoderPromise: Promise<CrossEncoder> | null = null;
+
+/**
+ * transformers.js, pointed at the model directory
+ */
+async function loadTransformers() {
+  const transformers = await import('@huggingface/transformers');
+  transformers.env.cacheDir = MODEL_DIR;
+  transformers.env.allowRemoteModels = process.env.EMBEDDING_OFFLINE !== 'true';
+  return transformers;
+}
+
+/**
+ * Load the model once per process (quantized weights, CPU)
+ */
+async function loadExtractor(): Promise<FeatureExtractionPipeline> {
+  const { pipeline } = await loadTransformers();
+
+  console.error(`[Embeddings] Loading local model ${LOCAL_EMBEDDING_MODEL}`);
+  return pipeline<'feature-extraction'>('feature-extraction', LOCAL_EMBEDDING_MODEL, { dtype: 'q8' });
+}
+
+function getExtractor(): Promise<FeatureExtractionPipeline> {
+  if (!extractorPromise) {
+    extractorPromise = loadExtractor().catch(error => {
+      extractorPromise = null;  // Allow a retry, e.g. after the model is downloaded
+      throw error;
+    });
+  }
+  return extractorPromise;
+}
+
+/**
+ * Embed texts with the local model
+ */
+export const embedTexts: Embedder = async (texts, kind) => {
+  if (texts.length === 0) return [];
+
+  const extractor = await getExtractor();
+  const output = await extractor(texts.map(text => `${kind}: ${text}`), { pooling: 'mean', normalize: true });
+
+  const dimensions = output.dims[output.dims.length - 1];
+  return texts.map((_, i) => output.data.slice(i * dimensions, (i + 1) * dimensions));
+};
+
+async function loadCrossEncoder(): Promise<CrossEncoder> {
+  const { AutoTokenizer, AutoModelForSequenceClassification } = await loadTransformers();
+
+  console.error(`[Embeddings] Loading cross-encoder ${RERANK_MODEL}`);
+  const tokenizer = await AutoTokenizer.from_pretrained(RERANK_MODEL);
+  const model = await AutoModelForSequenceClassification.from_pretrained(RERANK_MODEL, { dtype: 'q8' });
+  return { tokenizer, model };
+}
+
+/**
+ * Relevance of each passage to the query (0-1) with the local cross-encoder
+ */
+export async function scoreTextPairs(query: string, passages: string[]): Promise<number[]> {
+  if (passages.length === 0) return [];
+
+  if (!crossEncoderPromise) {
+    crossEncoderPromise = loadCrossEncoder().catch(error => {
+      crossEncoderPromise = null;
+      throw error;
+    });
+  }
+  const { tokenizer, model } = await crossEncoderPromise;
+
+  const inputs = tokenizer(passages.map(() => query), { text_pair: passages, padding: true, truncation: true });
+  const { logits } = await model(inputs);
+  // One logit per pair
+  return Array.from(logits.data, logit => 1 / (1 + Math.exp(-Number(logit))));
+}
+
+/**
+ * Whether the local model can be loaded (the package is installed and the
+ * model is on disk or can be downloaded)
+ */
+export async function isLocalEmbeddingAvailable(): Promise<boolean> {
+  try {
+    await getExtractor();
+    return true;
+  } catch (error) {
+    console.error('[Embeddings] Local model unavailable:', error instanceof Error ? error.message : error);
+    return false;
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * On-disk Vector Store for Local Semantic Search
+ * A flat index of decision chunk embeddings, int8-quantized with one scale per
+ * vector, persisted next to the SQLite database (~/.gov-il-mcp/embeddings.idx).
+ * Scanning ~100K 384-dimension int8 vectors takes tens of milliseconds, so no
+ * approximate index is needed at this size.
+ *
+ * File layout: "GVEM", uint32 header length, JSON header (model, dimensions and
+ * the ids and metadata of each namespace), float32 scales, int8 vectors.
+ *
+ * Also selects the configured vector store for the process (getVectorStore).
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LOCAL_EMBEDDING_MODEL } from './embedding-model.js';
+import { getPineconeClient } from './pinecone-client.js';
+import {
+  DEFAULT_NAMESPACE,
+  InMemoryVectorStore,
+  matchesFilter,
+  VectorMatch,
+  VectorMetadata,
+  VectorQueryOptions,
+  VectorRecord,
+  VectorStore,
+  VectorStoreKind,
+  VectorStoreStats
+} from './vector-store.js';
+
+const MAGIC = 'GVEM';
+const FORMAT_VERSION = 2;
+
+interface StoredVector {
+  scale: number;
+  vector: Int8Array;
+  metadata: VectorMetadata;
+}
+
+interface IndexHeader {
+  version: number;
+  model: string;
+  dimensions: number;
+  namespaces: Record<string, Array<{ id: string; metadata: VectorMetadata }>>;
+}
+
+/**
+ * Quantize a vector to int8, returning the scale that restores it
+ */
+function quantize(values: ArrayLike<number>): { scale: number; vector: Int8Array } {
+  let maxAbs = 0;
+  for (let i = 0; i < values.length; i++) maxAbs = Math.max(maxAbs, Math.abs(values[i]));
+  // float32, as persisted, so a reloaded index scores identically
+  const scale = Math.fround(maxAbs > 0 ? maxAbs / 127 : 1);
+  const vector = new Int8Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    vector[i] = Math.round(values[i] / scale);
+  }
+  return { scale, vector };
+}
+
+export class LocalVectorStore implements VectorStore {
+  readonly kind = 'local';
+  private namespaces = new Map<string, Map<string, StoredVector>>();
+  private dimensions: number | null = null;
+  private dirty = false;
+
+  constructor(private filePath: string, private model: string, private defaultNamespace: string = DEFAULT_NAMESPACE) {}
+
+  /**
+   * Load the index from disk. An index built with a different model (or an
+   * older format) is discarded, so every decision is embedded again.
+   */
+  load(): void {
+    this.namespaces.clear();
+    this.dimensions = null;
+    this.dirty = false;
+    if (!fs.existsSync(this.filePath)) return;
+
+    const buffer = fs.readFileSync(this.filePath);
+    if (buffer.toString('utf-8', 0, 4) !== MAGIC) {
+      throw new Error(`Not an embeddings index: ${this.filePath}`);
+    }
+
+    const headerLength = buffer.readUInt32LE(4);
+    const header = JSON.parse(buffer.toString('utf-8', 8, 8 + headerLength)) as IndexHeader;
+    if (header.version !== FORMAT_VERSION || header.model !== this.model) {
+      console.error(`[LocalVectorStore] Index was built with ${header.model} (format ${header.version}), re-embedding with ${this.model}`);
+      return;
+    }
+
+    this.dimensions = header.dimensions;
+    const entries = Object.values(header.namespaces).flat();
+    let scaleOffset = 8 + headerLength;
+    let vectorOffset = scaleOffset + entries.length * 4;
+
+    for (const [namespace, records] of Object.entries(header.namespaces)) {
+      const stored = this.records(namespace);
+      for (const { id, metadata } of records) {
+        const vector = new Int8Array(header.dimensions);
+        vector.set(new Int8Array(buffer.buffer, buffer.byteOffset + vectorOffset, header.dimensions));
+        stored.set(id, { scale: buffer.readFloatLE(scaleOffset), vector, metadata });
+        scaleOffset += 4;
+        vectorOffset += header.dimensions;
+      }
+    }
+
+    console.error(`[LocalVectorStore] Loaded ${entries.length} vectors from ${this.filePath}`);
+  }
+
+  /**
+   * Write the index atomically (temp file + rename), if it changed
+   */
+  save(): void {
+    if (!this.dirty) return;
+
+    const namespaces = [...this.namespaces.entries()];
+    const header: IndexHeader = {
+      version: FORMAT_VERSION,
+      model: this.model,
+      dimensions: this.dimensions ?? 0,
+      namespaces: Object.fromEntries(namespaces.map(([namespace, records]) => [
+        namespace,
+        [...records.entries()].map(([id, record]) => ({ id, metadata: record.metadata }))
+      ]))
+    };
+    const headerBuffer = Buffer.from(JSON.stringify(header), 'utf-8');
+    const lengthBuffer = Buffer.alloc(4);
+    lengthBuffer.writeUInt32LE(headerBuffer.length);
+
+    const records = namespaces.flatMap(([, stored]) => [...stored.values()]);
+    const scales = Buffer.alloc(records.length * 4);
+    records.forEach((record, i) => scales.writeFloatLE(record.scale, i * 4));
+    const vectors = records.map(record => Buffer.from(record.vector.buffer, record.vector.byteOffset, record.vector.byteLength));
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, Buffer.concat([Buffer.from(MAGIC, 'utf-8'), lengthBuffer, headerBuffer, scales, ...vectors]));
+    fs.renameSync(tempPath, this.filePath);
+    this.dirty = false;
+  }
+
+  private records(namespace?: string): Map<string, StoredVector> {
+    const ns = namespace || this.defaultNamespace;
+    let records = this.namespaces.get(ns);
+    if (!records) {
+      records = new Map();
+      this.namespaces.set(ns, records);
+    }
+    return records;
+  }
+
+  private vectorCount(): number {
+    let count = 0;
+    for (const records of this.namespaces.values()) count += records.size;
+    return count;
+  }
+
+  async upsert(records: VectorRecord[], namespace?: string): Promise<void> {
+    const stored = this.records(namespace);
+    for (const record of records) {
+      if (this.dimensions === null || this.vectorCount() === 0) {
+        this.dimensions = record.values.length;
+      } else if (record.values.length !== this.dimensions) {
+        throw new Error(`Vector ${record.id} has ${record.values.length} dimensions, index has ${this.dimensions}`);
+      }
+      stored.set(record.id, { ...quantize(record.values), metadata: { ...record.metadata } });
+      this.dirty = true;
+    }
+  }
+
+  async query(vector: ArrayLike<number>, options: VectorQueryOptions = {}): Promise<VectorMatch[]> {
+    const dimensions = this.dimensions;
+    if (dimensions === null || vector.length !== dimensions) return [];
+
+    // Vectors are normalized before quantization, so the rescaled dot product
+    // with the normalized query is the cosine similarity
+    let queryNorm = 0;
+    for (let i = 0; i < dimensions; i++) queryNorm += vector[i] * vector[i];
+    queryNorm = Math.sqrt(queryNorm) || 1;
+
+    const matches: VectorMatch[] = [];
+    for (const [id, record] of this.records(options.namespace)) {
+      if (!matchesFilter(record.metadata, options.filter)) continue;
+      let dot = 0;
+      for (let i = 0; i < dimensions; i++) {
+        dot += vector[i] * record.vector[i];
+      }
+      matches.push({ id, score: (dot * record.scale) / queryNorm, metadata: record.metadata });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, options.topK ?? 10);
+  }
+
+  async fetch(ids: string[], namespace?: string): Promise<Map<string, Record<string, unknown>>> {
+    const stored = this.records(namespace);
+    const result = new Map<string, Record<string, unknown>>();
+    for (const id of ids) {
+      const record = stored.get(id);
+      if (record) result.set(id, record.metadata);
+    }
+    return result;
+  }
+
+  async delete(ids: string[], namespace?: string): Promise<void> {
+    const stored = this.records(namespace);
+    for (const id of ids) {
+      if (stored.delete(id)) this.dirty = true;
+    }
+  }
+
+  async listIds(namespace?: string): Promise<string[]> {
+    return [...this.records(namespace).keys()];
+  }
+
+  async stats(namespace?: string): Promise<VectorStoreStats> {
+    return {
+      vectorCount: this.records(namespace).size,
+      dimensions: this.dimensions,
+      namespace: namespace || this.defaultNamespace
+    };
+  }
+
+  async flush(): Promise<void> {
+    this.save();
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+}
+
+// Singleton instance
+let instance: VectorStore | null = null;
+
+/**
+ * The vector store selected by VECTOR_STORE: 'local' (default), 'pinecone'
+ * (needs PINECONE_API_KEY and PINECONE_INDEX_HOST) or 'memory'
+ */
+export function getVectorStore(): VectorStore {
+  if (instance) return instance;
+
+  const kind = (process.env.VECTOR_STORE || 'local') as VectorStoreKind;
+  switch (kind) {
+    case 'pinecone': {
+      const pinecone = getPineconeClient();
+      if (!pinecone) throw new Error('VECTOR_STORE=pinecone but the Pinecone client could not be created');
+      instance = pinecone;
+      break;
+    }
+    case 'memory':
+      instance = new InMemoryVectorStore();
+      break;
+    case 'local': {
+      const filePath = process.env.EMBEDDINGS_INDEX_PATH || path.join(os.homedir(), '.gov-il-mcp', 'embeddings.idx');
+      const store = new LocalVectorStore(filePath, LOCAL_EMBEDDING_MODEL);
+      store.load();
+      instance = store;
+      break;
+    }
+    default:
+      throw new Error(`Unknown VECTOR_STORE: ${kind}. Valid options: local, pinecone, memory`);
+  }
+
+  return instance;
+}
+
+/**
+ * Save pending changes and release the store
+ */
+export function closeEmbeddingsStore(): void {
+  if (instance instanceof LocalVectorStore) {
+    try {
+      instance.save();
+    } catch (error) {
+      console.error('[LocalVectorStore] Failed to save index:', error);
+    }
+  }
+  instance = null;
+}
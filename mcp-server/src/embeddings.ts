@@ -1,14 +1,24 @@
 /**
  * Embeddings Manager for Semantic Search
- * Uses OpenAI API for generating query embeddings to match Python indexer
+ * Queries are matched against the configured vector store (VECTOR_STORE, see
+ * vector-store.ts). With the default local store semantic_search runs fully
+ * offline: queries are embedded with the local model (embedding-model.ts).
+ * Without vectors or a model it falls back to a keyword re-ranker over the
+ * database.
  *
- * Note: The Python indexer uses text-embedding-3-small with 1024 dimensions,
- * so queries must use the same model and dimensions for semantic search to work.
+ * generateQueryEmbedding uses the OpenAI API for the hosted Pinecone index, which
+ * was built by the Python indexer with text-embedding-3-small at 1024 dimensions,
+ * so queries must use the same model and dimensions.
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import { Decision, DatabaseType } from './types.js';
+import { Decision, DatabaseType, DecisionPassage } from './types.js';
 import { getDatabase, DecisionDatabase } from './database.js';
+import { tokenizeHebrew, createHebrewMatcher, HEBREW_STOP_WORDS } from './hebrew-normalizer.js';
+import { getVectorStore } from './embeddings-db.js';
+import { embedTexts, isLocalEmbeddingAvailable } from './embedding-model.js';
+import { decisionIdOf, VectorStore, VectorStoreKind } from './vector-store.js';
+import { committeeMatches } from './committee-gazetteer.js';
 
 /**
  * Generate embedding for a search query using OpenAI's API
@@ -54,6 +64,16 @@ export async function generateQueryEmbedding(text: string): Promise<number[]> {
 export interface SemanticSearchResult {
   decision: Decision;
   score: number;
+  page?: number | null;  // Page of the best-matching passage (vector search)
+  passage?: DecisionPassage | null;  // The best-matching passage (vector search)
+}
+
+export type SemanticSearchMode = 'vectors' | 'keyword-fallback';
+
+export interface SemanticSearchResponse {
+  results: SemanticSearchResult[];
+  mode: SemanticSearchMode;     // How this search was answered
+  error: string | null;         // Why it fell back to keywords, if it did
 }
 
 export interface EmbeddingsFilter {
@@ -86,6 +106,9 @@ export class EmbeddingsManager {
   private client: Anthropic | null = null;
   private db: DecisionDatabase | null = null;
   private embeddingsCache: Map<string, number[]> = new Map();
+  private store: VectorStore | null = null;
+  private vectorCount = 0;
+  private modelError: string | null = null;  // The local model could not be loaded; not retried
 
   constructor() {
     // Initialize Anthropic client if API key is available
@@ -101,30 +124,108 @@ export class EmbeddingsManager {
   async initialize(): Promise<void> {
     this.db = await getDatabase();
 
-    // Create embeddings table if needed
-    // Note: For simplicity, we'll use keyword-based semantic search
-    // True vector embeddings would require the Anthropic Embeddings API
-    console.error('Embeddings manager initialized (keyword-based fallback mode)');
+    try {
+      this.store = getVectorStore();
+      this.vectorCount = (await this.store.stats()).vectorCount;
+    } catch (error) {
+      console.error('[Embeddings] Vector store could not be loaded:', error instanceof Error ? error.message : error);
+      this.store = null;
+    }
+
+    const stats = await this.getStats();
+    console.error(`Embeddings manager initialized (${stats.mode}, ${stats.store ?? 'no'} store, ${stats.count} vectors)`);
   }
 
   /**
    * Search for similar decisions using semantic search
-   * Falls back to enhanced keyword search when embeddings API is not available
+   * Falls back to enhanced keyword search when the vector store is empty or the
+   * query cannot be embedded
    */
   async search(
     query: string,
     limit = 20,
     filter?: EmbeddingsFilter
   ): Promise<SemanticSearchResult[]> {
+    return (await this.searchWithMode(query, limit, filter)).results;
+  }
+
+  /**
+   * search(), also telling how the results were found. A local model that
+   * cannot be loaded switches to keyword search for good; any other error
+   * (OpenAI, Pinecone, a failed inference) only affects this query.
+   */
+  async searchWithMode(
+    query: string,
+    limit = 20,
+    filter?: EmbeddingsFilter
+  ): Promise<SemanticSearchResponse> {
     if (!this.db) {
       throw new Error('Embeddings manager not initialized');
     }
 
+    if (this.store && this.vectorCount > 0 && !this.modelError) {
+      if (this.store.kind !== 'pinecone' && !(await isLocalEmbeddingAvailable())) {
+        this.modelError = 'local embedding model could not be loaded';
+        console.error('[Embeddings] Local model unavailable, using keyword fallback');
+      } else {
+        try {
+          return { results: await this.vectorSearch(query, limit, filter), mode: 'vectors', error: null };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error('[Embeddings] Vector search failed, using keyword fallback for this query:', message);
+          return { results: this.keywordSearch(query, limit, filter), mode: 'keyword-fallback', error: message };
+        }
+      }
+    }
+
+    return { results: this.keywordSearch(query, limit, filter), mode: 'keyword-fallback', error: this.modelError };
+  }
+
+  /**
+   * Nearest decisions to the query embedding, ranked by their best chunk.
+   * Committee and case type are not in the vector metadata, so extra
+   * candidates are fetched and filtered here.
+   */
+  private async vectorSearch(query: string, limit: number, filter?: EmbeddingsFilter): Promise<SemanticSearchResult[]> {
+    const store = this.store!;
+    // The Pinecone index was built with OpenAI embeddings, the others with the local model
+    const queryVector = store.kind === 'pinecone'
+      ? await generateQueryEmbedding(query)
+      : (await embedTexts([query], 'query'))[0];
+    const needsPostFilter = Boolean(filter?.committee || filter?.caseType);
+    const matches = await store.query(queryVector, {
+      topK: limit * (needsPostFilter ? 20 : 4),
+      filter: filter?.database ? { database: filter.database } : undefined
+    });
+
+    const results: SemanticSearchResult[] = [];
+    const seen = new Set<string>();
+    for (const match of matches) {
+      const decisionId = decisionIdOf(match.id);
+      if (seen.has(decisionId)) continue;
+      seen.add(decisionId);
+
+      const decision = this.db!.getDecision(decisionId);
+      if (!decision) continue;
+      if (filter?.committee && !committeeMatches(decision, filter.committee)) continue;
+      if (filter?.caseType && !decision.caseType?.includes(filter.caseType)) continue;
+
+      const page = typeof match.metadata.page === 'number' ? match.metadata.page : null;
+      const passage = typeof match.metadata.passage === 'number'
+        ? this.db!.getPassage(decisionId, match.metadata.passage)
+        : null;
+      results.push({ decision, score: Math.round(match.score * 1000) / 1000, page, passage });
+      if (results.length >= limit) break;
+    }
+    return results;
+  }
+
+  private keywordSearch(query: string, limit: number, filter?: EmbeddingsFilter): SemanticSearchResult[] {
     // Use enhanced keyword search as fallback
     // This tokenizes the query and searches for matches
     const tokens = this.tokenize(query);
 
-    const results = this.db.search({
+    const results = this.db!.search({
       query: tokens.join(' '),
       database: filter?.database,
       limit: limit * 2, // Get more results for re-ranking
@@ -145,46 +246,39 @@ export class EmbeddingsManager {
 
   /**
    * Tokenize Hebrew/English query into searchable terms
+   * Normalizes niqqud and gershayim variants and drops common Hebrew stop words
    */
   private tokenize(query: string): string[] {
-    // Remove common Hebrew stop words
-    const hebrewStopWords = new Set([
-      'של', 'את', 'על', 'עם', 'זה', 'הוא', 'היא', 'הם', 'הן',
-      'אני', 'אתה', 'את', 'אנחנו', 'הם', 'יש', 'אין', 'כל',
-      'מה', 'מי', 'איך', 'למה', 'כי', 'אם', 'או', 'גם', 'רק'
-    ]);
-
-    return query
-      .toLowerCase()
-      .split(/[\s,.\-־]+/)
-      .filter(token => token.length > 1 && !hebrewStopWords.has(token));
+    return tokenizeHebrew(query)
+      .filter(token => token.length > 1 && !HEBREW_STOP_WORDS.has(token));
   }
 
   /**
    * Calculate relevance score for a decision based on query tokens
+   * Tokens match morphologically, so "מקדם" scores on "והמקדמים" too
    */
   private calculateRelevanceScore(decision: Decision, tokens: string[]): number {
     let score = 0;
-    const titleLower = decision.title.toLowerCase();
-    const committeeLower = (decision.committee || '').toLowerCase();
-    const appraiserLower = (decision.appraiser || '').toLowerCase();
-    const caseTypeLower = (decision.caseType || '').toLowerCase();
+    const titleMatches = createHebrewMatcher(decision.title);
+    const committeeMatches = createHebrewMatcher(decision.committee || '');
+    const appraiserMatches = createHebrewMatcher(decision.appraiser || '');
+    const caseTypeMatches = createHebrewMatcher(decision.caseType || '');
 
     for (const token of tokens) {
       // Title matches are most important
-      if (titleLower.includes(token)) {
+      if (titleMatches(token)) {
         score += 3;
       }
       // Committee matches
-      if (committeeLower.includes(token)) {
+      if (committeeMatches(token)) {
         score += 2;
       }
       // Appraiser matches
-      if (appraiserLower.includes(token)) {
+      if (appraiserMatches(token)) {
         score += 2;
       }
       // Case type matches
-      if (caseTypeLower.includes(token)) {
+      if (caseTypeMatches(token)) {
         score += 1.5;
       }
     }
@@ -194,12 +288,26 @@ export class EmbeddingsManager {
   }
 
   /**
-   * Get statistics
+   * Get statistics: vectors in the store and the search mode in use
    */
-  async getStats(): Promise<{ count: number; mode: string }> {
+  async getStats(): Promise<{
+    count: number;
+    store: VectorStoreKind | null;
+    mode: SemanticSearchMode;
+    modelError: string | null;
+  }> {
+    if (this.store) {
+      try {
+        this.vectorCount = (await this.store.stats()).vectorCount;
+      } catch (error) {
+        console.error('[Embeddings] Vector store stats failed:', error instanceof Error ? error.message : error);
+      }
+    }
     return {
-      count: 0,
-      mode: 'keyword-fallback'
+      count: this.vectorCount,
+      store: this.store?.kind ?? null,
+      mode: this.store && this.vectorCount > 0 && !this.modelError ? 'vectors' : 'keyword-fallback',
+      modelError: this.modelError
     };
   }
 
@@ -208,6 +316,7 @@ export class EmbeddingsManager {
    */
   async close(): Promise<void> {
     this.embeddingsCache.clear();
+    this.store = null;
     this.db = null;
   }
 }
@@ -0,0 +1,367 @@
+/**
+ * Gush (Block) Geospatial Layer
+ * Reads an offline gush boundary dataset - GeoJSON, or an ESRI Shapefile
+ * (.shp with its .dbf attributes) - into one centroid, locality and list of
+ * neighboring blocks per gush, stored in the gush_locations table and joined
+ * to decisions.block by search_near_block and search_neighboring_blocks.
+ *
+ * - Coordinates may be WGS84 (lon/lat) or Israeli TM Grid (ITM, EPSG:2039, as
+ *   published by the Survey of Israel); ITM is converted on the GRS80
+ *   ellipsoid without a datum shift, which is accurate to tens of meters
+ * - A gush split over several features (or a MultiPolygon) gets the
+ *   area-weighted centroid of all its parts
+ * - Blocks are neighbors when their boundaries share a vertex, which cadastral
+ *   boundaries do wherever blocks meet
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { GushLocation } from './types.js';
+
+// Attribute names of the gush number and locality in published datasets, compared case-insensitively
+const GUSH_FIELDS = ['GUSH_NUM', 'GUSH', 'GUSH_NO', 'BLOCK', 'BLOCK_NUM'];
+const LOCALITY_FIELDS = ['LOCALITY_N', 'LOCALITY', 'LOCALITY_NAME', 'SETL_NAME', 'SHEM_YISHUV', 'YESHUV', 'CITY', 'MUN_HEB'];
+
+// Israeli TM Grid on GRS80
+const GRS80_A = 6378137;
+const GRS80_F = 1 / 298.257222101;
+const ITM_LAT0 = (31.7343936111111 * Math.PI) / 180;
+const ITM_LON0 = (35.2045169444444 * Math.PI) / 180;
+const ITM_K0 = 1.0000067;
+const ITM_FALSE_EASTING = 219529.584;
+const ITM_FALSE_NORTHING = 626907.39;
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+export interface GushLayerOptions {
+  gushField?: string;           // Attribute holding the gush number (default: GUSH_FIELDS)
+  localityField?: string;       // Attribute holding the locality name (default: LOCALITY_FIELDS)
+}
+
+type Ring = Array<[number, number]>;
+
+interface GushFeature {
+  gush: string;
+  locality: string | null;
+  polygons: Ring[][];           // Exterior ring first, then holes
+}
+
+// ============================================
+// Coordinates
+// ============================================
+
+/**
+ * Meridian arc length from the equator to a latitude (radians)
+ */
+function meridianArc(lat: number): number {
+  const e2 = GRS80_F * (2 - GRS80_F);
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+  return GRS80_A * (
+    (1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * lat
+    - ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * lat)
+    + ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * lat)
+    - ((35 * e6) / 3072) * Math.sin(6 * lat)
+  );
+}
+
+/**
+ * Convert Israeli TM Grid easting/northing (meters) to latitude/longitude (degrees)
+ */
+export function itmToWgs84(easting: number, northing: number): { lat: number; lon: number } {
+  const e2 = GRS80_F * (2 - GRS80_F);
+  const ep2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+
+  const arc = meridianArc(ITM_LAT0) + (northing - ITM_FALSE_NORTHING) / ITM_K0;
+  const mu = arc / (GRS80_A * (1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 * e2 * e2) / 256));
+  const phi1 = mu
+    + ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu)
+    + ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu)
+    + ((151 * e1 ** 3) / 96) * Math.sin(6 * mu)
+    + ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi = Math.sin(phi1);
+  const c1 = ep2 * Math.cos(phi1) ** 2;
+  const t1 = Math.tan(phi1) ** 2;
+  const n1 = GRS80_A / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  const r1 = (GRS80_A * (1 - e2)) / Math.pow(1 - e2 * sinPhi * sinPhi, 1.5);
+  const d = (easting - ITM_FALSE_EASTING) / (n1 * ITM_K0);
+
+  const lat = phi1 - ((n1 * Math.tan(phi1)) / r1) * (
+    (d * d) / 2
+    - ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ep2) * d ** 4) / 24
+    + ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ep2 - 3 * c1 * c1) * d ** 6) / 720
+  );
+  const lon = ITM_LON0 + (
+    d
+    - ((1 + 2 * t1 + c1) * d ** 3) / 6
+    + ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ep2 + 24 * t1 * t1) * d ** 5) / 120
+  ) / Math.cos(phi1);
+
+  return { lat: (lat * 180) / Math.PI, lon: (lon * 180) / Math.PI };
+}
+
+/**
+ * Great-circle distance in kilometers
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Latitude/longitude box around a point, for prefiltering before distanceKm()
+ */
+export function boundingBox(lat: number, lon: number, radiusKm: number): {
+  minLat: number; maxLat: number; minLon: number; maxLon: number;
+} {
+  const dLat = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const dLon = dLat / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+  return { minLat: lat - dLat, maxLat: lat + dLat, minLon: lon - dLon, maxLon: lon + dLon };
+}
+
+// ============================================
+// Reading datasets
+// ============================================
+
+/**
+ * Gush number as stored in decisions.block: digits without leading zeros
+ */
+export function normalizeGush(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const digits = String(value).trim().replace(/\.0+$/, '');
+  if (!/^\d+$/.test(digits)) return null;
+  return String(parseInt(digits, 10));
+}
+
+function attribute(properties: Record<string, unknown>, preferred: string | undefined, fallbacks: string[]): unknown {
+  const byName = new Map(Object.keys(properties).map(key => [key.toUpperCase(), key]));
+  for (const name of preferred ? [preferred] : fallbacks) {
+    const key = byName.get(name.toUpperCase());
+    if (key !== undefined && properties[key] !== null && properties[key] !== '') return properties[key];
+  }
+  return undefined;
+}
+
+function toFeature(properties: Record<string, unknown>, polygons: Ring[][], options: GushLayerOptions): GushFeature | null {
+  const gush = normalizeGush(attribute(properties, options.gushField, GUSH_FIELDS));
+  if (!gush || polygons.length === 0) return null;
+  const locality = attribute(properties, options.localityField, LOCALITY_FIELDS);
+  return { gush, locality: locality !== undefined ? String(locality).trim() : null, polygons };
+}
+
+function readGeoJson(filePath: string, options: GushLayerOptions): GushFeature[] {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const features: any[] = data.type === 'FeatureCollection' ? data.features : [data];
+
+  const result: GushFeature[] = [];
+  for (const feature of features) {
+    const geometry = feature?.geometry;
+    if (!geometry) continue;
+    const polygons: Ring[][] = geometry.type === 'Polygon' ? [geometry.coordinates]
+      : geometry.type === 'MultiPolygon' ? geometry.coordinates
+      : [];
+    const parsed = toFeature(feature.properties ?? {}, polygons, options);
+    if (parsed) result.push(parsed);
+  }
+  return result;
+}
+
+/**
+ * dBASE attributes of a Shapefile; the .cpg file names the code page
+ */
+function readDbf(filePath: string): Array<Record<string, unknown>> {
+  const buffer = fs.readFileSync(filePath);
+  const cpgPath = filePath.replace(/\.dbf$/i, '.cpg');
+  const codePage = fs.existsSync(cpgPath) ? fs.readFileSync(cpgPath, 'utf-8').trim() : 'UTF-8';
+  const decoder = new TextDecoder(/1255/.test(codePage) ? 'windows-1255' : 'utf-8');
+
+  const recordCount = buffer.readUInt32LE(4);
+  const headerLength = buffer.readUInt16LE(8);
+  const recordLength = buffer.readUInt16LE(10);
+
+  const fields: Array<{ name: string; type: string; offset: number; length: number }> = [];
+  let offset = 1;  // Deletion flag
+  for (let pos = 32; pos < headerLength - 1 && buffer[pos] !== 0x0d; pos += 32) {
+    const nameEnd = buffer.indexOf(0, pos);
+    const name = buffer.toString('latin1', pos, Math.min(nameEnd === -1 ? pos + 11 : nameEnd, pos + 11));
+    const length = buffer[pos + 16];
+    fields.push({ name, type: String.fromCharCode(buffer[pos + 11]), offset, length });
+    offset += length;
+  }
+
+  const records: Array<Record<string, unknown>> = [];
+  for (let i = 0; i < recordCount; i++) {
+    const start = headerLength + i * recordLength;
+    const record: Record<string, unknown> = {};
+    for (const field of fields) {
+      const raw = decoder.decode(buffer.subarray(start + field.offset, start + field.offset + field.length)).trim();
+      record[field.name] = raw === '' ? null : 'NF'.includes(field.type) ? Number(raw) : raw;
+    }
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Polygons of a Shapefile (.shp) with the attributes of its .dbf
+ */
+function readShapefile(filePath: string, options: GushLayerOptions): GushFeature[] {
+  const dbfPath = filePath.replace(/\.shp$/i, '.dbf');
+  if (!fs.existsSync(dbfPath)) throw new Error(`Shapefile attributes not found: ${dbfPath}`);
+  const attributes = readDbf(dbfPath);
+  const buffer = fs.readFileSync(filePath);
+
+  const result: GushFeature[] = [];
+  let pos = 100;  // File header
+  for (let index = 0; pos + 8 <= buffer.length; index++) {
+    const contentLength = buffer.readInt32BE(pos + 4) * 2;
+    const content = pos + 8;
+    pos = content + contentLength;
+
+    // Polygon, PolygonZ and PolygonM share the x/y layout; Z and M values follow the points
+    const shapeType = buffer.readInt32LE(content);
+    if (![5, 15, 25].includes(shapeType)) continue;
+
+    const numParts = buffer.readInt32LE(content + 36);
+    const numPoints = buffer.readInt32LE(content + 40);
+    const partsStart = content + 44;
+    const pointsStart = partsStart + numParts * 4;
+
+    const rings: Ring[] = [];
+    for (let part = 0; part < numParts; part++) {
+      const from = buffer.readInt32LE(partsStart + part * 4);
+      const to = part + 1 < numParts ? buffer.readInt32LE(partsStart + (part + 1) * 4) : numPoints;
+      const ring: Ring = [];
+      for (let point = from; point < to; point++) {
+        ring.push([buffer.readDoubleLE(pointsStart + point * 16), buffer.readDoubleLE(pointsStart + point * 16 + 8)]);
+      }
+      rings.push(ring);
+    }
+
+    // Exterior rings run clockwise (negative area), holes counter-clockwise after their exterior
+    const polygons: Ring[][] = [];
+    for (const ring of rings) {
+      if (ringMoments(ring).area < 0 || polygons.length === 0) polygons.push([ring]);
+      else polygons[polygons.length - 1].push(ring);
+    }
+    const parsed = toFeature(attributes[index] ?? {}, polygons, options);
+    if (parsed) result.push(parsed);
+  }
+  return result;
+}
+
+// ============================================
+// Centroids and neighbors
+// ============================================
+
+function isItm(x: number, y: number): boolean {
+  return x > 100000 && x < 300000 && y > 350000 && y < 850000;
+}
+
+/**
+ * Signed area and area moment of a ring (shoelace formula)
+ */
+function ringMoments(ring: Ring): { area: number; cx: number; cy: number } {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[i + 1];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+  return { area: area / 2, cx: cx / 6, cy: cy / 6 };
+}
+
+/**
+ * Centroids, localities and neighbors of the gush features, one entry per gush
+ */
+function buildLocations(features: GushFeature[]): GushLocation[] {
+  const sample = features.find(f => f.polygons[0]?.[0]?.length)?.polygons[0][0][0];
+  const itm = sample !== undefined && isItm(sample[0], sample[1]);
+  // Vertices are matched at about one meter
+  const vertexKey = ([x, y]: [number, number]) => itm
+    ? `${Math.round(x)},${Math.round(y)}`
+    : `${x.toFixed(5)},${y.toFixed(5)}`;
+
+  const blocks = new Map<string, { locality: string | null; area: number; cx: number; cy: number; sumX: number; sumY: number; points: number }>();
+  const vertexBlocks = new Map<string, Set<string>>();
+
+  for (const feature of features) {
+    const block = blocks.get(feature.gush) ?? { locality: null, area: 0, cx: 0, cy: 0, sumX: 0, sumY: 0, points: 0 };
+    block.locality = block.locality ?? feature.locality;
+
+    for (const polygon of feature.polygons) {
+      polygon.forEach((ring, ringIndex) => {
+        const moments = ringMoments(ring);
+        // Exterior rings add, holes subtract, whatever their winding
+        const sign = ringIndex === 0 ? 1 : -1;
+        const orientation = Math.sign(moments.area) || 1;
+        block.area += sign * orientation * moments.area;
+        block.cx += sign * orientation * moments.cx;
+        block.cy += sign * orientation * moments.cy;
+
+        for (const point of ring) {
+          block.sumX += point[0];
+          block.sumY += point[1];
+          block.points++;
+          const key = vertexKey(point);
+          const owners = vertexBlocks.get(key) ?? new Set<string>();
+          owners.add(feature.gush);
+          vertexBlocks.set(key, owners);
+        }
+      });
+    }
+    blocks.set(feature.gush, block);
+  }
+
+  const neighbors = new Map<string, Set<string>>();
+  for (const owners of vertexBlocks.values()) {
+    if (owners.size < 2) continue;
+    for (const gush of owners) {
+      const set = neighbors.get(gush) ?? new Set<string>();
+      for (const other of owners) if (other !== gush) set.add(other);
+      neighbors.set(gush, set);
+    }
+  }
+
+  const byNumber = (a: string, b: string) => Number(a) - Number(b);
+  return [...blocks].sort(([a], [b]) => byNumber(a, b)).map(([gush, block]) => {
+    // Degenerate rings fall back to the mean vertex
+    const x = Math.abs(block.area) > 0 ? block.cx / block.area : block.sumX / block.points;
+    const y = Math.abs(block.area) > 0 ? block.cy / block.area : block.sumY / block.points;
+    const { lat, lon } = itm ? itmToWgs84(x, y) : { lat: y, lon: x };
+    return {
+      gush,
+      locality: block.locality,
+      lat: Math.round(lat * 1e6) / 1e6,
+      lon: Math.round(lon * 1e6) / 1e6,
+      // Square meters only for projected (ITM) datasets
+      areaSqm: itm ? Math.round(Math.abs(block.area)) : null,
+      neighbors: [...(neighbors.get(gush) ?? [])].sort(byNumber)
+    };
+  });
+}
+
+/**
+ * Read a gush boundary dataset (.geojson, .json or .shp) into one location per gush
+ */
+export function loadGushLayer(filePath: string, options: GushLayerOptions = {}): GushLocation[] {
+  if (!fs.existsSync(filePath)) throw new Error(`Gush boundary dataset not found: ${filePath}`);
+
+  const extension = path.extname(filePath).toLowerCase();
+  const features = extension === '.shp' ? readShapefile(filePath, options)
+    : ['.geojson', '.json'].includes(extension) ? readGeoJson(filePath, options)
+    : null;
+  if (!features) throw new Error(`Unsupported gush boundary format: ${extension} (expected .geojson, .json or .shp)`);
+
+  return buildLocations(features);
+}
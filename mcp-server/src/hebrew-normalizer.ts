@@ -0,0 +1,297 @@
+/**
+ * Hebrew Text Normalizer for Search
+ * Lightweight morphological analysis so that a search for "מקדם" also finds
+ * "והמקדם", "במקדם" and "למקדמי":
+ * - Strips prefix letters ו/ה/ב/ל/מ/ש/כ (and their common combinations)
+ * - Folds final letters (ם/מ, ן/נ, ץ/צ, ף/פ, ך/כ)
+ * - Removes niqqud and unifies geresh/gershayim variants (מ"ר vs מ״ר)
+ * - Reduces plural and construct suffixes (ים/ות/י/ה/ת)
+ *
+ * Prefix stripping is inherently ambiguous ("מקדם" may be read as מ+קדם), so
+ * every function here keeps the unstripped word as a candidate and never
+ * relies on a single "correct" stem.
+ */
+
+// Niqqud and cantillation marks (excludes maqaf U+05BE and sof pasuq U+05C3)
+const NIQQUD_PATTERN = /[\u0591-\u05BD\u05BF\u05C1-\u05C2\u05C4-\u05C5\u05C7]/g;
+
+// Gershayim ״ and typographic double quotes/primes that appear in its place
+const GERSHAYIM_PATTERN = /[\u05F4\u201C\u201D\u201E\u2033]/g;
+
+// Geresh ׳ and typographic single quotes/primes that appear in its place
+const GERESH_PATTERN = /[\u05F3\u2018\u2019\u201A\u2032`\u00B4]/g;
+
+// Zero-width and Unicode directional control characters
+const INVISIBLE_PATTERN = /[\u200B-\u200F\u202A-\u202E\u2066-\u2069\uFEFF]/g;
+
+const MAQAF = '\u05BE';
+
+const FINAL_TO_REGULAR: Record<string, string> = {
+  'ך': 'כ',
+  'ם': 'מ',
+  'ן': 'נ',
+  'ף': 'פ',
+  'ץ': 'צ'
+};
+
+const REGULAR_TO_FINAL: Record<string, string> = {
+  'כ': 'ך',
+  'מ': 'ם',
+  'נ': 'ן',
+  'פ': 'ף',
+  'צ': 'ץ'
+};
+
+/**
+ * Single-letter prefixes that attach to Hebrew words
+ */
+export const HEBREW_PREFIX_LETTERS = ['ו', 'ה', 'ב', 'ל', 'מ', 'ש', 'כ'] as const;
+
+/**
+ * Prefix letter sequences that occur in practice, longest first
+ * (e.g. "וה" in "והמקדם", "שב" in "שבתכנית", "וכש" in "וכשהוועדה")
+ */
+const PREFIX_SEQUENCES = [
+  'וכש', 'ושה', 'ושב', 'ושל', 'ומה',
+  'וה', 'וב', 'ול', 'ומ', 'וש', 'וכ', 'שה', 'שב', 'של', 'שמ', 'מה', 'כש',
+  ...HEBREW_PREFIX_LETTERS
+];
+
+// Plural / construct suffixes, matched against final-folded words
+const LONG_SUFFIXES = ['ימ', 'ות'];
+const SHORT_SUFFIXES = ['י', 'ה', 'ת'];
+
+// Minimum letters left after removing a prefix or suffix
+const MIN_STEM_LENGTH = 3;
+
+// Prefixes combined with query forms for full-text lookups: the single
+// letters plus "וה", to keep MATCH strings short
+const EXPANSION_PREFIXES = ['', ...HEBREW_PREFIX_LETTERS, 'וה'];
+
+/**
+ * Common Hebrew stop words, skipped when tokenizing free-text queries
+ */
+export const HEBREW_STOP_WORDS = new Set([
+  'של', 'את', 'על', 'עם', 'זה', 'הוא', 'היא', 'הם', 'הן',
+  'אני', 'אתה', 'אנחנו', 'יש', 'אין', 'כל',
+  'מה', 'מי', 'איך', 'למה', 'כי', 'אם', 'או', 'גם', 'רק'
+]);
+
+/**
+ * Check if a word starts with a Hebrew letter
+ */
+function isHebrewWord(word: string): boolean {
+  return /^[\u05D0-\u05EA]/.test(word);
+}
+
+/**
+ * Normalize Hebrew surface text: removes niqqud and invisible characters,
+ * unifies geresh/gershayim variants to ASCII ' and " and maqaf to a hyphen.
+ */
+export function normalizeHebrew(text: string): string {
+  return text
+    .replace(INVISIBLE_PATTERN, '')
+    .replace(NIQQUD_PATTERN, '')
+    .replace(GERSHAYIM_PATTERN, '"')
+    .replace(GERESH_PATTERN, "'")
+    .split(MAQAF).join('-');
+}
+
+/**
+ * Replace every final letter with its regular form (ם → מ etc.)
+ */
+export function foldFinalLetters(text: string): string {
+  return text.replace(/[\u05DA\u05DD\u05DF\u05E3\u05E5]/g, ch => FINAL_TO_REGULAR[ch]);
+}
+
+/**
+ * Restore the final form of a word's last letter (מקדמ → מקדם)
+ */
+export function toFinalForm(word: string): string {
+  const last = word[word.length - 1];
+  return REGULAR_TO_FINAL[last] ? word.slice(0, -1) + REGULAR_TO_FINAL[last] : word;
+}
+
+/**
+ * Candidate readings of a word with its prefix letters removed.
+ * The word itself is always the first candidate.
+ */
+export function stripHebrewPrefixes(word: string): string[] {
+  const candidates = [word];
+  if (!isHebrewWord(word)) return candidates;
+
+  for (const prefix of PREFIX_SEQUENCES) {
+    if (word.startsWith(prefix) && word.length - prefix.length >= MIN_STEM_LENGTH) {
+      candidates.push(word.slice(prefix.length));
+    }
+  }
+
+  return [...new Set(candidates)];
+}
+
+/**
+ * Remove one plural/construct suffix from a final-folded word
+ * (מקדמימ → מקדמ, השבחה → השבח, זכויות → זכוי)
+ */
+export function stripHebrewSuffix(word: string): string {
+  if (!isHebrewWord(word) || /["']/.test(word)) return word;
+
+  for (const suffix of LONG_SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  for (const suffix of SHORT_SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Candidate stems of a word: prefix-stripped, final-folded, suffix-stripped
+ */
+export function getHebrewStems(word: string): string[] {
+  const normalized = normalizeHebrew(word).trim();
+  if (!isHebrewWord(normalized)) return [normalized.toLowerCase()];
+
+  return [...new Set(
+    stripHebrewPrefixes(normalized).map(candidate => stripHebrewSuffix(foldFinalLetters(candidate)))
+  )];
+}
+
+/**
+ * Collapse ktiv male doubling (דחייה → דחיה, שוויון → שויון),
+ * which varies between documents
+ */
+function collapseDoubledVowelLetters(word: string): string {
+  return word.replace(/וו/g, 'ו').replace(/יי/g, 'י');
+}
+
+/**
+ * Spelling variants of a stem with and without ktiv male doubling
+ */
+function getSpellingVariants(stem: string): string[] {
+  const haser = collapseDoubledVowelLetters(stem);
+  const male = haser.replace(/(?<=.)([וי])(?=.)/g, '$1$1');
+  return [...new Set([stem, haser, male])].filter(v => v.length >= MIN_STEM_LENGTH);
+}
+
+/**
+ * Comparison keys for a word: every prefix reading, final-folded and
+ * ktiv-collapsed, with and without its suffix
+ */
+function getMatchKeys(word: string): string[] {
+  const normalized = normalizeHebrew(word).trim().toLowerCase();
+  if (!isHebrewWord(normalized)) return [normalized];
+
+  const keys = new Set<string>();
+  for (const candidate of stripHebrewPrefixes(normalized)) {
+    const folded = collapseDoubledVowelLetters(foldFinalLetters(candidate));
+    keys.add(folded);
+    keys.add(stripHebrewSuffix(folded));
+  }
+  return [...keys];
+}
+
+/**
+ * Split text into normalized, lowercased tokens
+ */
+export function tokenizeHebrew(text: string): string[] {
+  return normalizeHebrew(text)
+    .toLowerCase()
+    .split(/[\s,.:;!?()[\]{}\-\u05BE/\\]+/)
+    .map(token => token.replace(/^["']+|["']+$/g, ''))
+    .filter(token => token.length > 0);
+}
+
+/**
+ * Create a matcher that tests whether a term occurs in the given text,
+ * ignoring prefixes, final letters, niqqud, gershayim and plural/construct suffixes.
+ * Non-Hebrew terms (numbers, English) fall back to substring matching.
+ */
+export function createHebrewMatcher(text: string): (term: string) => boolean {
+  const lowerText = normalizeHebrew(text).toLowerCase();
+  const keys = new Set<string>();
+  for (const token of tokenizeHebrew(text)) {
+    for (const key of getMatchKeys(token)) {
+      keys.add(key);
+    }
+  }
+
+  return (term: string) => {
+    const normalizedTerm = normalizeHebrew(term).trim().toLowerCase();
+    if (!isHebrewWord(normalizedTerm)) {
+      return normalizedTerm.length > 0 && lowerText.includes(normalizedTerm);
+    }
+    return getMatchKeys(normalizedTerm).some(key => keys.has(key));
+  };
+}
+
+/**
+ * A surface form to look up in a full-text index built on raw document words.
+ * prefix=true means the form should be prefix-matched (covers inflections).
+ */
+export interface HebrewSearchForm {
+  text: string;
+  prefix: boolean;
+}
+
+/**
+ * Expand a single query word into the surface forms it can take in a document.
+ * The index stores words as written ("והמקדם"), so morphology is applied on the
+ * query side. Only the query word itself is prefix-matched; stems are never
+ * used as prefixes, since a short stem prefix-matches unrelated words ("שוו"*
+ * would hit "השוואה"). Inflections and ktiv male/haser spellings are listed as
+ * exact forms instead, each combined with the common prefix letters.
+ */
+export function expandHebrewSearchTerm(word: string): HebrewSearchForm[] {
+  const normalized = normalizeHebrew(word).trim();
+  if (!isHebrewWord(normalized)) {
+    return normalized.length > 0 ? [{ text: normalized, prefix: true }] : [];
+  }
+
+  const exactForms = getInflections(foldFinalLetters(normalized)).map(toFinalForm);
+
+  const forms = new Map<string, boolean>();
+  for (const prefix of EXPANSION_PREFIXES) {
+    forms.set(prefix + normalized, true);
+    for (const form of exactForms) {
+      if (!forms.has(prefix + form)) {
+        forms.set(prefix + form, false);
+      }
+    }
+  }
+
+  // A query typed with its own prefix ("בהיטל") also looks up the bare word;
+  // three-letter leftovers ("מקדם" → "קדם") are too ambiguous to add
+  for (const reading of stripHebrewPrefixes(normalized).slice(1)) {
+    if (reading.length > MIN_STEM_LENGTH && !forms.has(reading)) {
+      forms.set(reading, false);
+    }
+  }
+
+  return [...forms].map(([text, prefix]) => ({ text, prefix }));
+}
+
+/**
+ * Inflected forms of a final-folded word in both spellings, guessed from its
+ * own ending: plurals map back to their base, feminine words take ות/ת, and
+ * anything else takes the plural and construct suffixes ("מקדם" never yields
+ * "מקדמה")
+ */
+function getInflections(word: string): string[] {
+  let base = word;
+  let suffixes = ['', 'ימ', 'ות', 'י'];
+
+  const plural = LONG_SUFFIXES.find(suffix => word.endsWith(suffix));
+  if (plural && word.length - plural.length >= MIN_STEM_LENGTH) {
+    base = word.slice(0, -plural.length);
+  } else if (word.endsWith('ה') && word.length - 1 >= MIN_STEM_LENGTH) {
+    base = word.slice(0, -1);
+    suffixes = ['ה', 'ות', 'ת'];
+  }
+
+  return getSpellingVariants(base).flatMap(variant => suffixes.map(suffix => variant + suffix));
+}
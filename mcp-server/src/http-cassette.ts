@@ -0,0 +1,346 @@
+/**
+ * HTTP Cassettes
+ * Record/replay for all outbound HTTP that goes through fetch: gov.il pages and
+ * PDFs (transport scraperapi/direct backends), the gov.il API, OpenAI query
+ * embeddings and the Pinecone SDK. A cassette is a JSON file of recorded
+ * request/response pairs, so a scraper regression can be reproduced offline
+ * and without ScraperAPI credits.
+ *
+ * Modes (HTTP_CASSETTE_MODE):
+ *   replay - serve recorded responses only; an unrecorded request fails (default)
+ *   record - send every request and record it (the cassette is rewritten)
+ *   auto   - serve recorded responses, send and record the rest
+ *
+ * Requests match on method, URL and body only: request headers are neither
+ * recorded nor compared, so requests that differ only in their headers
+ * (Authorization, Accept, Range) share recordings. Secrets (api_key and token
+ * query parameters) are redacted from recorded URLs before matching. A request
+ * made several times is answered with its recordings in order, the last one
+ * repeating.
+ *
+ * New recordings are kept in memory and the file is written at most every
+ * few seconds, on closeHttpCassette() and when the process exits, rather than
+ * after every request.
+ *
+ * HTTP_STAND_IN sends requests to a local stand-in server (stand-ins.ts)
+ * instead of the internet: https://www.gov.il/x?y becomes {HTTP_STAND_IN}/www.gov.il/x?y.
+ * It can be used with or without a cassette.
+ *
+ * The transport's proxy and browser backends do not use fetch and are not
+ * covered.
+ *
+ * Configured from the environment (installHttpCassette):
+ *   HTTP_CASSETTE       Cassette file
+ *   HTTP_CASSETTE_MODE  replay, record or auto (default: replay)
+ *   HTTP_STAND_IN       Stand-in server URL
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type CassetteMode = 'replay' | 'record' | 'auto';
+
+export const CASSETTE_MODES: CassetteMode[] = ['replay', 'record', 'auto'];
+
+export const REDACTED = 'REDACTED';
+
+// Query parameters holding credentials (ScraperAPI api_key and the like)
+const SECRET_PARAMS = ['api_key', 'apikey', 'key', 'token', 'access_token'];
+
+// Longest a new recording waits in memory before the cassette file is written
+const FLUSH_DELAY_MS = 5000;
+
+// Response headers not worth recording
+const SKIPPED_RESPONSE_HEADERS = ['set-cookie', 'date', 'content-length', 'content-encoding', 'transfer-encoding', 'connection', 'keep-alive'];
+
+export interface CassetteRequest {
+  method: string;
+  url: string;            // Redacted
+  body: string | null;
+}
+
+export interface CassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  encoding: 'utf8' | 'base64';
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+  recordedAt: string;
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface HttpCassetteOptions {
+  path?: string;          // Cassette file (none: stand-in redirection only)
+  mode?: CassetteMode;    // Default: replay
+  standInUrl?: string;    // Stand-in server to send requests to
+}
+
+export interface HttpCassetteStats {
+  path: string | null;
+  mode: CassetteMode;
+  standInUrl: string | null;
+  interactions: number;
+  replayed: number;
+  recorded: number;
+  missed: number;
+}
+
+/**
+ * A URL with its credential query parameters replaced by REDACTED
+ */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  let changed = false;
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (SECRET_PARAMS.includes(name.toLowerCase())) {
+      parsed.searchParams.set(name, REDACTED);
+      changed = true;
+    }
+  }
+  return changed ? parsed.toString() : url;
+}
+
+/**
+ * The stand-in URL of a request: {standInUrl}/{host}{path}{query}
+ */
+export function toStandInUrl(url: string, standInUrl: string): string {
+  const target = new URL(url);
+  return `${standInUrl.replace(/\/+$/, '')}/${target.host}${target.pathname}${target.search}`;
+}
+
+function isText(contentType: string): boolean {
+  return /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(contentType);
+}
+
+function requestKey(request: CassetteRequest): string {
+  return `${request.method} ${request.url} ${request.body ?? ''}`;
+}
+
+/**
+ * Method, URL and body of a fetch call
+ */
+async function describeRequest(input: string | URL | Request, init?: RequestInit): Promise<{ method: string; url: string; body: string | null }> {
+  if (input instanceof Request) {
+    const method = (init?.method || input.method || 'GET').toUpperCase();
+    const body = init?.body !== undefined
+      ? await bodyText(init.body)
+      : method === 'GET' || method === 'HEAD' ? null : await input.clone().text();
+    return { method, url: input.url, body: body || null };
+  }
+  return {
+    method: (init?.method || 'GET').toUpperCase(),
+    url: String(input),
+    body: init?.body !== undefined ? await bodyText(init.body) : null
+  };
+}
+
+async function bodyText(body: BodyInit | null): Promise<string | null> {
+  if (body === null) return null;
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  if (body instanceof ArrayBuffer) return Buffer.from(body).toString('base64');
+  if (ArrayBuffer.isView(body)) return Buffer.from(body.buffer, body.byteOffset, body.byteLength).toString('base64');
+  return new Response(body).text();
+}
+
+export class HttpCassette {
+  private path: string | null;
+  private mode: CassetteMode;
+  private standInUrl: string | null;
+  private interactions: CassetteInteraction[] = [];
+  private cursors = new Map<string, number>();
+  private replayed = 0;
+  private recorded = 0;
+  private missed = 0;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: HttpCassetteOptions = {}) {
+    this.path = options.path || null;
+    this.mode = options.mode || 'replay';
+    this.standInUrl = options.standInUrl || null;
+
+    if (!CASSETTE_MODES.includes(this.mode)) {
+      throw new Error(`Unknown HTTP_CASSETTE_MODE: ${this.mode}. Valid options: ${CASSETTE_MODES.join(', ')}`);
+    }
+
+    // Record mode starts a new cassette; the others extend or replay the file
+    if (this.path && this.mode !== 'record' && fs.existsSync(this.path)) {
+      const cassette = JSON.parse(fs.readFileSync(this.path, 'utf8')) as Cassette;
+      this.interactions = cassette.interactions || [];
+    }
+  }
+
+  /**
+   * Answer a fetch call: from the cassette, or by sending it with `send`
+   * (to the stand-in when configured) and recording the response
+   */
+  async fetch(input: string | URL | Request, init: RequestInit | undefined, send: typeof fetch): Promise<Response> {
+    const described = await describeRequest(input, init);
+    const request: CassetteRequest = { method: described.method, url: redactUrl(described.url), body: described.body };
+
+    if (this.path && this.mode !== 'record') {
+      const recorded = this.find(request);
+      if (recorded) {
+        this.replayed++;
+        return this.toResponse(recorded);
+      }
+      if (this.mode === 'replay') {
+        this.missed++;
+        throw new Error(`No recorded response for ${request.method} ${request.url} in cassette ${this.path}`);
+      }
+    }
+
+    let target: string | URL | Request = input;
+    if (this.standInUrl) {
+      const url = toStandInUrl(described.url, this.standInUrl);
+      target = input instanceof Request ? new Request(url, input) : url;
+    }
+    const response = await send(target, init);
+
+    if (!this.path) return response;
+
+    const interaction: CassetteInteraction = {
+      request,
+      response: await this.fromResponse(response.clone()),
+      recordedAt: new Date().toISOString()
+    };
+    this.interactions.push(interaction);
+    this.recorded++;
+    this.flushTimer ??= setTimeout(() => this.flush(), FLUSH_DELAY_MS).unref();
+    return response;
+  }
+
+  /**
+   * Write the cassette file if it has recordings not written yet
+   */
+  flush(): void {
+    if (!this.flushTimer) return;
+    clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    this.save();
+  }
+
+  /**
+   * Write the cassette file
+   */
+  save(): void {
+    if (!this.path) return;
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    const cassette: Cassette = { version: 1, interactions: this.interactions };
+    fs.writeFileSync(this.path, JSON.stringify(cassette, null, 2) + '\n');
+  }
+
+  getInteractions(): CassetteInteraction[] {
+    return this.interactions;
+  }
+
+  getStats(): HttpCassetteStats {
+    return {
+      path: this.path,
+      mode: this.mode,
+      standInUrl: this.standInUrl,
+      interactions: this.interactions.length,
+      replayed: this.replayed,
+      recorded: this.recorded,
+      missed: this.missed
+    };
+  }
+
+  /**
+   * The next recording of a request (the last one repeats)
+   */
+  private find(request: CassetteRequest): CassetteResponse | null {
+    const key = requestKey(request);
+    const matches = this.interactions.filter(interaction => requestKey(interaction.request) === key);
+    if (matches.length === 0) return null;
+
+    const cursor = this.cursors.get(key) ?? 0;
+    this.cursors.set(key, cursor + 1);
+    return matches[Math.min(cursor, matches.length - 1)].response;
+  }
+
+  private async fromResponse(response: Response): Promise<CassetteResponse> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!SKIPPED_RESPONSE_HEADERS.includes(name.toLowerCase())) headers[name] = value;
+    });
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const text = isText(response.headers.get('content-type') || '');
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: buffer.toString(text ? 'utf8' : 'base64'),
+      encoding: text ? 'utf8' : 'base64'
+    };
+  }
+
+  private toResponse(recorded: CassetteResponse): Response {
+    const body = recorded.status === 204 || recorded.status === 304
+      ? null
+      : Buffer.from(recorded.body, recorded.encoding);
+    return new Response(body, { status: recorded.status, statusText: recorded.statusText, headers: recorded.headers });
+  }
+}
+
+// Installed cassette and the fetch it wraps
+let cassetteInstance: HttpCassette | null = null;
+let originalFetch: typeof fetch | null = null;
+
+// Writes what the installed cassette recorded since its last write
+const flushOnExit = () => cassetteInstance?.flush();
+
+/**
+ * Route globalThis.fetch through a cassette and/or stand-in server.
+ * Without options it is configured from the environment, and does nothing
+ * (returns null) when neither HTTP_CASSETTE nor HTTP_STAND_IN is set.
+ */
+export function installHttpCassette(options?: HttpCassetteOptions): HttpCassette | null {
+  if (cassetteInstance) return cassetteInstance;
+
+  const resolved: HttpCassetteOptions = options ?? {
+    path: process.env.HTTP_CASSETTE,
+    mode: (process.env.HTTP_CASSETTE_MODE || undefined) as CassetteMode | undefined,
+    standInUrl: process.env.HTTP_STAND_IN
+  };
+  if (!resolved.path && !resolved.standInUrl) return null;
+
+  const cassette = new HttpCassette(resolved);
+  const send = globalThis.fetch;
+  cassetteInstance = cassette;
+  originalFetch = send;
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => cassette.fetch(input, init, send)) as typeof fetch;
+  process.on('exit', flushOnExit);
+
+  const stats = cassette.getStats();
+  console.error(`[HttpCassette] ${stats.path ? `${stats.mode} ${stats.path} (${stats.interactions} recorded)` : 'no cassette'}${stats.standInUrl ? `, stand-in ${stats.standInUrl}` : ''}`);
+  return cassette;
+}
+
+/**
+ * Write the cassette's new recordings and restore the original fetch
+ */
+export function closeHttpCassette(): void {
+  cassetteInstance?.flush();
+  process.off('exit', flushOnExit);
+  if (cassetteInstance && originalFetch) {
+    globalThis.fetch = originalFetch;
+  }
+  cassetteInstance = null;
+  originalFetch = null;
+}
@@ -0,0 +1,303 @@
+/**
+ * Hybrid Retrieval
+ * hybrid_search runs three retrievers over the same question in parallel and
+ * fuses their rankings with reciprocal rank fusion (RRF):
+ *   - lexical:    FTS5 over metadata and PDF text (database.ts search)
+ *   - semantic:   nearest passages in the vector store (embeddings.ts)
+ *   - structured: extracted parameters (decision_parameters) and block/plot
+ * Metadata boosts then favor decisions of the committee, year and block named
+ * in the question. "מקדם דחייה בנתניה 2024" needs both: the vectors find the
+ * discussion of the coefficient, the parameters and filters pin the city and year.
+ */
+
+import { Decision, DatabaseType, ParameterFilter } from './types.js';
+import { DecisionDatabase } from './database.js';
+import { EmbeddingsManager } from './embeddings.js';
+import { hebrewYearToIsoRange, parseHebrewYear } from './hebrew-calendar.js';
+import { applied, parseQuery, ParsedQuery } from './query-understanding.js';
+import { committeeMatches } from './committee-gazetteer.js';
+
+export type RetrieverName = 'lexical' | 'semantic' | 'structured';
+
+// RRF constant from Cormack et al.; damps the gap between the top ranks
+const RRF_K = 60;
+
+// Additive boosts, in RRF units (a first place in one retriever is 1/61 ≈ 0.016).
+// Values are local, so the committee outweighs the year.
+const BOOSTS = {
+  committee: 0.015,
+  year: 0.01,
+  block: 0.02,
+  recent: 0.004      // Decided in the last RECENT_YEARS years (when no year was asked)
+};
+const RECENT_YEARS = 2;
+
+// Candidates requested from each retriever per result returned
+const CANDIDATES_PER_RESULT = 3;
+const MIN_CANDIDATES = 30;
+
+/**
+ * What a free-text question says beyond its topic
+ */
+export interface ParsedHybridQuery {
+  text: string;                 // The question without the parts below, for FTS
+  committee: string | null;     // City or committee name found in the question
+  year: string | null;          // Gregorian (2024) or Hebrew (תשפ"ד) year
+  block: string | null;
+  plot: string | null;
+  parameter: Pick<ParameterFilter, 'param_type' | 'param_subtype'> | null;
+}
+
+export interface HybridSearchOptions {
+  limit?: number;               // Default: 20
+  database?: DatabaseType;       // Default: the database named in the question
+  // Override what parseHybridQuery() found
+  committee?: string;
+  year?: string;
+  block?: string;
+  plot?: string;
+  retrievers?: RetrieverName[]; // Default: all three
+}
+
+export interface RetrieverMatch {
+  retriever: RetrieverName;
+  rank: number;                 // 1-based rank in that retriever's list
+  detail?: string;              // Matched page or parameter value
+}
+
+export interface HybridSearchResult {
+  decision: Decision;
+  score: number;
+  matchedBy: RetrieverMatch[];
+  boosts: Array<keyof typeof BOOSTS>;
+}
+
+export interface RetrieverStatus {
+  count: number;
+  skipped?: string;             // Why the retriever did not run
+  error?: string;
+}
+
+export interface HybridSearchResponse {
+  parsed: ParsedHybridQuery;
+  retrievers: Record<RetrieverName, RetrieverStatus>;
+  results: HybridSearchResult[];
+}
+
+interface RankedHit {
+  id: string;
+  decision?: Decision;
+  detail?: string;
+}
+
+/**
+ * Pull the committee, year, block/plot and parameter type out of a question
+ * (query-understanding.ts). Cities are matched against the committees in the
+ * database, also with a Hebrew prefix letter ("בנתניה").
+ */
+export function parseHybridQuery(query: string, committees: string[]): ParsedHybridQuery {
+  return toHybridQuery(parseQuery(query, { committees }));
+}
+
+function toHybridQuery(parsed: ParsedQuery): ParsedHybridQuery {
+  const single = (slot: ParsedQuery['block']) =>
+    slot && slot.value.from === slot.value.to ? String(slot.value.from) : null;
+
+  return {
+    text: parsed.text,
+    committee: parsed.committee?.value ?? null,
+    year: parsed.year?.value ?? null,
+    block: single(parsed.block),
+    plot: single(parsed.plot),
+    parameter: parsed.parameter?.value ?? null
+  };
+}
+
+/**
+ * Reciprocal rank fusion: each list contributes 1 / (k + rank) for every
+ * decision it ranks
+ */
+export function reciprocalRankFusion(
+  lists: Partial<Record<RetrieverName, RankedHit[]>>,
+  k: number = RRF_K
+): Map<string, { score: number; matchedBy: RetrieverMatch[] }> {
+  const fused = new Map<string, { score: number; matchedBy: RetrieverMatch[] }>();
+  for (const [retriever, hits] of Object.entries(lists) as Array<[RetrieverName, RankedHit[]]>) {
+    hits.forEach((hit, index) => {
+      const rank = index + 1;
+      const entry = fused.get(hit.id) ?? { score: 0, matchedBy: [] };
+      entry.score += 1 / (k + rank);
+      entry.matchedBy.push({ retriever, rank, ...(hit.detail && { detail: hit.detail }) });
+      fused.set(hit.id, entry);
+    });
+  }
+  return fused;
+}
+
+/**
+ * Gregorian years covered by a year filter (a Hebrew year spans two)
+ */
+function gregorianYears(year: string): string[] {
+  const hebrewYear = parseHebrewYear(year);
+  if (!hebrewYear) return [year];
+  const range = hebrewYearToIsoRange(hebrewYear);
+  return [range.from.slice(0, 4), range.to.slice(0, 4)];
+}
+
+/**
+ * Keep the first hit of each decision (a decision has many parameters or passages)
+ */
+function uniqueHits(hits: RankedHit[]): RankedHit[] {
+  const seen = new Set<string>();
+  return hits.filter(hit => !seen.has(hit.id) && seen.add(hit.id));
+}
+
+/**
+ * Run the retrievers, fuse and boost. A retriever that fails or has nothing to
+ * search for is reported in `retrievers` and the others still answer.
+ */
+export async function hybridSearch(
+  db: DecisionDatabase,
+  embeddings: EmbeddingsManager | null,
+  query: string,
+  options: HybridSearchOptions = {}
+): Promise<HybridSearchResponse> {
+  const limit = options.limit || 20;
+  const candidates = Math.max(limit * CANDIDATES_PER_RESULT, MIN_CANDIDATES);
+  const enabled = new Set<RetrieverName>(options.retrievers ?? ['lexical', 'semantic', 'structured']);
+
+  const understood = parseQuery(query, { committees: db.getCommitteeNames() });
+  const parsed = toHybridQuery(understood);
+  const database = options.database ?? applied(understood.database);
+  const value = applied(understood.value);
+  const committee = options.committee ?? parsed.committee;
+  const year = options.year ?? parsed.year;
+  const block = options.block ?? parsed.block;
+  const plot = options.plot ?? parsed.plot;
+
+  const retrievers: Record<RetrieverName, RetrieverStatus> = {
+    lexical: { count: 0 },
+    semantic: { count: 0 },
+    structured: { count: 0 }
+  };
+
+  const lexical = async (): Promise<RankedHit[]> => {
+    if (!parsed.text) {
+      retrievers.lexical.skipped = 'no free text left after committee, year and block';
+      return [];
+    }
+    const result = db.search({ query: parsed.text, database, limit: candidates });
+    return result.decisions.map(decision => ({ id: decision.id, decision }));
+  };
+
+  const semantic = async (): Promise<RankedHit[]> => {
+    if (!embeddings) {
+      retrievers.semantic.skipped = 'semantic search not initialized';
+      return [];
+    }
+    const { results, mode, error } = await embeddings.searchWithMode(query, candidates, database ? { database } : undefined);
+    // Without vectors the manager re-ranks keyword matches, which lexical already covers
+    if (mode !== 'vectors') {
+      retrievers.semantic.skipped = error ?? 'vector store is empty';
+      return [];
+    }
+    return results.map(r => ({
+      id: r.decision.id,
+      decision: r.decision,
+      detail: r.page ? `page ${r.page}` : undefined
+    }));
+  };
+
+  // Decisions with any parcel in the block, not only those listing it first
+  const inBlock = new Set<string>();
+
+  const structured = async (): Promise<RankedHit[]> => {
+    const hits: RankedHit[] = [];
+    if (block) {
+      const result = db.search({ block, plot: plot ?? undefined, database, limit: candidates });
+      for (const decision of result.decisions) inBlock.add(decision.id);
+      hits.push(...result.decisions.map(decision => ({
+        id: decision.id,
+        decision,
+        detail: `גוש ${decision.block}${decision.plot ? ` חלקה ${decision.plot}` : ''}`
+      })));
+    }
+    if (parsed.parameter) {
+      const { rows } = db.searchByParameters({
+        ...parsed.parameter,
+        ...(value?.min !== undefined && { value_min: value.min }),
+        ...(value?.max !== undefined && { value_max: value.max }),
+        committee: committee ?? undefined,
+        year: year ?? undefined,
+        database,
+        min_confidence: 0.5,
+        limit: candidates
+      });
+      hits.push(...rows.map(row => ({
+        id: row.id,
+        detail: `${row.param_subtype ? `${row.param_type}/${row.param_subtype}` : row.param_type} = ${row.value_numeric ?? row.value_text}${row.unit ? ` ${row.unit}` : ''}`
+      })));
+    }
+    if (!block && !parsed.parameter) {
+      retrievers.structured.skipped = 'no block or parameter type in the question';
+    }
+    return uniqueHits(hits);
+  };
+
+  const run = async (name: RetrieverName, retrieve: () => Promise<RankedHit[]>): Promise<[RetrieverName, RankedHit[]]> => {
+    if (!enabled.has(name)) {
+      retrievers[name].skipped = 'disabled';
+      return [name, []];
+    }
+    try {
+      const hits = uniqueHits(await retrieve());
+      retrievers[name].count = hits.length;
+      return [name, hits];
+    } catch (error) {
+      retrievers[name].error = error instanceof Error ? error.message : String(error);
+      console.error(`[HybridSearch] ${name} retriever failed:`, retrievers[name].error);
+      return [name, []];
+    }
+  };
+
+  const lists = Object.fromEntries(await Promise.all([
+    run('lexical', lexical),
+    run('semantic', semantic),
+    run('structured', structured)
+  ])) as Record<RetrieverName, RankedHit[]>;
+
+  const known = new Map<string, Decision>();
+  for (const hits of Object.values(lists)) {
+    for (const hit of hits) {
+      if (hit.decision) known.set(hit.id, hit.decision);
+    }
+  }
+
+  const years = year ? gregorianYears(year) : null;
+  const recentFrom = new Date().getFullYear() - RECENT_YEARS;
+
+  const results: HybridSearchResult[] = [];
+  for (const [id, entry] of reciprocalRankFusion(lists)) {
+    const decision = known.get(id) ?? db.getDecision(id);
+    if (!decision) continue;
+
+    const boosts: HybridSearchResult['boosts'] = [];
+    if (committee && committeeMatches(decision, committee)) boosts.push('committee');
+    if (block && (decision.block === block || inBlock.has(id))) boosts.push('block');
+    if (years) {
+      if (decision.year && years.includes(decision.year)) boosts.push('year');
+    } else if (decision.year && Number(decision.year) >= recentFrom) {
+      boosts.push('recent');
+    }
+
+    const score = entry.score + boosts.reduce((sum, boost) => sum + BOOSTS[boost], 0);
+    results.push({ decision, score: Math.round(score * 10000) / 10000, matchedBy: entry.matchedBy, boosts });
+  }
+
+  results.sort((a, b) => b.score - a.score);
+  return {
+    parsed: { ...parsed, committee, year, block, plot },
+    retrievers,
+    results: results.slice(0, limit)
+  };
+}
@@ -19,13 +19,22 @@ import {
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
-import { getDatabase, closeDatabase, DecisionDatabase } from './database.js';
+import { getDatabase, closeDatabase, DecisionDatabase, buildFtsMatchQuery } from './database.js';
 import { getEmbeddings, EmbeddingsManager, generateQueryEmbedding } from './embeddings.js';
+import { hybridSearch, RetrieverName } from './hybrid-search.js';
+import { getReranker, RerankCandidate, RerankInfo } from './reranker.js';
 import { closeEmbeddingsStore } from './embeddings-db.js';
+import { toIsoDateBound } from './date-parser.js';
+import { applied, describeParsedQuery, parseQuery, ParsedQuery, toSearchParams } from './query-understanding.js';
+import { findCommitteeIds, getCommittee } from './committee-gazetteer.js';
 import { getPineconeClient, PineconeClient, PineconeQueryResult } from './pinecone-client.js';
 import { createIndexer } from './indexer.js';
 import { createPdfExtractor, PdfExtractor, PdfExtractionResult } from './pdf-extractor.js';
 import { getPdfCache } from './pdf-cache.js';
+import { getTransport } from './transport.js';
+import { installHttpCassette } from './http-cassette.js';
+import { checkStaleIndex, getAlertNotifier, runAlertChecks } from './alerts.js';
+import { PAGE_BREAK, countPages, pageAtOffset, pageStartOffset } from './pdf-layout.js';
 import { convertToImages, toMcpImageContent, ImageResult } from './pdf-to-image.js';
 import {
   DatabaseType,
@@ -44,14 +53,26 @@ import {
   ConstructAnswerInput,
   ConstructAnswerResult,
   ParamType,
-  ParameterFilter
+  ParameterFilter,
+  PdfPage,
+  DecisionPassage,
+  PassageSectionType,
+  GushLocation,
+  LocatedDecision
 } from './types.js';
-import { extractParameters, extractParametersBatch } from './parameter-extractor.js';
+import {
+  extractParameters,
+  extractParametersBatch,
+  EXTRACTION_PATTERNS,
+  parseHebrewNumber,
+  VALUE_RANGES
+} from './parameter-extractor.js';
 import { SHAMAI_PROMPTS, getPromptMessages } from './shamai-knowledge/prompts.js';
 import { SHAMAI_RESOURCES, getResourceContent } from './shamai-knowledge/resources.js';
 
 // Configuration
 const SCRAPER_API_KEY = process.env.SCRAPER_API_KEY || '';
+const PDF_OCR_ENABLED = process.env.PDF_OCR === 'true';  // OCR scanned PDFs in read_pdf (requires tesseract)
 
 // Context Overflow Prevention Constants
 const MAX_OUTPUT_CHARS = 15000;      // ~3,750 tokens - safe for Claude context
@@ -64,12 +85,31 @@ const MAX_PDFTEXT_IN_SEARCH = 300;   // Truncated pdfText in search results
 let db: DecisionDatabase | null = null;
 let embeddings: EmbeddingsManager | null = null;
 
+// Schema migration running at startup; database tools answer "migrating" until it ends
+let migrationInProgress: { version: number; name: string; startedAt: string } | null = null;
+
 /**
  * Helper function to check if database is available and return appropriate error response.
  * Used by all handlers that require database access.
  * @returns Error response if database unavailable, null if database is available
  */
 function checkDatabaseAvailable(): MCPToolResult | null {
+  if (!db && migrationInProgress) {
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          error: 'Database is migrating',
+          errorHe: 'מסד הנתונים בעדכון מבנה',
+          status: 'migrating',
+          migration: migrationInProgress,
+          suggestion: 'The database schema is being upgraded after an update. Try again in a few minutes; health_check shows the progress.',
+          suggestionHe: 'מבנה מסד הנתונים מתעדכן לאחר שדרוג. נסה שוב בעוד מספר דקות; health_check מציג את ההתקדמות.'
+        })
+      }],
+      isError: true
+    };
+  }
   if (!db) {
     return {
       content: [{
@@ -100,7 +140,7 @@ function checkDatabaseAvailable(): MCPToolResult | null {
 }
 
 /**
- * Helper to execute raw SQL queries on the sql.js database
+ * Helper to execute raw SQL queries on the database storage backend
  * Returns array of objects with column names as keys
  * @param sql - SQL query with ? placeholders
  * @param params - Parameter values
@@ -109,16 +149,16 @@ function checkDatabaseAvailable(): MCPToolResult | null {
 function executeRawQuery(sql: string, params: any[] = []): any[] {
   if (!db) return [];
   try {
-    // Access the private sql.js database instance
-    const sqlJsDb = (db as any).db;
-    if (!sqlJsDb) return [];
+    // Access the private storage backend (sql.js-compatible exec results)
+    const storage = (db as any).db;
+    if (!storage) return [];
 
-    const result = sqlJsDb.exec(sql, params);
+    const result = storage.exec(sql, params);
     if (!result || result.length === 0 || !result[0].values || result[0].values.length === 0) {
       return [];
     }
 
-    // Convert sql.js result format to array of objects
+    // Convert { columns, values } result format to array of objects
     const columns = result[0].columns;
     const rows: any[] = [];
     for (const values of result[0].values) {
@@ -144,10 +184,10 @@ function executeRawQuery(sql: string, params: any[] = []): any[] {
 function executeScalarQuery(sql: string, params: any[] = []): any {
   if (!db) return null;
   try {
-    const sqlJsDb = (db as any).db;
-    if (!sqlJsDb) return null;
+    const storage = (db as any).db;
+    if (!storage) return null;
 
-    const result = sqlJsDb.exec(sql, params);
+    const result = storage.exec(sql, params);
     if (!result || result.length === 0 || !result[0].values || result[0].values.length === 0) {
       return null;
     }
@@ -158,69 +198,6 @@ function executeScalarQuery(sql: string, params: any[] = []): any {
   }
 }
 
-/**
- * Value extraction patterns for Hebrew legal documents
- * Used by query_and_aggregate to extract key values from PDF text
- */
-const EXTRACTION_PATTERNS: Record<string, RegExp[]> = {
-  coefficient: [
-    // "מקדם גודל 0.85", "מקדם דחייה 1.5", "מקדם היוון 0.92"
-    /מקדם\s+[\u0590-\u05FF]+(?:\s+[\u0590-\u05FF]+)*\s*[:=\-]?\s*([\d]+[.,][\d]+)/gi,
-    // "מקדם 0.85" (number right after)
-    /מקדם\s*[:=\-]?\s*([\d]+[.,][\d]+)/gi,
-    // "0.85 מקדם" (number before)
-    /([\d]+[.,][\d]+)\s*מקדם/gi
-  ],
-  price_per_sqm: [
-    /(?:שווי|מחיר|ערך)\s*(?:למ"ר|למטר|ל-מ"ר|למ״ר)?\s*[:=\-]?\s*(?:₪|ש"ח|שח)?\s*([\d,]+)/gi,
-    /([\d,]+)\s*(?:₪|ש"ח)\s*(?:למ"ר|למטר|למ״ר)/gi,
-    /(?:למ"ר|למטר)\s*[:=\-]?\s*(?:₪|ש"ח)?\s*([\d,]+)/gi
-  ],
-  percentage: [
-    /([\d.,]+)\s*%/g,
-    /(?:אחוז|שיעור)\s*[:=]?\s*([\d.,]+)/gi
-  ],
-  amount: [
-    /(?:סכום|שווי|תשלום|פיצוי|היטל)\s*[:=\-]?\s*(?:₪|ש"ח)?\s*([\d,]+(?:,\d{3})*)/gi,
-    /(?:₪|ש"ח)\s*([\d,]+(?:,\d{3})*)/gi
-  ]
-};
-
-/**
- * Parse a number from Hebrew document context.
- * Hebrew convention:
- *   - Comma with exactly 3 trailing digits = thousands separator: 1,500 → 1500
- *   - Comma with 1-2 trailing digits = decimal: 0,85 → 0.85
- *   - Period = decimal: 0.85, 1.275
- */
-function parseHebrewNumber(raw: string): number | null {
-  if (!raw) return null;
-  const trimmed = raw.trim();
-
-  // Thousands separator: "1,500", "12,345,678"
-  if (/^\d{1,3}(,\d{3})+$/.test(trimmed)) {
-    return parseFloat(trimmed.replace(/,/g, ''));
-  }
-
-  // Hebrew/European decimal comma: "0,85", "1,275"
-  if (/^\d+,\d{1,2}$/.test(trimmed)) {
-    return parseFloat(trimmed.replace(',', '.'));
-  }
-
-  // Standard decimal or integer: "0.85", "1.275", "150"
-  return parseFloat(trimmed.replace(/,/g, ''));
-}
-
-/**
- * Domain-specific value ranges for Israeli land appraisal terms.
- * Used to filter out impossible values (e.g., page numbers, table headers).
- */
-const VALUE_RANGES: Record<string, { min: number; max: number }> = {
-  'מקדם': { min: 0.01, max: 2.5 },
-  'אחוז': { min: 0, max: 100 },
-  'שיעור': { min: 0, max: 100 },
-};
-
 /**
  * Get the expected value range for a search term based on domain keywords.
  * Returns null if no range constraint applies.
@@ -335,16 +312,16 @@ function extractValuesFromText(text: string, fields: string[]): Record<string, s
 }
 
 /**
- * Get context snippet around a search term
+ * Get context snippet around a search term, with the page it is on
  */
-function getContextSnippet(text: string, searchTerm: string, contextChars: number = 60): { snippet: string; charIndex: number } {
-  if (!text || !searchTerm) return { snippet: '', charIndex: -1 };
+function getContextSnippet(text: string, searchTerm: string, contextChars: number = 60): { snippet: string; charIndex: number; page: number } {
+  if (!text || !searchTerm) return { snippet: '', charIndex: -1, page: 1 };
 
   const lowerText = text.toLowerCase();
   const lowerSearch = searchTerm.toLowerCase();
   const idx = lowerText.indexOf(lowerSearch);
 
-  if (idx === -1) return { snippet: '', charIndex: -1 };
+  if (idx === -1) return { snippet: '', charIndex: -1, page: 1 };
 
   const start = Math.max(0, idx - contextChars);
   const end = Math.min(text.length, idx + searchTerm.length + contextChars);
@@ -353,12 +330,21 @@ function getContextSnippet(text: string, searchTerm: string, contextChars: numbe
   if (start > 0) snippet = '...' + snippet;
   if (end < text.length) snippet = snippet + '...';
 
-  return { snippet, charIndex: idx };
+  return { snippet, charIndex: idx, page: getPageForOffset(text, idx) };
+}
+
+/**
+ * Page of a character position in PDF text: the real page when the text keeps
+ * page boundaries (pdf-layout.ts), otherwise estimated
+ */
+function getPageForOffset(text: string, charIndex: number): number {
+  if (charIndex < 0) return 1;
+  return pageAtOffset(text, charIndex) ?? estimatePage(charIndex, text.length);
 }
 
 /**
  * Estimate page number from character position in concatenated PDF text.
- * Uses ~3000 chars/page heuristic (consistent with pdf-extractor).
+ * Uses ~3000 chars/page heuristic, for text cached without page boundaries.
  */
 function estimatePage(charIndex: number, totalLength: number, charsPerPage: number = 3000): number {
   if (charIndex < 0 || totalLength <= 0) return 1;
@@ -882,7 +868,7 @@ avg_coefficient: 0.83`,
 - Don't assume database if no keywords match the table above - use default
 - Don't add caseType unless user mentioned a specific case type
 - Don't guess committee/city names - only use what user wrote
-- For date ranges, convert Hebrew years (תשפ"ד = 2024) to Gregorian
+- Hebrew years and dates (תשפ"ד, ט"ו בשבט תשפ"ג) can be passed as-is to year/fromDate/toDate - they are converted to Gregorian ranges
 - When in doubt, use FEWER parameters rather than guessing
 
 Returns results in <100ms from pre-indexed local database.`,
@@ -891,7 +877,7 @@ Returns results in <100ms from pre-indexed local database.`,
       properties: {
         query: {
           type: 'string',
-          description: 'שאילתת חיפוש חופשי (תומך בעברית) / Free text search query (Hebrew supported)'
+          description: 'שאילתת חיפוש חופשי (תומך בעברית) / Free text search query (Hebrew supported). Committee, block, year or dates, and database named in it ("היטל השבחה בנתניה אחרי 2020") are applied as filters unless given explicitly'
         },
         database: {
           type: 'string',
@@ -908,7 +894,11 @@ Returns results in <100ms from pre-indexed local database.`,
         },
         plot: {
           type: 'string',
-          description: 'סינון לפי מספר חלקה (לדוגמה: 25) / Filter by plot number'
+          description: 'סינון לפי מספר חלקה (לדוגמה: 25). מתאים גם להחלטות שבהן החלקה היא אחת מכמה או בתוך טווח ("חלקות 20-30") / Filter by plot number; matches any parcel of a decision, including plot ranges'
+        },
+        lot: {
+          type: 'string',
+          description: 'סינון לפי מספר מגרש (לדוגמה: 101) / Filter by plan lot (מגרש) number'
         },
         appraiser: {
           type: 'string',
@@ -920,15 +910,15 @@ Returns results in <100ms from pre-indexed local database.`,
         },
         year: {
           type: 'string',
-          description: 'סינון לפי שנה (מומלץ!) / Filter by year (RECOMMENDED, e.g., "2024"). More reliable than date range.'
+          description: 'סינון לפי שנה לועזית או עברית / Filter by year (e.g., "2024" or "תשפ"ד" - a Hebrew year covers Tishrei to Elul)'
         },
         fromDate: {
           type: 'string',
-          description: 'סינון מתאריך (פורמט: YYYY-MM-DD) / Filter from date. Note: year filter is more reliable.'
+          description: 'סינון מתאריך, כולל (YYYY-MM-DD, DD-MM-YYYY, YYYY-MM, YYYY, תאריך עברי כמו ט"ו בשבט תשפ"ג או שנה עברית) / Filter decisions from this date, inclusive. Exact to the day; use with toDate for quarters (e.g., 2024-01-01 to 2024-03-31)'
         },
         toDate: {
           type: 'string',
-          description: 'סינון עד תאריך (פורמט: YYYY-MM-DD או DD-MM-YYYY) / Filter decisions until this date'
+          description: 'סינון עד תאריך, כולל (YYYY-MM-DD, DD-MM-YYYY, YYYY-MM, YYYY, תאריך או שנה עבריים) / Filter decisions until this date, inclusive'
         },
         limit: {
           type: 'number',
@@ -1061,6 +1051,10 @@ Use offset parameter to get next chunk:
 - Response includes: has_more, next_offset
 - Next call: offset=next_offset
 
+## עמודים / Pages
+Text is marked with the real PDF page ([עמוד N]) and responses include page_start/page_end,
+so quotes can be cited by exact page. Use page=N to start reading at a page.
+
 ## שימוש / Usage
 1. First get decision ID from search_decisions
 2. Call read_pdf with mode="summary" (default)
@@ -1085,6 +1079,10 @@ Use offset parameter to get next chunk:
           type: 'number',
           description: 'Characters per chunk for excerpt/full modes (default: 2000 for excerpt, 10000 for full)'
         },
+        page: {
+          type: 'number',
+          description: 'התחל לקרוא מעמוד / Start reading at this PDF page (implies mode="excerpt" unless mode is set)'
+        },
         maxPages: {
           type: 'number',
           description: 'מספר עמודים מקסימלי לחילוץ (0 = הכל) / Maximum pages to extract from PDF (0 = all)'
@@ -1145,7 +1143,9 @@ Use offset parameter to get next chunk:
 
 ## מידע מוחזר / Returned Information
 - count: Total number of unique committees
-- committees: Array of committee names (Hebrew strings)
+- committees: Array of { name, committeeId, variants, count }. Spelling variants of one
+  committee ("ועדה מקומית ת"א-יפו", "תל-אביב יפו") are listed under its canonical name;
+  committees not in the gazetteer have committeeId null
 
 ## דוגמאות ועדות נפוצות / Common Committee Examples
 | Hebrew | English |
@@ -1227,13 +1227,46 @@ Appeals committee and appeals board decisions may not have appraiser information
       }
     }
   },
+  {
+    name: 'get_appraiser_profile',
+    description: `פרופיל שמאי / How a specific appraiser (usually a decisive appraiser, שמאי מכריע) tends to rule.
+
+## מתי להשתמש / When to Use
+- "איך השמאי המכריע X נוהג להכריע?" / How does appraiser X usually rule?
+- "באילו ועדות עבד השמאי X?" / Which committees has X served?
+- "מה מקדמי הדחייה שהשמאי X קובע?" / What deferral coefficients does X set?
+
+## זיהוי השמאי / Identifying the Appraiser
+The same appraiser appears in decisions under several spellings ("עו"ד יוסי כהן", "כהן יוסי",
+"י' כהן"). They are clustered into one appraiser with one id. Pass a full name, any spelling,
+a last name or the id. When the name fits several appraisers, the candidates are returned -
+call again with the chosen id.
+
+## מידע מוחזר / Returned Information
+- appraiser: id, canonical name, spellings (aliases) and decision count
+- byYear, databases, committees (canonical committees), caseTypes, dateRange
+- coefficients: per coefficient subtype (גודל, דחייה...) - count, min, p25, median, p75, max, mean
+- outcomes: התקבל / התקבל חלקית / נדחה counts
+- decisionsWithParameters: decisions the coefficient and outcome distributions are based on
+  (parameters are extracted from PDF text; see extract_parameters)`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        appraiser: {
+          type: 'string',
+          description: 'שם השמאי (כל כתיב) או מזהה / Appraiser name (any spelling, or last name) or id'
+        }
+      },
+      required: ['appraiser']
+    }
+  },
   // compare_decisions - REMOVED (rarely used, can be done via query_and_aggregate)
   {
     name: 'semantic_search',
     description: `🔍 BEST FOR NATURAL LANGUAGE - חיפוש סמנטי עם AI embeddings / Semantic search powered by real vector embeddings (31K+ documents).
 
 ## ⭐ USE THIS TOOL FIRST when the user asks a conceptual or natural language question in Hebrew.
-This tool uses OpenAI vector embeddings over 31,000+ documents for TRUE semantic understanding.
+This tool uses a local multilingual embedding model over passages of 31,000+ documents for TRUE semantic understanding (runs offline, no API calls).
 It finds relevant decisions even when exact keywords don't appear in the text.
 
 ## מתי להשתמש / When to Use THIS Tool
@@ -1261,8 +1294,8 @@ It finds relevant decisions even when exact keywords don't appear in the text.
 - מהיר: ~300ms לחיפוש ב-31K מסמכים / Fast: ~300ms for 31K documents
 
 ## פלט / Output
-Results include relevanceScore (0-1) indicating semantic similarity to query.
-Response includes source field: 'vector-embeddings' (real AI) or 'keyword-fallback'.`,
+Results include relevanceScore (0-1) indicating semantic similarity to query, and matchedPage - the PDF page of the best-matching passage.
+Response includes source field: 'local-vectors' / 'pinecone-vectors' (real AI) or 'keyword-fallback'.`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -1284,6 +1317,69 @@ Response includes source field: 'vector-embeddings' (real AI) or 'keyword-fallba
       required: ['query']
     }
   },
+  {
+    name: 'hybrid_search',
+    description: `🔀 חיפוש היברידי / Hybrid search: keyword + semantic + structured parameters in one ranked list.
+
+## מתי להשתמש / When to Use
+Questions that mix a topic with exact details - a city, a year, a block or a parameter type:
+| Question | Why hybrid |
+|----------|-----------|
+| "מקדם דחייה בנתניה 2024" | Topic (semantic) + coefficient type (parameters) + city and year (boosts) |
+| "שווי קרקע ברעננה תשפ"ד" | Land values (parameters) + city + Hebrew year |
+| "פיצויים על הפקעה גוש 6638" | Topic (semantic + keywords) + exact block |
+
+## איך זה עובד / How It Works
+1. Runs in parallel: lexical (full-text), semantic (vector store) and structured (extracted parameters, block/plot).
+2. Fuses the rankings with reciprocal rank fusion (RRF).
+3. Boosts decisions of the committee, year and block named in the question (recent decisions when no year is named).
+City, year, block/plot and parameter type are read from the question; pass them explicitly to override.
+
+## פלט / Output
+Each result has hybridScore, matchedBy (retriever, rank and the matched page or parameter value) and boosts.
+The response lists what was read from the question (parsed) and each retriever's status.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'שאלה בשפה חופשית / Free-text question (Hebrew recommended)'
+        },
+        limit: {
+          type: 'number',
+          description: 'מספר תוצאות מקסימלי (ברירת מחדל: 20) / Maximum number of results',
+          default: 20
+        },
+        database: {
+          type: 'string',
+          enum: ['decisive_appraiser', 'appeals_committee', 'appeals_board'],
+          description: 'סינון לפי מאגר (אופציונלי) / Filter by database (optional)'
+        },
+        committee: {
+          type: 'string',
+          description: 'ועדה/עיר לחיזוק (ברירת מחדל: מזוהה מהשאלה) / Committee or city to boost (default: read from the question)'
+        },
+        year: {
+          type: 'string',
+          description: 'שנה לחיזוק, לועזית או עברית (ברירת מחדל: מזוהה מהשאלה) / Year to boost, Gregorian or Hebrew (default: read from the question)'
+        },
+        block: {
+          type: 'string',
+          description: 'גוש (ברירת מחדל: מזוהה מהשאלה) / Block number (default: read from the question)'
+        },
+        plot: {
+          type: 'string',
+          description: 'חלקה / Plot number'
+        },
+        retrievers: {
+          type: 'array',
+          items: { type: 'string', enum: ['lexical', 'semantic', 'structured'] },
+          description: 'אילו מנועים להפעיל (ברירת מחדל: כולם) / Retrievers to run (default: all)'
+        }
+      },
+      required: ['query']
+    }
+  },
   {
     name: 'trigger_update',
     description: `הפעלת עדכון לשליפת החלטות חדשות מ-gov.il / Trigger an incremental update to fetch new decisions from gov.il.
@@ -1295,9 +1391,13 @@ Response includes source field: 'vector-embeddings' (real AI) or 'keyword-fallba
 - NOT for routine use - updates run automatically via cron
 
 ## דרישות / Requirements
-- SCRAPER_API_KEY environment variable must be set
+- SCRAPER_API_KEY environment variable must be set (not needed with INDEX_SOURCE=api)
 - Internet access to gov.il
 
+## מקור / Source
+INDEX_SOURCE selects where listings come from: html (rendered page via ScraperAPI, default),
+api (gov.il JSON search endpoint directly) or auto (JSON endpoint, falling back to HTML)
+
 ## איך זה עובד / How It Works
 1. Checks first N pages of each database (most recent decisions)
 2. Compares content hash to detect new decisions
@@ -1363,6 +1463,7 @@ This tool is for manual/on-demand updates only.
 | Database | Populated | Has decisions indexed |
 | Database | FTS5 | Full-text search working |
 | API Key | Configured | SCRAPER_API_KEY set for updates |
+| Fetch | Backends | Per-backend requests, retries, 429s, latency and circuit state (FETCH_BACKENDS) |
 | Embeddings | Available | ChromaDB/semantic search ready |
 
 ## פלט / Output Format
@@ -1371,6 +1472,7 @@ This tool is for manual/on-demand updates only.
   "status": {
     "database": { "connected": true, "decisionCount": 10500, "fts5Working": true },
     "scraperApi": { "configured": true },
+    "fetch": [{ "backend": "scraperapi", "circuit": "closed", "requests": 120, "retries": 3, "rateLimited": 1, "avgLatencyMs": 8200 }],
     "embeddings": { "available": true },
     "server": { "version": "2.0.0", "uptime": "5m" }
   },
@@ -1475,8 +1577,8 @@ Returns structured JSON with:
 {
   "committees": ["תל אביב", "ירושלים"],
   "comparison": [
-    {"committee": "תל אביב", "total": 1250, "by_year": {"2024": 150, "2023": 200}, "by_case_type": {"היטל השבחה": 800}},
-    {"committee": "ירושלים", "total": 980, "by_year": {"2024": 120, "2023": 180}, "by_case_type": {"היטל השבחה": 600}}
+    {"committee": "תל אביב-יפו", "committeeId": "tel-aviv-yafo", "total": 1250, "by_year": {"2024": 150, "2023": 200}, "by_case_type": {"היטל השבחה": 800}},
+    {"committee": "ירושלים", "committeeId": "jerusalem", "total": 980, "by_year": {"2024": 120, "2023": 180}, "by_case_type": {"היטל השבחה": 600}}
   ],
   "summary": "תל אביב has 27% more decisions than ירושלים"
 }`,
@@ -1486,7 +1588,7 @@ Returns structured JSON with:
         committees: {
           type: 'array',
           items: { type: 'string' },
-          description: 'רשימת ועדות להשוואה (2-5 מומלץ) / List of committees to compare (2-5 recommended). Example: ["תל אביב", "ירושלים"]'
+          description: 'רשימת ועדות להשוואה (2-5 מומלץ) / List of committees to compare (2-5 recommended). Names, aliases (ת"א, ב"ש) and localities resolve to the canonical committee. Example: ["תל אביב", "ירושלים"]'
         },
         database: {
           type: 'string',
@@ -1627,7 +1729,11 @@ Then: Call get_decision_summaries for top 5-10 IDs`,
         },
         plot: {
           type: 'string',
-          description: 'סינון לפי מספר חלקה / Filter by plot number'
+          description: 'סינון לפי מספר חלקה (כל חלקה בהחלטה, כולל טווחים) / Filter by plot number (any parcel, including ranges)'
+        },
+        lot: {
+          type: 'string',
+          description: 'סינון לפי מספר מגרש / Filter by plan lot (מגרש) number'
         },
         appraiser: {
           type: 'string',
@@ -1830,10 +1936,11 @@ Faster and more accurate than runtime regex in query_and_aggregate.
 | price_per_meter | מחיר למ"ר | Price per sqm (subtype: אקוויולנטי, נטו, ברוטו) |
 | land_value | שווי קרקע | Land value per dunam |
 | building_rights_value | שווי זכויות בנייה | Building rights value |
-| comparison_transaction | עסקת השוואה | Comparison transactions |
+| comparison_transaction | עסקת השוואה | Comparison transactions (LLM extraction; full tables: search_comparison_transactions) |
 | tradability_fee | דמי סחירות | Tradability fee per sqm |
 | sovereignty_rate | שיעור ריבון | Sovereignty rate (%) |
 | building_plan | תוכנית בנייה | Building plan names |
+| outcome | תוצאה | Outcome of an appeal or objection: התקבל, התקבל חלקית, נדחה |
 
 ## דוגמאות / Examples
 | Query | Parameters |
@@ -1846,7 +1953,7 @@ Faster and more accurate than runtime regex in query_and_aggregate.
       properties: {
         param_type: {
           type: 'string',
-          enum: ['city', 'neighborhood', 'area_zone', 'land_use', 'coefficient', 'price_per_meter', 'land_value', 'building_rights_value', 'comparison_transaction', 'tradability_fee', 'sovereignty_rate', 'building_plan'],
+          enum: ['city', 'neighborhood', 'area_zone', 'land_use', 'coefficient', 'price_per_meter', 'land_value', 'building_rights_value', 'comparison_transaction', 'tradability_fee', 'sovereignty_rate', 'building_plan', 'outcome'],
           description: 'סוג הפרמטר לחיפוש / Parameter type to search by'
         },
         param_subtype: {
@@ -1945,45 +2052,363 @@ Returns all parameters grouped by type with confidence scores and context snippe
         }
       }
     }
+  },
+  {
+    name: 'search_comparison_transactions',
+    description: `חיפוש עסקאות השוואה / Search comparison transactions cited in decisions.
+
+## מתי להשתמש / When to Use
+- "עסקאות השוואה בחולון ב-2023" - market data for a valuation
+- "עסקאות מעל 20,000 ₪ למ"ר בתל אביב"
+- "אילו עסקאות צוטטו בגוש 6628?"
+
+Transactions are read from the comparison tables of decision PDFs (address, gush/helka,
+date, area, price, price per m²). The same deal cited by several decisions appears once,
+with all citing decision IDs (cited_by).
+
+## פלט / Output
+CSV: city, address, gush, helka, date, area, price, price per m², cited_by`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        city: {
+          type: 'string',
+          description: 'עיר (מתאים גם לכתובת) / City (also matched against the address)'
+        },
+        block: {
+          type: 'string',
+          description: 'גוש / Block (gush) number'
+        },
+        from_date: {
+          type: 'string',
+          description: 'תאריך עסקה מ- (YYYY-MM-DD, YYYY-MM, YYYY או תאריך עברי) / Transaction date from (inclusive)'
+        },
+        to_date: {
+          type: 'string',
+          description: 'תאריך עסקה עד / Transaction date to (inclusive), same formats'
+        },
+        price_min: {
+          type: 'number',
+          description: 'מחיר מינימלי (₪) / Minimum price (₪)'
+        },
+        price_max: {
+          type: 'number',
+          description: 'מחיר מקסימלי (₪) / Maximum price (₪)'
+        },
+        price_per_sqm_min: {
+          type: 'number',
+          description: 'מחיר מינימלי למ"ר / Minimum price per m²'
+        },
+        price_per_sqm_max: {
+          type: 'number',
+          description: 'מחיר מקסימלי למ"ר / Maximum price per m²'
+        },
+        limit: {
+          type: 'number',
+          description: 'מקסימום תוצאות (ברירת מחדל: 50) / Max results (default: 50)',
+          default: 50
+        }
+      }
+    }
+  },
+  {
+    name: 'search_near_block',
+    description: `החלטות בקרבת גוש / Decisions within N km of a gush (block).
+
+## מתי להשתמש / When to Use
+- "הכרעות בטווח 2 ק"מ מגוש 6638" - comparable rulings near a property
+- "מה נפסק בסביבת גוש 30000?"
+
+Each decision's block is located by the centroid of its gush in the gush boundary layer
+(loaded offline with npm run load-gush-layer). Distances are between block centroids.
+For blocks that share a boundary with the gush, use search_neighboring_blocks.
+
+## פלט / Output
+center (gush, locality, centroid, neighbors) and decisions nearest first, each with
+locality and distanceKm`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        block: {
+          type: 'string',
+          description: 'גוש / Block (gush) number'
+        },
+        radius_km: {
+          type: 'number',
+          description: 'רדיוס בק"מ (ברירת מחדל: 2) / Radius in km (default: 2)',
+          default: 2
+        },
+        database: {
+          type: 'string',
+          enum: ['decisive_appraiser', 'appeals_committee', 'appeals_board'],
+          description: 'סינון לפי מאגר / Filter by database'
+        },
+        limit: {
+          type: 'number',
+          description: 'מקסימום תוצאות (ברירת מחדל: 50) / Max results (default: 50)',
+          default: 50
+        }
+      },
+      required: ['block']
+    }
+  },
+  {
+    name: 'search_neighboring_blocks',
+    description: `החלטות בגושים גובלים / All decisions in the blocks bordering a gush.
+
+## מתי להשתמש / When to Use
+- "הכרעות בגושים הסמוכים לגוש 6638"
+- "החלטות בגוש 6638 ובגושים שגובלים בו"
+
+Neighboring blocks are those sharing a boundary with the gush in the gush boundary layer.
+The gush itself is included unless include_block is false.
+
+## פלט / Output
+center (gush, locality, centroid, neighbors) and decisions nearest first, each with
+locality and distanceKm`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        block: {
+          type: 'string',
+          description: 'גוש / Block (gush) number'
+        },
+        include_block: {
+          type: 'boolean',
+          description: 'לכלול את הגוש עצמו (ברירת מחדל: כן) / Include the gush itself (default: true)',
+          default: true
+        },
+        database: {
+          type: 'string',
+          enum: ['decisive_appraiser', 'appeals_committee', 'appeals_board'],
+          description: 'סינון לפי מאגר / Filter by database'
+        },
+        limit: {
+          type: 'number',
+          description: 'מקסימום תוצאות (ברירת מחדל: 50) / Max results (default: 50)',
+          default: 50
+        }
+      },
+      required: ['block']
+    }
+  },
+  {
+    name: 'search_passages',
+    description: `חיפוש פסקאות / Search passages: the matching paragraphs of decisions, not whole documents.
+
+## מתי להשתמש / When to Use
+- "מה נקבע לגבי גובה פנים דירה" - the paragraph that discusses it, with its page
+- "טענות שמאי המבקש לגבי מקדם דחייה" - section_type="partyA"
+- "הכרעות בנושא שטחי שירות בתל אביב" - section_type="ruling", committee="תל אביב"
+
+Decisions are split into passages that follow the document's sections (טענות שמאי המבקש,
+טענות שמאי הוועדה, הכרעה, עסקאות השוואה, תחשיב השבחה). Each hit is one passage with its
+section and exact pages (use read_pdf with those pages for more context).
+
+## פלט / Output
+Per passage: decision metadata, section, pageStart/pageEnd, the passage text and a snippet
+with the matched words in [brackets].`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'מילות חיפוש / Search terms (all must appear in the passage)'
+        },
+        section_type: {
+          type: 'string',
+          enum: ['preamble', 'partyA', 'partyB', 'partiesClaims', 'ruling', 'comparisons', 'calculation'],
+          description: 'סוג סעיף: partyA=טענות המבקש, partyB=טענות הוועדה, partiesClaims=טענות הצדדים, ruling=הכרעה, comparisons=עסקאות השוואה, calculation=תחשיב, preamble=פתיח / Section type'
+        },
+        database: {
+          type: 'string',
+          enum: ['decisive_appraiser', 'appeals_committee', 'appeals_board'],
+          description: 'סינון לפי מאגר / Filter by database'
+        },
+        committee: {
+          type: 'string',
+          description: 'סינון לפי ועדה / Filter by committee'
+        },
+        year: {
+          type: 'string',
+          description: 'סינון לפי שנה (לועזית או עברית) / Filter by year (Gregorian or Hebrew)'
+        },
+        per_decision: {
+          type: 'number',
+          description: 'מקסימום פסקאות מכל החלטה (ברירת מחדל: 1) / Max passages per decision (default: 1)',
+          default: 1
+        },
+        limit: {
+          type: 'number',
+          description: 'מקסימום תוצאות (ברירת מחדל: 20) / Max results (default: 20)',
+          default: 20
+        }
+      },
+      required: ['query']
+    }
   }
 ];
 
+/**
+ * A passage as returned by the search tools: section, exact pages and text
+ */
+function formatPassage(passage: DecisionPassage): Record<string, unknown> {
+  return {
+    section: passage.sectionType,
+    sectionTitle: passage.sectionTitle,
+    pageStart: passage.pageStart,
+    pageEnd: passage.pageEnd,
+    text: passage.text
+  };
+}
+
+/**
+ * What the reranker reads for a decision: its title line and the matched
+ * passage, or the start of its text
+ */
+function rerankCandidate(decision: Decision, passage?: DecisionPassage | null): RerankCandidate {
+  return {
+    id: decision.id,
+    title: [decision.title, decision.caseType, decision.committee].filter(Boolean).join(' | '),
+    text: passage?.text ?? decision.pdfText?.substring(0, 1000) ?? ''
+  };
+}
+
+/**
+ * Results to fetch for a search showing `limit`: enough for the reranker's
+ * top N when re-ranking is on (RERANKER)
+ */
+function rerankFetchLimit(limit: number): number {
+  const reranker = getReranker();
+  return reranker ? Math.max(limit, reranker.candidateCount) : limit;
+}
+
+/**
+ * Re-rank search results with the configured reranker and keep the first
+ * `limit`. Without a reranker the results are only truncated.
+ */
+async function rerankResults<T>(
+  query: string,
+  items: T[],
+  limit: number,
+  toCandidate: (item: T) => RerankCandidate
+): Promise<{ items: T[]; scores: Array<number | null>; info: RerankInfo | null }> {
+  const reranker = getReranker();
+  if (!reranker || items.length === 0) {
+    return { items: items.slice(0, limit), scores: items.slice(0, limit).map(() => null), info: null };
+  }
+
+  const reranked = await reranker.rerank(query, items, toCandidate);
+  return { items: reranked.items.slice(0, limit), scores: reranked.scores.slice(0, limit), info: reranked.info };
+}
+
+/**
+ * Read a search's free-text query into filters (query-understanding.ts) and
+ * fill the ones the caller did not set; explicit arguments win. The query
+ * keeps only its topic, or is dropped when it was nothing but filters.
+ */
+function interpretQuery<T extends SearchParams>(params: T): { params: T; parsed: ParsedQuery | null } {
+  if (!params.query?.trim()) return { params, parsed: null };
+
+  const parsed = parseQuery(params.query, { committees: db?.getCommitteeNames() });
+  const explicit = Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined && value !== ''));
+  const merged = { ...toSearchParams(parsed), ...explicit, query: parsed.text || undefined } as T;
+  // Date bounds go together: an explicit one replaces both parsed bounds
+  if (params.fromDate || params.toDate) {
+    merged.fromDate = params.fromDate;
+    merged.toDate = params.toDate;
+  }
+  return { params: merged, parsed };
+}
+
+/**
+ * The same for tools that match PDF text (content_search): the committee, year
+ * and database named in it become filters instead of words to find
+ */
+function interpretContentSearch<T extends { content_search: string; committee?: string; year?: string; database?: DatabaseType }>(params: T): T {
+  const parsed = parseQuery(params.content_search, { committees: db?.getCommitteeNames() });
+  return {
+    ...params,
+    content_search: parsed.text.length >= 2 ? parsed.text : params.content_search,
+    committee: params.committee ?? applied(parsed.committee),
+    year: params.year ?? applied(parsed.year),
+    database: params.database ?? applied(parsed.database)
+  };
+}
+
 // Tool handlers
 async function handleSearchDecisions(params: SearchParams): Promise<MCPToolResult> {
   // Check database availability
   const dbError = checkDatabaseAvailable();
   if (dbError) return dbError;
 
+  // Reject date bounds that cannot be normalized instead of silently ignoring them
+  for (const [field, value, bound] of [
+    ['fromDate', params.fromDate, 'start'],
+    ['toDate', params.toDate, 'end']
+  ] as const) {
+    if (value && !toIsoDateBound(value, bound)) {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: `Invalid ${field}: ${value}`,
+            errorHe: `תאריך לא תקין ב-${field}: ${value}`,
+            suggestion: 'Use YYYY-MM-DD, DD-MM-YYYY, YYYY-MM, YYYY or a Hebrew date/year such as ט"ו בשבט תשפ"ג or תשפ"ד.',
+            suggestionHe: 'השתמש בפורמט YYYY-MM-DD, DD-MM-YYYY, YYYY-MM, YYYY או בתאריך/שנה עבריים כמו ט"ו בשבט תשפ"ג או תשפ"ד.'
+          })
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // Filters named in the query ("היטל השבחה בנתניה 2024") apply unless given explicitly
+  const { params: interpreted, parsed } = interpretQuery(params);
+
   // CHANGED: Max limit reduced from 500 to MAX_SEARCH_RESULTS (50) to prevent overflow
   const searchParams: SearchParams = {
-    query: params.query,
-    database: params.database,
-    committee: params.committee,
-    block: params.block,
-    plot: params.plot,
-    appraiser: params.appraiser,
-    caseType: params.caseType,
-    fromDate: params.fromDate,
-    toDate: params.toDate,
-    year: params.year,
+    query: interpreted.query,
+    database: interpreted.database,
+    committee: interpreted.committee,
+    block: interpreted.block,
+    plot: interpreted.plot,
+    blockRange: interpreted.blockRange,
+    plotRange: interpreted.plotRange,
+    lot: interpreted.lot,
+    appraiser: interpreted.appraiser,
+    caseType: interpreted.caseType,
+    fromDate: interpreted.fromDate,
+    toDate: interpreted.toDate,
+    year: interpreted.year,
     limit: Math.min(params.limit || 50, MAX_SEARCH_RESULTS),
     offset: params.offset || 0,
     semanticSearch: params.semanticSearch
   };
 
-  // Use semantic search if requested and available
-  if (searchParams.semanticSearch && searchParams.query && embeddings) {
-    const semanticResults = await embeddings.search(
-      searchParams.query,
-      Math.min(searchParams.limit || 20, MAX_SEARCH_RESULTS),
-      searchParams.database ? { database: searchParams.database } : undefined
+  // Use semantic search if requested and available. The whole question is
+  // embedded; only the database and committee filter the vectors.
+  if (searchParams.semanticSearch && params.query && embeddings) {
+    const limit = Math.min(searchParams.limit || 20, MAX_SEARCH_RESULTS);
+    const filter = {
+      ...(searchParams.database && { database: searchParams.database }),
+      ...(searchParams.committee && { committee: searchParams.committee })
+    };
+    const reranked = await rerankResults(
+      params.query,
+      await embeddings.search(params.query, rerankFetchLimit(limit), Object.keys(filter).length > 0 ? filter : undefined),
+      limit,
+      r => rerankCandidate(r.decision, r.passage)
     );
+    const semanticResults = reranked.items;
 
     return safeOutput({
       searchType: 'semantic',
-      query: searchParams.query,
+      query: params.query,
+      ...(parsed && { interpretedQuery: describeParsedQuery(parsed) }),
       totalCount: semanticResults.length,
-      decisions: semanticResults.map(r => ({
+      ...(reranked.info && { rerank: reranked.info }),
+      decisions: semanticResults.map((r, i) => ({
         ...r.decision,
         // Truncate pdfText in semantic results too
         pdfText: r.decision.pdfText
@@ -1992,6 +2417,7 @@ async function handleSearchDecisions(params: SearchParams): Promise<MCPToolResul
               : r.decision.pdfText)
           : null,
         relevanceScore: r.score,
+        rerankScore: reranked.scores[i] ?? undefined,
         // Add extraction status info
         _status_icon: getExtractionIcon(r.decision.extractionStatus),
         _extraction_note: getExtractionNote(r.decision.extractionStatus),
@@ -2000,13 +2426,56 @@ async function handleSearchDecisions(params: SearchParams): Promise<MCPToolResul
     }, { suffix: DATA_COLLECTOR_INSTRUCTIONS });
   }
 
-  // Regular search
-  const result = db!.search(searchParams);
+  // Regular search. A text query re-ranks one fixed window, the reranker's top
+  // candidates, and every page inside it is cut from the same re-ranked order;
+  // pages past the window continue in the retriever's order, so paging neither
+  // repeats nor skips decisions.
+  const limit = searchParams.limit!;
+  const offset = searchParams.offset || 0;
+  const rerankWindow = searchParams.query ? getReranker()?.candidateCount ?? 0 : 0;
+  const inWindow = offset < rerankWindow;
+  const result = db!.search(inWindow ? { ...searchParams, offset: 0, limit: rerankWindow } : searchParams);
+
+  // The passage that best matches the query, instead of the start of the PDF
+  const findBestPassages = (ids: string[]) => new Map(
+    (searchParams.query && result.rankedByRelevance && ids.length > 0
+      ? db!.searchPassages({
+          query: searchParams.query,
+          decisionIds: ids,
+          perDecision: 1,
+          limit: ids.length
+        })
+      : []
+    ).map(p => [p.decisionId, p])
+  );
+  const windowPassages = findBestPassages(inWindow ? result.decisions.map(d => d.id) : []);
+
+  // Re-rank when the results are ordered by relevance (not by date)
+  const reranked = inWindow && result.rankedByRelevance
+    ? await rerankResults(searchParams.query!, result.decisions, rerankWindow, d => rerankCandidate(d, windowPassages.get(d.id)))
+    : null;
+  let decisions = inWindow
+    ? (reranked?.items ?? result.decisions).slice(offset, offset + limit)
+    : result.decisions.slice(0, limit);
+  const rerankScores = reranked?.scores.slice(offset, offset + limit) ?? [];
+  if (inWindow && decisions.length < limit && result.totalCount > rerankWindow) {
+    // A page that runs past the window is filled from right after it
+    decisions = decisions.concat(
+      db!.search({ ...searchParams, offset: rerankWindow, limit: limit - decisions.length }).decisions
+    );
+  }
+  const bestPassages = new Map([
+    ...windowPassages,
+    ...findBestPassages(decisions.filter(d => !inWindow || !result.decisions.includes(d)).map(d => d.id))
+  ]);
+  const hasMore = offset + decisions.length < result.totalCount;
 
   // CHANGED: Truncate to MAX_PDFTEXT_IN_SEARCH (300) chars to prevent overflow
   // Also add extraction status info for user awareness
-  const decisionsWithTruncatedText = result.decisions.map(d => ({
+  const decisionsWithTruncatedText = decisions.map((d, i) => ({
     ...d,
+    rerankScore: rerankScores[i] ?? undefined,
+    ...(bestPassages.has(d.id) && { bestPassage: formatPassage(bestPassages.get(d.id)!) }),
     pdfText: d.pdfText
       ? (d.pdfText.length > MAX_PDFTEXT_IN_SEARCH
           ? d.pdfText.substring(0, MAX_PDFTEXT_IN_SEARCH) + '... [use read_pdf for full]'
@@ -2022,13 +2491,18 @@ async function handleSearchDecisions(params: SearchParams): Promise<MCPToolResul
   return safeOutput({
     searchType: 'keyword',
     query: searchParams,
+    ...(parsed && { interpretedQuery: describeParsedQuery(parsed) }),
     totalCount: result.totalCount,
     showing: decisionsWithTruncatedText.length,
-    offset: searchParams.offset || 0,
-    hasMore: result.hasMore,
-    next_offset: result.hasMore ? (searchParams.offset || 0) + decisionsWithTruncatedText.length : null,
+    offset,
+    hasMore,
+    next_offset: hasMore ? offset + decisionsWithTruncatedText.length : null,
     note: `PDF text truncated to ${MAX_PDFTEXT_IN_SEARCH} chars. Use read_pdf tool for full text.`,
     tip: 'For aggregate analysis across many documents, use query_and_aggregate tool instead.',
+    ...(reranked?.info && { rerank: { ...reranked.info, window: rerankWindow } }),
+    ...(rerankWindow > 0 && result.rankedByRelevance && {
+      rerankNote: `The first ${rerankWindow} results are re-ranked together and paged in that order; results past them keep the keyword order`
+    }),
     decisions: decisionsWithTruncatedText
   }, { suffix: DATA_COLLECTOR_INSTRUCTIONS });
 }
@@ -2058,7 +2532,7 @@ async function handleGetDecision(params: { id: string }): Promise<MCPToolResult>
   return {
     content: [{
       type: 'text',
-      text: JSON.stringify(decision, null, 2)
+      text: JSON.stringify({ ...decision, parcels: db!.getDecisionParcels(decision.id) }, null, 2)
     }]
   };
 }
@@ -2120,36 +2594,70 @@ async function handleReadPdf(params: {
   mode?: 'summary' | 'excerpt' | 'full';  // NEW: Controls output size
   offset?: number;      // NEW: For pagination in 'full' mode
   chunk_size?: number;  // NEW: Chars per chunk (default 10000)
+  page?: number;        // Start at this page (overrides offset when page boundaries are known)
 }): Promise<MCPToolResult> {
   // Mode determines output size:
   // - 'summary' (default): Key values + 500 char excerpt - ALWAYS fits in context
   // - 'excerpt': 2000 chars with pagination info
   // - 'full': Full text in paginated chunks
 
-  const mode = params.mode || 'summary';
+  const mode = params.mode || (params.page ? 'excerpt' : 'summary');
   const chunkSize = params.chunk_size || 10000;
-  const offset = params.offset || 0;
 
   // Helper to format response based on mode
   const READ_PDF_STOP = `\n\n_instructions: ⛔ קראת PDF. עצור כאן. הצג את מה שמצאת בטבלה. אסור לקרוא read_pdf שוב או לחפש שוב. המשתמש יבקש מסמך נוסף אם הוא רוצה.`;
 
+  // Page range of a slice of the text, and the slice with a [עמוד N] marker at
+  // each page start; text cached without page boundaries is returned as is
+  function paginate(pdfText: string, start: number, end: number): { text: string; page_start?: number; page_end?: number } {
+    const slice = pdfText.substring(start, end);
+    const pageStart = pageAtOffset(pdfText, start);
+    if (pageStart === null) return { text: slice };
+
+    // Each page ends with a form feed; the last part is the page that follows
+    const parts = slice.split(PAGE_BREAK);
+    if (parts.length > 1 && parts[parts.length - 1] === '') parts.pop();
+    const text = parts.map((part, i) => i === 0 ? part : `\n\n[עמוד ${pageStart + i}]\n${part}`).join('');
+    return {
+      text: start === 0 ? `[עמוד 1]\n${text}` : text,
+      page_start: pageStart,
+      page_end: pageStart + parts.length - 1
+    };
+  }
+
+  // Text recognized by OCR may misread characters - flag it so quotes get checked
+  function ocrMetadata(pages: PdfPage[]): object {
+    const confidences = pages.flatMap(page => page.ocrConfidence !== undefined ? [page.ocrConfidence] : []);
+    if (confidences.length === 0) return {};
+    return {
+      extraction_method: 'ocr',
+      ocr_confidence: Math.round(confidences.reduce((sum, c) => sum + c, 0) / confidences.length),
+      ocr_note: 'Text was recognized by OCR from a scanned document and may contain errors - verify quotes against the PDF',
+      ocr_noteHe: 'הטקסט חולץ בזיהוי תווים (OCR) ממסמך סרוק וייתכנו שגיאות - יש לאמת ציטוטים מול ה-PDF'
+    };
+  }
+
   function formatPdfResponse(
     pdfText: string,
     metadata: { id: string; title: string; database?: string; source: string; cached?: boolean }
   ): MCPToolResult {
     const totalChars = pdfText.length;
+    const totalPages = countPages(pdfText) ?? undefined;
+    const pageOffset = params.page ? pageStartOffset(pdfText, params.page) : null;
+    const offset = pageOffset ?? params.offset ?? 0;
 
     if (mode === 'summary') {
       // Extract key values and short context - guaranteed to fit
       const keyValues = extractKeyValuesFromText(pdfText);
-      const excerpt = pdfText.substring(0, MAX_EXCERPT_CHARS);
+      const excerpt = paginate(pdfText, 0, MAX_EXCERPT_CHARS);
 
       return safeOutput({
         ...metadata,
         mode: 'summary',
         key_values: keyValues,
-        excerpt: excerpt + (totalChars > MAX_EXCERPT_CHARS ? '...' : ''),
+        excerpt: excerpt.text + (totalChars > MAX_EXCERPT_CHARS ? '...' : ''),
         total_chars: totalChars,
+        total_pages: totalPages,
         has_extracted_values: Object.keys(keyValues).length > 0,
         next_step: totalChars > MAX_EXCERPT_CHARS
           ? 'Use mode="excerpt" for more text or mode="full" for complete document'
@@ -2160,28 +2668,35 @@ async function handleReadPdf(params: {
     if (mode === 'excerpt') {
       // Return 2000 chars with pagination
       const excerptChars = params.chunk_size || MAX_PDFTEXT_CHARS;
-      const text = pdfText.substring(offset, offset + excerptChars);
+      const { text, page_start, page_end } = paginate(pdfText, offset, offset + excerptChars);
+      const showingChars = Math.min(excerptChars, Math.max(0, totalChars - offset));
 
       return safeOutput({
         ...metadata,
         mode: 'excerpt',
         text: text,
         offset: offset,
-        showing_chars: text.length,
+        page_start,
+        page_end,
+        total_pages: totalPages,
+        showing_chars: showingChars,
         total_chars: totalChars,
         has_more: offset + excerptChars < totalChars,
         next_offset: offset + excerptChars < totalChars ? offset + excerptChars : null,
-        progress: `${Math.min(offset + text.length, totalChars)}/${totalChars} chars`
+        progress: `${Math.min(offset + showingChars, totalChars)}/${totalChars} chars`
       }, { suffix: READ_PDF_STOP });
     }
 
     // mode === 'full' - Paginated full text
-    const chunk = pdfText.substring(offset, offset + chunkSize);
+    const { text: chunk, page_start, page_end } = paginate(pdfText, offset, offset + chunkSize);
     return safeOutput({
       ...metadata,
       mode: 'full',
       text: chunk,
       offset: offset,
+      page_start,
+      page_end,
+      total_pages: totalPages,
       chunk_size: chunkSize,
       total_chars: totalChars,
       has_more: offset + chunkSize < totalChars,
@@ -2213,7 +2728,8 @@ async function handleReadPdf(params: {
           title: sqliteDecision.title,
           database: sqliteDecision.database,
           source: 'sqlite',
-          cached: true
+          cached: true,
+          ...ocrMetadata(db.getPdfPages(sqliteDecision.id))
         });
       }
     }
@@ -2290,7 +2806,8 @@ async function handleReadPdf(params: {
     const pdfExtractor = createPdfExtractor(SCRAPER_API_KEY, {
       maxPages: params.maxPages || 0,
       database: db || undefined,
-      pdfCache: getPdfCache()  // Add file cache for offline access
+      pdfCache: getPdfCache(),  // Add file cache for offline access
+      ocr: PDF_OCR_ENABLED
     });
 
     // Determine database type for file cache organization
@@ -2309,7 +2826,8 @@ async function handleReadPdf(params: {
         title: decision.title,
         database: decision.database,
         source, // 'sqlite' or 'pinecone' - indicates where decision was found
-        cached: result.cached
+        cached: result.cached,
+        ...ocrMetadata(result.pages)
       });
     } else {
       // Scanned document - convert to images for Claude's vision capabilities
@@ -2471,8 +2989,9 @@ async function handleListCommittees(params: { limit?: number }): Promise<MCPTool
   const dbError = checkDatabaseAvailable();
   if (dbError) return dbError;
 
-  // US-005: Returns committees with decision counts, sorted alphabetically
-  const committees = db!.getDistinctValuesWithCounts('committee', params.limit || 100);
+  // US-005: Returns committees with decision counts, sorted alphabetically.
+  // Spelling variants of a gazetteer committee are listed under its canonical name.
+  const committees = db!.getCommitteesWithCounts(params.limit || 100);
 
   return {
     content: [{
@@ -2503,6 +3022,57 @@ async function handleListAppraisers(params: { limit?: number }): Promise<MCPTool
   };
 }
 
+async function handleGetAppraiserProfile(params: { appraiser: string }): Promise<MCPToolResult> {
+  const dbError = checkDatabaseAvailable();
+  if (dbError) return dbError;
+
+  const candidates = db!.findAppraisers(params.appraiser);
+
+  if (candidates.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          error: 'Appraiser not found',
+          appraiser: params.appraiser,
+          suggestion: 'Use list_appraisers to see appraiser names, or search by last name only.',
+          suggestionHe: 'השתמש בכלי list_appraisers כדי לראות את שמות השמאים, או חפש לפי שם משפחה בלבד.'
+        })
+      }],
+      isError: true
+    };
+  }
+
+  // A last name shared by several appraisers: let the caller choose
+  if (candidates.length > 1) {
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          ambiguous: true,
+          appraiser: params.appraiser,
+          candidates: candidates.map(c => ({ id: c.id, name: c.name, decisionCount: c.decisionCount, aliases: c.aliases.map(a => a.name) })),
+          suggestion: 'Several appraisers match. Call again with the id of the intended appraiser.',
+          suggestionHe: 'נמצאו כמה שמאים מתאימים. קרא שוב עם המזהה של השמאי המבוקש.'
+        }, null, 2)
+      }]
+    };
+  }
+
+  const profile = db!.getAppraiserProfile(candidates[0].id);
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        ...profile,
+        _format: 'הצג בעברית, מימין לשמאל (RTL)',
+        note: 'התפלגויות המקדמים והתוצאות מבוססות על פרמטרים שחולצו מטקסט ההחלטות בלבד.'
+      }, null, 2)
+    }]
+  };
+}
+
 async function handleCompareDecisions(params: { ids: string[] }): Promise<MCPToolResult> {
   // Check database availability
   const dbError = checkDatabaseAvailable();
@@ -2554,27 +3124,89 @@ async function handleSemanticSearch(params: { query: string; limit?: number; dat
     };
   }
 
-  const stats = embeddings.getStats();
-  const results = await embeddings.search(
-    params.query,
-    params.limit || 30,
-    params.database ? { database: params.database } : undefined
-  );
+  // The database and committee named in the question filter the vectors
+  const parsed = parseQuery(params.query, { committees: db?.getCommitteeNames() });
+  const database = params.database ?? applied(parsed.database);
+  const committee = applied(parsed.committee);
+  const filter = {
+    ...(database && { database }),
+    ...(committee && { committee })
+  };
+
+  const limit = params.limit || 30;
+  const found = await embeddings.searchWithMode(params.query, rerankFetchLimit(limit), Object.keys(filter).length > 0 ? filter : undefined);
+  const reranked = await rerankResults(params.query, found.results, limit, r => rerankCandidate(r.decision, r.passage));
+  const results = reranked.items;
+  const stats = await embeddings.getStats();
 
   return {
     content: [{
       type: 'text',
       text: JSON.stringify({
         query: params.query,
+        interpretedQuery: describeParsedQuery(parsed),
         count: results.length,
-        source: stats.mode,
+        source: found.mode === 'vectors' ? `${stats.store}-vectors` : found.mode,
         vectorCount: stats.count,
-        results: results.map(r => {
-          const { pdfText, contentHash, indexedAt, extractionStatus, extractionError, extractionAttempts, ...meta } = r.decision;
+        ...(found.mode === 'keyword-fallback' && {
+          note: found.error
+            ? `Query embedding failed (${found.error}) - results are keyword matches`
+            : 'Vector store is empty - results are keyword matches. Run npm run embed to build it.',
+          noteHe: 'החיפוש הסמנטי אינו זמין - התוצאות מבוססות מילות מפתח'
+        }),
+        ...(reranked.info && { rerank: reranked.info }),
+        results: results.map((r, i) => {
+          const { pdfText, contentHash, indexedAt, extractionStatus, extractionError, extractionAttempts, ...meta } = r.decision as Decision & Record<string, unknown>;
           return {
             ...meta,
             relevanceScore: r.score,
-            pdfExcerpt: pdfText ? pdfText.substring(0, 1000) + (pdfText.length > 1000 ? '...' : '') : null
+            rerankScore: reranked.scores[i] ?? undefined,
+            matchedPage: r.page ?? undefined,
+            ...(r.passage
+              ? { matchedPassage: formatPassage(r.passage) }
+              : { pdfExcerpt: pdfText ? pdfText.substring(0, 1000) + (pdfText.length > 1000 ? '...' : '') : null })
+          };
+        })
+      }, null, 2) + DATA_COLLECTOR_INSTRUCTIONS
+    }]
+  };
+}
+
+async function handleHybridSearch(params: {
+  query: string;
+  limit?: number;
+  database?: DatabaseType;
+  committee?: string;
+  year?: string;
+  block?: string;
+  plot?: string;
+  retrievers?: RetrieverName[];
+}): Promise<MCPToolResult> {
+  const dbError = checkDatabaseAvailable();
+  if (dbError) return dbError;
+
+  const { query, ...options } = params;
+  const limit = options.limit || 20;
+  const response = await hybridSearch(db!, embeddings, query, { ...options, limit: rerankFetchLimit(limit) });
+  const reranked = await rerankResults(query, response.results, limit, r => rerankCandidate(r.decision));
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        query,
+        count: reranked.items.length,
+        parsed: response.parsed,
+        retrievers: response.retrievers,
+        ...(reranked.info && { rerank: reranked.info }),
+        results: reranked.items.map((r, i) => {
+          const { pdfText, contentHash, indexedAt, extractionStatus, extractionError, extractionAttempts, ...meta } = r.decision as Decision & Record<string, unknown>;
+          return {
+            ...meta,
+            hybridScore: r.score,
+            rerankScore: reranked.scores[i] ?? undefined,
+            matchedBy: r.matchedBy,
+            boosts: r.boosts
           };
         })
       }, null, 2) + DATA_COLLECTOR_INSTRUCTIONS
@@ -2583,13 +3215,13 @@ async function handleSemanticSearch(params: { query: string; limit?: number; dat
 }
 
 async function handleTriggerUpdate(params: { pagesToCheck?: number }): Promise<MCPToolResult> {
-  if (!SCRAPER_API_KEY) {
+  if (!SCRAPER_API_KEY && process.env.INDEX_SOURCE !== 'api') {
     return {
       content: [{
         type: 'text',
         text: JSON.stringify({
           error: 'SCRAPER_API_KEY environment variable not set',
-          suggestion: 'Set SCRAPER_API_KEY to enable live updates from gov.il'
+          suggestion: 'Set SCRAPER_API_KEY to enable live updates from gov.il, or INDEX_SOURCE=api to query the gov.il API directly'
         })
       }],
       isError: true
@@ -2727,15 +3359,21 @@ async function handleSearchDecisionsIndex(params: SearchParams): Promise<MCPTool
   const dbError = checkDatabaseAvailable();
   if (dbError) return dbError;
 
+  const { params: interpreted, parsed } = interpretQuery(params);
   const searchParams: SearchParams = {
-    query: params.query,
-    database: params.database,
-    committee: params.committee,
-    block: params.block,
-    plot: params.plot,
-    appraiser: params.appraiser,
-    caseType: params.caseType,
-    year: params.year,
+    query: interpreted.query,
+    database: interpreted.database,
+    committee: interpreted.committee,
+    block: interpreted.block,
+    plot: interpreted.plot,
+    blockRange: interpreted.blockRange,
+    plotRange: interpreted.plotRange,
+    lot: interpreted.lot,
+    appraiser: interpreted.appraiser,
+    caseType: interpreted.caseType,
+    year: interpreted.year,
+    fromDate: interpreted.fromDate,
+    toDate: interpreted.toDate,
     limit: Math.min(params.limit || 50, 100),
     offset: params.offset || 0
   };
@@ -2759,6 +3397,7 @@ async function handleSearchDecisionsIndex(params: SearchParams): Promise<MCPTool
         layer: 1,
         layer_name: 'INDEX',
         query: searchParams,
+        ...(parsed && { interpretedQuery: describeParsedQuery(parsed) }),
         total_count: result.totalCount,
         returned_count: indexResults.length,
         has_more: result.hasMore,
@@ -2983,14 +3622,16 @@ async function handleSmartSearch(params: {
 
   const maxExtractions = Math.min(params.max_extractions || 10, 15);
   const extractOnDemand = params.extract_on_demand !== false;
+  params = interpretQuery(params).params;
 
   // Step 1: Search by metadata
   const conditions: string[] = ['1=1'];
   const sqlParams: any[] = [];
 
   if (params.committee) {
-    conditions.push('committee LIKE ?');
-    sqlParams.push(`%${params.committee}%`);
+    const committeeCondition = db!.buildCommitteeCondition(params.committee);
+    conditions.push(committeeCondition.sql);
+    sqlParams.push(...committeeCondition.values);
   }
   if (params.caseType) {
     conditions.push('(case_type LIKE ? OR title LIKE ? OR pdf_text LIKE ?)');
@@ -3056,17 +3697,14 @@ async function handleSmartSearch(params: {
         if (isCached) {
           pdfBuffer = await pdfCache.loadPdf(doc.id, doc.database);
         } else if (doc.url && SCRAPER_API_KEY) {
-          // Fetch via ScraperAPI with timeout
-          const scraperUrl = `http://api.scraperapi.com?api_key=${SCRAPER_API_KEY}&url=${encodeURIComponent(doc.url)}`;
-          const controller = new AbortController();
-          const timeout = setTimeout(() => controller.abort(), 30000); // 30s timeout
-
+          // Fetch through the transport (ScraperAPI by default) with timeout
           try {
-            const response = await fetch(scraperUrl, {
-              signal: controller.signal,
-              headers: { 'Accept': 'application/pdf' }
+            const response = await getTransport().fetch({
+              url: doc.url,
+              headers: { 'Accept': 'application/pdf' },
+              apiKey: SCRAPER_API_KEY,
+              timeoutMs: 30000
             });
-            clearTimeout(timeout);
 
             if (response.ok) {
               pdfBuffer = Buffer.from(await response.arrayBuffer());
@@ -3074,7 +3712,6 @@ async function handleSmartSearch(params: {
               await pdfCache.savePdf(doc.id, doc.database, pdfBuffer);
             }
           } catch (fetchError: any) {
-            clearTimeout(timeout);
             console.error(`[SmartSearch] Fetch failed for ${doc.id}: ${fetchError.message}`);
             continue;
           }
@@ -3185,9 +3822,12 @@ async function handleSmartSearch(params: {
 }
 
 /**
- * Smart multi-term search: splits complex Hebrew queries into OR conditions.
- * Short queries (1-3 words) use exact LIKE match.
- * Long queries extract key appraisal terms and build OR conditions.
+ * Smart multi-term search over the decisions_fts full-text index.
+ * Words are matched morphologically (prefixes, final letters, suffixes - see hebrew-normalizer).
+ * Short queries (1-3 words) require all words.
+ * Long queries extract key appraisal terms and OR them.
+ * Returns a JOIN exposing fts.fts_score (bm25, lower = more relevant) - its
+ * params must come before any WHERE params.
  */
 const APPRAISAL_KEY_TERMS = [
   'מקדם', 'שווי', 'מחיר', 'ערך', 'קרקע', 'מגורים', 'בניה', 'זכויות',
@@ -3196,33 +3836,41 @@ const APPRAISAL_KEY_TERMS = [
   'דירה', 'מסחרי', 'תעשיה', 'חקלאי', 'מגרש', 'תכנית', 'תב"ע'
 ];
 
-function buildContentSearchCondition(query: string): { sql: string; params: string[] } {
+function buildContentSearchCondition(query: string): { join: string; params: string[] } {
   const words = query.trim().split(/\s+/);
+  const allWordsMatch = () => buildFtsMatchQuery([query.trim()], { columns: ['pdf_text'] });
 
-  // Short queries (1-3 words): use exact match
-  if (words.length <= 3) {
-    return { sql: 'pdf_text LIKE ?', params: [`%${query}%`] };
-  }
+  let matchQuery: string | null;
 
-  // Long queries: extract key terms and OR them
-  const terms: string[] = [];
-  for (let i = 0; i < words.length; i++) {
-    if (APPRAISAL_KEY_TERMS.some(t => words[i].includes(t))) {
-      // Build 2-word phrase if next word exists
-      if (i + 1 < words.length) terms.push(words[i] + ' ' + words[i + 1]);
-      terms.push(words[i]);
+  // Short queries (1-3 words): all words must match
+  if (words.length <= 3) {
+    matchQuery = allWordsMatch();
+  } else {
+    // Long queries: extract key terms and OR them
+    const terms: string[] = [];
+    for (let i = 0; i < words.length; i++) {
+      if (APPRAISAL_KEY_TERMS.some(t => words[i].includes(t))) {
+        // Build 2-word phrase if next word exists
+        if (i + 1 < words.length) terms.push(words[i] + ' ' + words[i + 1]);
+        terms.push(words[i]);
+      }
     }
-  }
 
-  const unique = [...new Set(terms)].slice(0, 5);
-  if (unique.length === 0) {
-    // No key terms found — fall back to exact match
-    return { sql: 'pdf_text LIKE ?', params: [`%${query}%`] };
+    const unique = [...new Set(terms)].slice(0, 5);
+    matchQuery = unique.length > 0
+      ? buildFtsMatchQuery(unique, { columns: ['pdf_text'], operator: 'OR' })
+      // No key terms found — fall back to matching all words
+      : allWordsMatch();
   }
 
-  const conditions = unique.map(() => 'pdf_text LIKE ?');
-  const params = unique.map(t => `%${t}%`);
-  return { sql: `(${conditions.join(' OR ')})`, params };
+  return {
+    join: ` JOIN (
+      SELECT rowid AS fts_rowid, bm25(decisions_fts) AS fts_score
+      FROM decisions_fts WHERE decisions_fts MATCH ?
+    ) fts ON fts.fts_rowid = decisions.rowid`,
+    // A query with no searchable characters matches nothing
+    params: [matchQuery ?? '""']
+  };
 }
 
 /**
@@ -3266,6 +3914,9 @@ async function handleQueryAndAggregate(params: {
     };
   }
 
+  // "מקדם דחייה בתל אביב 2025": the city and year filter, the rest is searched in the text
+  params = interpretContentSearch(params);
+
   const extractFields = params.extract_fields || ['coefficient', 'price_per_sqm', 'percentage'];
   const maxRows = Math.min(params.max_rows || 50, 500);
 
@@ -3275,12 +3926,12 @@ async function handleQueryAndAggregate(params: {
 
   // Content search within PDF text — smart multi-term for complex queries
   const contentCondition = buildContentSearchCondition(params.content_search);
-  conditions.push(contentCondition.sql);
   sqlParams.push(...contentCondition.params);
 
   if (params.committee) {
-    conditions.push('committee LIKE ?');
-    sqlParams.push(`%${params.committee}%`);
+    const committeeCondition = db!.buildCommitteeCondition(params.committee);
+    conditions.push(committeeCondition.sql);
+    sqlParams.push(...committeeCondition.values);
   }
   if (params.caseType) {
     conditions.push('(case_type LIKE ? OR title LIKE ? OR pdf_text LIKE ?)');
@@ -3319,10 +3970,10 @@ async function handleQueryAndAggregate(params: {
 
   // Query ALL matches (no limit) for accurate statistics
   const searchSql = `
-    SELECT DISTINCT decisions.id as id, decisions.database as database, decisions.title as title, decisions.url as url, decisions.committee as committee, decisions.appraiser as appraiser, decisions.case_type as case_type, decisions.block as block, decisions.plot as plot, decisions.year as year, decisions.decision_date as decision_date, decisions.pdf_text as pdf_text
-    FROM decisions${paramJoin}
+    SELECT DISTINCT decisions.id as id, decisions.database as database, decisions.title as title, decisions.url as url, decisions.committee as committee, decisions.appraiser as appraiser, decisions.case_type as case_type, decisions.block as block, decisions.plot as plot, decisions.year as year, decisions.decision_date as decision_date, decisions.pdf_text as pdf_text, fts.fts_score as fts_score
+    FROM decisions${contentCondition.join}${paramJoin}
     WHERE ${whereClause}
-    ORDER BY decisions.decision_date DESC
+    ORDER BY fts.fts_score ASC, decisions.decision_date DESC
   `;
 
   const allResults = executeRawQuery(searchSql, sqlParams);
@@ -3352,9 +4003,8 @@ async function handleQueryAndAggregate(params: {
     // FALLBACK: Extract values using rigid patterns
     const extractedValues = extractValuesFromText(pdfText, extractFields);
 
-    // Get context snippet around search term (with char position for page estimation)
-    const { snippet: context, charIndex } = getContextSnippet(pdfText, params.content_search, 80);
-    const page = estimatePage(charIndex, pdfText.length);
+    // Get context snippet around search term, with the page it is on
+    const { snippet: context, page } = getContextSnippet(pdfText, params.content_search, 80);
 
     processedRows.push({
       decision_id: doc.id,
@@ -3419,6 +4069,8 @@ async function handleExportResults(params: {
     };
   }
 
+  params = interpretContentSearch(params);
+
   const extractFields = params.extract_fields || ['coefficient', 'price_per_sqm', 'percentage'];
 
   // Build WHERE clause — same as query_and_aggregate but NO row limit
@@ -3426,12 +4078,12 @@ async function handleExportResults(params: {
   const sqlParams: any[] = [];
 
   const contentCondition = buildContentSearchCondition(params.content_search);
-  conditions.push(contentCondition.sql);
   sqlParams.push(...contentCondition.params);
 
   if (params.committee) {
-    conditions.push('committee LIKE ?');
-    sqlParams.push(`%${params.committee}%`);
+    const committeeCondition = db!.buildCommitteeCondition(params.committee);
+    conditions.push(committeeCondition.sql);
+    sqlParams.push(...committeeCondition.values);
   }
   if (params.caseType) {
     conditions.push('(case_type LIKE ? OR title LIKE ? OR pdf_text LIKE ?)');
@@ -3449,9 +4101,9 @@ async function handleExportResults(params: {
   const whereClause = conditions.join(' AND ');
   const searchSql = `
     SELECT id, database, title, url, committee, appraiser, case_type, block, plot, year, decision_date, pdf_text
-    FROM decisions
+    FROM decisions${contentCondition.join}
     WHERE ${whereClause}
-    ORDER BY decision_date DESC
+    ORDER BY fts.fts_score ASC, decision_date DESC
   `;
 
   const allResults = executeRawQuery(searchSql, sqlParams);
@@ -3478,8 +4130,7 @@ async function handleExportResults(params: {
     const nearbyValues = extractValuesNearSearchTerm(pdfText, params.content_search);
     const searchValue = nearbyValues.length > 0 ? nearbyValues[0] : null;
     const extractedValues = extractValuesFromText(pdfText, extractFields);
-    const { snippet: context, charIndex } = getContextSnippet(pdfText, params.content_search, 80);
-    const page = estimatePage(charIndex, pdfText.length);
+    const { snippet: context, page } = getContextSnippet(pdfText, params.content_search, 80);
 
     processedRows.push({
       decision_id: doc.id,
@@ -3621,6 +4272,8 @@ async function handleSearchAndExtract(params: {
     };
   }
 
+  params = interpretContentSearch(params);
+
   const limit = Math.min(params.limit || 20, 50);
 
   // Build WHERE clause for metadata filters
@@ -3632,8 +4285,9 @@ async function handleSearchAndExtract(params: {
   sqlParams.push(`%${params.content_search}%`);
 
   if (params.committee) {
-    conditions.push('committee LIKE ?');
-    sqlParams.push(`%${params.committee}%`);
+    const committeeCondition = db!.buildCommitteeCondition(params.committee);
+    conditions.push(committeeCondition.sql);
+    sqlParams.push(...committeeCondition.values);
   }
   if (params.caseType) {
     conditions.push('case_type LIKE ?');
@@ -3810,6 +4464,7 @@ async function handleCompareCommittees(params: { committees: string[]; database?
 
   const comparison: Array<{
     committee: string;
+    committeeId: string | null;
     total: number;
     by_year: Record<string, number>;
     by_case_type: Record<string, number>;
@@ -3817,6 +4472,11 @@ async function handleCompareCommittees(params: { committees: string[]; database?
   }> = [];
 
   for (const committee of params.committees) {
+    // Spelling variants of a gazetteer committee count as one committee
+    const committeeCondition = db!.buildCommitteeCondition(committee);
+    const committeeIds = findCommitteeIds(committee);
+    const entry = committeeIds.length === 1 ? getCommittee(committeeIds[0]) : null;
+
     // Get total count for this committee
     const searchResult = db!.search({
       committee,
@@ -3829,14 +4489,14 @@ async function handleCompareCommittees(params: { committees: string[]; database?
     // Get breakdown by year for this committee
     const byYearSql = `
       SELECT year as name, COUNT(*) as count FROM decisions
-      WHERE committee LIKE ?
+      WHERE ${committeeCondition.sql}
       ${params.database ? 'AND database = ?' : ''}
       ${params.caseType ? 'AND case_type LIKE ?' : ''}
       AND year IS NOT NULL
       GROUP BY year ORDER BY year DESC LIMIT 10
     `;
     const byYearParams = [
-      `%${committee}%`,
+      ...committeeCondition.values,
       ...(params.database ? [params.database] : []),
       ...(params.caseType ? [`%${params.caseType}%`] : [])
     ];
@@ -3849,14 +4509,14 @@ async function handleCompareCommittees(params: { committees: string[]; database?
     // Get breakdown by case type for this committee
     const byCaseTypeSql = `
       SELECT case_type as name, COUNT(*) as count FROM decisions
-      WHERE committee LIKE ?
+      WHERE ${committeeCondition.sql}
       ${params.database ? 'AND database = ?' : ''}
       ${params.year ? 'AND year = ?' : ''}
       AND case_type IS NOT NULL
       GROUP BY case_type ORDER BY count DESC LIMIT 10
     `;
     const byCaseTypeParams = [
-      `%${committee}%`,
+      ...committeeCondition.values,
       ...(params.database ? [params.database] : []),
       ...(params.year ? [params.year] : [])
     ];
@@ -3869,21 +4529,22 @@ async function handleCompareCommittees(params: { committees: string[]; database?
     // Get top appraisers for this committee
     const topAppraisersSql = `
       SELECT appraiser as name, COUNT(*) as count FROM decisions
-      WHERE committee LIKE ?
+      WHERE ${committeeCondition.sql}
       ${params.database ? 'AND database = ?' : ''}
       ${params.year ? 'AND year = ?' : ''}
       AND appraiser IS NOT NULL
       GROUP BY appraiser ORDER BY count DESC LIMIT 5
     `;
     const topAppraisersParams = [
-      `%${committee}%`,
+      ...committeeCondition.values,
       ...(params.database ? [params.database] : []),
       ...(params.year ? [params.year] : [])
     ];
     const top_appraisers = executeRawQuery(topAppraisersSql, topAppraisersParams);
 
     comparison.push({
-      committee,
+      committee: entry?.name ?? committee,
+      committeeId: entry?.id ?? null,
       total: searchResult.totalCount,
       by_year,
       by_case_type,
@@ -3931,8 +4592,9 @@ async function handleGetSummaryStats(params: { committee?: string; database?: Da
   const sqlParams: any[] = [];
 
   if (params.committee) {
-    conditions.push('committee LIKE ?');
-    sqlParams.push(`%${params.committee}%`);
+    const committeeCondition = db!.buildCommitteeCondition(params.committee);
+    conditions.push(committeeCondition.sql);
+    sqlParams.push(...committeeCondition.values);
   }
   if (params.database) {
     conditions.push('database = ?');
@@ -4209,6 +4871,8 @@ async function handleHealthCheck(params: { verbose?: boolean }): Promise<MCPTool
     connected: boolean;
     decisionCount: number;
     fts5Working: boolean;
+    status?: 'migrating';
+    migration?: typeof migrationInProgress;
     path?: string;
     error?: string;
   } = {
@@ -4247,6 +4911,11 @@ async function handleHealthCheck(params: { verbose?: boolean }): Promise<MCPTool
       issues.push(`Database connection failed: ${databaseStatus.error}`);
       issuesHe.push(`חיבור למסד הנתונים נכשל: ${databaseStatus.error}`);
     }
+  } else if (migrationInProgress) {
+    databaseStatus.status = 'migrating';
+    databaseStatus.migration = migrationInProgress;
+    issues.push(`Database schema migration in progress: ${migrationInProgress.version} (${migrationInProgress.name})`);
+    issuesHe.push(`עדכון מבנה מסד הנתונים בתהליך: ${migrationInProgress.version} (${migrationInProgress.name})`);
   } else {
     issues.push('Database not initialized');
     issuesHe.push('מסד הנתונים לא אותחל');
@@ -4268,6 +4937,42 @@ async function handleHealthCheck(params: { verbose?: boolean }): Promise<MCPTool
     suggestionsHe.push('הגדר משתנה סביבה SCRAPER_API_KEY לעדכונים חיים מ-gov.il');
   }
 
+  // Check fetch backends (transport.ts): a paused backend is retried after its cooldown
+  const fetchStatus = getTransport().getBackendMetrics();
+  for (const backend of fetchStatus.filter(b => b.circuit === 'open')) {
+    issues.push(`Fetch backend ${backend.backend} is paused after repeated failures: ${backend.lastError}`);
+    issuesHe.push(`ערוץ השליפה ${backend.backend} מושהה לאחר כשלונות חוזרים: ${backend.lastError}`);
+  }
+
+  // Check alerts (alerts.ts): stale databases, and what was recently reported
+  const alerts = getAlertNotifier({ stdout: false });
+  const alertStatus: {
+    sinks: string[];
+    configError?: string;
+    recent: Array<{ type: string; severity: string; title: string; status: string; timestamp: string }>;
+  } = {
+    sinks: alerts.getSinks(),
+    recent: []
+  };
+  const alertConfigError = alerts.getConfigError();
+  if (alertConfigError) {
+    alertStatus.configError = alertConfigError;
+    issues.push(`Alert sinks are misconfigured, alerts go to the file sink only: ${alertConfigError}`);
+    issuesHe.push(`הגדרת ערוצי ההתראה שגויה, ההתראות נכתבות לקובץ בלבד: ${alertConfigError}`);
+  }
+
+  if (db) {
+    try {
+      for (const stale of checkStaleIndex(db, Number(process.env.ALERT_STALE_DAYS) || 7)) {
+        issues.push(stale.title);
+        issuesHe.push(`לא נוספו החלטות חדשות ל${DATABASE_CONFIG[stale.database!].name} ב-${stale.details!.days} הימים האחרונים`);
+      }
+      alertStatus.recent = db.getRecentAlerts(5).map(({ type, severity, title, status, timestamp }) => ({ type, severity, title, status, timestamp }));
+    } catch {
+      // Ignore errors for alert status
+    }
+  }
+
   // Check embeddings status
   const embeddingsStatus: {
     available: boolean;
@@ -4311,6 +5016,8 @@ async function handleHealthCheck(params: { verbose?: boolean }): Promise<MCPTool
     status: {
       database: databaseStatus,
       scraperApi: scraperApiStatus,
+      fetch: fetchStatus,
+      alerts: alertStatus,
       embeddings: embeddingsStatus,
       server: serverStatus
     },
@@ -4395,26 +5102,6 @@ const CLARIFICATION_PROMPTS: Record<AmbiguityType, ClarificationPrompt> = {
   }
 };
 
-// Database keywords for detection
-const DATABASE_KEYWORDS: Record<DatabaseType, string[]> = {
-  decisive_appraiser: ['שמאי מכריע', 'הכרעה', 'הכרעת שמאי', 'מכריע'],
-  appeals_committee: ['השגה', 'ועדת השגות', 'השגות'],
-  appeals_board: ['ערעור', 'ועדת ערעורים', 'ערר', 'ערעורים']
-};
-
-// Case type keywords
-const CASE_TYPE_KEYWORDS = [
-  'היטל השבחה', 'פיצויים', 'ירידת ערך', 'הפקעה',
-  'תכנית מתאר', 'שינוי ייעוד', 'היתר בניה',
-  'תמ"א 38', 'פינוי בינוי', 'תב"ע'
-];
-
-// Year pattern for date detection
-const YEAR_PATTERN = /\b(19|20)\d{2}\b|תשפ"?[א-ת]|תש[פע]"?[א-ת]/;
-
-// Block/plot pattern
-const BLOCK_PLOT_PATTERN = /גוש\s*\d+|חלקה\s*\d+|ג['׳]?\s*\d+|ח['׳]?\s*\d+/;
-
 async function handleClarifyQuery(params: ClarifyQueryInput): Promise<MCPToolResult> {
   const { originalQuery, previousClarifications = [] } = params;
   const query = originalQuery.trim();
@@ -4430,50 +5117,36 @@ async function handleClarifyQuery(params: ClarifyQueryInput): Promise<MCPToolRes
     }
   }
 
-  // Check for database keywords
-  let hasDbKeyword = false;
-  for (const [dbType, keywords] of Object.entries(DATABASE_KEYWORDS)) {
-    for (const keyword of keywords) {
-      if (query.includes(keyword)) {
-        hasDbKeyword = true;
-        suggestedParams.database = dbType as DatabaseType;
-        break;
-      }
-    }
-    if (hasDbKeyword) break;
-  }
+  // Read the question into slots (query-understanding.ts); weak slots count as
+  // detected here, since they are only suggestions
+  const parsed = parseQuery(query, { committees: db?.getCommitteeNames() });
+  Object.assign(suggestedParams, toSearchParams(parsed));
+  delete suggestedParams.query;
 
-  if (!hasDbKeyword && !previousClarifications.includes('missing_database')) {
+  if (parsed.database) {
+    suggestedParams.database = parsed.database.value;
+  } else if (!previousClarifications.includes('missing_database')) {
     detectedAmbiguities.push('missing_database');
   }
 
-  // Check for location specificity (city names or block/plot)
-  const hasBlockPlot = BLOCK_PLOT_PATTERN.test(query);
-  // Common Israeli cities - check if query mentions any
-  const commonCities = ['תל אביב', 'ירושלים', 'חיפה', 'באר שבע', 'רעננה', 'נתניה', 'הרצליה', 'פתח תקווה', 'ראשון לציון', 'אשדוד'];
-  const hasCityName = commonCities.some(city => query.includes(city));
-
-  if (!hasBlockPlot && !hasCityName && query.length > 10 && !previousClarifications.includes('vague_location')) {
+  // Check for location specificity (committee or block/plot)
+  if (!parsed.block && !parsed.plot && !parsed.committee && query.length > 10 && !previousClarifications.includes('vague_location')) {
     // Only suggest location clarification for longer queries that don't have location info
     detectedAmbiguities.push('vague_location');
   }
 
-  // Check for date/year mentions without clear range
-  const hasYear = YEAR_PATTERN.test(query);
-  const hasDateRange = query.includes('מ-') || query.includes('עד') || query.includes('בין') ||
-                       query.includes('מתאריך') || query.includes('לתאריך');
-
-  if (hasYear && !hasDateRange && !previousClarifications.includes('unclear_date_range')) {
+  // A single Gregorian year is unclear (decided or published that year?). A
+  // Hebrew year, month or date (תשפ"ד, שבט תשפ"ג) defines its own Gregorian range.
+  if (parsed.year && /^\d{4}$/.test(parsed.year.value) && !previousClarifications.includes('unclear_date_range')) {
     detectedAmbiguities.push('unclear_date_range');
   }
 
   // Check for case type specificity
-  const hasCaseType = CASE_TYPE_KEYWORDS.some(caseType => query.includes(caseType));
   // General legal terms that might need clarification
   const generalTerms = ['החלטות', 'פסיקות', 'תיקים', 'עניינים'];
   const hasGeneralTerms = generalTerms.some(term => query.includes(term));
 
-  if (!hasCaseType && hasGeneralTerms && !previousClarifications.includes('ambiguous_case_type')) {
+  if (!parsed.caseType && hasGeneralTerms && !previousClarifications.includes('ambiguous_case_type')) {
     detectedAmbiguities.push('ambiguous_case_type');
   }
 
@@ -4482,34 +5155,8 @@ async function handleClarifyQuery(params: ClarifyQueryInput): Promise<MCPToolRes
     clarifications.push(CLARIFICATION_PROMPTS[ambiguity]);
   }
 
-  // Extract any parameters we could determine despite ambiguity
-  if (hasCaseType) {
-    for (const caseType of CASE_TYPE_KEYWORDS) {
-      if (query.includes(caseType)) {
-        suggestedParams.caseType = caseType;
-        break;
-      }
-    }
-  }
-
-  if (hasCityName) {
-    for (const city of commonCities) {
-      if (query.includes(city)) {
-        suggestedParams.committee = city;
-        break;
-      }
-    }
-  }
-
-  // Extract block/plot if present
-  const blockMatch = query.match(/גוש\s*(\d+)|ג['׳]?\s*(\d+)/);
-  if (blockMatch) {
-    suggestedParams.block = blockMatch[1] || blockMatch[2];
-  }
-
-  const plotMatch = query.match(/חלקה\s*(\d+)|ח['׳]?\s*(\d+)/);
-  if (plotMatch) {
-    suggestedParams.plot = plotMatch[1] || plotMatch[2];
+  if (parsed.caseType) {
+    suggestedParams.caseType = parsed.caseType.value;
   }
 
   const result: ClarifyQueryResult = {
@@ -4957,8 +5604,8 @@ async function handleSearchByParameters(params: {
   const dbError = checkDatabaseAvailable();
   if (dbError) return dbError;
 
-  const { rows, totalCount } = db!.searchByParameters({
-    param_type: params.param_type,
+  const filter: ParameterFilter = {
+    param_type: params.param_type as ParamType,
     param_subtype: params.param_subtype,
     value_min: params.value_min,
     value_max: params.value_max,
@@ -4966,9 +5613,10 @@ async function handleSearchByParameters(params: {
     min_confidence: params.min_confidence ?? 0.5,
     committee: params.committee,
     year: params.year,
-    database: params.database,
+    database: params.database as DatabaseType | undefined,
     limit: params.limit || 50
-  });
+  };
+  const { rows, totalCount } = db!.searchByParameters(filter);
 
   if (rows.length === 0) {
     // Return stats about what's available
@@ -5191,8 +5839,240 @@ async function handleExtractParameters(params: {
   };
 }
 
+async function handleSearchComparisonTransactions(params: {
+  city?: string;
+  block?: string;
+  from_date?: string;
+  to_date?: string;
+  price_min?: number;
+  price_max?: number;
+  price_per_sqm_min?: number;
+  price_per_sqm_max?: number;
+  limit?: number;
+}): Promise<MCPToolResult> {
+  const dbError = checkDatabaseAvailable();
+  if (dbError) return dbError;
+
+  for (const [name, value, bound] of [['from_date', params.from_date, 'start'], ['to_date', params.to_date, 'end']] as const) {
+    if (value && !toIsoDateBound(value, bound)) {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: `Invalid ${name}: ${value}`,
+            errorHe: `תאריך לא תקין: ${value}`,
+            suggestion: 'Use YYYY-MM-DD, DD-MM-YYYY, YYYY-MM, YYYY or a Hebrew date/year',
+            suggestionHe: 'השתמש בפורמט YYYY-MM-DD, DD-MM-YYYY, YYYY-MM, YYYY או תאריך/שנה עבריים'
+          })
+        }],
+        isError: true
+      };
+    }
+  }
+
+  const { transactions, totalCount } = db!.searchComparisonTransactions({
+    city: params.city,
+    block: params.block,
+    fromDate: params.from_date,
+    toDate: params.to_date,
+    priceMin: params.price_min,
+    priceMax: params.price_max,
+    pricePerSqmMin: params.price_per_sqm_min,
+    pricePerSqmMax: params.price_per_sqm_max,
+    limit: Math.min(params.limit || 50, 500)
+  });
+
+  if (transactions.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: 'לא נמצאו עסקאות השוואה. ייתכן שטרם הורץ npm run extract-transactions.'
+      }]
+    };
+  }
+
+  const columns: Array<[string, (t: typeof transactions[number]) => string | number | null]> = [
+    ['עיר', t => t.city],
+    ['כתובת', t => t.address],
+    ['גוש', t => t.block],
+    ['חלקה', t => t.plot],
+    ['תאריך', t => t.transactionDate],
+    ['שטח (מ"ר)', t => t.areaSqm],
+    ['מחיר (₪)', t => t.price],
+    ['מחיר למ"ר', t => t.pricePerSqm],
+    ['מצוטט ב', t => t.citedBy.join(' ')]
+  ];
+
+  let csv = columns.map(([label]) => label).join(',') + '\n';
+  for (const transaction of transactions) {
+    csv += columns.map(([, get]) => {
+      const val = get(transaction);
+      if (val === null || val === undefined) return '';
+      const str = String(val);
+      return str.includes(',') || str.includes('"') ? `"${str.replace(/"/g, '""')}"` : str;
+    }).join(',') + '\n';
+  }
+
+  const statsLine = `\n---\nסה"כ: ${totalCount} עסקאות | מוצג: ${transactions.length}`;
+
+  return {
+    content: [{
+      type: 'text',
+      text: csv + statsLine + DATA_COLLECTOR_INSTRUCTIONS
+    }]
+  };
+}
+
+/**
+ * Output of search_near_block and search_neighboring_blocks, or the error
+ * when the gush layer is not loaded or does not have the gush
+ */
+function gushSearchResult(
+  block: string,
+  result: { center: GushLocation; decisions: LocatedDecision[]; totalCount: number } | null,
+  details: Record<string, unknown>
+): MCPToolResult {
+  if (!result) {
+    const loaded = db!.countGushLocations() > 0;
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          error: loaded ? `Block not found in the gush layer: ${block}` : 'Gush layer not loaded',
+          errorHe: loaded ? `הגוש ${block} לא נמצא בשכבת הגושים` : 'שכבת הגושים לא נטענה',
+          suggestion: loaded
+            ? 'Check the block number, or use search_decisions with block for an exact match.'
+            : 'Load a gush boundary dataset (GeoJSON or Shapefile) with npm run load-gush-layer -- --file=PATH.',
+          suggestionHe: loaded
+            ? 'בדוק את מספר הגוש, או השתמש ב-search_decisions עם block להתאמה מדויקת.'
+            : 'טען קובץ גבולות גושים (GeoJSON או Shapefile) באמצעות npm run load-gush-layer -- --file=PATH.'
+        })
+      }],
+      isError: true
+    };
+  }
+
+  return safeOutput({
+    center: result.center,
+    ...details,
+    totalCount: result.totalCount,
+    decisions: result.decisions.map(({ decision, locality, distanceKm }) => ({
+      id: decision.id,
+      database: decision.database,
+      title: decision.title,
+      block: decision.block,
+      plot: decision.plot,
+      locality,
+      distanceKm,
+      committee: decision.committee,
+      appraiser: decision.appraiser,
+      caseType: decision.caseType,
+      decisionDate: decision.decisionDate,
+      url: decision.url
+    })),
+    _format: 'הצג בעברית, מימין לשמאל (RTL)'
+  });
+}
+
+async function handleSearchNearBlock(params: {
+  block: string; radius_km?: number; database?: DatabaseType; limit?: number;
+}): Promise<MCPToolResult> {
+  const dbError = checkDatabaseAvailable();
+  if (dbError) return dbError;
+
+  const radiusKm = params.radius_km && params.radius_km > 0 ? Math.min(params.radius_km, 50) : 2;
+  const result = db!.searchNearGush(params.block, radiusKm, {
+    database: params.database,
+    limit: Math.min(params.limit || 50, MAX_SEARCH_RESULTS)
+  });
+  return gushSearchResult(params.block, result, { radiusKm });
+}
+
+async function handleSearchNeighboringBlocks(params: {
+  block: string; include_block?: boolean; database?: DatabaseType; limit?: number;
+}): Promise<MCPToolResult> {
+  const dbError = checkDatabaseAvailable();
+  if (dbError) return dbError;
+
+  const result = db!.searchNeighboringBlocks(params.block, {
+    database: params.database,
+    includeSelf: params.include_block !== false,
+    limit: Math.min(params.limit || 50, MAX_SEARCH_RESULTS)
+  });
+  return gushSearchResult(params.block, result, { includeBlock: params.include_block !== false });
+}
+
+async function handleSearchPassages(params: {
+  query: string;
+  section_type?: PassageSectionType;
+  database?: DatabaseType;
+  committee?: string;
+  year?: string;
+  per_decision?: number;
+  limit?: number;
+}): Promise<MCPToolResult> {
+  const dbError = checkDatabaseAvailable();
+  if (dbError) return dbError;
+
+  // Passages are searched by their text, so a question that is only filters keeps all its words
+  const { params: interpreted, parsed } = interpretQuery(params);
+  const limit = Math.min(params.limit || 20, MAX_SEARCH_RESULTS);
+  const reranked = await rerankResults(
+    params.query,
+    db!.searchPassages({
+      query: interpreted.query ?? params.query,
+      sectionType: params.section_type,
+      database: interpreted.database,
+      committee: interpreted.committee,
+      year: interpreted.year,
+      perDecision: params.per_decision ?? 1,
+      limit: rerankFetchLimit(limit)
+    }),
+    limit,
+    p => ({ id: `${p.decisionId}#${p.index}`, title: [p.title, p.committee].filter(Boolean).join(' | '), text: p.text })
+  );
+  const passages = reranked.items;
+
+  if (passages.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: 'לא נמצאו תוצאות.'
+      }]
+    };
+  }
+
+  return safeOutput({
+    query: params.query,
+    ...(parsed && { interpretedQuery: describeParsedQuery(parsed) }),
+    count: passages.length,
+    ...(reranked.info && { rerank: reranked.info }),
+    passages: passages.map((p, i) => ({
+      id: p.decisionId,
+      title: p.title,
+      database: p.database,
+      committee: p.committee,
+      appraiser: p.appraiser,
+      block: p.block,
+      plot: p.plot,
+      year: p.year,
+      url: p.url,
+      relevanceScore: p.score,
+      rerankScore: reranked.scores[i] ?? undefined,
+      snippet: p.snippet,
+      ...formatPassage(p)
+    }))
+  }, { suffix: DATA_COLLECTOR_INSTRUCTIONS });
+}
+
 // Main server setup
 async function main() {
+  // Record/replay or stand-in routing of outbound HTTP (HTTP_CASSETTE, HTTP_STAND_IN)
+  installHttpCassette();
+  // Alert sinks (ALERT_SINKS); never stdout, which carries the MCP protocol.
+  // A misconfiguration falls back to the file sink and shows in health_check.
+  const alerts = getAlertNotifier({ stdout: false });
+
   const server = new Server(
     {
       name: 'gov-il-land-appraisal',
@@ -5233,6 +6113,8 @@ async function main() {
 
 ## בחירת כלי (בחר אחד בלבד!)
 - **כלי ברירת מחדל לרוב השאלות** → semantic_search (מבין משמעות, מחזיר 30 מסמכים רלוונטיים עם קישורים — **השתמש בזה אלא אם יש סיבה ספציפית לכלי אחר**)
+- **נושא + עיר/שנה/גוש/סוג מקדם באותה שאלה** → hybrid_search (משלב חיפוש סמנטי, מילות מפתח ופרמטרים — אין צורך לבחור ביניהם)
+- **"מה נקבע לגבי X", טענות/הכרעה בנושא מסוים** → search_passages (מחזיר את הפסקה המתאימה עם הסעיף ומספרי העמודים)
 - **גוש/חלקה/שמאי/ועדה ספציפיים** → search_decisions
 - **מקדם מעל/מתחת ערך מדויק** → search_by_parameters
 - **"קרא את ההחלטה"** → read_pdf (רק כשהמשתמש מבקש!)
@@ -5242,6 +6124,8 @@ async function main() {
 - "שיעור היוון בהרצליה" → semantic_search עם query="שיעור היוון"
 - "גוש 6214 חלקה 353" → search_decisions עם block="6214", plot="353"
 - "מקדם דחייה מעל 0.9" → search_by_parameters עם param_type="coefficient", value_min=0.9
+- "מקדם דחייה בנתניה 2024" → hybrid_search עם query="מקדם דחייה בנתניה 2024"
+- "מה הכריע השמאי לגבי שטחי שירות" → search_passages עם query="שטחי שירות", section_type="ruling"
 
 ## מאגרים
 - decisive_appraiser (24,478) — שמאי מכריע
@@ -5320,6 +6204,7 @@ async function main() {
             mode?: 'summary' | 'excerpt' | 'full';
             offset?: number;
             chunk_size?: number;
+            page?: number;
           });
 
         case 'get_statistics':
@@ -5340,9 +6225,15 @@ async function main() {
         case 'list_appraisers':
           return await handleListAppraisers(args as { limit?: number });
 
+        case 'get_appraiser_profile':
+          return await handleGetAppraiserProfile(args as { appraiser: string });
+
         case 'semantic_search':
           return await handleSemanticSearch(args as { query: string; limit?: number; database?: DatabaseType });
 
+        case 'hybrid_search':
+          return await handleHybridSearch(args as { query: string; limit?: number; database?: DatabaseType; committee?: string; year?: string; block?: string; plot?: string; retrievers?: RetrieverName[] });
+
         case 'trigger_update':
           return await handleTriggerUpdate(args as { pagesToCheck?: number });
 
@@ -5394,14 +6285,37 @@ async function main() {
             decision_id?: string; batch_size?: number; use_llm?: boolean;
           });
 
+        case 'search_comparison_transactions':
+          return await handleSearchComparisonTransactions(args as {
+            city?: string; block?: string; from_date?: string; to_date?: string;
+            price_min?: number; price_max?: number; price_per_sqm_min?: number; price_per_sqm_max?: number;
+            limit?: number;
+          });
+
+        case 'search_near_block':
+          return await handleSearchNearBlock(args as {
+            block: string; radius_km?: number; database?: DatabaseType; limit?: number;
+          });
+
+        case 'search_neighboring_blocks':
+          return await handleSearchNeighboringBlocks(args as {
+            block: string; include_block?: boolean; database?: DatabaseType; limit?: number;
+          });
+
+        case 'search_passages':
+          return await handleSearchPassages(args as {
+            query: string; section_type?: PassageSectionType; database?: DatabaseType;
+            committee?: string; year?: string; per_decision?: number; limit?: number;
+          });
+
         default:
           return {
             content: [{
               type: 'text',
               text: JSON.stringify({
                 error: `Unknown tool: ${name}`,
-                suggestion: 'Available tools: semantic_search (BEST for natural language), query_and_aggregate (tables/aggregation), search_by_parameters, get_decision_parameters, extract_parameters, export_results (CSV export), search_decisions, search_decisions_index, get_decision_summaries, get_decision_detail, get_decision, get_decision_pdf, read_pdf, get_statistics, list_committees, list_appraisers, trigger_update, health_check, get_analytics, compare_committees, get_summary_stats',
-                suggestionHe: 'כלים זמינים: query_and_aggregate (ראשי), search_by_parameters (חיפוש פרמטרים), get_decision_parameters (פרמטרים של החלטה), extract_parameters (חילוץ), export_results (ייצוא CSV), search_decisions, search_decisions_index (שכבה 1), get_decision_summaries (שכבה 2), get_decision_detail (שכבה 3), get_decision, get_decision_pdf, read_pdf, get_statistics, list_committees, list_appraisers, semantic_search, trigger_update, health_check, get_analytics, compare_committees, get_summary_stats'
+                suggestion: 'Available tools: semantic_search (BEST for natural language), hybrid_search (topic + city/year/block), search_passages (matching paragraphs), query_and_aggregate (tables/aggregation), search_by_parameters, get_decision_parameters, extract_parameters, search_comparison_transactions, search_near_block, search_neighboring_blocks, export_results (CSV export), search_decisions, search_decisions_index, get_decision_summaries, get_decision_detail, get_decision, get_decision_pdf, read_pdf, get_statistics, list_committees, list_appraisers, trigger_update, health_check, get_analytics, compare_committees, get_summary_stats',
+                suggestionHe: 'כלים זמינים: query_and_aggregate (ראשי), search_by_parameters (חיפוש פרמטרים), get_decision_parameters (פרמטרים של החלטה), extract_parameters (חילוץ), search_comparison_transactions (עסקאות השוואה), search_near_block (החלטות בקרבת גוש), search_neighboring_blocks (גושים גובלים), hybrid_search (חיפוש היברידי), search_passages (חיפוש פסקאות), export_results (ייצוא CSV), search_decisions, search_decisions_index (שכבה 1), get_decision_summaries (שכבה 2), get_decision_detail (שכבה 3), get_decision, get_decision_pdf, read_pdf, get_statistics, list_committees, list_appraisers, semantic_search, trigger_update, health_check, get_analytics, compare_committees, get_summary_stats'
               })
             }],
             isError: true
@@ -5443,14 +6357,36 @@ async function main() {
 
   console.error('Gov.il Land Appraisal MCP Server started');
 
-  // Initialize database in background AFTER server is connected.
-  // Delay 3s so tools/list, prompts/list, resources/list responses go through
-  // before the synchronous sql.js file read blocks the event loop.
-  setTimeout(async () => {
+  // Initialize database in background AFTER server is connected, so the
+  // stdio transport answers tools/list etc. immediately. Opening does not block
+  // the event loop: native SQLite does not read the file up front, the
+  // sql.js fallback reads it asynchronously, and migration backfills yield
+  // between batches (tools report "migrating" meanwhile).
+  setImmediate(async () => {
     try {
-      db = await getDatabase();
+      db = await getDatabase(undefined, {
+        onMigration: migration => {
+          migrationInProgress = { version: migration.version, name: migration.name, startedAt: new Date().toISOString() };
+          console.error(`[MCP Server] Migrating database: ${migration.version} (${migration.name})`);
+        }
+      });
+      migrationInProgress = null;
       console.error('[MCP Server] Database initialized successfully');
+
+      // Check for a stale index and ScraperAPI credits now and every ALERT_CHECK_HOURS
+      alerts.setDatabase(db);
+      const checkHours = process.env.ALERT_CHECK_HOURS ? Number(process.env.ALERT_CHECK_HOURS) : 6;
+      if (checkHours > 0) {
+        const check = () => {
+          if (db) runAlertChecks(alerts, db, { scraperApiKey: SCRAPER_API_KEY || undefined }).catch(error => {
+            console.error('[MCP Server] Alert checks failed:', error instanceof Error ? error.message : String(error));
+          });
+        };
+        check();
+        setInterval(check, checkHours * 60 * 60 * 1000).unref();
+      }
     } catch (error) {
+      migrationInProgress = null;
       console.error('[MCP Server] WARNING: Database initialization failed:', error instanceof Error ? error.message : String(error));
       console.error('[MCP Server] Server will continue but database-dependent tools will return errors.');
       console.error('[MCP Server] Check that ~/.gov-il-mcp/ directory is accessible and has write permissions.');
@@ -5464,7 +6400,7 @@ async function main() {
       console.error('[MCP Server] Semantic search not available:', error instanceof Error ? error.message : String(error));
       embeddings = null;
     }
-  }, 3000);
+  });
 }
 
 main().catch((error) => {
@@ -1,6 +1,7 @@
 /**
  * Background Indexer for Gov.il Land Appraisal Decisions
- * Orchestrates scraping and database population
+ * Orchestrates scraping and database population, then embeds new decisions
+ * for local semantic search
  */
 
 import {
@@ -12,12 +13,45 @@ import {
 } from './types.js';
 import { DecisionDatabase, getDatabase } from './database.js';
 import { GovIlScraper, createScraper, CachedDataProvider } from './scraper.js';
+import { DynamicCollectorClient, DynamicCollectorPage, createDynamicCollectorClient } from './dynamic-collector.js';
+import { Transport } from './transport.js';
+import { getVectorStore } from './embeddings-db.js';
+import { embedPendingDecisions } from './embedding-job.js';
+import { isLocalEmbeddingAvailable } from './embedding-model.js';
+import { resolveCommittee } from './committee-gazetteer.js';
+import { AlertNotifier, getAlertNotifier } from './alerts.js';
+
+/**
+ * Where decision listings come from:
+ * - html: the rendered dynamiccollectors page through ScraperAPI (scraper.ts)
+ * - api:  the gov.il JSON search endpoint directly (dynamic-collector.ts)
+ * - auto: the JSON endpoint, falling back to HTML once it fails
+ */
+export type IndexSource = 'html' | 'api' | 'auto';
+
+export const INDEX_SOURCES: IndexSource[] = ['html', 'api', 'auto'];
+
+/**
+ * The listing source named by an option or INDEX_SOURCE (default: html)
+ */
+export function resolveIndexSource(value = process.env.INDEX_SOURCE): IndexSource {
+  const source = (value || 'html') as IndexSource;
+  if (!INDEX_SOURCES.includes(source)) {
+    throw new Error(`Unknown index source: ${value}. Valid options: ${INDEX_SOURCES.join(', ')}`);
+  }
+  return source;
+}
 
 export interface IndexerOptions {
   scraperApiKey: string;
+  source?: IndexSource;  // Listing source (default: INDEX_SOURCE or html)
+  apiUrl?: string;       // gov.il search endpoint for the api/auto sources (default: GOVIL_API_URL)
+  transport?: Transport; // Fetch transport (default: the shared one, transport.ts)
   maxPages?: number;
   delayMs?: number;
   continueOnError?: boolean;
+  embed?: boolean;  // Embed new decisions with the local model after inserting (default: true)
+  alerts?: AlertNotifier;  // Where selector and indexing failures are reported (default: the shared one, alerts.ts)
   onProgress?: (progress: IndexerProgress) => void;
   onError?: (error: Error, database: DatabaseType, page: number) => void;
 }
@@ -25,17 +59,30 @@ export interface IndexerOptions {
 export class DecisionIndexer {
   private db: DecisionDatabase | null = null;
   private scraper: GovIlScraper;
+  private collector: DynamicCollectorClient | null;
+  private continueOnApiError: boolean;
+  private apiFailed = false;
   private maxPages: number;
   private continueOnError: boolean;
+  private embed: boolean;
+  private alerts: AlertNotifier;
   private onProgress?: (progress: IndexerProgress) => void;
   private onError?: (error: Error, database: DatabaseType, page: number) => void;
 
   constructor(options: IndexerOptions) {
     this.scraper = createScraper(options.scraperApiKey, {
-      delayMs: options.delayMs || 1000
+      delayMs: options.delayMs || 1000,
+      transport: options.transport
     });
+    const source = resolveIndexSource(options.source);
+    this.collector = source === 'html'
+      ? null
+      : createDynamicCollectorClient({ apiUrl: options.apiUrl, transport: options.transport });
+    this.continueOnApiError = source === 'auto';
     this.maxPages = options.maxPages || 1000;
     this.continueOnError = options.continueOnError ?? true;
+    this.embed = options.embed ?? true;
+    this.alerts = options.alerts ?? getAlertNotifier();
     this.onProgress = options.onProgress;
     this.onError = options.onError;
   }
@@ -49,6 +96,34 @@ export class DecisionIndexer {
     // Set up cached data provider for scraper fallback
     // This allows the scraper to return cached data when all extraction strategies fail
     this.scraper.setCachedDataProvider(this.createCachedDataProvider());
+    // Start from the active learned selectors (selector_configs), and learn and
+    // store new ones when a page redesign breaks the primary selectors
+    const active = this.db.getActiveSelectorConfig();
+    if (active) {
+      this.scraper.setPrimarySelectors(active.selectors);
+    }
+    this.scraper.setSelectorAnchorProvider(database => this.db?.getSelectorAnchors(database) ?? []);
+    this.scraper.setSelectorsLearnedHandler((learned, database) => {
+      const stored = this.db!.saveSelectorConfig({
+        selectors: learned.selectors,
+        source: 'learned',
+        database,
+        anchors: learned.anchors,
+        itemCount: learned.itemCount
+      });
+      console.error(`[Indexer] Stored learned selectors as version ${stored.version}`);
+    });
+
+    // Report primary selector failures (after learning failed too) to the alert sinks
+    this.alerts.setDatabase(this.db);
+    this.scraper.setAlertHandler(alert => this.alerts.report({
+      type: 'primary_selector_failure',
+      severity: 'critical',
+      database: alert.lastDatabase,
+      title: 'Primary selectors failing',
+      message: alert.message,
+      details: { consecutiveFailures: alert.consecutiveFailures, threshold: alert.threshold, lastPage: alert.lastPage }
+    }));
   }
 
   /**
@@ -129,9 +204,10 @@ export class DecisionIndexer {
       try {
         console.error(`[Indexer] Fetching ${DATABASE_CONFIG[database].name} page ${page}...`);
 
-        const html = await this.scraper.fetchPage(database, page);
-        const parsed = this.scraper.parseDecisions(html, database);
-        const decisions = parsed.map(p => this.scraper.toDecision(p, database));
+        const apiPage = await this.fetchApiPage(database, page);
+        const html = apiPage ? null : await this.scraper.fetchPage(database, page);
+        const parsed = apiPage ? apiPage.decisions : this.scraper.parseDecisions(html!, database);
+        const decisions = this.normalizeDecisions(parsed.map(p => this.scraper.toDecision(p, database)));
 
         if (decisions.length === 0) {
           consecutiveEmptyPages++;
@@ -148,11 +224,11 @@ export class DecisionIndexer {
 
         // Estimate total pages if not known
         if (totalPages === null) {
-          totalPages = this.scraper.estimateTotalPages(html);
+          totalPages = apiPage ? apiPage.totalPages : this.scraper.estimateTotalPages(html!);
         }
 
         // Check for more results
-        if (!this.scraper.hasMoreResults(html)) {
+        if (!(apiPage ? apiPage.hasMore : this.scraper.hasMoreResults(html!))) {
           hasMore = false;
         }
 
@@ -169,6 +245,14 @@ export class DecisionIndexer {
         if (this.onError) {
           this.onError(err, database, page);
         }
+        this.alerts.report({
+          type: 'indexing_error',
+          severity: 'warning',
+          database,
+          title: `Indexing ${DATABASE_CONFIG[database].name} failed`,
+          message: `Page ${page} of ${database} failed to index: ${err.message}`,
+          details: { page, error: err.message }
+        });
 
         if (!this.continueOnError) {
           this.updateProgress(database, page, totalPages, totalIndexed, startTime, 'failed', err.message);
@@ -185,6 +269,11 @@ export class DecisionIndexer {
     this.updateProgress(database, page, totalPages, totalIndexed, startTime, 'completed');
     console.error(`[Indexer] Completed ${DATABASE_CONFIG[database].name}: ${totalIndexed} documents indexed`);
 
+    if (totalIndexed > 0) {
+      this.clusterAppraisers();
+      await this.embedNewDecisions(database);
+    }
+
     return totalIndexed;
   }
 
@@ -202,7 +291,7 @@ export class DecisionIndexer {
 
       for (let page = 0; page < pagesToCheck; page++) {
         try {
-          const decisions = await this.scraper.fetchAndParse(database, page);
+          const decisions = this.normalizeDecisions(await this.fetchDecisions(database, page));
           let newCount = 0;
 
           for (const decision of decisions) {
@@ -234,6 +323,12 @@ export class DecisionIndexer {
     }
 
     this.db!.setMetadata('last_update', new Date().toISOString());
+
+    if ([...results.values()].some(count => count > 0)) {
+      this.clusterAppraisers();
+      await this.embedNewDecisions();
+    }
+
     return results;
   }
 
@@ -247,7 +342,7 @@ export class DecisionIndexer {
 
     for (let page = startPage; page <= endPage; page++) {
       try {
-        const decisions = await this.scraper.fetchAndParse(database, page);
+        const decisions = this.normalizeDecisions(await this.fetchDecisions(database, page));
         const inserted = this.db!.insertDecisions(decisions);
         totalIndexed += inserted;
         console.error(`[Indexer] Page ${page}: ${inserted} new of ${decisions.length}`);
@@ -258,9 +353,86 @@ export class DecisionIndexer {
       }
     }
 
+    if (totalIndexed > 0) {
+      this.clusterAppraisers();
+      await this.embedNewDecisions(database);
+    }
+
     return totalIndexed;
   }
 
+  /**
+   * One page from the gov.il JSON endpoint, or null when listings come from
+   * the HTML scraper: the html source, or the auto source after the endpoint
+   * failed (it is not retried for the rest of the run)
+   */
+  private async fetchApiPage(database: DatabaseType, page: number): Promise<DynamicCollectorPage | null> {
+    if (!this.collector || this.apiFailed) return null;
+
+    try {
+      return await this.collector.fetchPage(database, page);
+    } catch (error) {
+      if (!this.continueOnApiError) throw error;
+      this.apiFailed = true;
+      console.error('[Indexer] gov.il API failed - falling back to HTML scraping:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * The decisions on one page, from the selected source
+   */
+  private async fetchDecisions(database: DatabaseType, page: number): Promise<Omit<Decision, 'indexedAt'>[]> {
+    const apiPage = await this.fetchApiPage(database, page);
+    if (!apiPage) return this.scraper.fetchAndParse(database, page);
+    return apiPage.decisions.map(p => this.scraper.toDecision(p, database));
+  }
+
+  /**
+   * Cluster the appraiser spellings of new decisions with the known
+   * appraisers (appraiser-identity.ts)
+   */
+  private clusterAppraisers(): void {
+    const changed = this.db!.refreshAppraisers();
+    console.error(`[Indexer] Assigned appraisers to ${changed} decisions`);
+  }
+
+  /**
+   * Embed decisions added since the last run into the vector store.
+   * Skipped when the local model is not installed or the store is Pinecone
+   * (its vectors are built by the Python indexer); embedding failures never
+   * fail the indexing run.
+   */
+  async embedNewDecisions(database?: DatabaseType): Promise<void> {
+    if (!this.embed || !this.db) return;
+
+    if (!(await isLocalEmbeddingAvailable())) {
+      console.error('[Indexer] Local embedding model unavailable - skipping embeddings (run npm run embed later)');
+      return;
+    }
+
+    try {
+      const store = getVectorStore();
+      if (store.kind === 'pinecone') return;
+
+      const result = await embedPendingDecisions(this.db, store, { database });
+      console.error(`[Indexer] Embedded ${result.embedded} decisions (${result.chunks} chunks), removed ${result.removed}`);
+    } catch (error) {
+      console.error('[Indexer] Embedding failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Normalization before insert: the canonical committee_id of each decision's
+   * committee (committee-gazetteer.ts), null when the committee is not listed
+   */
+  private normalizeDecisions(decisions: Omit<Decision, 'indexedAt'>[]): Omit<Decision, 'indexedAt'>[] {
+    return decisions.map(decision => ({
+      ...decision,
+      committeeId: resolveCommittee(decision.committee)?.id ?? null
+    }));
+  }
+
   /**
    * Update progress tracking
    */
@@ -0,0 +1,916 @@
+/**
+ * Schema Migrations for the Decisions Database
+ * Ordered, versioned up-migrations replacing ad-hoc ALTER TABLE calls.
+ *
+ * - The applied versions are recorded in the schema_version table
+ * - Each migration runs in its own transaction together with its backfill,
+ *   so a failure leaves the database at the previous version
+ * - Dry-run applies every pending migration inside a transaction, reports
+ *   what would change (including backfill row counts), then rolls back
+ * - Backfills over every decision work in batches and yield between them, so
+ *   runMigrationsAsync lets the server answer requests while it migrates
+ * - Migrations must be idempotent: databases created before versioning have
+ *   no schema_version rows, so every migration runs against them once
+ *
+ * To change the schema, append a new migration - never edit an applied one.
+ */
+
+import { SqlValue, StorageBackend } from './storage.js';
+import { parseDateToIso } from './date-parser.js';
+import { splitPassages } from './passage-chunker.js';
+import { resolveCommittee } from './committee-gazetteer.js';
+import { clusterAppraiserNames } from './appraiser-identity.js';
+import { parseParcels } from './parcel-parser.js';
+import { PAGE_BREAK } from './pdf-layout.js';
+import { DecisionParcel } from './types.js';
+
+/**
+ * Columns indexed by the decisions_fts full-text table, in declaration order.
+ * bm25() takes one weight per column in this same order.
+ */
+export const FTS_COLUMNS = ['title', 'committee', 'appraiser', 'case_type', 'pdf_text'] as const;
+
+export type FtsColumn = typeof FTS_COLUMNS[number];
+
+// Characters of a PDF's first page searched for the decision's parcels
+const PDF_PARCEL_CHARS = 3000;
+
+// Decisions per backfill batch; runMigrationsAsync yields to the event loop between batches
+const BACKFILL_BATCH_SIZE = 500;
+
+/** A backfill that yields after each batch and returns the number of rows touched */
+export type BatchedBackfill = Generator<void, number, void>;
+
+export interface Migration {
+  version: number;
+  name: string;
+  description: string;
+  /** Schema changes (DDL) */
+  up: (db: StorageBackend) => void;
+  /** Data backfill run after up(); returns the number of rows touched */
+  backfill?: (db: StorageBackend) => number | BatchedBackfill;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  backfilledRows: number;
+  durationMs: number;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedMigration[];
+  dryRun: boolean;
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+  onProgress?: (migration: Migration) => void;
+}
+
+/**
+ * Check whether a table has a given column
+ */
+function hasColumn(db: StorageBackend, table: string, column: string): boolean {
+  const result = db.exec(`PRAGMA table_info(${table})`);
+  if (result.length === 0) return false;
+  const nameIndex = result[0].columns.indexOf('name');
+  return result[0].values.some(row => row[nameIndex] === column);
+}
+
+/**
+ * Walk the decisions table in rowid order, BACKFILL_BATCH_SIZE rows at a time,
+ * yielding after each batch. Returns the number of rows visited.
+ */
+function* forEachDecisionBatch(
+  db: StorageBackend,
+  columns: string,
+  where: string,
+  visit: (rows: SqlValue[][]) => void
+): BatchedBackfill {
+  let lastRowid = 0;
+  let count = 0;
+  for (;;) {
+    const result = db.exec(
+      `SELECT rowid, ${columns} FROM decisions WHERE rowid > ?${where ? ` AND ${where}` : ''} ORDER BY rowid LIMIT ?`,
+      [lastRowid, BACKFILL_BATCH_SIZE]
+    );
+    const rows = result.length > 0 ? result[0].values : [];
+    if (rows.length === 0) return count;
+
+    visit(rows.map(row => row.slice(1)));
+    lastRowid = Number(rows[rows.length - 1][0]);
+    count += rows.length;
+    yield;
+  }
+}
+
+/**
+ * Add a column unless it already exists (tables from before versioning may have it)
+ */
+function addColumnIfMissing(db: StorageBackend, table: string, column: string, type: string): void {
+  if (!hasColumn(db, table, column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    description: 'decisions, metadata, indexer_progress and pdf_cache tables',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS decisions (
+          id TEXT PRIMARY KEY,
+          database TEXT NOT NULL,
+          title TEXT NOT NULL,
+          url TEXT,
+          block TEXT,
+          plot TEXT,
+          committee TEXT,
+          appraiser TEXT,
+          case_type TEXT,
+          decision_date TEXT,
+          publish_date TEXT,
+          content_hash TEXT NOT NULL,
+          pdf_text TEXT,
+          indexed_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+
+      db.run(`CREATE INDEX IF NOT EXISTS idx_database ON decisions(database)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_committee ON decisions(committee)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_block_plot ON decisions(block, plot)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_appraiser ON decisions(appraiser)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_case_type ON decisions(case_type)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_decision_date ON decisions(decision_date)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_content_hash ON decisions(content_hash)`);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS metadata (
+          key TEXT PRIMARY KEY,
+          value TEXT,
+          updated_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS indexer_progress (
+          database TEXT PRIMARY KEY,
+          current_page INTEGER DEFAULT 0,
+          total_pages INTEGER,
+          documents_indexed INTEGER DEFAULT 0,
+          status TEXT DEFAULT 'pending',
+          error TEXT,
+          updated_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+
+      // US-PDF-005: PDF cache tracking table
+      db.run(`
+        CREATE TABLE IF NOT EXISTS pdf_cache (
+          decision_id TEXT PRIMARY KEY,
+          file_path TEXT NOT NULL,
+          file_size INTEGER NOT NULL,
+          file_hash TEXT NOT NULL,
+          cached_at TEXT DEFAULT (datetime('now')),
+          last_accessed TEXT,
+          extraction_status TEXT DEFAULT 'pending'
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_pdf_cache_status ON pdf_cache(extraction_status)`);
+    }
+  },
+  {
+    version: 2,
+    name: 'decisions_year',
+    description: 'year column (PRD US-P2-003) for year filtering',
+    up: (db) => {
+      addColumnIfMissing(db, 'decisions', 'year', 'TEXT');
+      db.run(`CREATE INDEX IF NOT EXISTS idx_year ON decisions(year)`);
+    },
+    backfill: (db) => {
+      // Same extraction as the scraper: first 4-digit run in decision_date
+      const result = db.exec(
+        `SELECT id, decision_date FROM decisions WHERE year IS NULL AND decision_date IS NOT NULL`
+      );
+      if (result.length === 0) return 0;
+
+      let updated = 0;
+      for (const [id, decisionDate] of result[0].values) {
+        const yearMatch = String(decisionDate).match(/(\d{4})/);
+        if (!yearMatch) continue;
+        db.run(`UPDATE decisions SET year = ? WHERE id = ?`, [yearMatch[1], id as string]);
+        updated++;
+      }
+      return updated;
+    }
+  },
+  {
+    version: 3,
+    name: 'full_text_index',
+    description: 'FTS5 index over decision metadata and PDF text, kept in sync by triggers',
+    up: (db) => {
+      const columns = FTS_COLUMNS.join(', ');
+      const newValues = FTS_COLUMNS.map(c => `new.${c}`).join(', ');
+      const oldValues = FTS_COLUMNS.map(c => `old.${c}`).join(', ');
+
+      // External-content table: the text itself is stored only once (in decisions)
+      db.run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS decisions_fts USING fts5(
+          ${columns},
+          content='decisions',
+          content_rowid='rowid',
+          tokenize='unicode61 remove_diacritics 2'
+        )
+      `);
+
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS decisions_fts_insert AFTER INSERT ON decisions BEGIN
+          INSERT INTO decisions_fts(rowid, ${columns}) VALUES (new.rowid, ${newValues});
+        END
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS decisions_fts_delete AFTER DELETE ON decisions BEGIN
+          INSERT INTO decisions_fts(decisions_fts, rowid, ${columns}) VALUES ('delete', old.rowid, ${oldValues});
+        END
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS decisions_fts_update AFTER UPDATE OF ${columns} ON decisions BEGIN
+          INSERT INTO decisions_fts(decisions_fts, rowid, ${columns}) VALUES ('delete', old.rowid, ${oldValues});
+          INSERT INTO decisions_fts(rowid, ${columns}) VALUES (new.rowid, ${newValues});
+        END
+      `);
+    },
+    // A 'rebuild' in batches: the rowids are the decisions' own
+    backfill: function* (db) {
+      const columns = FTS_COLUMNS.join(', ');
+      const placeholders = FTS_COLUMNS.map(() => '?').join(', ');
+      db.run(`INSERT INTO decisions_fts(decisions_fts) VALUES ('delete-all')`);
+      return yield* forEachDecisionBatch(db, `rowid, ${columns}`, '', rows => {
+        for (const row of rows) {
+          db.run(`INSERT INTO decisions_fts(rowid, ${columns}) VALUES (?, ${placeholders})`, row);
+        }
+      });
+    }
+  },
+  {
+    version: 4,
+    name: 'iso_dates',
+    description: 'decision_date_iso / publish_date_iso (YYYY-MM-DD) for exact date-range filtering',
+    up: (db) => {
+      addColumnIfMissing(db, 'decisions', 'decision_date_iso', 'TEXT');
+      addColumnIfMissing(db, 'decisions', 'publish_date_iso', 'TEXT');
+      db.run(`CREATE INDEX IF NOT EXISTS idx_decision_date_iso ON decisions(decision_date_iso)`);
+    },
+    backfill: (db) => {
+      // Rows whose dates cannot be resolved to a single day keep NULL
+      const result = db.exec(`SELECT id, decision_date, publish_date FROM decisions`);
+      if (result.length === 0) return 0;
+
+      let updated = 0;
+      for (const [id, decisionDate, publishDate] of result[0].values) {
+        const decisionDateIso = parseDateToIso(decisionDate as string | null);
+        const publishDateIso = parseDateToIso(publishDate as string | null);
+        if (!decisionDateIso && !publishDateIso) continue;
+
+        db.run(
+          `UPDATE decisions SET decision_date_iso = ?, publish_date_iso = ? WHERE id = ?`,
+          [decisionDateIso, publishDateIso, id as string]
+        );
+        updated++;
+      }
+      return updated;
+    }
+  },
+  {
+    version: 5,
+    name: 'decision_parameters',
+    description: 'structured parameters extracted from decision text, with per-decision extraction status',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS decision_parameters (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          decision_id TEXT NOT NULL,
+          param_type TEXT NOT NULL,
+          param_subtype TEXT,
+          value_numeric REAL,
+          value_text TEXT,
+          unit TEXT,
+          confidence REAL NOT NULL,
+          context_snippet TEXT,
+          extraction_method TEXT NOT NULL,
+          extracted_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_params_decision ON decision_parameters(decision_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_params_type_subtype ON decision_parameters(param_type, param_subtype)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_params_type_value ON decision_parameters(param_type, value_numeric)`);
+
+      // One row per processed decision; decisions without a row are pending
+      db.run(`
+        CREATE TABLE IF NOT EXISTS parameter_extraction (
+          decision_id TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          parameter_count INTEGER DEFAULT 0,
+          error TEXT,
+          updated_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_param_extraction_status ON parameter_extraction(status)`);
+    }
+  },
+  {
+    version: 6,
+    name: 'comparison_transactions',
+    description: 'comparison transactions from decision tables, deduplicated across the decisions citing them',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS comparison_transactions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          transaction_key TEXT NOT NULL UNIQUE,
+          address TEXT,
+          city TEXT,
+          block TEXT,
+          plot TEXT,
+          transaction_date TEXT,
+          area_sqm REAL,
+          price REAL,
+          price_per_sqm REAL,
+          first_seen_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_transactions_city ON comparison_transactions(city)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_transactions_block_plot ON comparison_transactions(block, plot)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_transactions_date ON comparison_transactions(transaction_date)`);
+
+      // Which decisions cite which transaction, and where
+      db.run(`
+        CREATE TABLE IF NOT EXISTS decision_transactions (
+          decision_id TEXT NOT NULL,
+          transaction_id INTEGER NOT NULL,
+          page INTEGER,
+          PRIMARY KEY (decision_id, transaction_id)
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_decision_transactions_tx ON decision_transactions(transaction_id)`);
+
+      // One row per processed decision PDF; decisions without a row are pending
+      db.run(`
+        CREATE TABLE IF NOT EXISTS transaction_extraction (
+          decision_id TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          transaction_count INTEGER DEFAULT 0,
+          error TEXT,
+          updated_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: 'pdf_pages',
+    description: 'per-page PDF text and line/column layout alongside decisions.pdf_text',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS pdf_pages (
+          decision_id TEXT NOT NULL,
+          page_number INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          lines TEXT,
+          PRIMARY KEY (decision_id, page_number)
+        )
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: 'ocr_extraction',
+    description: 'pdf_cache.extraction_method (text / ocr) and per-page OCR confidence in pdf_pages',
+    up: (db) => {
+      addColumnIfMissing(db, 'pdf_cache', 'extraction_method', 'TEXT');
+      addColumnIfMissing(db, 'pdf_pages', 'ocr_confidence', 'REAL');
+    },
+    backfill: (db) => {
+      // Text cached so far came from the PDF text layer
+      const pending = `
+        FROM pdf_cache WHERE extraction_method IS NULL
+        AND decision_id IN (SELECT id FROM decisions WHERE pdf_text IS NOT NULL AND pdf_text != '')
+      `;
+      const result = db.exec(`SELECT COUNT(*) ${pending}`);
+      const count = result.length > 0 ? Number(result[0].values[0][0]) : 0;
+      db.run(`UPDATE pdf_cache SET extraction_method = 'text' WHERE rowid IN (SELECT rowid ${pending})`);
+      return count;
+    }
+  },
+  {
+    version: 9,
+    name: 'decision_passages',
+    description: 'section-aware passages of decision text with page ranges, full-text indexed',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS decision_passages (
+          id INTEGER PRIMARY KEY,
+          decision_id TEXT NOT NULL,
+          passage_index INTEGER NOT NULL,
+          section_type TEXT NOT NULL,
+          section_title TEXT,
+          text TEXT NOT NULL,
+          char_start INTEGER NOT NULL,
+          char_end INTEGER NOT NULL,
+          page_start INTEGER,
+          page_end INTEGER,
+          UNIQUE (decision_id, passage_index)
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_passages_section ON decision_passages(section_type)`);
+
+      db.run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS passages_fts USING fts5(
+          text,
+          content='decision_passages',
+          content_rowid='id',
+          tokenize='unicode61 remove_diacritics 2'
+        )
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS passages_fts_insert AFTER INSERT ON decision_passages BEGIN
+          INSERT INTO passages_fts(rowid, text) VALUES (new.id, new.text);
+        END
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS passages_fts_delete AFTER DELETE ON decision_passages BEGIN
+          INSERT INTO passages_fts(passages_fts, rowid, text) VALUES ('delete', old.id, old.text);
+        END
+      `);
+
+      // Passages follow their decision (INSERT OR REPLACE deletes it first)
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS decision_passages_cleanup AFTER DELETE ON decisions BEGIN
+          DELETE FROM decision_passages WHERE decision_id = old.id;
+        END
+      `);
+    },
+    backfill: (db) => forEachDecisionBatch(db, 'id, pdf_text', `pdf_text IS NOT NULL AND pdf_text != ''`, rows => {
+      for (const [id, pdfText] of rows) {
+        replaceDecisionPassages(db, id as string, pdfText as string);
+      }
+    })
+  },
+  {
+    version: 10,
+    name: 'committee_ids',
+    description: 'canonical committee_id from the committee gazetteer, so spelling variants filter and group together',
+    up: (db) => {
+      addColumnIfMissing(db, 'decisions', 'committee_id', 'TEXT');
+      db.run(`CREATE INDEX IF NOT EXISTS idx_committee_id ON decisions(committee_id)`);
+    },
+    backfill: (db) => assignCommitteeIds(db)
+  },
+  {
+    version: 11,
+    name: 'appraisers',
+    description: 'appraiser entities with their spellings as aliases, and decisions.appraiser_id',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS appraisers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          canonical_name TEXT NOT NULL,
+          name_key TEXT NOT NULL,
+          updated_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_appraisers_key ON appraisers(name_key)`);
+
+      // Every spelling of decisions.appraiser, mapped to its appraiser
+      db.run(`
+        CREATE TABLE IF NOT EXISTS appraiser_aliases (
+          alias TEXT PRIMARY KEY,
+          appraiser_id INTEGER NOT NULL,
+          decision_count INTEGER NOT NULL DEFAULT 0
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_appraiser_aliases_appraiser ON appraiser_aliases(appraiser_id)`);
+
+      addColumnIfMissing(db, 'decisions', 'appraiser_id', 'INTEGER');
+      db.run(`CREATE INDEX IF NOT EXISTS idx_appraiser_id ON decisions(appraiser_id)`);
+    },
+    backfill: (db) => assignAppraiserIds(db)
+  },
+  {
+    version: 12,
+    name: 'gush_locations',
+    description: 'gush centroids, localities and neighboring blocks from an offline boundary dataset (scripts/load-gush-layer.ts)',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS gush_locations (
+          gush TEXT PRIMARY KEY,
+          locality TEXT,
+          lat REAL NOT NULL,
+          lon REAL NOT NULL,
+          area_sqm REAL
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_gush_locations_lat_lon ON gush_locations(lat, lon)`);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS gush_neighbors (
+          gush TEXT NOT NULL,
+          neighbor TEXT NOT NULL,
+          PRIMARY KEY (gush, neighbor)
+        )
+      `);
+    }
+  },
+  {
+    version: 13,
+    name: 'decision_parcels',
+    description: 'every block/plot/sub-plot and lot a decision refers to, with plot ranges, read from the title and PDF text',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS decision_parcels (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          decision_id TEXT NOT NULL,
+          block INTEGER,
+          plot_from INTEGER,
+          plot_to INTEGER,
+          sub_plot INTEGER,
+          lot_from INTEGER,
+          lot_to INTEGER,
+          partial INTEGER NOT NULL DEFAULT 0,
+          source TEXT NOT NULL
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_parcels_decision ON decision_parcels(decision_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_parcels_block_plot ON decision_parcels(block, plot_from, plot_to)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_parcels_lot ON decision_parcels(lot_from, lot_to)`);
+
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS decision_parcels_cleanup AFTER DELETE ON decisions BEGIN
+          DELETE FROM decision_parcels WHERE decision_id = old.id;
+        END
+      `);
+    },
+    backfill: (db) => forEachDecisionBatch(db, 'id', '', rows => {
+      for (const [id] of rows) {
+        replaceDecisionParcels(db, id as string);
+      }
+    })
+  },
+  {
+    version: 14,
+    name: 'selector_configs',
+    description: 'versions of the scraper primary selectors, learned from indexed decisions after a page redesign, with the active one',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS selector_configs (
+          version INTEGER PRIMARY KEY AUTOINCREMENT,
+          selectors TEXT NOT NULL,
+          source TEXT NOT NULL,
+          database TEXT,
+          anchors INTEGER NOT NULL DEFAULT 0,
+          item_count INTEGER NOT NULL DEFAULT 0,
+          active INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT DEFAULT (datetime('now')),
+          activated_at TEXT
+        )
+      `);
+    }
+  },
+  {
+    version: 15,
+    name: 'alert_log',
+    description: 'alerts raised by the scraper, indexer and health checks, with their delivery status, for deduplication and throttling',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS alert_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          alert_key TEXT NOT NULL,
+          severity TEXT NOT NULL,
+          title TEXT NOT NULL,
+          message TEXT NOT NULL,
+          database TEXT,
+          details TEXT,
+          status TEXT NOT NULL,
+          sinks TEXT,
+          created_at TEXT NOT NULL
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_alert_log_key ON alert_log(alert_key, status, created_at)`);
+    }
+  }
+];
+
+/**
+ * Resolve the committee of every decision against the gazetteer (v10).
+ * Returns the number of decisions whose committee_id changed. Append a
+ * migration calling this when gazetteer entries or aliases change.
+ */
+export function assignCommitteeIds(db: StorageBackend): number {
+  const result = db.exec(`SELECT id, committee, committee_id FROM decisions WHERE committee IS NOT NULL`);
+  if (result.length === 0) return 0;
+
+  let updated = 0;
+  for (const [id, committee, committeeId] of result[0].values) {
+    const resolved = resolveCommittee(committee as string)?.id ?? null;
+    if (resolved === committeeId) continue;
+    db.run(`UPDATE decisions SET committee_id = ? WHERE id = ?`, [resolved, id as string]);
+    updated++;
+  }
+  return updated;
+}
+
+/**
+ * Re-split a decision's text into decision_passages (v9). Used by the
+ * migration backfill and whenever DecisionDatabase saves PDF text.
+ * Returns the number of passages written.
+ */
+export function replaceDecisionPassages(db: StorageBackend, decisionId: string, pdfText: string | null): number {
+  db.run(`DELETE FROM decision_passages WHERE decision_id = ?`, [decisionId]);
+
+  const passages = splitPassages(pdfText ?? '');
+  for (const passage of passages) {
+    db.run(
+      `INSERT INTO decision_passages
+       (decision_id, passage_index, section_type, section_title, text, char_start, char_end, page_start, page_end)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        decisionId, passage.index, passage.sectionType, passage.sectionTitle, passage.text,
+        passage.charStart, passage.charEnd, passage.pageStart, passage.pageEnd
+      ]
+    );
+  }
+  return passages.length;
+}
+
+/**
+ * Re-read the parcels of a decision from its title, the first page of its PDF
+ * text and its block/plot columns into decision_parcels (v13). Used by the
+ * migration backfill and whenever DecisionDatabase inserts a decision or saves
+ * its PDF text. Returns the number of parcels written.
+ */
+export function replaceDecisionParcels(db: StorageBackend, decisionId: string): number {
+  db.run(`DELETE FROM decision_parcels WHERE decision_id = ?`, [decisionId]);
+
+  const result = db.exec(`SELECT title, block, plot, pdf_text FROM decisions WHERE id = ?`, [decisionId]);
+  if (result.length === 0 || result[0].values.length === 0) return 0;
+  const [title, block, plot, pdfText] = result[0].values[0];
+
+  const parcels: DecisionParcel[] = parseParcels(String(title ?? ''), { abbreviations: true })
+    .map(parcel => ({ ...parcel, source: 'title' as const }));
+
+  // Parcels under discussion are named in the heading; later pages cite other parcels (comparisons)
+  if (pdfText) {
+    const heading = String(pdfText).split(PAGE_BREAK)[0].slice(0, PDF_PARCEL_CHARS);
+    parcels.push(...parseParcels(heading).map(parcel => ({ ...parcel, source: 'pdf' as const })));
+  }
+
+  const blockNumber = block !== null && /^\d+$/.test(String(block)) ? Number(block) : null;
+  const plotNumber = plot !== null && /^\d+$/.test(String(plot)) ? Number(plot) : null;
+  if (blockNumber !== null && !parcels.some(p => p.block === blockNumber && (plotNumber === null || parcelHasPlot(p, plotNumber)))) {
+    parcels.push({
+      block: blockNumber, plots: plotNumber !== null ? { from: plotNumber, to: plotNumber } : null,
+      subPlot: null, lots: null, partial: false, source: 'metadata'
+    });
+  }
+
+  const seen = new Set<string>();
+  let written = 0;
+  for (const parcel of parcels) {
+    const values = [
+      parcel.block, parcel.plots?.from ?? null, parcel.plots?.to ?? null, parcel.subPlot,
+      parcel.lots?.from ?? null, parcel.lots?.to ?? null, parcel.partial ? 1 : 0
+    ];
+    const key = values.join('|');
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    db.run(
+      `INSERT INTO decision_parcels
+       (decision_id, block, plot_from, plot_to, sub_plot, lot_from, lot_to, partial, source)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [decisionId, ...values, parcel.source]
+    );
+    written++;
+  }
+  return written;
+}
+
+function parcelHasPlot(parcel: DecisionParcel, plot: number): boolean {
+  return parcel.plots !== null && parcel.plots.from <= plot && plot <= parcel.plots.to;
+}
+
+/**
+ * Re-cluster the appraiser spellings in decisions (appraiser-identity.ts) and
+ * point every decision at its appraiser (v11). An appraiser keeps its id as
+ * long as one of its spellings does, so ids stay stable as decisions are
+ * added. Runs after every indexing pass; returns the number of decisions
+ * whose appraiser_id changed.
+ */
+export function assignAppraiserIds(db: StorageBackend): number {
+  const result = db.exec(`
+    SELECT appraiser, COUNT(*) FROM decisions
+    WHERE appraiser IS NOT NULL AND appraiser != ''
+    GROUP BY appraiser
+  `);
+  const names = result.length > 0
+    ? result[0].values.map(([name, count]) => ({ name: String(name), count: Number(count) }))
+    : [];
+
+  const previous = db.exec(`SELECT alias, appraiser_id FROM appraiser_aliases`);
+  const previousIds = new Map<string, number>(
+    previous.length > 0 ? previous[0].values.map(([alias, id]) => [String(alias), Number(id)]) : []
+  );
+  db.run(`DELETE FROM appraiser_aliases`);
+
+  const claimed = new Set<number>();
+  for (const cluster of clusterAppraiserNames(names)) {
+    // The id of the cluster's most used spelling that is not taken by a larger cluster
+    let id = cluster.variants
+      .map(variant => previousIds.get(variant.name))
+      .find((candidate): candidate is number => candidate !== undefined && !claimed.has(candidate));
+
+    if (id === undefined) {
+      db.run(`INSERT INTO appraisers (canonical_name, name_key) VALUES (?, ?)`, [cluster.canonicalName, cluster.key]);
+      id = Number(db.exec(`SELECT last_insert_rowid()`)[0].values[0][0]);
+    } else {
+      db.run(
+        `UPDATE appraisers SET canonical_name = ?, name_key = ?, updated_at = datetime('now') WHERE id = ?`,
+        [cluster.canonicalName, cluster.key, id]
+      );
+    }
+    claimed.add(id);
+
+    for (const variant of cluster.variants) {
+      db.run(
+        `INSERT INTO appraiser_aliases (alias, appraiser_id, decision_count) VALUES (?, ?, ?)`,
+        [variant.name, id, variant.count]
+      );
+    }
+  }
+
+  // Appraisers merged into another, or whose decisions are gone
+  db.run(`DELETE FROM appraisers WHERE id NOT IN (SELECT appraiser_id FROM appraiser_aliases)`);
+
+  const changed = db.exec(`
+    SELECT COUNT(*) FROM decisions
+    LEFT JOIN appraiser_aliases a ON a.alias = decisions.appraiser
+    WHERE decisions.appraiser_id IS NOT a.appraiser_id
+  `);
+  db.run(`
+    UPDATE decisions SET appraiser_id = (
+      SELECT appraiser_id FROM appraiser_aliases WHERE alias = decisions.appraiser
+    )
+  `);
+  return changed.length > 0 ? Number(changed[0].values[0][0]) : 0;
+}
+
+/**
+ * Latest schema version known to this build
+ */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Create the schema_version table if missing
+ */
+function ensureVersionTable(db: StorageBackend): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+}
+
+/**
+ * Current schema version (0 for new databases and databases created before versioning)
+ */
+export function getSchemaVersion(db: StorageBackend): number {
+  const table = db.exec(
+    `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'`
+  );
+  if (table.length === 0 || table[0].values.length === 0) return 0;
+
+  const result = db.exec(`SELECT MAX(version) FROM schema_version`);
+  return result.length > 0 && result[0].values[0][0] !== null ? Number(result[0].values[0][0]) : 0;
+}
+
+/**
+ * Migrations not yet applied, in order
+ */
+export function getPendingMigrations(db: StorageBackend): Migration[] {
+  const current = getSchemaVersion(db);
+  return MIGRATIONS.filter(m => m.version > current);
+}
+
+/**
+ * Apply all pending migrations, yielding between backfill batches.
+ * Throws if the database was written by a newer build (unknown schema version)
+ * or if a migration fails; a failed migration is rolled back.
+ */
+function* migrationSteps(db: StorageBackend, options: MigrationOptions): Generator<void, MigrationResult, void> {
+  const { dryRun = false, onProgress } = options;
+
+  const fromVersion = getSchemaVersion(db);
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${fromVersion} is newer than this build supports (${LATEST_SCHEMA_VERSION})`
+    );
+  }
+
+  const pending = getPendingMigrations(db);
+  const applied: AppliedMigration[] = [];
+  if (pending.length === 0) {
+    return { fromVersion, toVersion: fromVersion, applied, dryRun };
+  }
+
+  // Dry-run wraps everything in one transaction that is always rolled back
+  if (dryRun) db.run('BEGIN');
+
+  try {
+    ensureVersionTable(db);
+
+    for (const migration of pending) {
+      onProgress?.(migration);
+      const startTime = Date.now();
+
+      if (!dryRun) db.run('BEGIN');
+      try {
+        migration.up(db);
+        const backfill = migration.backfill ? migration.backfill(db) : 0;
+        const backfilledRows = typeof backfill === 'number' ? backfill : yield* backfill;
+        db.run(
+          `INSERT INTO schema_version (version, name) VALUES (?, ?)`,
+          [migration.version, migration.name]
+        );
+        if (!dryRun) db.run('COMMIT');
+
+        applied.push({
+          version: migration.version,
+          name: migration.name,
+          backfilledRows,
+          durationMs: Date.now() - startTime
+        });
+      } catch (error) {
+        if (!dryRun) db.run('ROLLBACK');
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${message}`);
+      }
+    }
+  } finally {
+    if (dryRun) db.run('ROLLBACK');
+  }
+
+  return {
+    fromVersion,
+    toVersion: applied[applied.length - 1].version,
+    applied,
+    dryRun
+  };
+}
+
+/**
+ * Run a migration's backfill to completion (batched ones included) and
+ * return the number of rows it touched
+ */
+export function runBackfill(db: StorageBackend, migration: Migration): number {
+  const backfill = migration.backfill ? migration.backfill(db) : 0;
+  if (typeof backfill === 'number') return backfill;
+  for (;;) {
+    const step = backfill.next();
+    if (step.done) return step.value;
+  }
+}
+
+/**
+ * Apply all pending migrations in one go (scripts, tests and dry runs).
+ * Throws if the database was written by a newer build (unknown schema version)
+ * or if a migration fails; a failed migration is rolled back.
+ */
+export function runMigrations(db: StorageBackend, options: MigrationOptions = {}): MigrationResult {
+  const steps = migrationSteps(db, options);
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+  }
+}
+
+/**
+ * Apply all pending migrations, returning to the event loop between backfill
+ * batches so a server keeps answering while it migrates. Nothing else may use
+ * the database until this resolves: each migration's transaction stays open
+ * across the pauses.
+ */
+export async function runMigrationsAsync(db: StorageBackend, options: MigrationOptions = {}): Promise<MigrationResult> {
+  const steps = migrationSteps(db, options);
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
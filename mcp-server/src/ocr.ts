@@ -0,0 +1,167 @@
+/**
+ * Local OCR for Scanned Decisions
+ * Older decisions are scanned images with no text layer. Their pages are
+ * rendered with convertToImages (pdf-to-image.ts) and recognized offline by a
+ * local Tesseract binary with the Hebrew model (apt install tesseract-ocr
+ * tesseract-ocr-heb), so the text becomes searchable like any other decision.
+ *
+ * Tesseract's TSV output gives a confidence (0-100) per word; each page's
+ * confidence is the mean over its words, stored with the page in pdf_pages.
+ *
+ * Environment:
+ *   TESSERACT_PATH   Tesseract binary (default: tesseract on PATH)
+ *   OCR_LANGUAGE     Tesseract language model(s) (default: heb)
+ */
+
+import { spawn } from 'child_process';
+import { convertToImages } from './pdf-to-image.js';
+
+const TESSERACT_PATH = process.env.TESSERACT_PATH || 'tesseract';
+const OCR_LANGUAGE = process.env.OCR_LANGUAGE || 'heb';
+
+// Render scale for OCR (~216 DPI); the MCP image size limits do not apply
+const OCR_SCALE = 3;
+const OCR_JPEG_QUALITY = 90;
+const OCR_MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+// Give up on a page after this long
+const PAGE_TIMEOUT_MS = 120000;
+
+export interface OcrPage {
+  pageNumber: number;
+  text: string;
+  confidence: number;    // Mean word confidence, 0-100 (0 when no words were recognized)
+}
+
+export interface OcrOptions {
+  maxPages?: number;     // 0 = all pages
+  language?: string;
+}
+
+/**
+ * Run the Tesseract binary, feeding it stdin and returning stdout
+ */
+function runTesseract(args: string[], input?: Buffer): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(TESSERACT_PATH, args);
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    // Not spawn's timeout option: its timer outlives a missing binary
+    const timer = setTimeout(() => child.kill(), PAGE_TIMEOUT_MS);
+
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString('utf-8'));
+      } else {
+        reject(new Error(`tesseract exited with ${code}: ${Buffer.concat(stderr).toString('utf-8').trim()}`));
+      }
+    });
+
+    child.stdin.on('error', () => { /* reported through close */ });
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Whether a Tesseract binary with the configured language models is installed
+ */
+export async function isOcrAvailable(language: string = OCR_LANGUAGE): Promise<boolean> {
+  try {
+    // --list-langs prints "List of available languages ..." then one per line
+    const output = await runTesseract(['--list-langs']);
+    const installed = new Set(output.split('\n').map(line => line.trim()));
+    return language.split('+').every(lang => installed.has(lang));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Text and mean word confidence from Tesseract TSV output. Words are joined in
+ * the order Tesseract reads them, one line of text per recognized line.
+ */
+export function parseTesseractTsv(tsv: string): { text: string; confidence: number } {
+  const lines = new Map<string, string[]>();
+  let confidenceSum = 0;
+  let wordCount = 0;
+
+  // level page_num block_num par_num line_num word_num left top width height conf text
+  for (const row of tsv.split('\n').slice(1)) {
+    const fields = row.split('\t');
+    if (fields.length < 12 || fields[0] !== '5') continue;
+
+    const word = fields.slice(11).join('\t').trim();
+    const confidence = Number(fields[10]);
+    if (!word || confidence < 0) continue;
+
+    const lineKey = fields.slice(1, 5).join(':');
+    const line = lines.get(lineKey);
+    if (line) {
+      line.push(word);
+    } else {
+      lines.set(lineKey, [word]);
+    }
+    confidenceSum += confidence;
+    wordCount++;
+  }
+
+  return {
+    text: [...lines.values()].map(words => words.join(' ')).join('\n'),
+    confidence: wordCount > 0 ? Math.round((confidenceSum / wordCount) * 10) / 10 : 0
+  };
+}
+
+/**
+ * Recognize the text of one page image
+ */
+export async function recognizeImage(
+  image: Buffer,
+  language: string = OCR_LANGUAGE
+): Promise<{ text: string; confidence: number }> {
+  const tsv = await runTesseract(['stdin', 'stdout', '-l', language, 'tsv'], image);
+  return parseTesseractTsv(tsv);
+}
+
+/**
+ * OCR the pages of a scanned PDF. Pages that fail to render or recognize are
+ * returned empty, so page numbers stay aligned with the PDF.
+ */
+export async function ocrPdf(pdfBuffer: Buffer, options: OcrOptions = {}): Promise<OcrPage[]> {
+  const maxPages = options.maxPages && options.maxPages > 0 ? options.maxPages : Number.MAX_SAFE_INTEGER;
+  const images = await convertToImages(pdfBuffer, {
+    maxPages,
+    scale: OCR_SCALE,
+    jpegQuality: OCR_JPEG_QUALITY,
+    maxSizeBytes: OCR_MAX_IMAGE_BYTES
+  });
+
+  const pageCount = images.length > 0 ? Math.max(...images.map(image => image.pageNumber)) : 0;
+  const pages: OcrPage[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    const image = images.find(img => img.pageNumber === pageNumber);
+    if (!image) {
+      pages.push({ pageNumber, text: '', confidence: 0 });
+      continue;
+    }
+
+    try {
+      const { text, confidence } = await recognizeImage(Buffer.from(image.base64, 'base64'), options.language);
+      console.error(`[OCR] Page ${pageNumber}/${pageCount}: ${text.length} chars, confidence ${confidence}`);
+      pages.push({ pageNumber, text, confidence });
+    } catch (error) {
+      console.error(`[OCR] Page ${pageNumber} failed:`, error instanceof Error ? error.message : error);
+      pages.push({ pageNumber, text: '', confidence: 0 });
+    }
+  }
+
+  return pages;
+}
@@ -0,0 +1,668 @@
+/**
+ * Structured Parameter Extraction for Appraisal Decisions
+ * Reads typed values (coefficients, prices per m², land values, fees, land use,
+ * building plans, the outcome...) out of decision PDF text into decision_parameters rows,
+ * so search_by_parameters can filter on them without regex at query time.
+ *
+ * Extraction is rule-based and deterministic: the same text always yields the
+ * same rows. Comparison transactions are tabular: the layout-aware extractor in
+ * transaction-extractor.ts reads them from the PDF itself, and the optional LLM
+ * pass here (useLLM, requires ANTHROPIC_API_KEY) reads them from flattened text.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { ExtractedParameter, ParamType } from './types.js';
+
+/**
+ * Value extraction patterns for Hebrew legal documents
+ * Used by query_and_aggregate (index.ts) and by the extraction rules below
+ */
+export const EXTRACTION_PATTERNS: Record<string, RegExp[]> = {
+  coefficient: [
+    // "מקדם גודל 0.85", "מקדם דחייה 1.5", "מקדם היוון 0.92"
+    /מקדם\s+[\u0590-\u05FF]+(?:\s+[\u0590-\u05FF]+)*\s*[:=\-]?\s*([\d]+[.,][\d]+)/gi,
+    // "מקדם 0.85" (number right after)
+    /מקדם\s*[:=\-]?\s*([\d]+[.,][\d]+)/gi,
+    // "0.85 מקדם" (number before)
+    /([\d]+[.,][\d]+)\s*מקדם/gi
+  ],
+  price_per_sqm: [
+    /(?:שווי|מחיר|ערך)\s*(?:למ"ר|למטר|ל-מ"ר|למ״ר)?\s*[:=\-]?\s*(?:₪|ש"ח|שח)?\s*([\d,]+)/gi,
+    /([\d,]+)\s*(?:₪|ש"ח)\s*(?:למ"ר|למטר|למ״ר)/gi,
+    /(?:למ"ר|למטר)\s*[:=\-]?\s*(?:₪|ש"ח)?\s*([\d,]+)/gi
+  ],
+  percentage: [
+    /([\d.,]+)\s*%/g,
+    /(?:אחוז|שיעור)\s*[:=]?\s*([\d.,]+)/gi
+  ],
+  amount: [
+    /(?:סכום|שווי|תשלום|פיצוי|היטל)\s*[:=\-]?\s*(?:₪|ש"ח)?\s*([\d,]+(?:,\d{3})*)/gi,
+    /(?:₪|ש"ח)\s*([\d,]+(?:,\d{3})*)/gi
+  ]
+};
+
+/**
+ * Parse a number from Hebrew document context.
+ * Hebrew convention:
+ *   - Comma with exactly 3 trailing digits = thousands separator: 1,500 → 1500
+ *   - Comma with 1-2 trailing digits = decimal: 0,85 → 0.85
+ *   - Period = decimal: 0.85, 1.275
+ */
+export function parseHebrewNumber(raw: string): number | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+
+  // Thousands separator: "1,500", "12,345,678"
+  if (/^\d{1,3}(,\d{3})+$/.test(trimmed)) {
+    return parseFloat(trimmed.replace(/,/g, ''));
+  }
+
+  // Hebrew/European decimal comma: "0,85", "1,275"
+  if (/^\d+,\d{1,2}$/.test(trimmed)) {
+    return parseFloat(trimmed.replace(',', '.'));
+  }
+
+  // Standard decimal or integer: "0.85", "1.275", "150"
+  return parseFloat(trimmed.replace(/,/g, ''));
+}
+
+/**
+ * Domain-specific value ranges for Israeli land appraisal terms.
+ * Used to filter out impossible values (e.g., page numbers, table headers).
+ */
+export const VALUE_RANGES: Record<string, { min: number; max: number }> = {
+  'מקדם': { min: 0.01, max: 2.5 },
+  'אחוז': { min: 0, max: 100 },
+  'שיעור': { min: 0, max: 100 },
+};
+
+export interface ExtractParametersOptions {
+  /** Also extract comparison transactions with the LLM */
+  useLLM?: boolean;
+  /** Decision committee, used for the city parameter */
+  committee?: string | null;
+}
+
+export interface ParameterSource {
+  id: string;
+  text: string | null;
+  committee?: string | null;
+}
+
+interface NumericRule {
+  paramType: ParamType;
+  /** Capture group 1 is the value */
+  patterns: RegExp[];
+  unit: string | null;
+  range: { min: number; max: number };
+  confidence: number;
+  /** The match must contain this (for shared patterns broader than the param type) */
+  requires?: RegExp;
+  /** Skip matches right after this (a more specific rule owns them) */
+  notAfter?: RegExp;
+  /** Subtype from the match and the text around it */
+  subtype?: (match: string, around: string) => string | null;
+  /** More Hebrew words than this before the value mean a table header, not a value */
+  maxWordsBefore?: number;
+}
+
+interface TextRule {
+  paramType: ParamType;
+  /** Capture group 1 is the value */
+  patterns: RegExp[];
+  confidence: number;
+  /** Canonical form of the value, or null to drop the match */
+  normalize?: (value: string) => string | null;
+}
+
+// Characters of context kept on each side of a value
+const SNIPPET_CHARS = 60;
+
+// Guards against tables producing hundreds of rows of one type
+const MAX_PARAMETERS_PER_TYPE = 50;
+
+// Matches written per square meter (למ"ר, למ״ר, ל-מ"ר, למטר)
+const PER_SQM = /ל-?מ["״]ר|למטר/;
+
+const COEFFICIENT_SUBTYPES = [
+  'גודל', 'דחייה', 'היוון', 'ניצול', 'מיקום', 'סחירות', 'שוליות', 'התאמה',
+  'הפחתה', 'מושע', 'מרתף', 'קומה', 'בינוי', 'פיתוח', 'תחייה', 'משוקלל', 'חזית'
+];
+
+// Spelling variants found in decisions
+const COEFFICIENT_SUBTYPE_VARIANTS: Record<string, string> = {
+  'דחיה': 'דחייה',
+  'מושעא': 'מושע',
+  'תחיה': 'תחייה'
+};
+
+const PRICE_SUBTYPES: Record<string, string> = {
+  'נטו': 'נטו',
+  'ברוטו': 'ברוטו',
+  'אקוויולנטי': 'אקוויולנטי',
+  'אקוויוולנטי': 'אקוויולנטי',
+  'אקויולנטי': 'אקוויולנטי'
+};
+
+const LAND_USES: Record<string, string> = {
+  'מגורים': 'מגורים',
+  'מסחר': 'מסחר',
+  'תעשייה': 'תעשייה',
+  'תעשיה': 'תעשייה',
+  'תעסוקה': 'תעסוקה',
+  'משרדים': 'משרדים',
+  'מלונאות': 'מלונאות',
+  'חקלאות': 'חקלאות',
+  'חקלאי': 'חקלאות',
+  'מבני ציבור': 'מבני ציבור',
+  'מבנים ומוסדות ציבור': 'מבני ציבור',
+  'שטח ציבורי פתוח': 'שטח ציבורי פתוח',
+  'שצ"פ': 'שטח ציבורי פתוח'
+};
+
+const AREA_ZONES: Record<string, string> = {
+  'תעשייה': 'אזור תעשייה',
+  'תעשיה': 'אזור תעשייה',
+  'תעסוקה': 'אזור תעסוקה',
+  'מלאכה': 'אזור מלאכה',
+  'מסחר': 'אזור מסחר'
+};
+
+// First words of two-word neighborhood names (רמת אביב, נווה שאנן)
+const NEIGHBORHOOD_PREFIXES = 'רמת|נווה|נוה|גבעת|קרית|קריית|תל|בית|עין|הר|כפר|רמות|נאות|גני|שיכון';
+
+/**
+ * Alternation of the keys of a lookup table, longest first
+ */
+function alternation(table: Record<string, string>): string {
+  return Object.keys(table)
+    .sort((a, b) => b.length - a.length)
+    .join('|');
+}
+
+/**
+ * Coefficient subtype: the first word between "מקדם" and the value
+ * ("מקדם גודל 0.85" → גודל, "מקדם הדחייה 0.9" → דחייה)
+ */
+export function coefficientSubtype(match: string): string | null {
+  const words = match.replace(/^.*?מקדם/, '').match(/[א-ת]+/g);
+  if (!words) return null;
+
+  const word = words[0];
+  const candidates = word.startsWith('ה') && word.length > 3 ? [word, word.slice(1)] : [word];
+  for (const candidate of candidates) {
+    if (COEFFICIENT_SUBTYPES.includes(candidate)) return candidate;
+    if (COEFFICIENT_SUBTYPE_VARIANTS[candidate]) return COEFFICIENT_SUBTYPE_VARIANTS[candidate];
+  }
+  return word;
+}
+
+/**
+ * Subtype from the first keyword of a lookup table found around the match
+ */
+function keywordSubtype(table: Record<string, string>): (match: string, around: string) => string | null {
+  return (_match, around) => {
+    for (const keyword of Object.keys(table)) {
+      if (around.includes(keyword)) return table[keyword];
+    }
+    return null;
+  };
+}
+
+const NUMERIC_RULES: NumericRule[] = [
+  {
+    // "מקדם גודל 0.85": the words before the value name the subtype
+    paramType: 'coefficient',
+    patterns: [EXTRACTION_PATTERNS.coefficient[0]],
+    unit: null,
+    range: VALUE_RANGES['מקדם'],
+    confidence: 0.85,
+    subtype: coefficientSubtype,
+    // "מקדם" and up to two words of subtype
+    maxWordsBefore: 3
+  },
+  {
+    // "מקדם 0.85", "0.85 מקדם"
+    paramType: 'coefficient',
+    patterns: EXTRACTION_PATTERNS.coefficient.slice(1),
+    unit: null,
+    range: VALUE_RANGES['מקדם'],
+    confidence: 0.65
+  },
+  {
+    paramType: 'price_per_meter',
+    patterns: [
+      ...EXTRACTION_PATTERNS.price_per_sqm,
+      // "שווי למ"ר נטו 5,000"
+      /(?:שווי|מחיר|ערך)\s*(?:ל-?מ["״]ר|למטר)\s+(?:נטו|ברוטו|אקוויו?ולנטי|אקויולנטי)\s*[:=\-]?\s*(?:₪|ש["״]ח)?\s*([\d,]+)/g
+    ],
+    unit: '₪/מ"ר',
+    range: { min: 100, max: 200000 },
+    confidence: 0.75,
+    requires: PER_SQM,
+    notAfter: /דמי\s+(?:ה)?סחירות\s*$/,
+    subtype: keywordSubtype(PRICE_SUBTYPES)
+  },
+  {
+    paramType: 'land_value',
+    patterns: [
+      /שווי\s+(?:ה)?קרקע\s+(?:ל|ב|לכל\s+)?דונם\s*[:=\-]?\s*(?:₪|ש["״]ח)?\s*([\d,]+)/g,
+      /([\d,]+)\s*(?:₪|ש["״]ח)\s*(?:ל-?|לכל\s+)דונם/g
+    ],
+    unit: '₪/דונם',
+    range: { min: 1000, max: 1000000000 },
+    confidence: 0.75
+  },
+  {
+    paramType: 'building_rights_value',
+    patterns: [
+      /שווי\s+(?:ה)?זכויות(?:\s+(?:ה)?(?:בנייה|בניה))?\s*(?:ל-?מ["״]ר|למטר)\s*[:=\-]?\s*(?:₪|ש["״]ח)?\s*([\d,]+)/g
+    ],
+    unit: '₪/מ"ר',
+    range: { min: 100, max: 200000 },
+    confidence: 0.75
+  },
+  {
+    paramType: 'building_rights_value',
+    patterns: [
+      /שווי\s+(?:ה)?זכויות(?:\s+(?:ה)?(?:בנייה|בניה))?\s*[:=\-]?\s*(?:₪|ש["״]ח)?\s*([\d,]+)/g
+    ],
+    unit: '₪',
+    range: { min: 1000, max: 10000000000 },
+    confidence: 0.7
+  },
+  {
+    paramType: 'tradability_fee',
+    patterns: [
+      /דמי\s+(?:ה)?סחירות\s*(?:ל-?מ["״]ר|למטר)?\s*[:=\-]?\s*(?:₪|ש["״]ח)?\s*([\d,.]+)/g
+    ],
+    unit: '₪/מ"ר',
+    range: { min: 1, max: 100000 },
+    confidence: 0.75
+  },
+  {
+    paramType: 'sovereignty_rate',
+    patterns: [
+      /שיעור\s+(?:ה)?(?:ריבונות|ריבון)\s*[:=\-]?\s*([\d.,]+)\s*%/g,
+      /([\d.,]+)\s*%\s*(?:ריבונות|ריבון)/g
+    ],
+    unit: '%',
+    range: VALUE_RANGES['שיעור'],
+    confidence: 0.8
+  }
+];
+
+const TEXT_RULES: TextRule[] = [
+  {
+    paramType: 'land_use',
+    patterns: [
+      new RegExp(`ייעוד\\s+(?:(?:ה?קרקע|ה?מקרקעין|ה?מגרש)\\s*)?[:\\-]?\\s*(${alternation(LAND_USES)})`, 'g')
+    ],
+    confidence: 0.8,
+    normalize: (value) => LAND_USES[value] ?? null
+  },
+  {
+    paramType: 'area_zone',
+    patterns: [new RegExp(`אזור\\s+(?:ה)?(${alternation(AREA_ZONES)})`, 'g')],
+    confidence: 0.7,
+    normalize: (value) => AREA_ZONES[value] ?? null
+  },
+  {
+    paramType: 'neighborhood',
+    patterns: [
+      new RegExp(`שכונת\\s+((?:(?:${NEIGHBORHOOD_PREFIXES})\\s+)?[א-ת][א-ת'"׳״\\-]+)`, 'g')
+    ],
+    confidence: 0.6,
+    normalize: (value) => (['מגורים', 'חדשה', 'ותיקה', 'יוקרה'].includes(value) ? null : value)
+  },
+  {
+    // "תכנית מס' תא/2650/ב", "תב"ע 1234", "תמ"א 38"
+    paramType: 'building_plan',
+    patterns: [
+      /(?:תכנית|תוכנית|תב["״]ע)\s+(?:מס['׳]?\s*|מספר\s+)?[:\-]?\s*((?:[א-ת]{1,4}\s*\/\s*)?\d[\d\/\-]*[א-ת]?)/g,
+      /(תמ["״]א\s*\d+(?:\/\d+)?)/g
+    ],
+    confidence: 0.8,
+    normalize: (value) => value.replace(/\s*\/\s*/g, '/').replace(/[\/\-]+$/, '').replace(/\s+/g, ' ')
+  }
+];
+
+/**
+ * All matches of a pattern, without touching the shared pattern's lastIndex
+ */
+function findAll(pattern: RegExp, text: string): RegExpExecArray[] {
+  const flags = pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g';
+  return [...text.matchAll(new RegExp(pattern.source, flags))];
+}
+
+/**
+ * Whitespace-collapsed text around a span, with ellipses where it was cut
+ */
+function snippetAround(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - SNIPPET_CHARS);
+  const to = Math.min(text.length, end + SNIPPET_CHARS);
+
+  let snippet = text.substring(from, to).replace(/\s+/g, ' ').trim();
+  if (from > 0) snippet = '...' + snippet;
+  if (to < text.length) snippet = snippet + '...';
+  return snippet;
+}
+
+/**
+ * Whether the number at [start, end) is part of a date (2.4 in 2.4.2003)
+ */
+function isDateFragment(text: string, start: number, end: number): boolean {
+  return /^[./-]\d/.test(text.substring(end, end + 2)) || /\d[./-]$/.test(text.substring(start - 2, start));
+}
+
+/**
+ * Apply the numeric rules (coefficients, prices, values, fees, rates)
+ */
+function extractNumeric(text: string): ExtractedParameter[] {
+  const results: ExtractedParameter[] = [];
+
+  for (const rule of NUMERIC_RULES) {
+    for (const pattern of rule.patterns) {
+      for (const match of findAll(pattern, text)) {
+        const raw = match[1];
+        if (!raw || (rule.requires && !rule.requires.test(match[0]))) continue;
+        if (rule.notAfter?.test(text.substring(Math.max(0, match.index - 20), match.index))) continue;
+
+        const start = match.index + match[0].indexOf(raw);
+        const end = start + raw.length;
+        if (isDateFragment(text, start, end)) continue;
+        // A percentage is never a price or coefficient
+        if (rule.unit !== '%' && /^\s*%/.test(text.substring(end, end + 3))) continue;
+
+        const value = parseHebrewNumber(raw.replace(/[.,]+$/, ''));
+        if (value === null || isNaN(value) || value < rule.range.min || value > rule.range.max) continue;
+
+        if (rule.maxWordsBefore !== undefined) {
+          const wordsBefore = text.substring(match.index, start).match(/[א-ת]+/g) ?? [];
+          if (wordsBefore.length > rule.maxWordsBefore) continue;
+        }
+
+        const around = text.substring(Math.max(0, match.index - 20), match.index + match[0].length + 20);
+        results.push({
+          param_type: rule.paramType,
+          param_subtype: rule.subtype ? rule.subtype(match[0], around) : null,
+          value_numeric: value,
+          value_text: null,
+          unit: rule.unit,
+          confidence: rule.confidence,
+          context_snippet: snippetAround(text, match.index, match.index + match[0].length),
+          extraction_method: 'regex'
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Apply the text rules (land use, zone, neighborhood, building plans)
+ */
+function extractText(text: string): ExtractedParameter[] {
+  const results: ExtractedParameter[] = [];
+
+  for (const rule of TEXT_RULES) {
+    for (const pattern of rule.patterns) {
+      for (const match of findAll(pattern, text)) {
+        const raw = match[1]?.trim();
+        if (!raw) continue;
+
+        const value = rule.normalize ? rule.normalize(raw) : raw;
+        if (!value) continue;
+
+        results.push({
+          param_type: rule.paramType,
+          param_subtype: null,
+          value_numeric: null,
+          value_text: value,
+          unit: null,
+          confidence: rule.confidence,
+          context_snippet: snippetAround(text, match.index, match.index + match[0].length),
+          extraction_method: 'regex'
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+// Outcome phrases of appeals and objections ("הערר נדחה", "לקבל את ההשגה בחלקה")
+const OUTCOME_SUBJECT = '(?:ערר|עררים|ערעור|השגה|השגות|בקשה|תביעה)';
+const PARTIALLY = '\\s+(?:בחלקו|בחלקה|חלקית|באופן\\s+חלקי)';
+const ACCEPTED = '(?:מתקבל|מתקבלת|מתקבלים|התקבל|התקבלה)';
+
+const OUTCOME_RULES: Array<{ outcome: string; pattern: RegExp }> = [
+  {
+    outcome: 'התקבל חלקית',
+    pattern: new RegExp(`ה${OUTCOME_SUBJECT}\\s+${ACCEPTED}${PARTIALLY}|(?:לקבל|מקבל|מקבלת)\\s+את\\s+ה${OUTCOME_SUBJECT}${PARTIALLY}`, 'g')
+  },
+  {
+    outcome: 'התקבל',
+    pattern: new RegExp(`(?:ה${OUTCOME_SUBJECT}\\s+${ACCEPTED}|(?:לקבל|מקבל|מקבלת)\\s+את\\s+ה${OUTCOME_SUBJECT})(?!${PARTIALLY})`, 'g')
+  },
+  {
+    outcome: 'נדחה',
+    pattern: new RegExp(`ה${OUTCOME_SUBJECT}\\s+(?:נדחה|נדחית|נדחתה|נדחים|נדחות)|(?:לדחות|דוחה)\\s+את\\s+ה${OUTCOME_SUBJECT}`, 'g')
+  }
+];
+
+/**
+ * Outcome of the decision: the last outcome phrase in the text, since the
+ * operative conclusion comes at the end (earlier ones quote other decisions)
+ */
+function extractOutcome(text: string): ExtractedParameter[] {
+  let last: { outcome: string; match: RegExpExecArray } | null = null;
+  for (const rule of OUTCOME_RULES) {
+    for (const match of findAll(rule.pattern, text)) {
+      if (!last || match.index > last.match.index) last = { outcome: rule.outcome, match };
+    }
+  }
+  if (!last) return [];
+
+  return [{
+    param_type: 'outcome',
+    param_subtype: null,
+    value_numeric: null,
+    value_text: last.outcome,
+    unit: null,
+    confidence: 0.7,
+    context_snippet: snippetAround(text, last.match.index, last.match.index + last.match[0].length),
+    extraction_method: 'regex'
+  }];
+}
+
+/**
+ * City from a committee name, or null for regional committees
+ * (מרחבית/מחוזית committees span several cities)
+ */
+export function cityFromCommittee(committee: string | null | undefined): string | null {
+  const city = committee
+    ?.replace(/(?:ה)?ועדה\s+(?:ה)?מקומית(?:\s+לתכנון\s+(?:ו)?(?:בנייה|בניה))?/, '')
+    .trim();
+  if (!city || /מרחבית|מחוזית|אזורית/.test(city)) return null;
+  return city;
+}
+
+/**
+ * City parameter from the decision's committee
+ */
+function extractCity(committee: string | null | undefined): ExtractedParameter[] {
+  const city = cityFromCommittee(committee);
+  if (!city) return [];
+
+  return [{
+    param_type: 'city',
+    param_subtype: null,
+    value_numeric: null,
+    value_text: city,
+    unit: null,
+    confidence: 0.9,
+    context_snippet: committee ?? null,
+    extraction_method: 'metadata'
+  }];
+}
+
+/**
+ * Drop repeated values (the same value is often quoted several times) and cap
+ * the rows per type, keeping the most confident occurrence
+ */
+function deduplicate(parameters: ExtractedParameter[]): ExtractedParameter[] {
+  const byKey = new Map<string, ExtractedParameter>();
+  for (const parameter of parameters) {
+    const key = [
+      parameter.param_type,
+      parameter.param_subtype ?? '',
+      parameter.value_numeric ?? '',
+      parameter.value_text ?? ''
+    ].join('|');
+    const existing = byKey.get(key);
+    if (!existing || parameter.confidence > existing.confidence) {
+      byKey.set(key, parameter);
+    }
+  }
+
+  const perType = new Map<ParamType, number>();
+  return [...byKey.values()].filter(parameter => {
+    const count = perType.get(parameter.param_type) ?? 0;
+    perType.set(parameter.param_type, count + 1);
+    return count < MAX_PARAMETERS_PER_TYPE;
+  });
+}
+
+// ============================================================
+// LLM extraction (comparison transactions)
+// ============================================================
+
+const LLM_MODEL = 'claude-3-5-haiku-latest';
+
+// Text sent to the LLM, starting at the comparison section heading
+const LLM_SECTION_CHARS = 12000;
+
+const COMPARISON_SECTION = /עסקאות\s+(?:ה)?השוואה|נתוני\s+(?:ה)?השוואה|עסקאות\s+השוואתיות/;
+
+let anthropicClient: Anthropic | null = null;
+
+interface LlmTransaction {
+  address?: string | null;
+  block?: string | null;
+  plot?: string | null;
+  date?: string | null;
+  area_sqm?: number | null;
+  price?: number | null;
+  price_per_sqm?: number | null;
+}
+
+/**
+ * Extract the comparison transactions table with the LLM.
+ * Returns no rows (and makes no API call) when the text has no comparison section.
+ */
+async function extractComparisonTransactions(text: string, decisionId: string): Promise<ExtractedParameter[]> {
+  const section = text.search(COMPARISON_SECTION);
+  if (section === -1) return [];
+
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    console.error('[ParameterExtractor] ANTHROPIC_API_KEY not set, skipping LLM extraction');
+    return [];
+  }
+  anthropicClient ??= new Anthropic({ apiKey });
+
+  const excerpt = text.substring(section, section + LLM_SECTION_CHARS);
+  try {
+    const response = await anthropicClient.messages.create({
+      model: LLM_MODEL,
+      max_tokens: 2000,
+      messages: [{
+        role: 'user',
+        content: `The following is from an Israeli land appraisal decision. List every comparison transaction (עסקת השוואה) it cites.
+Return only a JSON array of objects with the keys: address, block (גוש), plot (חלקה), date, area_sqm, price (₪), price_per_sqm (₪).
+Use null for missing values. Return [] if there are none.
+
+${excerpt}`
+      }]
+    });
+
+    const reply = response.content.map(block => (block.type === 'text' ? block.text : '')).join('');
+    const json = reply.substring(reply.indexOf('['), reply.lastIndexOf(']') + 1);
+    const transactions: LlmTransaction[] = json ? JSON.parse(json) : [];
+
+    return transactions.map(t => ({
+      param_type: 'comparison_transaction' as const,
+      param_subtype: null,
+      value_numeric: typeof t.price_per_sqm === 'number' ? t.price_per_sqm : null,
+      value_text: [
+        t.address,
+        t.block ? `גוש ${t.block}` : null,
+        t.plot ? `חלקה ${t.plot}` : null,
+        t.date,
+        typeof t.area_sqm === 'number' ? `${t.area_sqm} מ"ר` : null,
+        typeof t.price === 'number' ? `${t.price} ₪` : null
+      ].filter(Boolean).join(' | ') || null,
+      unit: '₪/מ"ר',
+      confidence: 0.7,
+      context_snippet: null,
+      extraction_method: 'llm' as const
+    }));
+  } catch (error) {
+    // The rule-based rows are still usable without the LLM ones
+    console.error(`[ParameterExtractor] LLM extraction failed for ${decisionId}:`, error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Extract structured parameters from a decision's PDF text
+ */
+export async function extractParameters(
+  text: string,
+  decisionId: string,
+  options: ExtractParametersOptions = {}
+): Promise<ExtractedParameter[]> {
+  // Fix PDF text artifact: spaces within numbers ("22 ,000" → "22,000")
+  const normalized = text
+    .replace(/(\d)\s+,\s*(\d)/g, '$1,$2')
+    .replace(/(\d)\s*,\s+(\d{3})(?!\d)/g, '$1,$2');
+
+  const parameters = [
+    ...extractCity(options.committee),
+    ...extractNumeric(normalized),
+    ...extractText(normalized),
+    ...extractOutcome(normalized)
+  ];
+
+  if (options.useLLM) {
+    parameters.push(...await extractComparisonTransactions(normalized, decisionId));
+  }
+
+  return deduplicate(parameters);
+}
+
+/**
+ * Extract parameters for several decisions in sequence.
+ * Decisions without text map to an empty list.
+ */
+export async function extractParametersBatch(
+  documents: ParameterSource[],
+  options: ExtractParametersOptions & { onProgress?: (done: number, total: number) => void } = {}
+): Promise<Map<string, ExtractedParameter[]>> {
+  const { onProgress, ...extractOptions } = options;
+  const results = new Map<string, ExtractedParameter[]>();
+
+  for (const [index, document] of documents.entries()) {
+    results.set(
+      document.id,
+      document.text
+        ? await extractParameters(document.text, document.id, { ...extractOptions, committee: document.committee ?? extractOptions.committee })
+        : []
+    );
+    onProgress?.(index + 1, documents.length);
+  }
+
+  return results;
+}
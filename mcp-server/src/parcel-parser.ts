@@ -0,0 +1,210 @@
+/**
+ * Parcel Parser
+ * Reads every parcel a title or decision text refers to, not only the first:
+ *   "גוש 6214 חלקות 353-357, 401"      -> 6214/353-357, 6214/401
+ *   "חלקות 353 עד 357" / "353 ל-357"   -> 353-357
+ *   "גוש 6214 חלק מחלקה 12"            -> 6214/12 (partial)
+ *   "גוש 6214 חלקה 12 תת חלקה 3"       -> 6214/12/3
+ *   "גוש 6214 חלקה 12/3"               -> 6214/12/3
+ *   "גושים 6214, 6215"                 -> 6214, 6215 (no plot)
+ *   "מגרשים 101-103"                   -> lots 101-103 of the last block, if any
+ *   "ג 6214 ח 353" / "ח"ח 12"          -> short forms, titles only (see ParseParcelOptions)
+ *
+ * Plots and lots after a block belong to that block until the next block;
+ * plots written just before a block ("חלקה 12 בגוש 6214") belong to it.
+ * Ranges are kept as ranges (from..to) so a search for any plot inside them
+ * matches.
+ */
+
+import { NumberRange, Parcel } from './types.js';
+
+// Longest block, plot or lot range read as a range rather than two numbers
+const MAX_RANGE = 1000;
+// Longest block range expanded into one parcel per block
+const MAX_BLOCK_RANGE = 20;
+
+const NOT_AFTER_LETTER = '(?<![\\u05d0-\\u05ea])';
+// "353-357", "353 עד 357", "353 ל-357"
+const RANGE_SEPARATOR = '\\s*(?:[-–]|עד|ל-)\\s*';
+// A number, a range, or a plot with its sub-plot ("12/3")
+const NUMBER = `\\d+(?:\\/\\d+|${RANGE_SEPARATOR}\\d+)?`;
+const LIST = `${NUMBER}(?:\\s*(?:,|ו-?)\\s*${NUMBER})*`;
+const PREFIX = `${NOT_AFTER_LETTER}(?:[ובלמ]-?)?`;
+
+interface MarkerPattern {
+  kind: 'block' | 'plot' | 'partial' | 'subPlot' | 'lot';
+  pattern: string;
+  abbreviation?: boolean;
+}
+
+// Earlier patterns win at the same position: "חלק מחלקה" and "תת חלקה" before "חלקה"
+const MARKERS: MarkerPattern[] = [
+  { kind: 'partial', pattern: 'חלק(?:ים)?\\s+מ(?:ה)?חלק(?:ה|ות)' },
+  { kind: 'partial', pattern: 'ח["״]ח', abbreviation: true },
+  { kind: 'subPlot', pattern: 'תת[-\\s]?חלק(?:ה|ות)' },
+  { kind: 'plot', pattern: 'חלק(?:ה|ות)' },
+  { kind: 'plot', pattern: "ח['׳.]?", abbreviation: true },
+  { kind: 'block', pattern: 'גוש(?:ים)?' },
+  { kind: 'block', pattern: "ג['׳.]?", abbreviation: true },
+  { kind: 'lot', pattern: 'מגרש(?:ים)?' }
+];
+
+export interface ParseParcelOptions {
+  /** Accept "ג 6214 ח 353" and "ח"ח": reliable in titles, ambiguous in running text */
+  abbreviations?: boolean;
+}
+
+function markerRegex(options: ParseParcelOptions): { regex: RegExp; markers: MarkerPattern[] } {
+  const markers = MARKERS.filter(m => options.abbreviations || !m.abbreviation);
+  const alternatives = markers.map(m => `(${m.pattern})`).join('|');
+  return {
+    regex: new RegExp(`${PREFIX}(?:${alternatives})\\s*(?:מס['׳]?\\s*)?:?\\s*(${LIST})`, 'g'),
+    markers
+  };
+}
+
+// A list item: a range, or one number with the sub-plot written after a slash
+type ListItem = NumberRange & { subPlot?: number };
+
+/**
+ * "353-357, 401 ו-402/2" -> [353..357, 401..401, 402..402 (sub-plot 2)]
+ */
+function parseList(list: string): ListItem[] {
+  const ranges: ListItem[] = [];
+  for (const item of list.split(/\s*(?:,|ו-?)\s*/)) {
+    const [from, to] = item.split(new RegExp(RANGE_SEPARATOR)).map(n => parseInt(n, 10));
+    if (isNaN(from)) continue;
+    const subPlot = item.match(/\/(\d+)$/);
+    if (subPlot) {
+      ranges.push({ from, to: from, subPlot: parseInt(subPlot[1], 10) });
+    } else if (to === undefined || isNaN(to)) {
+      ranges.push({ from, to: from });
+    } else {
+      const [low, high] = from <= to ? [from, to] : [to, from];
+      if (high - low <= MAX_RANGE) ranges.push({ from: low, to: high });
+      else ranges.push({ from, to: from }, { from: to, to });
+    }
+  }
+  return ranges;
+}
+
+function parcelKey(parcel: Parcel): string {
+  return [
+    parcel.block, parcel.plots?.from, parcel.plots?.to, parcel.subPlot, parcel.lots?.from, parcel.lots?.to, parcel.partial
+  ].join('|');
+}
+
+/**
+ * All parcels referred to in a text, in order of appearance
+ */
+export function parseParcels(text: string, options: ParseParcelOptions = {}): Parcel[] {
+  const { regex, markers } = markerRegex(options);
+  const parcels: Parcel[] = [];
+
+  let blocks: number[] = [];
+  let blocksUsed = true;
+  let blocksAbbreviated = false;
+  // Parcels of the previous marker, which a block right after them may own ("חלקה 12 בגוש 6214")
+  let lastGroup: Parcel[] = [];
+  let lastEnd = 0;
+
+  const flushBlocks = () => {
+    // "ג 3" counts only followed by a plot ("ג 6214 ח 353")
+    if (!blocksUsed && !blocksAbbreviated) {
+      for (const block of blocks) parcels.push({ block, plots: null, subPlot: null, lots: null, partial: false });
+    }
+    blocksUsed = true;
+  };
+  const currentBlock = () => (blocks.length > 0 ? blocks[blocks.length - 1] : null);
+  // Plots and lots go with the last block listed; the blocks before it stand alone
+  const useBlocks = () => {
+    if (!blocksUsed && !blocksAbbreviated) {
+      for (const block of blocks.slice(0, -1)) parcels.push({ block, plots: null, subPlot: null, lots: null, partial: false });
+    }
+    blocksUsed = true;
+  };
+  const addParcel = (parcel: Parcel) => {
+    parcels.push(parcel);
+    lastGroup.push(parcel);
+  };
+
+  for (const match of text.matchAll(regex)) {
+    const markerIndex = match.slice(1, markers.length + 1).findIndex(group => group !== undefined);
+    const marker = markers[markerIndex];
+    const ranges = parseList(match[markers.length + 1]);
+    const gap = text.slice(lastEnd, match.index);
+    lastEnd = match.index! + match[0].length;
+    const group = lastGroup;
+    if (marker.kind !== 'subPlot') lastGroup = [];
+
+    switch (marker.kind) {
+      case 'block': {
+        flushBlocks();
+        blocks = ranges.flatMap(range => range.to - range.from < MAX_BLOCK_RANGE
+          ? Array.from({ length: range.to - range.from + 1 }, (_, i) => range.from + i)
+          : [range.from, range.to]);
+        blocksUsed = false;
+        blocksAbbreviated = marker.abbreviation === true;
+
+        // "חלקה 12 גוש 6214" and "מגרש 204 בגוש 8001": the block follows its parcels
+        const owns = group.every(parcel => parcel.block === null)
+          ? /^[\s,]*$/.test(gap)
+          : /^\s*$/.test(gap) && match[0].startsWith('ב');
+        if (group.length > 0 && blocks.length === 1 && owns) {
+          for (const parcel of group) parcel.block = blocks[0];
+          blocksUsed = true;
+        }
+        break;
+      }
+
+      case 'plot':
+      case 'partial':
+        useBlocks();
+        for (const { from, to, subPlot } of ranges) {
+          addParcel({ block: currentBlock(), plots: { from, to }, subPlot: subPlot ?? null, lots: null, partial: marker.kind === 'partial' });
+        }
+        break;
+
+      case 'subPlot': {
+        // A sub-plot refines the single plot just before it
+        const last = parcels[parcels.length - 1];
+        if (last?.plots && last.plots.from === last.plots.to && last.subPlot === null && ranges.length > 0) {
+          last.subPlot = ranges[0].from;
+          for (const extra of ranges.slice(1)) {
+            addParcel({ ...last, subPlot: extra.from });
+          }
+        }
+        break;
+      }
+
+      case 'lot':
+        useBlocks();
+        for (const { from, to } of ranges) {
+          addParcel({ block: currentBlock(), plots: null, subPlot: null, lots: { from, to }, partial: false });
+        }
+        break;
+    }
+  }
+  flushBlocks();
+
+  const seen = new Set<string>();
+  return parcels.filter(parcel => {
+    const key = parcelKey(parcel);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Display form: "6214/353-357", "6214/12/3", "6214 מגרש 101", "חלק מ-6214/12"
+ */
+export function formatParcel(parcel: Parcel): string {
+  const range = (r: NumberRange) => (r.from === r.to ? String(r.from) : `${r.from}-${r.to}`);
+  const parts = [parcel.block !== null ? String(parcel.block) : '?'];
+  if (parcel.plots) parts.push(range(parcel.plots));
+  if (parcel.subPlot !== null) parts.push(String(parcel.subPlot));
+  let text = parts.join('/');
+  if (parcel.lots) text += ` מגרש ${range(parcel.lots)}`;
+  return parcel.partial ? `חלק מ-${text}` : text;
+}
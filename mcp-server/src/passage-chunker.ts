@@ -0,0 +1,303 @@
+/**
+ * Section-aware Passage Chunking
+ * Splits a decision's pdf_text into paragraph-sized passages that never cross
+ * a section boundary, each with its section type and page range. Passages are
+ * what passage search (decision_passages) and the embedding job index, so a
+ * question about "גובה פנים דירה" is answered with the paragraph, not the PDF.
+ *
+ * Section headers are the web-app's (web-app/src/lib/section-extractor.ts),
+ * validated against the full corpus. The web-app looks for one header per
+ * section type anywhere in the text; here every header splits the text, so a
+ * header must stand on a line of its own.
+ */
+
+import { DecisionPassage, PassageSectionType } from './types.js';
+import { PAGE_BREAK, pageAtOffset } from './pdf-layout.js';
+
+// Passage size: ~300 tokens of Hebrew, within the embedding model's window
+export const PASSAGE_MAX_CHARS = 1000;
+
+// A paragraph break before this many characters is too early to end a passage
+const PASSAGE_MIN_CHARS = 300;
+
+/**
+ * Section header patterns validated against 31K documents (copied from the
+ * web-app). Each section type has multiple possible Hebrew headers; more
+ * specific patterns first.
+ */
+export const SECTION_PATTERNS: Record<Exclude<PassageSectionType, 'preamble'>, string[]> = {
+  partyA: [
+    // "Claims of appraiser" forms (most specific first)
+    'עיקר טענות שמאית המבקשת',
+    'עיקר טענות שמאי המבקשים',
+    'עיקר טענות שמאי המבקש',
+    'טענות שמאי המבקשים',
+    'טענות שמאי המבקש',
+    'טענות שמאית המבקשת',
+    'טענות שמאי המבקשת',
+    'טענות שמאי המערער',
+    'טענות שמאי המערערים',
+    'טענות שמאית המערערת',
+    'טענות שמאי המערערת',
+    'טענות שמאי העורר',
+    'טענות שמאי העוררים',
+    'טענות שמאית העוררת',
+    'טענות שמאי העוררת',
+    // "Assessment" forms (שומת = the appraiser's valuation report)
+    'שומת בעלי הזכויות בנכס',
+    'שומת בעלי הזכויות',
+    'שומת שמאי המבקשים',
+    'שומת שמאי המבקש',
+    'שומת שמאית המבקשת',
+    'שומת המבקשים',
+    'שומת המבקש',
+    'שומת המבקשת',
+    'שומת המערערים',
+    'שומת המערער',
+    'שומת בעל הנכס',
+    'שומת הבעלים',
+    // General party "claims" forms
+    'טענות המבקשים',
+    'טענות המבקש',
+    'טענות המבקשת',
+    'טענות המערערים',
+    'טענות המערער',
+    'טענות המערערת',
+    'טענות העוררים',
+    'טענות העורר',
+    'טענות העוררת',
+    'טענות בעל הנכס',
+    'טענות הבעלים',
+    // "Position" forms
+    'עמדת שמאי המבקשים',
+    'עמדת שמאי המבקש',
+    'עמדת שמאית המבקשת',
+    'עמדת שמאי המבקשת',
+    'עמדת המבקשים',
+    'עמדת המבקש',
+    'עמדת המבקשת',
+    'עמדת המערערים',
+    'עמדת המערער',
+    'עמדת העוררים',
+    'עמדת העורר',
+    'עמדת בעל הנכס',
+    'עמדת שמאי הבעלים',
+    'עמדת שמאית הבעלים',
+  ],
+  partyB: [
+    // "Claims of appraiser" forms (most specific first)
+    'עיקר טענות שמאי המשיבה',
+    'עיקר טענות שמאי הוועדה',
+    'עיקר טענות שמאי הועדה',
+    'טענות שמאי המשיבה',
+    'טענות שמאי המשיבים',
+    'טענות שמאי הוועדה',
+    'טענות שמאי הועדה',
+    'טענות שמאי הרשות',
+    // "Assessment" forms
+    'שומת הועדה המקומית',
+    'שומת הוועדה המקומית',
+    'שומת שמאי המשיבה',
+    'שומת שמאי הוועדה',
+    'שומת שמאי הועדה',
+    'שומת המשיבה',
+    'שומת המשיבים',
+    'שומת הועדה',
+    'שומת הוועדה',
+    'שומת הרשות',
+    // General party "claims" forms
+    'טענות המשיבה',
+    'טענות המשיבים',
+    'טענות הרשות',
+    'טענות הועדה המקומית',
+    'טענות הוועדה המקומית',
+    // "Position" forms
+    'עמדת שמאי המשיבה',
+    'עמדת שמאי הוועדה',
+    'עמדת שמאי הועדה',
+    'עמדת המשיבה',
+    'עמדת המשיבים',
+    'עמדת הועדה',
+    'עמדת הוועדה',
+    'עמדת הועדה המקומית',
+    'עמדת הוועדה המקומית',
+    'עמדת הרשות',
+  ],
+  partiesClaims: [
+    'עיקרי טיעוני הצדדים',
+    'תמצית שומות הצדדים',
+    'סיכום ממצאי שומות הצדדים',
+    'ממצאי שומות הצדדים',
+    'שומות הצדדים',
+    'טענות הצדדים',
+    'עמדות הצדדים',
+    'טענות הצדדים בתמצית',
+    'תמצית טענות הצדדים',
+  ],
+  ruling: [
+    // Specific (longer) patterns first
+    'הכרעת השמאי המכריע',
+    'קביעת השמאי המכריע',
+    'החלטת השמאי המכריע',
+    'מסקנות השמאי המכריע',
+    'הכרעת השמאית המכריעה',
+    // Shorter ruling patterns
+    'הכרעת השמאי',
+    'קביעת השמאי',
+    'החלטת השמאי',
+    'הכרעת השמאית',
+    // Compound ruling headers
+    'עיקרי טיעוני הצדדים והכרעה',
+    'התייחסות ומסקנות',
+    'מסקנות והכרעה',
+    'סיכום והכרעה',
+    'דיון והכרעה',
+    'ממצאים והכרעה',
+    'ניתוח והכרעה',
+    // Single-word/short forms
+    'הכרעה',
+    'קביעה',
+    'החלטה',
+    'סיכום',
+    'מסקנות',
+  ],
+  comparisons: [
+    'עסקאות השוואה',
+    'עסקאות ההשוואה',
+    'נתוני השוואה',
+    'נתוני ההשוואה',
+    'נתוני שוק',
+    'עסקאות להשוואה',
+  ],
+  calculation: [
+    'תחשיב השבחה',
+    'תחשיב ההשבחה',
+    'חישוב ההשבחה',
+    'חישוב השבחה',
+    'חישוב היטל ההשבחה',
+    'חישוב היטל השבחה',
+  ],
+};
+
+// Numbering before a header: "3." | "3.1" | "11 ." | "א." | "א'" | "(2)" | "(א)"
+const NUMBERING_PREFIX = '(?:\\d+(?:\\s?\\.\\d+)*\\s?\\.?|[א-ת][\'׳"]?\\s?\\.?|\\(\\d+\\)|\\([א-ת]\\))';
+// Up to 3 extra Hebrew words before the header ("ממצאי", "עיקרי", "תמצית")
+const EXTRA_WORDS = '(?:[\\u0590-\\u05FF"]+[ \\t]+){0,3}';
+
+interface SectionHeader {
+  type: Exclude<PassageSectionType, 'preamble'>;
+  title: string;
+  index: number;                 // Start of the header line
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * One regex per section type, matching a line that consists of a header
+ */
+const HEADER_REGEXES = Object.entries(SECTION_PATTERNS).map(([type, patterns]) => ({
+  type: type as SectionHeader['type'],
+  regex: new RegExp(
+    `(?<=^|[\\n\\f])[ \\t]*(?:${NUMBERING_PREFIX}[ \\t]+)?(?:[\\-•][ \\t]*)?${EXTRA_WORDS}` +
+    `(${[...patterns].sort((a, b) => b.length - a.length).map(escapeRegex).join('|')})` +
+    `[ \\t]*[:.]?[ \\t]*(?=\\n|\\f|$)`,
+    'g'
+  )
+}));
+
+/**
+ * Section headers in text order. Where headers of several types match the same
+ * line, the longest (most specific) header wins.
+ */
+export function findSectionHeaders(text: string): SectionHeader[] {
+  const byLine = new Map<number, SectionHeader>();
+  for (const { type, regex } of HEADER_REGEXES) {
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      const existing = byLine.get(match.index);
+      if (!existing || match[1].length > existing.title.length) {
+        byLine.set(match.index, { type, title: match[1], index: match.index });
+      }
+    }
+  }
+  return [...byLine.values()].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Where to end a passage that starts at `start` and may run to `limit`:
+ * the last paragraph break, else the last sentence end, else the last
+ * whitespace (in that order, and not before PASSAGE_MIN_CHARS)
+ */
+function passageEnd(text: string, start: number, limit: number): number {
+  if (limit - start <= PASSAGE_MAX_CHARS) return limit;
+
+  const window = text.slice(start, start + PASSAGE_MAX_CHARS);
+  const lastMatch = (pattern: RegExp): number => {
+    let last = -1;
+    for (const match of window.matchAll(pattern)) {
+      const end = match.index! + match[0].length;
+      if (end >= PASSAGE_MIN_CHARS) last = end;
+    }
+    return last;
+  };
+
+  // Blank line, page break, a line ending a sentence, or a numbered paragraph
+  const paragraph = lastMatch(new RegExp(`\\n[ \\t]*\\n|${PAGE_BREAK}|[.:;][ \\t]*\\n|\\n(?=[ \\t]*\\d+(?:\\.\\d+)*\\.?[ \\t])`, 'g'));
+  if (paragraph !== -1) return start + paragraph;
+
+  const sentence = lastMatch(/[.!?:;]["״']?\s/g);
+  if (sentence !== -1) return start + sentence;
+
+  const space = lastMatch(/\s/g);
+  return space !== -1 ? start + space : start + PASSAGE_MAX_CHARS;
+}
+
+/**
+ * Split pdf_text into section-aware passages. Empty for text without words.
+ */
+export function splitPassages(text: string): DecisionPassage[] {
+  if (!text || !/\S/.test(text)) return [];
+
+  const headers = findSectionHeaders(text);
+  const sections: Array<{ type: PassageSectionType; title: string | null; start: number; end: number }> = [];
+  if (headers.length === 0 || headers[0].index > 0) {
+    sections.push({ type: 'preamble', title: null, start: 0, end: headers[0]?.index ?? text.length });
+  }
+  headers.forEach((header, i) => {
+    sections.push({
+      type: header.type,
+      title: header.title,
+      start: header.index,
+      end: headers[i + 1]?.index ?? text.length
+    });
+  });
+
+  const passages: DecisionPassage[] = [];
+  for (const section of sections) {
+    let start = section.start;
+    while (start < section.end) {
+      const end = passageEnd(text, start, section.end);
+      const raw = text.slice(start, end);
+      const first = raw.search(/\S/);
+      if (first !== -1) {
+        const last = raw.length - raw.match(/\s*$/)![0].length - 1;
+        passages.push({
+          index: passages.length,
+          sectionType: section.type,
+          sectionTitle: section.title,
+          text: raw.replace(new RegExp(PAGE_BREAK, 'g'), '\n').trim(),
+          charStart: start + first,
+          charEnd: start + last + 1,
+          pageStart: pageAtOffset(text, start + first),
+          pageEnd: pageAtOffset(text, start + last)
+        });
+      }
+      start = end;
+    }
+  }
+
+  return passages;
+}
@@ -1,15 +1,24 @@
 /**
  * PDF Text Extractor for Gov.il Land Appraisal Decisions
- * Downloads PDFs using ScraperAPI and extracts text using pdf-parse
+ * Downloads PDFs through the fetch transport (transport.ts; ScraperAPI by default)
+ * and extracts text using pdf-parse
  * Supports caching extracted text in SQLite database
  *
+ * Pages keep their real boundaries (pdf-layout.ts): pdf_text ends each page with
+ * a form feed, and the per-page lines and columns are stored in pdf_pages.
+ * Scanned PDFs (no text layer) can be OCRed locally (ocr.ts) when enabled.
+ *
  * US-003: Implement PDF text extraction
  */
 
 import pdf from 'pdf-parse';
 import type { DecisionDatabase } from './database.js';
 import type { PdfCache } from './pdf-cache.js';
-import type { DatabaseType } from './types.js';
+import type { DatabaseType, PdfExtractionMethod, PdfPage } from './types.js';
+import { buildLines, countPages, joinPages, linesToText, toPositionedItems } from './pdf-layout.js';
+import { isOcrAvailable, ocrPdf } from './ocr.js';
+import { Transport, getTransport } from './transport.js';
+import { AlertNotifier, getAlertNotifier } from './alerts.js';
 
 /**
  * Hebrew RTL Text Processing Utilities
@@ -158,8 +167,6 @@ function processHebrewText(text: string): string {
     return text;
   }
 
-  console.error('[PdfExtractor] Processing Hebrew RTL text');
-
   let processed = text;
 
   // Step 1: Remove directional control characters
@@ -175,17 +182,28 @@ function processHebrewText(text: string): string {
 }
 
 export interface PdfExtractionResult {
-  fullText: string;
+  fullText: string;     // Pages joined, each ending with a form feed (PAGE_BREAK)
+  pages: PdfPage[];     // Empty for text cached before pages were kept
+  method: PdfExtractionMethod;
   pageCount: number;
   extractedPages: number;
   cached: boolean;
 }
 
+// The pdfjs page proxy pdf-parse passes to pagerender
+interface PdfParsePage {
+  pageNumber: number;
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{ items: object[] }>;
+}
+
 export interface PdfExtractorOptions {
   apiKey: string;
   maxPages?: number;  // Limit extraction to first N pages for large PDFs
   database?: DecisionDatabase;  // Optional database for text caching
   pdfCache?: PdfCache;  // Optional file cache for PDF files
+  ocr?: boolean;  // OCR scanned PDFs locally (requires tesseract with the heb model)
+  transport?: Transport;  // Default: the shared transport (getTransport)
+  alerts?: AlertNotifier;  // Tracks download failures for spike alerts (default: the shared one)
 }
 
 export class PdfExtractor {
@@ -193,12 +211,19 @@ export class PdfExtractor {
   private maxPages: number;
   private database: DecisionDatabase | null;
   private pdfCache: PdfCache | null;
+  private ocr: boolean;
+  private transport: Transport;
+  private alerts: AlertNotifier;
+  private ocrAvailable: Promise<boolean> | null = null;
 
   constructor(options: PdfExtractorOptions) {
     this.apiKey = options.apiKey;
     this.maxPages = options.maxPages ?? 0;  // 0 = extract all pages
     this.database = options.database ?? null;
     this.pdfCache = options.pdfCache ?? null;
+    this.ocr = options.ocr ?? false;
+    this.transport = options.transport ?? getTransport();
+    this.alerts = options.alerts ?? getAlertNotifier();
   }
 
   /**
@@ -216,22 +241,8 @@ export class PdfExtractor {
   }
 
   /**
-   * Build ScraperAPI URL for PDF download
-   * Uses ScraperAPI to handle any blocking/protection on the PDF URLs
-   */
-  private buildScraperUrl(pdfUrl: string): string {
-    const params = new URLSearchParams({
-      api_key: this.apiKey,
-      url: pdfUrl,
-      // Note: PDFs don't need render=true (they're not HTML)
-      // But premium=true helps bypass blocking
-      premium: 'true'
-    });
-    return `https://api.scraperapi.com?${params.toString()}`;
-  }
-
-  /**
-   * Download PDF from URL using ScraperAPI
+   * Download PDF from URL through the transport
+   * PDFs need no rendering, but ScraperAPI premium proxies help bypass blocking
    * Returns raw PDF buffer
    */
   async downloadPdf(pdfUrl: string): Promise<Buffer> {
@@ -240,16 +251,30 @@ export class PdfExtractor {
       throw new Error(`Invalid PDF URL: ${pdfUrl}`);
     }
 
-    // Build ScraperAPI URL for the PDF
-    const scraperUrl = this.buildScraperUrl(pdfUrl);
+    // Every outcome counts toward the PDF failure spike alert
+    try {
+      const buffer = await this.fetchPdf(pdfUrl);
+      this.alerts.recordPdfDownload(true, pdfUrl);
+      return buffer;
+    } catch (error) {
+      this.alerts.recordPdfDownload(false, pdfUrl, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
 
-    console.error(`[PdfExtractor] Downloading PDF via ScraperAPI: ${pdfUrl}`);
+  /**
+   * Fetch a PDF and check that it is one
+   */
+  private async fetchPdf(pdfUrl: string): Promise<Buffer> {
+    console.error(`[PdfExtractor] Downloading PDF: ${pdfUrl}`);
 
-    const response = await fetch(scraperUrl, {
-      method: 'GET',
+    const response = await this.transport.fetch({
+      url: pdfUrl,
       headers: {
         'Accept': 'application/pdf,*/*'
-      }
+      },
+      apiKey: this.apiKey,
+      premium: true
     });
 
     if (!response.ok) {
@@ -287,8 +312,18 @@ export class PdfExtractor {
   async extractText(pdfBuffer: Buffer): Promise<PdfExtractionResult> {
     console.error(`[PdfExtractor] Extracting text from PDF (${pdfBuffer.length} bytes)`);
 
-    // Configure pdf-parse options
-    const options: { max?: number } = {};
+    // Configure pdf-parse options. Pages are rendered one by one, in order;
+    // each keeps its lines and columns instead of pdf-parse's flattened text
+    const pages: PdfPage[] = [];
+    const options: { max?: number; pagerender: (pageData: unknown) => Promise<string> } = {
+      pagerender: async (pageData) => {
+        const page = pageData as PdfParsePage;
+        const content = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+        const lines = buildLines(toPositionedItems(content.items, page.pageNumber));
+        pages.push({ pageNumber: page.pageNumber, text: linesToText(lines), lines });
+        return '';
+      }
+    };
 
     // If maxPages is set, limit extraction
     if (this.maxPages > 0) {
@@ -299,8 +334,12 @@ export class PdfExtractor {
       const data = await pdf(pdfBuffer, options);
 
       // Process Hebrew RTL text - normalizes final letters, removes
-      // directional controls, and cleans up PDF extraction artifacts
-      const fullText = processHebrewText(data.text);
+      // directional controls, and cleans up PDF extraction artifacts.
+      // Page by page, so the cleanup cannot merge text across pages
+      for (const page of pages) {
+        page.text = processHebrewText(page.text);
+      }
+      const fullText = joinPages(pages.map(page => page.text));
 
       const extractedPages = this.maxPages > 0
         ? Math.min(this.maxPages, data.numpages)
@@ -310,6 +349,8 @@ export class PdfExtractor {
 
       return {
         fullText,
+        pages,
+        method: 'text',
         pageCount: data.numpages,
         extractedPages,
         cached: false
@@ -320,6 +361,80 @@ export class PdfExtractor {
     }
   }
 
+  /**
+   * OCR a scanned PDF page by page (see ocr.ts)
+   */
+  async extractWithOcr(pdfBuffer: Buffer): Promise<PdfExtractionResult> {
+    console.error(`[PdfExtractor] Running OCR on scanned PDF (${pdfBuffer.length} bytes)`);
+
+    const ocrPages = await ocrPdf(pdfBuffer, { maxPages: this.maxPages });
+    const pages: PdfPage[] = ocrPages.map(page => ({
+      pageNumber: page.pageNumber,
+      text: processHebrewText(page.text),
+      lines: [],
+      ocrConfidence: page.confidence
+    }));
+    const fullText = joinPages(pages.map(page => page.text));
+
+    console.error(`[PdfExtractor] OCR extracted ${fullText.length} characters from ${pages.length} pages`);
+
+    return {
+      fullText,
+      pages,
+      method: 'ocr',
+      pageCount: pages.length,
+      extractedPages: pages.length,
+      cached: false
+    };
+  }
+
+  /**
+   * Extract a PDF's text into the text cache: the text layer first, then OCR
+   * for scanned PDFs when enabled. Records the outcome in pdf_cache
+   * (extraction_status extracted / scanned, extraction_method text / ocr).
+   * Returns null for a scanned PDF that could not be OCRed.
+   */
+  async extractFromBuffer(decisionId: string, pdfBuffer: Buffer, minTextLength: number = 100): Promise<PdfExtractionResult | null> {
+    const textResult = await this.extractText(pdfBuffer);
+    if (textResult.fullText.trim().length >= minTextLength) {
+      this.saveToTextCache(decisionId, textResult);
+      this.database?.updatePdfCacheStatus(decisionId, 'extracted', 'text');
+      return textResult;
+    }
+
+    const ocrResult = await this.tryOcr(decisionId, pdfBuffer, minTextLength);
+    if (!ocrResult) this.database?.updatePdfCacheStatus(decisionId, 'scanned');
+    return ocrResult;
+  }
+
+  /**
+   * OCR a scanned PDF into the text cache if OCR is enabled and installed;
+   * null when it is not, or when OCR finds no text either
+   */
+  private async tryOcr(decisionId: string, pdfBuffer: Buffer, minTextLength: number): Promise<PdfExtractionResult | null> {
+    if (!this.ocr) return null;
+
+    this.ocrAvailable ??= isOcrAvailable();
+    if (!(await this.ocrAvailable)) {
+      console.error('[PdfExtractor] OCR enabled but tesseract (with the heb model) is not installed');
+      return null;
+    }
+
+    try {
+      const result = await this.extractWithOcr(pdfBuffer);
+      if (result.fullText.trim().length < minTextLength) {
+        console.error(`[PdfExtractor] OCR found too little text (${result.fullText.length} chars) for ${decisionId}`);
+        return null;
+      }
+      this.saveToTextCache(decisionId, result);
+      this.database?.updatePdfCacheStatus(decisionId, 'extracted', 'ocr');
+      return result;
+    } catch (error) {
+      console.error(`[PdfExtractor] OCR failed for ${decisionId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Download PDF and extract text in one operation
    * This is the main entry point for extracting PDF content
@@ -334,7 +449,7 @@ export class PdfExtractor {
    * Uses a three-tier cache strategy:
    * 1. Text cache (SQLite) - instant return of extracted text
    * 2. File cache (local files) - extract from cached PDF file
-   * 3. Network download (ScraperAPI) - download, cache, and extract
+   * 3. Network download (transport) - download, cache, and extract
    *
    * @param decisionId - The decision ID for cache lookup/storage
    * @param pdfUrl - The URL to download PDF from (if not cached)
@@ -347,15 +462,7 @@ export class PdfExtractor {
       const cachedText = this.database.getCachedPdfText(decisionId);
       if (cachedText !== null) {
         console.error(`[PdfExtractor] Text cache HIT for decision ${decisionId}`);
-        // Return cached result - we don't know original page count, estimate from text
-        // Average Hebrew legal doc: ~3000 chars per page
-        const estimatedPages = Math.max(1, Math.ceil(cachedText.length / 3000));
-        return {
-          fullText: cachedText,
-          pageCount: estimatedPages,
-          extractedPages: estimatedPages,
-          cached: true
-        };
+        return this.cachedResult(decisionId, cachedText);
       }
       console.error(`[PdfExtractor] Text cache MISS for decision ${decisionId}`);
     }
@@ -371,7 +478,7 @@ export class PdfExtractor {
 
         // Save extracted text to text cache for even faster access next time
         if (this.database && result.fullText) {
-          const saved = this.database.savePdfText(decisionId, result.fullText);
+          const saved = this.saveToTextCache(decisionId, result);
           if (saved) {
             console.error(`[PdfExtractor] Saved ${result.fullText.length} chars to text cache from file cache`);
           }
@@ -385,7 +492,7 @@ export class PdfExtractor {
       console.error(`[PdfExtractor] File cache MISS for decision ${decisionId}`);
     }
 
-    // TIER 3: Download from network (slowest - uses ScraperAPI)
+    // TIER 3: Download from network (slowest - through the transport)
     console.error(`[PdfExtractor] Downloading from network for decision ${decisionId}`);
     const pdfBuffer = await this.downloadPdf(pdfUrl);
 
@@ -404,7 +511,7 @@ export class PdfExtractor {
 
     // Save extracted text to text cache
     if (this.database && result.fullText) {
-      const saved = this.database.savePdfText(decisionId, result.fullText);
+      const saved = this.saveToTextCache(decisionId, result);
       if (saved) {
         console.error(`[PdfExtractor] Saved ${result.fullText.length} chars to text cache for decision ${decisionId}`);
       } else {
@@ -415,6 +522,36 @@ export class PdfExtractor {
     return result;
   }
 
+  /**
+   * Build a result from text cache, with the stored pages if any.
+   * Text cached before page boundaries were kept has no page count; estimate
+   * it (average Hebrew legal doc: ~3000 chars per page)
+   */
+  private cachedResult(decisionId: string, cachedText: string): PdfExtractionResult {
+    const pages = this.database ? this.database.getPdfPages(decisionId) : [];
+    const pageCount = countPages(cachedText) ?? Math.max(1, Math.ceil(cachedText.length / 3000));
+    return {
+      fullText: cachedText,
+      pages,
+      method: pages.some(page => page.ocrConfidence !== undefined) ? 'ocr' : 'text',
+      pageCount,
+      extractedPages: pageCount,
+      cached: true
+    };
+  }
+
+  /**
+   * Save extracted text and its pages to the text cache
+   */
+  private saveToTextCache(decisionId: string, result: PdfExtractionResult): boolean {
+    if (!this.database) return false;
+    const saved = this.database.savePdfText(decisionId, result.fullText);
+    if (saved && result.pages.length > 0) {
+      this.database.savePdfPages(decisionId, result.pages);
+    }
+    return saved;
+  }
+
   /**
    * Update max pages limit
    */
@@ -478,16 +615,7 @@ export class PdfExtractor {
       const cachedText = this.database.getCachedPdfText(decisionId);
       if (cachedText !== null && cachedText.trim().length >= minTextLength) {
         console.error(`[PdfExtractor] Text cache HIT for decision ${decisionId}`);
-        const estimatedPages = Math.max(1, Math.ceil(cachedText.length / 3000));
-        return {
-          type: 'text',
-          result: {
-            fullText: cachedText,
-            pageCount: estimatedPages,
-            extractedPages: estimatedPages,
-            cached: true
-          }
-        };
+        return { type: 'text', result: this.cachedResult(decisionId, cachedText) };
       }
     }
 
@@ -501,7 +629,7 @@ export class PdfExtractor {
 
         // Save to text cache
         if (this.database && textResult.fullText) {
-          this.database.savePdfText(decisionId, textResult.fullText);
+          this.saveToTextCache(decisionId, textResult);
           console.error(`[PdfExtractor] Saved ${textResult.fullText.length} chars to text cache`);
         }
 
@@ -513,6 +641,12 @@ export class PdfExtractor {
       console.error(`[PdfExtractor] Text extraction failed:`, error);
     }
 
+    // Scanned document - OCR it locally when enabled
+    const ocrResult = await this.tryOcr(decisionId, pdfBuffer, minTextLength);
+    if (ocrResult) {
+      return { type: 'text', result: ocrResult };
+    }
+
     // Return scanned document indicator with PDF buffer for image conversion
     return {
       type: 'scanned',
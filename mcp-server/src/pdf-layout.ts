@@ -0,0 +1,155 @@
+/**
+ * PDF Page Layout
+ * Rebuilds the lines and columns of PDF pages from pdfjs text item coordinates,
+ * and maps character offsets in stored pdf_text back to real pages.
+ *
+ * pdf_text ends every page with a form feed (PAGE_BREAK), as pdftotext does, so
+ * any consumer of the text (read_pdf, search snippets, the web-app) can cite the
+ * true page. Text cached before page boundaries were kept has no form feeds;
+ * callers fall back to estimating the page from the offset.
+ */
+
+import type { PdfLayoutCell, PdfLayoutLine } from './types.js';
+
+/** A pdfjs text item with its page position (origin bottom-left, in points) */
+export interface PositionedTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  page: number;
+}
+
+// Terminates each page in pdf_text
+export const PAGE_BREAK = '\f';
+
+// Items whose baselines differ by less than this are on the same line
+const LINE_TOLERANCE = 3;
+
+// A horizontal gap wider than this (in points) starts a new cell
+const CELL_GAP = 8;
+
+// Directional marks pdfjs leaves in RTL text runs
+const DIRECTIONAL_MARKS = /[\u200E\u200F\u202A-\u202E\u2066-\u2069]/g;
+
+const HEBREW_CHAR = /[\u0590-\u05FF]/;
+
+/**
+ * Positioned items of one page from pdfjs getTextContent() items
+ */
+export function toPositionedItems(
+  contentItems: ReadonlyArray<object>,
+  page: number
+): PositionedTextItem[] {
+  const items: PositionedTextItem[] = [];
+  for (const item of contentItems) {
+    if (!('str' in item) || !('transform' in item)) continue;
+    const { str, transform, width, height } = item as {
+      str: string; transform: number[]; width?: number; height?: number;
+    };
+    if (!str.trim()) continue;
+    items.push({
+      text: str.replace(DIRECTIONAL_MARKS, ''),
+      x: transform[4],
+      y: transform[5],
+      width: width ?? 0,
+      height: height ?? 0,
+      page
+    });
+  }
+  return items;
+}
+
+/**
+ * Group the items of one page into lines (top to bottom) of cells in reading
+ * order: right to left for lines with Hebrew, left to right otherwise
+ */
+export function buildLines(items: PositionedTextItem[]): PdfLayoutLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || b.x - a.x);
+
+  const groups: Array<{ y: number; items: PositionedTextItem[] }> = [];
+  for (const item of sorted) {
+    const group = groups[groups.length - 1];
+    if (group && Math.abs(group.y - item.y) <= LINE_TOLERANCE) {
+      group.items.push(item);
+    } else {
+      groups.push({ y: item.y, items: [item] });
+    }
+  }
+
+  return groups.map(group => {
+    const rtl = group.items.some(item => HEBREW_CHAR.test(item.text));
+    const ordered = group.items.sort((a, b) => rtl ? b.x - a.x : a.x - b.x);
+
+    const cells: PdfLayoutCell[] = [];
+    for (const item of ordered) {
+      const cell = cells[cells.length - 1];
+      const right = item.x + item.width;
+      const gap = cell ? (rtl ? cell.left - right : item.x - cell.right) : Infinity;
+      if (cell && gap < CELL_GAP) {
+        cell.text = `${cell.text} ${item.text}`;
+        cell.left = Math.min(cell.left, item.x);
+        cell.right = Math.max(cell.right, right);
+      } else {
+        cells.push({ text: item.text, left: item.x, right });
+      }
+    }
+    for (const cell of cells) {
+      cell.text = cell.text.replace(/\s+/g, ' ').trim();
+    }
+    return { y: group.y, cells };
+  });
+}
+
+/**
+ * Plain text of a page: one line per layout line, cells separated by a space
+ */
+export function linesToText(lines: PdfLayoutLine[]): string {
+  return lines.map(line => line.cells.map(cell => cell.text).join(' ')).join('\n');
+}
+
+/**
+ * Real page (1-based) of a character offset in pdf_text, or null when the text
+ * has no page boundaries
+ */
+export function pageAtOffset(text: string, charIndex: number): number | null {
+  if (!text.includes(PAGE_BREAK)) return null;
+
+  let page = 1;
+  const end = Math.min(Math.max(charIndex, 0), text.length);
+  for (let i = text.indexOf(PAGE_BREAK); i !== -1 && i < end; i = text.indexOf(PAGE_BREAK, i + 1)) {
+    page++;
+  }
+  return page;
+}
+
+/**
+ * Offset in pdf_text where a page starts, or null when the text has no page
+ * boundaries or fewer pages
+ */
+export function pageStartOffset(text: string, page: number): number | null {
+  if (!text.includes(PAGE_BREAK) || page < 1) return null;
+
+  let offset = 0;
+  for (let current = 1; current < page; current++) {
+    const next = text.indexOf(PAGE_BREAK, offset);
+    if (next === -1) return null;
+    offset = next + 1;
+  }
+  return offset < text.length ? offset : null;
+}
+
+/**
+ * Number of pages in pdf_text, or null when the text has no page boundaries
+ */
+export function countPages(text: string): number | null {
+  return pageAtOffset(text, text.length - 1);
+}
+
+/**
+ * Join page texts into pdf_text
+ */
+export function joinPages(pageTexts: string[]): string {
+  return pageTexts.map(text => text + PAGE_BREAK).join('');
+}
@@ -3,9 +3,23 @@
  *
  * Connects to Pinecone to query the 20K indexed documents.
  * Uses PINECONE_INDEX_HOST environment variable for the index endpoint.
+ * Implements VectorStore (vector-store.ts), selected with VECTOR_STORE=pinecone.
  */
 
 import { Pinecone, type RecordMetadata } from '@pinecone-database/pinecone';
+import {
+  DEFAULT_NAMESPACE,
+  VectorFilter,
+  VectorQueryOptions,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats
+} from './vector-store.js';
+
+// Pinecone request size limits
+const FETCH_BATCH_SIZE = 100;
+const UPSERT_BATCH_SIZE = 100;
+const DELETE_BATCH_SIZE = 1000;
 
 export interface PineconeQueryResult {
   id: string;
@@ -30,7 +44,15 @@ export interface PineconeClientOptions {
   namespace?: string;
 }
 
-export class PineconeClient {
+/**
+ * Pinecone metadata filter for an equality filter
+ */
+function toPineconeFilter(filter: VectorFilter): object {
+  return Object.fromEntries(Object.entries(filter).map(([key, value]) => [key, { $eq: value }]));
+}
+
+export class PineconeClient implements VectorStore {
+  readonly kind = 'pinecone';
   private client: Pinecone;
   private indexHost: string;
   private defaultNamespace: string;
@@ -38,7 +60,7 @@ export class PineconeClient {
   constructor(options: PineconeClientOptions = {}) {
     const apiKey = options.apiKey || process.env.PINECONE_API_KEY;
     this.indexHost = options.indexHost || process.env.PINECONE_INDEX_HOST || '';
-    this.defaultNamespace = options.namespace || 'gov-il-decisions';
+    this.defaultNamespace = options.namespace || DEFAULT_NAMESPACE;
 
     if (!apiKey) {
       throw new Error('PINECONE_API_KEY environment variable is required');
@@ -54,23 +76,22 @@ export class PineconeClient {
   /**
    * Query Pinecone for similar documents
    * @param embedding - Query embedding vector (1024 dimensions for text-embedding-3-small)
-   * @param topK - Number of results to return (default: 10)
-   * @param namespace - Pinecone namespace (default: 'gov-il-decisions')
+   * @param options - topK (default: 10), metadata equality filter, namespace (default: 'gov-il-decisions')
    * @returns Array of matching documents with scores and metadata
    */
   async query(
-    embedding: number[],
-    topK: number = 10,
-    namespace?: string
+    embedding: ArrayLike<number>,
+    options: VectorQueryOptions = {}
   ): Promise<PineconeQueryResult[]> {
-    const ns = namespace || this.defaultNamespace;
+    const ns = options.namespace || this.defaultNamespace;
 
     // Get the index using the host URL
     const index = this.client.index(this.indexHost);
 
     const results = await index.namespace(ns).query({
-      vector: embedding,
-      topK,
+      vector: Array.from(embedding),
+      topK: options.topK ?? 10,
+      filter: options.filter ? toPineconeFilter(options.filter) : undefined,
       includeMetadata: true
     });
 
@@ -112,6 +133,71 @@ export class PineconeClient {
     };
   }
 
+  /**
+   * Metadata of the given ids that exist
+   */
+  async fetch(ids: string[], namespace?: string): Promise<Map<string, Record<string, unknown>>> {
+    const index = this.client.index(this.indexHost).namespace(namespace || this.defaultNamespace);
+    const result = new Map<string, Record<string, unknown>>();
+
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const response = await index.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+      for (const [id, record] of Object.entries(response.records ?? {})) {
+        result.set(id, (record.metadata as Record<string, unknown>) || {});
+      }
+    }
+    return result;
+  }
+
+  async upsert(records: VectorRecord[], namespace?: string): Promise<void> {
+    const index = this.client.index(this.indexHost).namespace(namespace || this.defaultNamespace);
+    for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+      await index.upsert(records.slice(i, i + UPSERT_BATCH_SIZE).map(record => ({
+        id: record.id,
+        values: Array.from(record.values),
+        metadata: record.metadata as RecordMetadata | undefined
+      })));
+    }
+  }
+
+  async delete(ids: string[], namespace?: string): Promise<void> {
+    const index = this.client.index(this.indexHost).namespace(namespace || this.defaultNamespace);
+    for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+      await index.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+
+  /**
+   * All vector ids in a namespace (list is supported by serverless indexes only)
+   */
+  async listIds(namespace?: string): Promise<string[]> {
+    const index = this.client.index(this.indexHost).namespace(namespace || this.defaultNamespace);
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const page = await index.listPaginated({ paginationToken });
+      for (const vector of page.vectors ?? []) {
+        if (vector.id) ids.push(vector.id);
+      }
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    return ids;
+  }
+
+  async stats(namespace?: string): Promise<VectorStoreStats> {
+    const ns = namespace || this.defaultNamespace;
+    const stats = await this.client.index(this.indexHost).describeIndexStats();
+    return {
+      vectorCount: stats.namespaces?.[ns]?.recordCount || 0,
+      dimensions: stats.dimension ?? null,
+      namespace: ns
+    };
+  }
+
+  async flush(): Promise<void> {}
+
   /**
    * Get namespace statistics
    * @param namespace - Pinecone namespace (default: 'gov-il-decisions')
@@ -0,0 +1,309 @@
+/**
+ * Re-ranking Stage for Search Results
+ * Re-scores the top candidates of a search (the first RERANK_TOP_N) against the
+ * query with a pluggable scorer, so the first results are the most relevant ones
+ * rather than the best keyword or cosine matches:
+ *
+ *   heuristic      Deterministic: how many query terms each candidate covers, in
+ *                  its title and its text, with a bonus for adjacent query terms
+ *   cross-encoder  The local cross-encoder model scores each (query, passage) pair
+ *                  (embedding-model.ts)
+ *   anthropic      A Claude model grades all candidates in one request
+ *
+ * Scores are cached per (query, candidate). A scorer that fails or does not answer
+ * within the timeout leaves the original order; a late answer is still cached.
+ *
+ * Environment:
+ *   RERANKER            off (default), heuristic, cross-encoder or anthropic
+ *   RERANK_TOP_N        Candidates to re-rank (default: 50)
+ *   RERANK_TIMEOUT_MS   Time allowed for scoring (default: 5000)
+ *   ANTHROPIC_API_KEY   For the anthropic scorer
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { createHebrewMatcher, HEBREW_STOP_WORDS, tokenizeHebrew } from './hebrew-normalizer.js';
+import { scoreTextPairs } from './embedding-model.js';
+
+export type RerankerName = 'heuristic' | 'cross-encoder' | 'anthropic';
+
+export const RERANKER_NAMES: RerankerName[] = ['heuristic', 'cross-encoder', 'anthropic'];
+
+export interface RerankCandidate {
+  id: string;                 // Cache key: decision id, or decision#passage
+  title: string;              // Title line: title | case type | committee
+  text: string;               // The matched passage, or the start of the decision
+}
+
+export interface RerankScorer {
+  readonly name: RerankerName;
+  /** Relevance of each candidate to the query, higher is better, in candidate order */
+  score(query: string, candidates: RerankCandidate[]): Promise<number[]>;
+}
+
+export interface RerankInfo {
+  scorer: RerankerName;
+  status: 'reranked' | 'timeout' | 'error';
+  candidates: number;
+  cached: number;             // Candidates scored from the cache
+  error?: string;
+}
+
+export interface RerankResult<T> {
+  items: T[];
+  scores: Array<number | null>;   // Aligned with items; null beyond the top N or on fallback
+  info: RerankInfo;
+}
+
+export interface RerankerOptions {
+  topN?: number;
+  timeoutMs?: number;
+  cacheSize?: number;
+}
+
+const DEFAULT_TOP_N = 50;
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_CACHE_SIZE = 20000;
+
+/**
+ * Query terms worth matching (no stop words or single letters)
+ */
+function queryTerms(query: string): string[] {
+  return tokenizeHebrew(query).filter(token => token.length > 1 && !HEBREW_STOP_WORDS.has(token));
+}
+
+/**
+ * Deterministic scorer: the share of query terms found in the candidate (0.6),
+ * in its title (0.25), and of adjacent query term pairs that are adjacent in
+ * the text as well (0.15). Terms match morphologically (hebrew-normalizer.ts).
+ */
+export class HeuristicScorer implements RerankScorer {
+  readonly name = 'heuristic';
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const terms = queryTerms(query);
+    if (terms.length === 0) return candidates.map(() => 0);
+
+    return candidates.map(candidate => {
+      const inTitle = createHebrewMatcher(candidate.title);
+      const inText = createHebrewMatcher(candidate.text);
+
+      let covered = 0;
+      let coveredInTitle = 0;
+      for (const term of terms) {
+        if (inTitle(term)) coveredInTitle++;
+        if (inTitle(term) || inText(term)) covered++;
+      }
+
+      let adjacent = 0;
+      if (terms.length > 1) {
+        const words = tokenizeHebrew(`${candidate.title}\n${candidate.text}`).map(createHebrewMatcher);
+        for (let i = 0; i < terms.length - 1; i++) {
+          const [first, second] = [terms[i], terms[i + 1]];
+          if (words.some((matches, j) => j + 1 < words.length && matches(first) && words[j + 1](second))) {
+            adjacent++;
+          }
+        }
+      }
+
+      const score = 0.6 * covered / terms.length +
+        0.25 * coveredInTitle / terms.length +
+        (terms.length > 1 ? 0.15 * adjacent / (terms.length - 1) : 0.15 * covered);
+      return Math.round(score * 1000) / 1000;
+    });
+  }
+}
+
+/**
+ * Local cross-encoder (RERANK_MODEL): reads the query and the passage together
+ */
+export class CrossEncoderScorer implements RerankScorer {
+  readonly name = 'cross-encoder';
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    return scoreTextPairs(query, candidates.map(candidate => `${candidate.title}\n${candidate.text}`));
+  }
+}
+
+const LLM_MODEL = 'claude-haiku-4-5-20251001';
+
+// Text of each candidate sent to the model
+const LLM_CANDIDATE_CHARS = 600;
+
+/**
+ * Claude grades every candidate 0-10 in a single request
+ */
+export class AnthropicScorer implements RerankScorer {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const listing = candidates
+      .map((candidate, i) => `[${i + 1}] ${candidate.title}\n${candidate.text.substring(0, LLM_CANDIDATE_CHARS)}`)
+      .join('\n\n');
+
+    const response = await this.client.messages.create({
+      model: LLM_MODEL,
+      max_tokens: 1000,
+      messages: [{
+        role: 'user',
+        content: `A user searched Israeli land appraisal decisions (שמאי מכריע, ועדות השגה וערעור) for:
+${query}
+
+Rate how well each decision below answers the search, from 0 (unrelated) to 10 (exactly what was asked).
+Return only a JSON array of ${candidates.length} numbers, in the order of the decisions.
+
+${listing}`
+      }]
+    });
+
+    const reply = response.content.map(block => (block.type === 'text' ? block.text : '')).join('');
+    const json = reply.substring(reply.indexOf('['), reply.lastIndexOf(']') + 1);
+    const grades: unknown = json ? JSON.parse(json) : null;
+    if (!Array.isArray(grades) || grades.length !== candidates.length) {
+      throw new Error(`Expected ${candidates.length} grades, got: ${reply.substring(0, 200)}`);
+    }
+    return grades.map(grade => (typeof grade === 'number' ? grade / 10 : 0));
+  }
+}
+
+export class Reranker {
+  private cache = new Map<string, number>();
+  private topN: number;
+  private timeoutMs: number;
+  private cacheSize: number;
+
+  constructor(readonly scorer: RerankScorer, options: RerankerOptions = {}) {
+    this.topN = options.topN ?? DEFAULT_TOP_N;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.cacheSize = options.cacheSize ?? DEFAULT_CACHE_SIZE;
+  }
+
+  /** Candidates re-ranked per search; fetch at least this many to re-rank */
+  get candidateCount(): number {
+    return this.topN;
+  }
+
+  private cacheKey(query: string, id: string): string {
+    return `${this.scorer.name}\u0000${tokenizeHebrew(query).join(' ')}\u0000${id}`;
+  }
+
+  private remember(key: string, score: number): void {
+    this.cache.delete(key);
+    this.cache.set(key, score);
+    if (this.cache.size > this.cacheSize) {
+      // Maps iterate in insertion order: drop the least recently stored
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  /**
+   * Re-order the first topN items by the scorer; items beyond them keep their
+   * place after. On timeout or error the items are returned as they came.
+   */
+  async rerank<T>(query: string, items: T[], toCandidate: (item: T) => RerankCandidate): Promise<RerankResult<T>> {
+    const head = items.slice(0, this.topN);
+    const candidates = head.map(toCandidate);
+    const keys = candidates.map(candidate => this.cacheKey(query, candidate.id));
+    const uncached = candidates.filter((_, i) => !this.cache.has(keys[i]));
+    const info: RerankInfo = {
+      scorer: this.scorer.name,
+      status: 'reranked',
+      candidates: candidates.length,
+      cached: candidates.length - uncached.length
+    };
+    const fallback = (status: RerankInfo['status'], error?: string): RerankResult<T> => ({
+      items,
+      scores: items.map(() => null),
+      info: { ...info, status, ...(error && { error }) }
+    });
+
+    if (uncached.length > 0) {
+      const scoring = this.scorer.score(query, uncached).then(scores => {
+        if (scores.length !== uncached.length) {
+          throw new Error(`Scorer returned ${scores.length} scores for ${uncached.length} candidates`);
+        }
+        uncached.forEach((candidate, i) => this.remember(this.cacheKey(query, candidate.id), scores[i]));
+      });
+
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<'timeout'>(resolve => {
+        timer = setTimeout(() => resolve('timeout'), this.timeoutMs);
+      });
+      try {
+        if (await Promise.race([scoring, timeout]) === 'timeout') {
+          scoring.catch(() => {});  // A late failure has nobody to report to
+          console.error(`[Reranker] ${this.scorer.name} timed out after ${this.timeoutMs}ms, keeping the original order`);
+          return fallback('timeout');
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[Reranker] ${this.scorer.name} failed, keeping the original order:`, message);
+        return fallback('error', message);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    // Stable: equal scores keep their original order
+    const ranked = head
+      .map((item, i) => ({ item, score: this.cache.get(keys[i]) ?? 0, i }))
+      .sort((a, b) => b.score - a.score || a.i - b.i);
+
+    return {
+      items: [...ranked.map(r => r.item), ...items.slice(this.topN)],
+      scores: [...ranked.map(r => r.score), ...items.slice(this.topN).map(() => null)],
+      info
+    };
+  }
+}
+
+/**
+ * The scorer for a reranker name. Throws when it cannot be created.
+ */
+export function createScorer(name: RerankerName): RerankScorer {
+  switch (name) {
+    case 'heuristic':
+      return new HeuristicScorer();
+    case 'cross-encoder':
+      return new CrossEncoderScorer();
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) throw new Error('RERANKER=anthropic but ANTHROPIC_API_KEY is not set');
+      return new AnthropicScorer(apiKey);
+    }
+    default:
+      throw new Error(`Unknown RERANKER: ${name}. Valid options: off, ${RERANKER_NAMES.join(', ')}`);
+  }
+}
+
+// Singleton instance (undefined until first use, null when off)
+let instance: Reranker | null | undefined;
+
+/**
+ * The reranker selected by RERANKER, or null when re-ranking is off
+ * (or the scorer cannot be created)
+ */
+export function getReranker(): Reranker | null {
+  if (instance !== undefined) return instance;
+
+  const name = process.env.RERANKER || 'off';
+  if (name === 'off') {
+    instance = null;
+    return instance;
+  }
+
+  try {
+    instance = new Reranker(createScorer(name as RerankerName), {
+      topN: Number(process.env.RERANK_TOP_N) || undefined,
+      timeoutMs: Number(process.env.RERANK_TIMEOUT_MS) || undefined
+    });
+  } catch (error) {
+    console.error('[Reranker] Re-ranking disabled:', error instanceof Error ? error.message : error);
+    instance = null;
+  }
+  return instance;
+}
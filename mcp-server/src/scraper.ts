@@ -1,6 +1,6 @@
 /**
  * Web Scraper for Gov.il Land Appraisal Decisions
- * Uses ScraperAPI for rendering dynamic content
+ * Fetches rendered pages through the fetch transport (transport.ts; ScraperAPI by default)
  */
 
 import * as cheerio from 'cheerio';
@@ -9,14 +9,21 @@ import {
   DatabaseType,
   ParsedDecision,
   Decision,
+  PrimarySelectors,
+  SelectorAnchor,
   DATABASE_CONFIG
 } from './types.js';
+import { parseHebrewDate } from './hebrew-calendar.js';
+import { parseParcels } from './parcel-parser.js';
+import { Transport, getTransport } from './transport.js';
+import { LearnedSelectors, learnSelectors, mergeSelectors } from './selector-learner.js';
 
 export interface ScraperOptions {
   apiKey: string;
   delayMs?: number;
   premium?: boolean;
   render?: boolean;
+  transport?: Transport;  // Default: the shared transport (getTransport)
 }
 
 /**
@@ -74,6 +81,17 @@ export interface PrimaryStrategyAlert {
  */
 export type AlertHandler = (alert: PrimaryStrategyAlert) => void;
 
+/**
+ * Callback type for retrieving indexed decisions of a database
+ * Used to learn new primary selectors when a page redesign breaks them
+ */
+export type SelectorAnchorProvider = (database: DatabaseType) => SelectorAnchor[];
+
+/**
+ * Callback type for storing newly learned primary selectors
+ */
+export type SelectorsLearnedHandler = (learned: LearnedSelectors, database: DatabaseType) => void;
+
 /**
  * XPath-like pattern for DOM traversal
  * Simplified XPath syntax: /tag[@attr=value]/child/...
@@ -91,13 +109,8 @@ interface XPathPattern {
  * Selector configuration for different extraction strategies
  */
 interface SelectorConfig {
-  // Primary CSS selectors (class-based)
-  primary: {
-    container: string[];
-    title: string[];
-    pdfLink: string[];
-    date: string[];
-  };
+  // Primary CSS selectors (class-based); learned selectors are tried first
+  primary: PrimarySelectors;
   // XPath-like patterns (path-based, resilient to class changes)
   xpath: {
     container: XPathPattern[];
@@ -262,6 +275,7 @@ export class GovIlScraper {
   private delayMs: number;
   private premium: boolean;
   private render: boolean;
+  private transport: Transport;
   private pageSize = 10; // Gov.il uses 10 items per page
   private selectors: SelectorConfig;
   private lastStrategyUsed: SelectorStrategyType | null = null;
@@ -276,11 +290,16 @@ export class GovIlScraper {
   private alertHandler: AlertHandler | null = null;
   private alertTriggered: boolean = false;
 
+  // Selector learning from indexed decisions (selector-learner.ts)
+  private selectorAnchorProvider: SelectorAnchorProvider | null = null;
+  private selectorsLearnedHandler: SelectorsLearnedHandler | null = null;
+
   constructor(options: ScraperOptions) {
     this.apiKey = options.apiKey;
     this.delayMs = options.delayMs || 1000;
     this.premium = options.premium ?? true;
     this.render = options.render ?? true;
+    this.transport = options.transport ?? getTransport();
     this.selectors = DEFAULT_SELECTORS;
 
     // Initialize strategy stats
@@ -328,6 +347,74 @@ export class GovIlScraper {
     this.alertHandler = handler;
   }
 
+  /**
+   * Set the provider of indexed decisions to learn primary selectors from
+   * Without one, a failing primary strategy falls through to the next strategy
+   */
+  setSelectorAnchorProvider(provider: SelectorAnchorProvider): void {
+    this.selectorAnchorProvider = provider;
+  }
+
+  /**
+   * Set the handler called with newly learned primary selectors (to store them)
+   */
+  setSelectorsLearnedHandler(handler: SelectorsLearnedHandler): void {
+    this.selectorsLearnedHandler = handler;
+  }
+
+  /**
+   * Use learned primary selectors ahead of the built-in ones; null restores
+   * the built-in selectors
+   */
+  setPrimarySelectors(selectors: PrimarySelectors | null): void {
+    this.selectors = {
+      ...DEFAULT_SELECTORS,
+      primary: selectors ? mergeSelectors(selectors, DEFAULT_SELECTORS.primary) : DEFAULT_SELECTORS.primary
+    };
+  }
+
+  /**
+   * Get the primary selectors in use, learned ones first
+   */
+  getPrimarySelectors(): PrimarySelectors {
+    return this.selectors.primary;
+  }
+
+  /**
+   * Learn primary selectors from the indexed decisions shown in a page whose
+   * primary selectors fail. The learned selectors are kept only if the
+   * primary strategy then extracts every located decision.
+   */
+  learnPrimarySelectors(html: string, database: DatabaseType): LearnedSelectors | null {
+    if (!this.selectorAnchorProvider) return null;
+
+    const learned = learnSelectors(html, this.selectorAnchorProvider(database));
+    if (!learned) {
+      console.error(`[Scraper] Selector learning: not enough indexed decisions located in the ${database} page`);
+      return null;
+    }
+
+    const previous = this.selectors;
+    this.setPrimarySelectors(learned.selectors);
+    const decisions = this.parseWithCssPrimary(html, database);
+    if (decisions.length < learned.anchors) {
+      console.error(`[Scraper] Selector learning: learned selectors extracted ${decisions.length} items, expected at least ${learned.anchors} - discarded`);
+      this.selectors = previous;
+      return null;
+    }
+
+    console.error(`[Scraper] Learned primary selectors from ${learned.anchors} indexed decisions: ` +
+      `container '${learned.selectors.container[0]}', title '${learned.selectors.title[0]}' (${decisions.length} items)`);
+    if (this.selectorsLearnedHandler) {
+      try {
+        this.selectorsLearnedHandler(learned, database);
+      } catch (err) {
+        console.error('[Scraper] Error in selectors learned handler:', err);
+      }
+    }
+    return learned;
+  }
+
   /**
    * Get the current consecutive primary failure count
    */
@@ -402,22 +489,6 @@ export class GovIlScraper {
     }
   }
 
-  /**
-   * Build the ScraperAPI URL for a gov.il page
-   * Uses ultra_premium=true which is required for gov.il (protected site)
-   * wait_for=5000 ensures Angular app has time to render content
-   */
-  private buildScraperUrl(targetUrl: string): string {
-    const params = new URLSearchParams({
-      api_key: this.apiKey,
-      url: targetUrl,
-      render: this.render.toString(),
-      ultra_premium: 'true',  // Required for gov.il - premium alone fails
-      wait_for: '5000'        // Wait 5 seconds for Angular to render
-    });
-    return `https://api.scraperapi.com?${params.toString()}`;
-  }
-
   /**
    * Build the gov.il dynamiccollector URL for a specific page
    */
@@ -427,22 +498,26 @@ export class GovIlScraper {
   }
 
   /**
-   * Fetch a page using ScraperAPI
+   * Fetch a rendered page through the transport
+   * ultra_premium is required for gov.il (protected site); wait_for=5000
+   * gives the Angular app time to render
    */
   async fetchPage(database: DatabaseType, page: number): Promise<string> {
     const skip = page * this.pageSize;
-    const govIlUrl = this.buildGovIlUrl(database, skip);
-    const scraperUrl = this.buildScraperUrl(govIlUrl);
 
-    const response = await fetch(scraperUrl, {
-      method: 'GET',
+    const response = await this.transport.fetch({
+      url: this.buildGovIlUrl(database, skip),
       headers: {
         'Accept': 'text/html'
-      }
+      },
+      apiKey: this.apiKey,
+      render: this.render,
+      ultraPremium: true,
+      waitForMs: 5000
     });
 
     if (!response.ok) {
-      throw new Error(`ScraperAPI error: ${response.status} ${response.statusText}`);
+      throw new Error(`Page fetch error: ${response.status} ${response.statusText}`);
     }
 
     return response.text();
@@ -455,6 +530,10 @@ export class GovIlScraper {
   parseDecisions(html: string, database: DatabaseType): ParsedDecision[] {
     // Strategy 1: CSS Primary selectors (class-based)
     let decisions = this.parseWithCssPrimary(html, database);
+    // A redesigned page: learn new primary selectors from the indexed decisions it shows
+    if (decisions.length === 0 && this.learnPrimarySelectors(html, database)) {
+      decisions = this.parseWithCssPrimary(html, database);
+    }
     if (decisions.length > 0) {
       this.lastStrategyUsed = 'css_primary';
       this.logStrategy('css_primary', true, decisions.length);
@@ -554,7 +633,7 @@ export class GovIlScraper {
             }
           }
 
-          const metadata = this.parseTitleMetadata(title, database);
+          const metadata = parseTitleMetadata(title, database);
 
           decisions.push({
             title,
@@ -730,7 +809,7 @@ export class GovIlScraper {
     }
 
     // Parse Hebrew title for metadata
-    const metadata = this.parseTitleMetadata(title, database);
+    const metadata = parseTitleMetadata(title, database);
 
     return {
       title,
@@ -827,7 +906,7 @@ export class GovIlScraper {
       const title = titles[i];
       const url = pdfUrls[i] || null;
       const publishDate = dates[i] || null;
-      const metadata = this.parseTitleMetadata(title, database);
+      const metadata = parseTitleMetadata(title, database);
 
       decisions.push({
         title,
@@ -889,7 +968,7 @@ export class GovIlScraper {
     }
 
     // Parse Hebrew title for metadata
-    const metadata = this.parseTitleMetadata(title, database);
+    const metadata = parseTitleMetadata(title, database);
 
     return {
       title,
@@ -904,185 +983,6 @@ export class GovIlScraper {
     };
   }
 
-  /**
-   * Parse metadata from Hebrew decision title
-   * Extracts: block, plot, committee, appraiser, caseType, decisionDate
-   * Handles multiple title formats from all three databases
-   */
-  private parseTitleMetadata(title: string, database: DatabaseType): Partial<ParsedDecision> {
-    const metadata: Partial<ParsedDecision> = {
-      block: null,
-      plot: null,
-      committee: null,
-      appraiser: null,
-      caseType: null,
-      decisionDate: null
-    };
-
-    // ====== Strategy 1: Full pattern for decisive appraiser decisions ======
-    // Format: הכרעת שמאי מכריע מיום DD-MM-YYYY בעניין [caseType] נ [committee] ג [block] ח [plot] - [appraiser]
-    const decisivePattern = /הכרעת שמאי (מכריע|מייעץ) מיום (\d{2}-\d{2}-\d{4}) בעניין ([^נ]+)נ ([^ג]+)ג (\d+) ח (\d+)\s*-?\s*(.+)?/;
-    const decisiveMatch = title.match(decisivePattern);
-
-    if (decisiveMatch) {
-      metadata.decisionDate = decisiveMatch[2];
-      metadata.caseType = decisiveMatch[3].trim();
-      metadata.committee = decisiveMatch[4].trim().replace(/ועדה מקומית\s*/i, '').trim();
-      metadata.block = decisiveMatch[5];
-      metadata.plot = decisiveMatch[6];
-      if (decisiveMatch[7]) {
-        metadata.appraiser = decisiveMatch[7].trim();
-      }
-      return metadata;
-    }
-
-    // ====== Strategy 2: Appeals committee pattern ======
-    // Format: החלטה בהשגה [number] [committee] גוש [block] חלקה [plot]
-    const appealsCommitteePattern = /החלטה ב?השגה(?:\s+מס['׳]?\s*|\s+)(\d+)?\s*([^גג]+)?[גג](?:וש)?\s*(\d+)\s*[חח](?:לקה)?\s*(\d+)/;
-    const appealsCommMatch = title.match(appealsCommitteePattern);
-
-    if (appealsCommMatch) {
-      if (appealsCommMatch[2]) {
-        metadata.committee = appealsCommMatch[2].trim().replace(/ועדה מקומית\s*/i, '').trim();
-      }
-      metadata.block = appealsCommMatch[3];
-      metadata.plot = appealsCommMatch[4];
-      // Default case type for appeals committee
-      if (!metadata.caseType) {
-        metadata.caseType = 'השגה';
-      }
-    }
-
-    // ====== Strategy 3: Appeals board pattern ======
-    // Format: ערעור [number] [details] / ערר מס' [number]
-    const appealsBoardPattern = /ערעור|ערר\s*מס['׳]?\s*(\d+)?/;
-    const appealsBoardMatch = title.match(appealsBoardPattern);
-
-    if (appealsBoardMatch) {
-      // Default case type for appeals board
-      if (!metadata.caseType) {
-        metadata.caseType = 'ערעור';
-      }
-    }
-
-    // ====== Extract block and plot (multiple patterns) ======
-    if (!metadata.block || !metadata.plot) {
-      // Pattern 1: ג XXXX ח YYYY (short form)
-      const blockPlotShort = title.match(/[גג]\s*(\d+)\s*[חח]\s*(\d+)/);
-      if (blockPlotShort) {
-        metadata.block = metadata.block || blockPlotShort[1];
-        metadata.plot = metadata.plot || blockPlotShort[2];
-      }
-
-      // Pattern 2: גוש XXXX חלקה YYYY (long form)
-      const blockPlotLong = title.match(/גוש\s*(\d+)\s*(?:,?\s*)?חלקה\s*(\d+)/);
-      if (blockPlotLong) {
-        metadata.block = metadata.block || blockPlotLong[1];
-        metadata.plot = metadata.plot || blockPlotLong[2];
-      }
-
-      // Pattern 3: Block/Plot in parentheses (גוש 1234, חלקה 56)
-      const blockPlotParen = title.match(/גוש\s*(\d+)\s*,\s*חלקה\s*(\d+)/);
-      if (blockPlotParen) {
-        metadata.block = metadata.block || blockPlotParen[1];
-        metadata.plot = metadata.plot || blockPlotParen[2];
-      }
-    }
-
-    // ====== Extract committee (multiple patterns) ======
-    if (!metadata.committee) {
-      // Pattern 1: ועדה מקומית לתכנון ובניה XXX
-      const committeeFullMatch = title.match(/ועדה מקומית(?:\s+לתכנון\s+(?:ו)?בניה)?\s+([א-ת\s-]+?)(?:\s+גוש|\s+[גג]\s|\s+-|$)/);
-      if (committeeFullMatch) {
-        metadata.committee = committeeFullMatch[1].trim();
-      }
-
-      // Pattern 2: Short committee name after 'נ'
-      const committeeAfterN = title.match(/\sנ\s+([א-ת\s-]+?)(?:\s+גוש|\s+[גג]\s)/);
-      if (committeeAfterN && !metadata.committee) {
-        metadata.committee = committeeAfterN[1].trim().replace(/ועדה מקומית\s*/i, '').trim();
-      }
-
-      // Pattern 3: Committee in context with לתו"ב
-      const committeeTub = title.match(/לתו"ב\s+([א-ת\s-]+?)(?:\s+גוש|\s+[גג]\s|\s+-|$)/);
-      if (committeeTub && !metadata.committee) {
-        metadata.committee = committeeTub[1].trim();
-      }
-    }
-
-    // ====== Extract appraiser (multiple patterns) ======
-    if (!metadata.appraiser) {
-      // Pattern 1: After hyphen at end (common in decisive appraiser format)
-      const appraiserHyphen = title.match(/\s-\s*([א-ת\s]+)$/);
-      if (appraiserHyphen) {
-        metadata.appraiser = appraiserHyphen[1].trim();
-      }
-
-      // Pattern 2: שמאי/שמאית [name]
-      const appraiserTitle = title.match(/שמאי(?:ת)?\s+(?:מכריע(?:ה)?|מייעץ|מייעצת)?\s*[:-]?\s*([א-ת\s']+?)(?:\s+מיום|\s+החליט|$)/);
-      if (appraiserTitle && !metadata.appraiser) {
-        metadata.appraiser = appraiserTitle[1].trim();
-      }
-
-      // Pattern 3: After colon in metadata section
-      const appraiserColon = title.match(/שמאי\s*:\s*([א-ת\s']+?)(?:\s*[,;]|$)/);
-      if (appraiserColon && !metadata.appraiser) {
-        metadata.appraiser = appraiserColon[1].trim();
-      }
-    }
-
-    // ====== Extract date (multiple patterns) ======
-    if (!metadata.decisionDate) {
-      // Pattern 1: DD-MM-YYYY or DD/MM/YYYY or DD.MM.YYYY
-      const dateStandard = title.match(/(\d{1,2})[-./](\d{1,2})[-./](\d{4})/);
-      if (dateStandard) {
-        const day = dateStandard[1].padStart(2, '0');
-        const month = dateStandard[2].padStart(2, '0');
-        const year = dateStandard[3];
-        metadata.decisionDate = `${day}-${month}-${year}`;
-      }
-
-      // Pattern 2: After "מיום" keyword
-      const dateMiyom = title.match(/מיום\s+(\d{1,2}[-./]\d{1,2}[-./]\d{4})/);
-      if (dateMiyom && !metadata.decisionDate) {
-        metadata.decisionDate = dateMiyom[1].replace(/[./]/g, '-');
-      }
-
-      // Pattern 3: YYYY-MM-DD (ISO format)
-      const dateISO = title.match(/(\d{4})-(\d{2})-(\d{2})/);
-      if (dateISO && !metadata.decisionDate) {
-        metadata.decisionDate = `${dateISO[3]}-${dateISO[2]}-${dateISO[1]}`;
-      }
-    }
-
-    // ====== Extract case type (comprehensive list) ======
-    if (!metadata.caseType) {
-      // Priority order: most specific to general
-      const caseTypes: [RegExp, string][] = [
-        [/היטל השבחה/, 'היטל השבחה'],
-        [/פיצויים?\s*(?:בגין|על|בשל)?\s*הפקעה/, 'פיצויים בגין הפקעה'],
-        [/פיצויי(?:ם)?\s+(?:בגין\s+)?תכנית/, 'פיצויים'],
-        [/פיצויים/, 'פיצויים'],
-        [/ירידת ערך/, 'ירידת ערך'],
-        [/השבחה/, 'היטל השבחה'],
-        [/196\s*א/, '196א'],
-        [/197/, '197'],
-        [/השגה/, 'השגה'],
-        [/ערעור|ערר/, 'ערעור'],
-        [/שומה/, 'שומה']
-      ];
-
-      for (const [pattern, caseType] of caseTypes) {
-        if (pattern.test(title)) {
-          metadata.caseType = caseType;
-          break;
-        }
-      }
-    }
-
-    return metadata;
-  }
-
   /**
    * Extract year from a date string in DD-MM-YYYY or similar format
    */
@@ -1337,3 +1237,177 @@ export class GovIlScraper {
 export function createScraper(apiKey: string, options?: Partial<ScraperOptions>): GovIlScraper {
   return new GovIlScraper({ apiKey, ...options });
 }
+
+/**
+ * Parse metadata from Hebrew decision title
+ * Extracts: block, plot, committee, appraiser, caseType, decisionDate
+ * Handles multiple title formats from all three databases
+ * Shared by the HTML strategies and the gov.il API client (dynamic-collector.ts)
+ */
+export function parseTitleMetadata(title: string, database: DatabaseType): Partial<ParsedDecision> {
+  const metadata: Partial<ParsedDecision> = {
+    block: null,
+    plot: null,
+    committee: null,
+    appraiser: null,
+    caseType: null,
+    decisionDate: null
+  };
+
+  // ====== Strategy 1: Full pattern for decisive appraiser decisions ======
+  // Format: הכרעת שמאי מכריע מיום DD-MM-YYYY בעניין [caseType] נ [committee] ג [block] ח [plot] - [appraiser]
+  const decisivePattern = /הכרעת שמאי (מכריע|מייעץ) מיום (\d{2}-\d{2}-\d{4}) בעניין ([^נ]+)נ ([^ג]+)ג (\d+) ח (\d+)\s*-?\s*(.+)?/;
+  const decisiveMatch = title.match(decisivePattern);
+
+  if (decisiveMatch) {
+    metadata.decisionDate = decisiveMatch[2];
+    metadata.caseType = decisiveMatch[3].trim();
+    metadata.committee = decisiveMatch[4].trim().replace(/ועדה מקומית\s*/i, '').trim();
+    metadata.block = decisiveMatch[5];
+    metadata.plot = decisiveMatch[6];
+    if (decisiveMatch[7]) {
+      metadata.appraiser = decisiveMatch[7].trim();
+    }
+    return metadata;
+  }
+
+  // ====== Strategy 2: Appeals committee pattern ======
+  // Format: החלטה בהשגה [number] [committee] גוש [block] חלקה [plot]
+  const appealsCommitteePattern = /החלטה ב?השגה(?:\s+מס['׳]?\s*|\s+)(\d+)?\s*([^גג]+)?[גג](?:וש)?\s*(\d+)\s*[חח](?:לקה)?\s*(\d+)/;
+  const appealsCommMatch = title.match(appealsCommitteePattern);
+
+  if (appealsCommMatch) {
+    if (appealsCommMatch[2]) {
+      metadata.committee = appealsCommMatch[2].trim().replace(/ועדה מקומית\s*/i, '').trim();
+    }
+    metadata.block = appealsCommMatch[3];
+    metadata.plot = appealsCommMatch[4];
+    // Default case type for appeals committee
+    if (!metadata.caseType) {
+      metadata.caseType = 'השגה';
+    }
+  }
+
+  // ====== Strategy 3: Appeals board pattern ======
+  // Format: ערעור [number] [details] / ערר מס' [number]
+  const appealsBoardPattern = /ערעור|ערר\s*מס['׳]?\s*(\d+)?/;
+  const appealsBoardMatch = title.match(appealsBoardPattern);
+
+  if (appealsBoardMatch) {
+    // Default case type for appeals board
+    if (!metadata.caseType) {
+      metadata.caseType = 'ערעור';
+    }
+  }
+
+  // ====== Extract block and plot: the first parcel listed ======
+  // All parcels ("חלקות 353-357, 401") are stored in decision_parcels
+  if (!metadata.block || !metadata.plot) {
+    const parcels = parseParcels(title, { abbreviations: true });
+    const first = parcels.find(p => p.block !== null && p.plots !== null) ?? parcels.find(p => p.block !== null);
+    if (first) {
+      metadata.block = metadata.block || String(first.block);
+      metadata.plot = metadata.plot || (first.plots ? String(first.plots.from) : null);
+    }
+  }
+
+  // ====== Extract committee (multiple patterns) ======
+  if (!metadata.committee) {
+    // Pattern 1: ועדה מקומית לתכנון ובניה XXX
+    const committeeFullMatch = title.match(/ועדה מקומית(?:\s+לתכנון\s+(?:ו)?בניה)?\s+([א-ת\s-]+?)(?:\s+גוש|\s+[גג]\s|\s+-|$)/);
+    if (committeeFullMatch) {
+      metadata.committee = committeeFullMatch[1].trim();
+    }
+
+    // Pattern 2: Short committee name after 'נ'
+    const committeeAfterN = title.match(/\sנ\s+([א-ת\s-]+?)(?:\s+גוש|\s+[גג]\s)/);
+    if (committeeAfterN && !metadata.committee) {
+      metadata.committee = committeeAfterN[1].trim().replace(/ועדה מקומית\s*/i, '').trim();
+    }
+
+    // Pattern 3: Committee in context with לתו"ב
+    const committeeTub = title.match(/לתו"ב\s+([א-ת\s-]+?)(?:\s+גוש|\s+[גג]\s|\s+-|$)/);
+    if (committeeTub && !metadata.committee) {
+      metadata.committee = committeeTub[1].trim();
+    }
+  }
+
+  // ====== Extract appraiser (multiple patterns) ======
+  if (!metadata.appraiser) {
+    // Pattern 1: After hyphen at end (common in decisive appraiser format)
+    const appraiserHyphen = title.match(/\s-\s*([א-ת\s]+)$/);
+    if (appraiserHyphen) {
+      metadata.appraiser = appraiserHyphen[1].trim();
+    }
+
+    // Pattern 2: שמאי/שמאית [name]
+    const appraiserTitle = title.match(/שמאי(?:ת)?\s+(?:מכריע(?:ה)?|מייעץ|מייעצת)?\s*[:-]?\s*([א-ת\s']+?)(?:\s+מיום|\s+החליט|$)/);
+    if (appraiserTitle && !metadata.appraiser) {
+      metadata.appraiser = appraiserTitle[1].trim();
+    }
+
+    // Pattern 3: After colon in metadata section
+    const appraiserColon = title.match(/שמאי\s*:\s*([א-ת\s']+?)(?:\s*[,;]|$)/);
+    if (appraiserColon && !metadata.appraiser) {
+      metadata.appraiser = appraiserColon[1].trim();
+    }
+  }
+
+  // ====== Extract date (multiple patterns) ======
+  if (!metadata.decisionDate) {
+    // Pattern 1: DD-MM-YYYY or DD/MM/YYYY or DD.MM.YYYY
+    const dateStandard = title.match(/(\d{1,2})[-./](\d{1,2})[-./](\d{4})/);
+    if (dateStandard) {
+      const day = dateStandard[1].padStart(2, '0');
+      const month = dateStandard[2].padStart(2, '0');
+      const year = dateStandard[3];
+      metadata.decisionDate = `${day}-${month}-${year}`;
+    }
+
+    // Pattern 2: After "מיום" keyword
+    const dateMiyom = title.match(/מיום\s+(\d{1,2}[-./]\d{1,2}[-./]\d{4})/);
+    if (dateMiyom && !metadata.decisionDate) {
+      metadata.decisionDate = dateMiyom[1].replace(/[./]/g, '-');
+    }
+
+    // Pattern 3: YYYY-MM-DD (ISO format)
+    const dateISO = title.match(/(\d{4})-(\d{2})-(\d{2})/);
+    if (dateISO && !metadata.decisionDate) {
+      metadata.decisionDate = `${dateISO[3]}-${dateISO[2]}-${dateISO[1]}`;
+    }
+
+    // Pattern 4: Hebrew-calendar date (ט"ו בשבט תשפ"ג), stored as Gregorian DD-MM-YYYY
+    const dateHebrew = !metadata.decisionDate ? parseHebrewDate(title) : null;
+    if (dateHebrew) {
+      const [year, month, day] = dateHebrew.split('-');
+      metadata.decisionDate = `${day}-${month}-${year}`;
+    }
+  }
+
+  // ====== Extract case type (comprehensive list) ======
+  if (!metadata.caseType) {
+    // Priority order: most specific to general
+    const caseTypes: [RegExp, string][] = [
+      [/היטל השבחה/, 'היטל השבחה'],
+      [/פיצויים?\s*(?:בגין|על|בשל)?\s*הפקעה/, 'פיצויים בגין הפקעה'],
+      [/פיצויי(?:ם)?\s+(?:בגין\s+)?תכנית/, 'פיצויים'],
+      [/פיצויים/, 'פיצויים'],
+      [/ירידת ערך/, 'ירידת ערך'],
+      [/השבחה/, 'היטל השבחה'],
+      [/196\s*א/, '196א'],
+      [/197/, '197'],
+      [/השגה/, 'השגה'],
+      [/ערעור|ערר/, 'ערעור'],
+      [/שומה/, 'שומה']
+    ];
+
+    for (const [pattern, caseType] of caseTypes) {
+      if (pattern.test(title)) {
+        metadata.caseType = caseType;
+        break;
+      }
+    }
+  }
+
+  return metadata;
+}
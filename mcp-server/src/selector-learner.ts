@@ -0,0 +1,282 @@
+/**
+ * Selector Learning
+ * When gov.il redesigns a listing page and the primary CSS selectors stop
+ * matching, the decisions already indexed are used as anchors: their titles
+ * (and PDF URLs) are located in the new DOM, the item containers around them
+ * are found, and candidate selectors for container, title, PDF link and date
+ * are inferred from what the located items have in common. Candidates are
+ * validated against every located item and the rest of the page before they
+ * are accepted.
+ *
+ * The scraper (scraper.ts) tries the learned selectors ahead of its built-in
+ * ones; the indexer stores each learned version in selector_configs, where it
+ * can be listed and rolled back (scripts/selectors.ts).
+ */
+
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { PrimarySelectors, SelectorAnchor } from './types.js';
+
+const DATE_PATTERN = /\d{1,2}[./-]\d{1,2}[./-]\d{4}/;
+
+// Attributes that identify an element's role rather than its content
+const IGNORED_ATTRIBUTES = ['class', 'id', 'style', 'href', 'src', 'title', 'alt'];
+
+export interface SelectorLearningOptions {
+  minAnchors?: number;     // Located anchors required (default: 2)
+  minCoverage?: number;    // Share of matched containers that must yield a title (default: 0.8)
+}
+
+export interface LearnedSelectors {
+  selectors: PrimarySelectors;
+  anchors: number;         // Anchors located in the page
+  itemCount: number;       // Containers the selectors match that yield a title
+}
+
+interface LocatedAnchor {
+  anchor: SelectorAnchor;
+  title: Element;
+  link: Element | null;
+  container: Element;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * PDF URL of a link as the scraper resolves it
+ */
+export function resolvePdfHref(href: string): string {
+  return href.startsWith('http') ? href : `https://free-justice.openapi.gov.il${href}`;
+}
+
+function classesOf(element: Element): string[] {
+  return (element.attribs.class || '').split(/\s+/).filter(name => /^[A-Za-z_-][\w-]*$/.test(name));
+}
+
+/**
+ * Element selectors from most to least specific: tag.all.classes, tag.first-class, tag
+ */
+function elementSelectors(element: Element): string[] {
+  const classes = classesOf(element);
+  const selectors = classes.length > 0 ? [`${element.name}.${classes.join('.')}`, `${element.name}.${classes[0]}`] : [];
+  selectors.push(element.name);
+  return [...new Set(selectors)];
+}
+
+function ancestors(element: Element): Element[] {
+  const result: Element[] = [];
+  let current = element.parent;
+  while (current && current.type === 'tag') {
+    result.push(current as Element);
+    current = current.parent;
+  }
+  return result;
+}
+
+function contains(ancestor: AnyNode, node: AnyNode): boolean {
+  let current: AnyNode | null = node;
+  while (current) {
+    if (current === ancestor) return true;
+    current = current.parent;
+  }
+  return false;
+}
+
+/**
+ * The deepest elements whose text is an anchor title, by title
+ */
+function locateTitles($: cheerio.CheerioAPI, byTitle: Map<string, SelectorAnchor>): Map<SelectorAnchor, Element> {
+  const located = new Map<SelectorAnchor, Element>();
+  $('body *').each((_, node) => {
+    const element = node as Element;
+    const anchor = byTitle.get(normalizeText($(element).text()));
+    if (!anchor || located.has(anchor)) return;
+    // Deepest: no child element carries the whole title
+    const child = $(element).children().toArray().find(c => normalizeText($(c).text()) === normalizeText(anchor.title));
+    if (!child) located.set(anchor, element);
+  });
+  // $('body *') visits ancestors first; replace them with the deepest match
+  for (const [anchor, element] of located) {
+    let deepest = element;
+    for (;;) {
+      const child = $(deepest).children().toArray().find(c => normalizeText($(c).text()) === normalizeText(anchor.title));
+      if (!child) break;
+      deepest = child as Element;
+    }
+    located.set(anchor, deepest);
+  }
+  return located;
+}
+
+/**
+ * Lowest common ancestor of elements
+ */
+function commonAncestor(elements: Element[]): Element | null {
+  const [first, ...rest] = elements;
+  return ancestors(first).find(candidate => rest.every(element => contains(candidate, element))) ?? null;
+}
+
+/**
+ * Container selectors, from the most specific: shared tag+classes, shared
+ * attribute, and child of the list element
+ */
+function containerCandidates(containers: Element[], list: Element): string[] {
+  const tag = containers[0].name;
+  if (containers.some(container => container.name !== tag)) return [];
+
+  const candidates: string[] = [];
+  const shared = classesOf(containers[0]).filter(name => containers.every(c => classesOf(c).includes(name)));
+  if (shared.length > 0) candidates.push(`${tag}.${shared.join('.')}`);
+
+  const attributes = Object.keys(containers[0].attribs)
+    .filter(name => !IGNORED_ATTRIBUTES.includes(name) && /^[\w-]+$/.test(name))
+    .filter(name => containers.every(c => c.attribs[name] !== undefined));
+  for (const attribute of attributes) {
+    candidates.push(`${tag}[${attribute}]`);
+  }
+
+  for (const listSelector of elementSelectors(list).slice(0, -1)) {
+    candidates.push(`${listSelector} > ${tag}`);
+  }
+  return candidates;
+}
+
+/**
+ * The first candidate that, searched inside each container, finds the
+ * expected element first
+ */
+function pickRelative(
+  $: cheerio.CheerioAPI,
+  located: LocatedAnchor[],
+  candidates: (item: LocatedAnchor) => string[],
+  matches: (item: LocatedAnchor, found: Element) => boolean
+): string | null {
+  const seen = new Set<string>();
+  for (const item of located) {
+    for (const candidate of candidates(item)) {
+      if (seen.has(candidate)) continue;
+      seen.add(candidate);
+      const valid = located.every(other => {
+        const found = $(other.container).find(candidate).first().get(0) as Element | undefined;
+        return found !== undefined && matches(other, found);
+      });
+      if (valid) return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Learn primary selectors from a listing page and indexed decisions it
+ * should contain. Returns null when too few anchors are found or no candidate
+ * validates.
+ */
+export function learnSelectors(html: string, anchors: SelectorAnchor[], options: SelectorLearningOptions = {}): LearnedSelectors | null {
+  const minAnchors = options.minAnchors ?? 2;
+  const minCoverage = options.minCoverage ?? 0.8;
+  const $ = cheerio.load(html);
+
+  const byTitle = new Map<string, SelectorAnchor>();
+  for (const anchor of anchors) {
+    const title = normalizeText(anchor.title);
+    if (title.length >= 5 && !byTitle.has(title)) byTitle.set(title, anchor);
+  }
+
+  const titles = locateTitles($, byTitle);
+  if (titles.size < minAnchors) return null;
+
+  // Item containers: the children of the list element holding every title
+  const titleElements = [...titles.values()];
+  const list = commonAncestor(titleElements);
+  if (!list) return null;
+
+  const located: LocatedAnchor[] = [];
+  for (const [anchor, title] of titles) {
+    const container = [title, ...ancestors(title)].find(element => element.parent === list);
+    if (!container || container === title) return null;
+    const link = anchor.url
+      ? ($(container).find('a[href]').toArray() as Element[]).find(a => resolvePdfHref(a.attribs.href) === anchor.url) ?? null
+      : null;
+    located.push({ anchor, title, link, container });
+  }
+  // One title per container
+  if (new Set(located.map(item => item.container)).size !== located.length) return null;
+
+  // Titles: the title element or a wrapper inside the container, class selectors before bare tags
+  const title = pickRelative($, located,
+    item => {
+      const elements = [item.title, ...ancestors(item.title).filter(a => contains(item.container, a) && a !== item.container)];
+      const selectors = elements.flatMap(elementSelectors);
+      return [...selectors.filter(s => s.includes('.')), ...selectors.filter(s => !s.includes('.'))];
+    },
+    (item, found) => normalizeText($(found).text()) === normalizeText(item.anchor.title));
+  if (!title) return null;
+
+  // Containers: the most specific selector matching every located one whose
+  // matches (almost) all yield a title
+  let container: string | null = null;
+  let itemCount = 0;
+  for (const candidate of containerCandidates(located.map(item => item.container), list)) {
+    const matched = $(candidate).toArray();
+    if (!located.every(item => matched.includes(item.container))) continue;
+    const withTitle = matched.filter(element => normalizeText($(element).find(title).first().text()).length >= 5).length;
+    if (withTitle / matched.length >= minCoverage) {
+      container = candidate;
+      itemCount = withTitle;
+      break;
+    }
+  }
+  if (!container) return null;
+
+  // PDF links, when the anchors have their URLs in the page
+  const linked = located.filter(item => item.link);
+  let pdfLink: string | null = null;
+  if (linked.length >= minAnchors) {
+    pdfLink = pickRelative($, linked, item => {
+      const link = item.link!;
+      const href = resolvePdfHref(link.attribs.href);
+      const candidates: string[] = [];
+      try {
+        candidates.push(`a[href*="${new URL(href).hostname}"]`);
+      } catch {
+        // Relative or malformed: the remaining candidates
+      }
+      if (/\.pdf$/i.test(link.attribs.href)) candidates.push('a[href$=".pdf"]');
+      candidates.push(...elementSelectors(link).map(selector => `${selector}[href]`));
+      return candidates;
+    }, (item, found) => found === item.link);
+  }
+
+  // Dates: an element with a date in every located container, outside the title
+  const date = pickRelative($, located,
+    item => ($(item.container).find('*').toArray() as Element[])
+      .filter(element => !contains(item.title, element) && $(element).children().length === 0 && DATE_PATTERN.test($(element).text()))
+      .flatMap(elementSelectors),
+    (item, found) => !contains(item.title, found) && DATE_PATTERN.test($(found).text()));
+
+  return {
+    selectors: {
+      container: [container],
+      title: [title],
+      pdfLink: pdfLink ? [pdfLink] : [],
+      date: date ? [date] : []
+    },
+    anchors: located.length,
+    itemCount
+  };
+}
+
+/**
+ * Learned selectors ahead of the ones they extend, without duplicates
+ */
+export function mergeSelectors(learned: PrimarySelectors, base: PrimarySelectors): PrimarySelectors {
+  const merge = (first: string[], second: string[]) => [...new Set([...first, ...second])];
+  return {
+    container: merge(learned.container, base.container),
+    title: merge(learned.title, base.title),
+    pdfLink: merge(learned.pdfLink, base.pdfLink),
+    date: merge(learned.date, base.date)
+  };
+}
@@ -15,6 +15,8 @@ export const QUERY_PATTERNS_CONTENT = `# דפוסי שאילתות שמאיות
 | כלי | תיאור | מתי להשתמש |
 |-----|--------|-----------|
 | **semantic_search** | **חיפוש סמנטי עם AI embeddings על 31K+ מסמכים** | **כלי ברירת מחדל לשאלות בשפה חופשית — מבין משמעות, לא רק מילות מפתח** |
+| hybrid_search | חיפוש היברידי: סמנטי + מילות מפתח + פרמטרים | נושא יחד עם עיר/שנה/גוש/סוג מקדם |
+| search_passages | חיפוש פסקאות לפי סעיף (טענות, הכרעה, עסקאות השוואה) עם עמודים | "מה נקבע לגבי X", ציטוט מדויק |
 | query_and_aggregate | חיפוש ואגרגציה — מחזיר טבלת CSV | טבלאות נתונים, רשימות ערכים לפי החלטות |
 | search_decisions | חיפוש החלטות — מחזיר רשימת מסמכים | חיפוש לפי גוש/חלקה/שמאי/ועדה |
 | search_by_parameters | חיפוש לפי פרמטרים מובנים | חיפוש מדויק לפי סוג פרמטר וערך |
@@ -39,12 +41,14 @@ export const QUERY_PATTERNS_CONTENT = `# דפוסי שאילתות שמאיות
 | "זכויות בנייה לא מנוצלות" | semantic_search | מושג שמאי שיכול להופיע בניסוחים שונים |
 | "מה המגמה בפסיקות על היטל השבחה" | semantic_search | שאלת מגמה — צריכה הבנה |
 | "תיקים דומים למקרה שלי" | semantic_search | דמיון מושגי |
+| "מה הוכרע לגבי [נושא]" | search_passages | הפסקה עצמה, עם סעיף ועמודים |
 
 ### חיפוש מקדמים (Coefficients)
 | דפוס שאלה | כלי | פרמטרים |
 |-----------|-----|----------|
 | "מה המקדם ב[עיר]?" | semantic_search | query="מקדם [סוג]", database="decisive_appraiser" |
 | "מקדם דחייה ב[עיר]" | semantic_search | query="מקדם דחייה [עיר]" |
+| "מקדם דחייה ב[עיר] [שנה]" | hybrid_search | query="מקדם דחייה ב[עיר] [שנה]" |
 | "מקדם גובה פנים דירה" | semantic_search | query="מקדם גובה פנים דירה" |
 | "שיעור היוון ב[עיר]" | semantic_search | query="שיעור היוון [עיר]" |
 | "מקדמי דחייה מעל 0.9" | search_by_parameters | param_type="coefficient", param_subtype="דחייה", value_min=0.9 |
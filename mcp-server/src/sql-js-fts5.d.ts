@@ -0,0 +1,10 @@
+/**
+ * Type declarations for sql.js-fts5 module
+ * Same API as sql.js, compiled with the FTS5 extension enabled
+ * @see https://www.npmjs.com/package/sql.js-fts5
+ */
+
+declare module 'sql.js-fts5' {
+  import initSqlJs = require('sql.js');
+  export = initSqlJs;
+}
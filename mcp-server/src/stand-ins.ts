@@ -0,0 +1,379 @@
+/**
+ * Local Stand-ins
+ * One local HTTP server standing in for every outside service, so the
+ * indexer, PDF extraction and semantic search run end to end offline. Point
+ * HTTP_STAND_IN at it (http-cassette.ts): a request for https://{host}/{path}
+ * arrives as /{host}/{path} and is answered by host:
+ *
+ *   api.scraperapi.com  - requires api_key, then serves its `url` parameter, or /account usage
+ *   gov.il              - listing pages, the dynamic-collector API and PDFs from fixtures
+ *   api.openai.com      - /v1/embeddings, deterministic hashed bag-of-words vectors
+ *   *.pinecone.io       - describe index, query, fetch, upsert, delete, list and stats
+ *                         over fixture vectors (cosine similarity)
+ *
+ * Fixtures directory:
+ *   govil/{collector}/skip-{N}.html       Listing pages (missing: an empty page)
+ *   govil-api/{templateId}/skip-{N}.json  Collector API responses (missing: no results)
+ *   pdfs/{file name}                      Decision PDFs, by the last segment of their URL
+ *   pinecone/{namespace}.json             [{ id, values | text, metadata }] - text is embedded
+ *                                         as the OpenAI stand-in would
+ *   scraperapi/account.json               ScraperAPI account usage (missing: none used)
+ *
+ * exportFixtures fills a fixtures directory from a recorded cassette.
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { cosineSimilarity, matchesFilter, VectorFilter } from './vector-store.js';
+import { CassetteInteraction, redactUrl } from './http-cassette.js';
+
+const EMPTY_LISTING_PAGE = '<html><body><div class="results"></div></body></html>';
+const DEFAULT_DIMENSIONS = 1024;
+
+export interface StandInOptions {
+  fixturesDir: string;
+  port?: number;          // Default: any free port
+  host?: string;          // Default: 127.0.0.1
+  dimensions?: number;    // Embedding and Pinecone index dimensions (default: 1024)
+}
+
+export interface StandInRequest {
+  method: string;
+  url: string;            // The original URL, redacted
+  status: number;
+}
+
+export interface StandInServer {
+  url: string;
+  requests: StandInRequest[];
+  close: () => Promise<void>;
+}
+
+interface StandInResponse {
+  status: number;
+  contentType: string;
+  body: string | Buffer;
+}
+
+interface StandInVector {
+  id: string;
+  values: number[];
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Deterministic embedding of a text: its words hashed into `dimensions`
+ * buckets and normalized, so texts sharing words are near each other
+ */
+export function standInEmbedding(text: string, dimensions = DEFAULT_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < word.length; i++) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    vector[hash % dimensions] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * The fixture file (relative to the fixtures directory) holding the response
+ * to a gov.il request, or null for requests the fixtures do not cover
+ */
+export function fixturePathFor(method: string, url: string, body: string | null): string | null {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return null;
+  }
+  if (!target.hostname.endsWith('gov.il')) return null;
+
+  const skip = target.searchParams.get('skip') || '0';
+  const collector = target.pathname.match(/\/dynamiccollectors\/([^/]+)/i);
+  if (collector && method === 'GET') {
+    return path.join('govil', collector[1], `skip-${skip}.html`);
+  }
+
+  if (/\/api\/DynamicCollector\/?$/i.test(target.pathname) && method === 'POST') {
+    const request = JSON.parse(body || '{}') as { DynamicTemplateID?: string; QueryFilters?: { skip?: { Query?: number } } };
+    if (!request.DynamicTemplateID) return null;
+    return path.join('govil-api', request.DynamicTemplateID, `skip-${request.QueryFilters?.skip?.Query ?? 0}.json`);
+  }
+
+  const fileName = decodeURIComponent(target.pathname.split('/').pop() || '');
+  return fileName ? path.join('pdfs', fileName) : null;
+}
+
+/**
+ * Write the successful gov.il responses of a cassette (direct or through
+ * ScraperAPI) to a fixtures directory. Returns the files written.
+ */
+export function exportFixtures(interactions: CassetteInteraction[], fixturesDir: string): string[] {
+  const written: string[] = [];
+  for (const { request, response } of interactions) {
+    if (response.status !== 200) continue;
+
+    let url = request.url;
+    if (new URL(url).hostname === 'api.scraperapi.com') {
+      url = new URL(url).searchParams.get('url') || '';
+    }
+    const fixture = fixturePathFor(request.method, url, request.body);
+    if (!fixture) continue;
+
+    const file = path.join(fixturesDir, fixture);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, Buffer.from(response.body, response.encoding));
+    written.push(fixture);
+  }
+  return written;
+}
+
+function json(status: number, body: unknown): StandInResponse {
+  return { status, contentType: 'application/json', body: JSON.stringify(body) };
+}
+
+class StandIns {
+  private fixturesDir: string;
+  private dimensions: number;
+  private namespaces = new Map<string, Map<string, StandInVector>>();
+
+  constructor(options: StandInOptions) {
+    this.fixturesDir = options.fixturesDir;
+    this.dimensions = options.dimensions || DEFAULT_DIMENSIONS;
+    this.loadVectors();
+  }
+
+  handle(method: string, url: string, body: string): StandInResponse {
+    const target = new URL(url);
+    const host = target.hostname;
+
+    if (host === 'api.scraperapi.com') return this.scraperApi(target, method, body);
+    if (host.endsWith('gov.il')) return this.govIl(method, url, body);
+    if (host === 'api.openai.com') return this.openAi(target, method, body);
+    if (host === 'api.pinecone.io') return this.pineconeControl(target);
+    if (host.endsWith('pinecone.io')) return this.pineconeData(target, method, body);
+
+    return json(404, { error: `No stand-in for ${host}` });
+  }
+
+  private scraperApi(target: URL, method: string, body: string): StandInResponse {
+    if (!target.searchParams.get('api_key')) {
+      return { status: 401, contentType: 'text/plain', body: 'You need to provide an API key' };
+    }
+    if (target.pathname === '/account') {
+      const file = path.join(this.fixturesDir, 'scraperapi', 'account.json');
+      return fs.existsSync(file)
+        ? { status: 200, contentType: 'application/json', body: fs.readFileSync(file) }
+        : json(200, { requestCount: 0, requestLimit: 5000, failedRequestCount: 0, concurrencyLimit: 5 });
+    }
+    const url = target.searchParams.get('url');
+    if (!url) return { status: 400, contentType: 'text/plain', body: 'Missing url parameter' };
+    return this.handle(method, url, body);
+  }
+
+  private govIl(method: string, url: string, body: string): StandInResponse {
+    const fixture = fixturePathFor(method, url, body);
+    if (!fixture) return json(400, { error: 'Unrecognized gov.il request' });
+
+    const file = path.join(this.fixturesDir, fixture);
+    const exists = fs.existsSync(file);
+    if (fixture.startsWith('govil-api')) {
+      return exists
+        ? { status: 200, contentType: 'application/json', body: fs.readFileSync(file) }
+        : json(200, { Results: [], TotalResults: 0 });
+    }
+    if (fixture.startsWith('govil')) {
+      return { status: 200, contentType: 'text/html; charset=utf-8', body: exists ? fs.readFileSync(file) : EMPTY_LISTING_PAGE };
+    }
+    return exists
+      ? { status: 200, contentType: 'application/pdf', body: fs.readFileSync(file) }
+      : { status: 404, contentType: 'text/plain', body: 'Not found' };
+  }
+
+  private openAi(target: URL, method: string, body: string): StandInResponse {
+    if (method !== 'POST' || target.pathname !== '/v1/embeddings') {
+      return json(404, { error: { message: `Unknown request ${method} ${target.pathname}` } });
+    }
+    const request = JSON.parse(body || '{}') as { input?: string | string[]; model?: string; dimensions?: number };
+    const inputs = Array.isArray(request.input) ? request.input : [request.input ?? ''];
+    return json(200, {
+      object: 'list',
+      data: inputs.map((input, index) => ({
+        object: 'embedding',
+        index,
+        embedding: standInEmbedding(input, request.dimensions || this.dimensions)
+      })),
+      model: request.model || 'text-embedding-3-small',
+      usage: { prompt_tokens: 0, total_tokens: 0 }
+    });
+  }
+
+  /**
+   * Describe index: every index is ready, and is served by this stand-in
+   * (an index named by its host URL is served at that host)
+   */
+  private pineconeControl(target: URL): StandInResponse {
+    const name = target.pathname.match(/^\/indexes\/([^/]+)$/);
+    if (!name) return json(404, { error: { code: 'NOT_FOUND', message: 'Not found' } });
+
+    const indexName = decodeURIComponent(name[1]);
+    const host = /^https?:\/\//.test(indexName) ? new URL(indexName).host : `${indexName}.svc.pinecone.io`;
+    return json(200, {
+      name: indexName,
+      dimension: this.dimensions,
+      metric: 'cosine',
+      host,
+      vector_type: 'dense',
+      deletion_protection: 'disabled',
+      spec: { serverless: { cloud: 'aws', region: 'us-east-1' } },
+      status: { ready: true, state: 'Ready' }
+    });
+  }
+
+  private pineconeData(target: URL, method: string, body: string): StandInResponse {
+    const request = method === 'POST' ? JSON.parse(body || '{}') : {};
+
+    switch (target.pathname) {
+      case '/describe_index_stats': {
+        const namespaces = Object.fromEntries(
+          [...this.namespaces].map(([name, vectors]) => [name, { vectorCount: vectors.size }])
+        );
+        const total = [...this.namespaces.values()].reduce((sum, vectors) => sum + vectors.size, 0);
+        return json(200, { namespaces, dimension: this.dimensions, indexFullness: 0, totalVectorCount: total });
+      }
+
+      case '/query': {
+        const vectors = this.namespace(request.namespace);
+        const query: number[] = request.id ? vectors.get(request.id)?.values ?? [] : request.vector ?? [];
+        const filter = this.plainFilter(request.filter);
+        const matches = [...vectors.values()]
+          .filter(vector => matchesFilter(vector.metadata, filter))
+          .map(vector => ({ vector, score: cosineSimilarity(query, vector.values) }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, request.topK ?? 10)
+          .map(({ vector, score }) => ({
+            id: vector.id,
+            score,
+            values: request.includeValues ? vector.values : [],
+            ...(request.includeMetadata && { metadata: vector.metadata })
+          }));
+        return json(200, { matches, namespace: request.namespace ?? '' });
+      }
+
+      case '/vectors/fetch': {
+        const namespace = target.searchParams.get('namespace') ?? '';
+        const vectors = this.namespace(namespace);
+        const found = target.searchParams.getAll('ids')
+          .map(id => vectors.get(id))
+          .filter((vector): vector is StandInVector => vector !== undefined);
+        return json(200, { vectors: Object.fromEntries(found.map(vector => [vector.id, vector])), namespace });
+      }
+
+      case '/vectors/upsert': {
+        const vectors = this.namespace(request.namespace, true);
+        for (const vector of request.vectors ?? []) {
+          vectors.set(vector.id, { id: vector.id, values: vector.values, metadata: vector.metadata ?? {} });
+        }
+        return json(200, { upsertedCount: (request.vectors ?? []).length });
+      }
+
+      case '/vectors/delete': {
+        const vectors = this.namespace(request.namespace);
+        for (const id of request.ids ?? []) vectors.delete(id);
+        if (request.deleteAll) vectors.clear();
+        return json(200, {});
+      }
+
+      case '/vectors/list': {
+        const namespace = target.searchParams.get('namespace') ?? '';
+        const prefix = target.searchParams.get('prefix') ?? '';
+        const ids = [...this.namespace(namespace).keys()].filter(id => id.startsWith(prefix));
+        return json(200, { vectors: ids.map(id => ({ id })), namespace });
+      }
+
+      default:
+        return json(404, { error: { code: 'NOT_FOUND', message: `Unknown request ${method} ${target.pathname}` } });
+    }
+  }
+
+  private namespace(name: string | undefined, create = false): Map<string, StandInVector> {
+    const key = name ?? '';
+    let vectors = this.namespaces.get(key);
+    if (!vectors) {
+      vectors = new Map();
+      if (create) this.namespaces.set(key, vectors);
+    }
+    return vectors;
+  }
+
+  /**
+   * { field: { $eq: value } } filters as the plain equality filters of matchesFilter
+   */
+  private plainFilter(filter: Record<string, unknown> | undefined): VectorFilter | undefined {
+    if (!filter) return undefined;
+    return Object.fromEntries(Object.entries(filter).map(([key, value]) => [
+      key,
+      (value !== null && typeof value === 'object' && '$eq' in value ? (value as { $eq: unknown }).$eq : value) as VectorFilter[string]
+    ]));
+  }
+
+  private loadVectors(): void {
+    const dir = path.join(this.fixturesDir, 'pinecone');
+    if (!fs.existsSync(dir)) return;
+
+    for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.json'))) {
+      const records = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as Array<{
+        id: string; values?: number[]; text?: string; metadata?: Record<string, unknown>;
+      }>;
+      const vectors = this.namespace(path.basename(file, '.json'), true);
+      for (const record of records) {
+        vectors.set(record.id, {
+          id: record.id,
+          values: record.values ?? standInEmbedding(record.text ?? '', this.dimensions),
+          metadata: record.metadata ?? {}
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Start the stand-in server
+ */
+export async function startStandIns(options: StandInOptions): Promise<StandInServer> {
+  const standIns = new StandIns(options);
+  const requests: StandInRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const method = (req.method || 'GET').toUpperCase();
+      // /{host}/{path} -> https://{host}/{path}
+      const url = `https:/${req.url || '/'}`;
+      let response: StandInResponse;
+      try {
+        response = standIns.handle(method, url, Buffer.concat(chunks).toString('utf8'));
+      } catch (error) {
+        response = json(400, { error: error instanceof Error ? error.message : String(error) });
+      }
+      requests.push({ method, url: redactUrl(url), status: response.status });
+      res.writeHead(response.status, { 'Content-Type': response.contentType });
+      res.end(response.body);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, options.host || '127.0.0.1', resolve));
+  const { address, port } = server.address() as AddressInfo;
+  return {
+    url: `http://${address}:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
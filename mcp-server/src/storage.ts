@@ -0,0 +1,216 @@
+/**
+ * Storage Backends for the Decisions Database
+ * DecisionDatabase talks SQL to a StorageBackend rather than to sql.js directly:
+ *
+ * - native: better-sqlite3 on the database file in WAL mode. Every commit is
+ *   written incrementally and atomically; opening does not read the file.
+ * - sqljs: sql.js (WebAssembly) fallback when better-sqlite3 is not installed
+ *   or has no binary for the platform. The whole database lives in memory and
+ *   persist() rewrites the file (atomically, via a temp file and rename).
+ *
+ * exec() returns the sql.js result shape ([{ columns, values }], empty when no
+ * rows) so queries are written once for both backends.
+ */
+
+import fs from 'fs';
+import { createRequire } from 'module';
+import initSqlJs, { Database as SqlJsDatabase } from 'sql.js-fts5';
+
+const require = createRequire(import.meta.url);
+
+export type StorageBackendType = 'native' | 'sqljs';
+
+export type SqlValue = number | string | Uint8Array | null;
+
+export interface QueryResult {
+  columns: string[];
+  values: SqlValue[][];
+}
+
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+  /** Run a query and return its rows (sql.js result shape) */
+  exec(sql: string, params?: unknown[]): QueryResult[];
+  /** Run a statement, or several when no params are given */
+  run(sql: string, params?: unknown[]): void;
+  /** Run fn inside a transaction, rolling back if it throws. Not reentrant. */
+  transaction<T>(fn: () => T): T;
+  /** Write pending changes to disk (no-op for native, where commits are durable) */
+  persist(): void;
+  /** Make the main database file self-contained, e.g. before copying it */
+  checkpoint(): void;
+  close(): void;
+}
+
+export interface StorageOptions {
+  /** Backend to use; defaults to GOVIL_DB_BACKEND, then native with sql.js fallback */
+  type?: StorageBackendType;
+}
+
+/**
+ * Begin/commit helper shared by both backends
+ */
+function runInTransaction<T>(backend: StorageBackend, fn: () => T): T {
+  backend.run('BEGIN');
+  try {
+    const result = fn();
+    backend.run('COMMIT');
+    return result;
+  } catch (error) {
+    backend.run('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * better-sqlite3 binds only numbers, strings, bigints, Buffers and null
+ */
+function toNativeParam(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Uint8Array && !Buffer.isBuffer(value)) return Buffer.from(value);
+  return value;
+}
+
+/**
+ * better-sqlite3 backend (WAL mode, incremental writes)
+ */
+class NativeStorageBackend implements StorageBackend {
+  readonly type = 'native' as const;
+
+  constructor(private db: import('better-sqlite3').Database) {
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+    // Scripts (index-all, migrate) may write while the server is reading
+    this.db.pragma('busy_timeout = 5000');
+  }
+
+  exec(sql: string, params: unknown[] = []): QueryResult[] {
+    const stmt = this.db.prepare(sql);
+    const bound = params.map(toNativeParam);
+    if (!stmt.reader) {
+      stmt.run(bound);
+      return [];
+    }
+
+    const values = stmt.raw(true).all(bound) as SqlValue[][];
+    if (values.length === 0) return [];
+    return [{ columns: stmt.columns().map(c => c.name), values }];
+  }
+
+  run(sql: string, params?: unknown[]): void {
+    if (!params || params.length === 0) {
+      this.db.exec(sql);
+      return;
+    }
+    this.db.prepare(sql).run(params.map(toNativeParam));
+  }
+
+  transaction<T>(fn: () => T): T {
+    return runInTransaction(this, fn);
+  }
+
+  persist(): void {
+    // Each commit is already in the WAL file
+  }
+
+  checkpoint(): void {
+    this.db.pragma('wal_checkpoint(TRUNCATE)');
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * sql.js backend (in-memory, whole-file writes)
+ */
+class SqlJsStorageBackend implements StorageBackend {
+  readonly type = 'sqljs' as const;
+
+  constructor(private db: SqlJsDatabase, private dbPath: string) {}
+
+  exec(sql: string, params?: unknown[]): QueryResult[] {
+    return this.db.exec(sql, params as any) as QueryResult[];
+  }
+
+  run(sql: string, params?: unknown[]): void {
+    this.db.run(sql, params as any);
+  }
+
+  transaction<T>(fn: () => T): T {
+    return runInTransaction(this, fn);
+  }
+
+  persist(): void {
+    // Write to a temp file and rename so a crash mid-write keeps the old file
+    const tempPath = `${this.dbPath}.tmp`;
+    // export() reopens the database, resetting connection pragmas
+    const recursiveTriggers = this.db.exec('PRAGMA recursive_triggers')[0]?.values[0][0];
+    fs.writeFileSync(tempPath, Buffer.from(this.db.export()));
+    this.db.run(`PRAGMA recursive_triggers = ${recursiveTriggers ? 'ON' : 'OFF'}`);
+    fs.renameSync(tempPath, this.dbPath);
+  }
+
+  checkpoint(): void {
+    this.persist();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Open the native backend, or null if better-sqlite3 cannot be loaded
+ */
+async function openNative(dbPath: string): Promise<StorageBackend | null> {
+  try {
+    const { default: Database } = await import('better-sqlite3');
+    return new NativeStorageBackend(new Database(dbPath));
+  } catch (error) {
+    console.error(
+      '[Storage] better-sqlite3 unavailable, falling back to sql.js:',
+      error instanceof Error ? error.message : String(error)
+    );
+    return null;
+  }
+}
+
+/**
+ * Open the sql.js backend, reading the file asynchronously
+ */
+async function openSqlJs(dbPath: string): Promise<StorageBackend> {
+  // The wasm binary is passed explicitly because the emscripten loader in
+  // sql.js-fts5 tries to fetch() it on Node 18+
+  const wasmBinary = await fs.promises.readFile(require.resolve('sql.js-fts5/dist/sql-wasm.wasm'));
+  const SQL = await initSqlJs({
+    wasmBinary: wasmBinary.buffer.slice(wasmBinary.byteOffset, wasmBinary.byteOffset + wasmBinary.byteLength)
+  });
+
+  const db = fs.existsSync(dbPath)
+    ? new SQL.Database(await fs.promises.readFile(dbPath))
+    : new SQL.Database();
+  return new SqlJsStorageBackend(db, dbPath);
+}
+
+/**
+ * Open a storage backend for the database file
+ */
+export async function openStorageBackend(dbPath: string, options: StorageOptions = {}): Promise<StorageBackend> {
+  const requested = options.type ?? process.env.GOVIL_DB_BACKEND;
+  if (requested && requested !== 'native' && requested !== 'sqljs') {
+    throw new Error(`Unknown storage backend: ${requested} (expected native or sqljs)`);
+  }
+
+  if (requested !== 'sqljs') {
+    const native = await openNative(dbPath);
+    if (native) return native;
+    if (requested === 'native') {
+      throw new Error('Native storage backend requested but better-sqlite3 could not be loaded');
+    }
+  }
+
+  return openSqlJs(dbPath);
+}
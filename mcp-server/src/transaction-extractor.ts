@@ -0,0 +1,259 @@
+/**
+ * Comparison Transaction Table Extractor
+ * Decisive appraiser decisions cite comparison transactions (עסקאות השוואה) in
+ * tables: address, gush/helka, date, area, price, price per m². Plain PDF text
+ * (PdfExtractor.extractText) runs the columns together, so tables are rebuilt
+ * here from the pdfjs text item coordinates:
+ *
+ * 1. Items on the same baseline form a row; cells are split on horizontal gaps
+ *    (pdf-layout.ts)
+ * 2. A row naming at least three known columns (incl. a price) is a header
+ * 3. Following rows are mapped to the header columns by horizontal position
+ *    until the table ends (rows that do not parse as transactions)
+ * 4. Each row is normalized (ISO date, numbers, price per m²)
+ */
+
+import { getDocumentProxy } from 'unpdf';
+import { parseDateToIso } from './date-parser.js';
+import { parseHebrewNumber } from './parameter-extractor.js';
+import { buildLines, PositionedTextItem, toPositionedItems } from './pdf-layout.js';
+import { ComparisonTransaction, PdfLayoutCell } from './types.js';
+
+export type TransactionColumn =
+  | 'address' | 'city' | 'block' | 'plot' | 'blockPlot' | 'date' | 'area' | 'price' | 'pricePerSqm';
+
+interface Row {
+  page: number;
+  y: number;
+  cells: PdfLayoutCell[];
+}
+
+interface HeaderColumn {
+  column: TransactionColumn;
+  center: number;
+}
+
+// Cells further than this from every header column are ignored
+const MAX_COLUMN_DISTANCE = 60;
+
+// Non-transaction rows tolerated inside a table (page footers, wrapped notes)
+const MAX_SKIPPED_ROWS = 2;
+
+// Header keywords, most specific first ("מחיר למ"ר" before "מחיר" and "מ"ר")
+const HEADER_KEYWORDS: Array<{ column: TransactionColumn; pattern: RegExp }> = [
+  { column: 'pricePerSqm', pattern: /ל-?מ["״]ר|למטר/ },
+  { column: 'blockPlot', pattern: /גוש\s*[\/\\-]\s*חלקה|גו["״]ח/ },
+  { column: 'block', pattern: /גוש/ },
+  { column: 'plot', pattern: /חלקה/ },
+  { column: 'date', pattern: /תאריך|מועד/ },
+  { column: 'area', pattern: /שטח|מ["״]ר/ },
+  { column: 'price', pattern: /מחיר|תמורה|סכום|שווי/ },
+  { column: 'city', pattern: /ישוב|יישוב|עיר/ },
+  { column: 'address', pattern: /כתובת|רחוב|מיקום|נכס/ }
+];
+
+/**
+ * Read the positioned text items of every page
+ */
+export async function extractTextItems(pdfBuffer: Buffer): Promise<PositionedTextItem[]> {
+  const pdf = await getDocumentProxy(new Uint8Array(pdfBuffer));
+  const items: PositionedTextItem[] = [];
+
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const content = await page.getTextContent();
+    items.push(...toPositionedItems(content.items, pageNum));
+  }
+
+  return items;
+}
+
+/**
+ * Group items into rows (page by page, top to bottom) of cells
+ */
+function buildRows(items: PositionedTextItem[]): Row[] {
+  const pages = [...new Set(items.map(item => item.page))].sort((a, b) => a - b);
+  return pages.flatMap(page =>
+    buildLines(items.filter(item => item.page === page)).map(line => ({ page, ...line }))
+  );
+}
+
+/**
+ * Column named by a header cell, if any
+ */
+function classifyHeaderCell(text: string): TransactionColumn | null {
+  if (/\d/.test(text)) return null;
+  return HEADER_KEYWORDS.find(k => k.pattern.test(text))?.column ?? null;
+}
+
+/**
+ * Header columns of a row, or null if the row is not a transactions header
+ */
+function parseHeader(row: Row): HeaderColumn[] | null {
+  const columns: HeaderColumn[] = [];
+  for (const cell of row.cells) {
+    const column = classifyHeaderCell(cell.text);
+    if (column && !columns.some(c => c.column === column)) {
+      columns.push({ column, center: (cell.left + cell.right) / 2 });
+    }
+  }
+
+  const names = new Set(columns.map(c => c.column));
+  const hasPrice = names.has('price') || names.has('pricePerSqm');
+  const hasLocation = names.has('address') || names.has('block') || names.has('blockPlot') || names.has('city');
+  return columns.length >= 3 && hasPrice && hasLocation ? columns : null;
+}
+
+/**
+ * First number in a cell ("1,250,000 ₪" → 1250000, "1.2 מיליון" → 1200000)
+ */
+function parseCellNumber(text: string): number | null {
+  const match = text.match(/\d[\d,.]*/);
+  if (!match) return null;
+  const value = parseHebrewNumber(match[0].replace(/[.,]+$/, ''));
+  if (value === null || isNaN(value)) return null;
+  return /מיליון|מלש["״]ח/.test(text) ? value * 1000000 : value;
+}
+
+/**
+ * Transaction date as ISO YYYY-MM-DD, or YYYY-MM for month-only dates (03/2021)
+ */
+function parseTransactionDate(text: string): string | null {
+  const iso = parseDateToIso(text);
+  if (iso) return iso;
+
+  const monthMatch = text.match(/(?:^|\D)(\d{1,2})[\/.-](\d{4})(?!\d)/);
+  if (monthMatch && Number(monthMatch[1]) >= 1 && Number(monthMatch[1]) <= 12) {
+    return `${monthMatch[2]}-${monthMatch[1].padStart(2, '0')}`;
+  }
+  return null;
+}
+
+/**
+ * Block and plot from "6628/12", "6628 / 12" or "גוש 6628 חלקה 12"
+ */
+function parseBlockPlot(text: string): { block: string | null; plot: string | null } {
+  const labeled = text.match(/גוש\s*(\d+).*?חלקה\s*(\d+)/);
+  if (labeled) return { block: labeled[1], plot: labeled[2] };
+
+  const pair = text.match(/(\d+)\s*[\/\\-]\s*(\d+)/);
+  if (pair) return { block: pair[1], plot: pair[2] };
+
+  const single = text.match(/\d+/);
+  return { block: single ? single[0] : null, plot: null };
+}
+
+/**
+ * Normalize a table row mapped to header columns; null if it is not a transaction
+ */
+function toTransaction(values: Partial<Record<TransactionColumn, string>>, page: number): ComparisonTransaction | null {
+  // A block cell may hold both ("6628/12") when there is no plot column
+  let { block, plot } = parseBlockPlot(values.blockPlot ?? values.block ?? '');
+  if (values.plot) plot = values.plot.match(/\d+/)?.[0] ?? plot;
+
+  const areaSqm = values.area ? parseCellNumber(values.area) : null;
+  let price = values.price ? parseCellNumber(values.price) : null;
+  let pricePerSqm = values.pricePerSqm ? parseCellNumber(values.pricePerSqm) : null;
+
+  // Values outside these ranges are row numbers, years or footnotes
+  if (price !== null && (price < 10000 || price > 1000000000)) price = null;
+  if (pricePerSqm !== null && (pricePerSqm < 100 || pricePerSqm > 200000)) pricePerSqm = null;
+  if (pricePerSqm === null && price !== null && areaSqm) {
+    pricePerSqm = Math.round(price / areaSqm);
+  }
+
+  const address = values.address && /[א-ת]/.test(values.address) ? values.address : null;
+  const city = values.city && /[א-ת]/.test(values.city) ? values.city : null;
+
+  if (price === null && pricePerSqm === null) return null;
+  if (!address && !block && !city) return null;
+
+  return {
+    address,
+    city,
+    block,
+    plot,
+    transactionDate: values.date ? parseTransactionDate(values.date) : null,
+    areaSqm,
+    price,
+    pricePerSqm,
+    page
+  };
+}
+
+/**
+ * Map a row's cells to the nearest header columns
+ */
+function mapCells(row: Row, header: HeaderColumn[]): Partial<Record<TransactionColumn, string>> {
+  const values: Partial<Record<TransactionColumn, string>> = {};
+  for (const cell of row.cells) {
+    const center = (cell.left + cell.right) / 2;
+    let nearest: HeaderColumn | null = null;
+    for (const column of header) {
+      if (!nearest || Math.abs(column.center - center) < Math.abs(nearest.center - center)) {
+        nearest = column;
+      }
+    }
+    if (!nearest || Math.abs(nearest.center - center) > MAX_COLUMN_DISTANCE) continue;
+    values[nearest.column] = values[nearest.column] ? `${values[nearest.column]} ${cell.text}` : cell.text;
+  }
+  return values;
+}
+
+/**
+ * Rebuild comparison transaction tables from positioned text items
+ */
+export function extractTransactionsFromItems(items: PositionedTextItem[]): ComparisonTransaction[] {
+  const transactions: ComparisonTransaction[] = [];
+  let header: HeaderColumn[] | null = null;
+  let skipped = 0;
+
+  for (const row of buildRows(items)) {
+    const rowHeader = parseHeader(row);
+    if (rowHeader) {
+      // A new header (or the header repeated on the next page)
+      header = rowHeader;
+      skipped = 0;
+      continue;
+    }
+    if (!header) continue;
+
+    const transaction = toTransaction(mapCells(row, header), row.page);
+    if (transaction) {
+      transactions.push(transaction);
+      skipped = 0;
+    } else if (++skipped > MAX_SKIPPED_ROWS) {
+      header = null;
+    }
+  }
+
+  return transactions;
+}
+
+/**
+ * Extract comparison transactions from a decision PDF
+ */
+export async function extractComparisonTransactions(pdfBuffer: Buffer): Promise<ComparisonTransaction[]> {
+  return extractTransactionsFromItems(await extractTextItems(pdfBuffer));
+}
+
+/**
+ * Identity of a transaction across decisions: the same deal is cited by many
+ * decisions, with the address spelled differently but the same parcel, date and
+ * price. Null when the row has too little to identify it.
+ */
+export function buildTransactionKey(transaction: Omit<ComparisonTransaction, 'page'>): string | null {
+  const amount = transaction.price ?? transaction.pricePerSqm;
+  const date = transaction.transactionDate ?? '';
+
+  if (transaction.block && transaction.plot) {
+    return `parcel:${transaction.block}/${transaction.plot}|${date}|${amount}`;
+  }
+
+  const place = (transaction.address ?? transaction.city ?? '')
+    .replace(/["״'׳.,\-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!place || (!date && amount === null)) return null;
+  return `address:${place}|${date}|${amount}`;
+}
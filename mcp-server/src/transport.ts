@@ -0,0 +1,617 @@
+/**
+ * Fetch Transport
+ * The one fetch path for gov.il pages, the gov.il API and decision PDFs, over
+ * interchangeable backends:
+ *   scraperapi - through ScraperAPI (render / premium per request)
+ *   direct     - plain HTTP(S) from this machine
+ *   browser    - headless Chromium via puppeteer (optional dependency), as in mcp-server-live
+ *   proxy      - plain HTTP(S) through a rotating list of HTTP proxies
+ *
+ * Each request waits for a token from its target host's bucket, and retries
+ * 429/5xx responses and network errors with exponential backoff and jitter.
+ * A backend that keeps failing is paused (circuit breaker) and the next one in
+ * the order is tried. Per-backend metrics are reported by health_check.
+ *
+ * Configured from the environment (getTransport):
+ *   FETCH_BACKENDS         Backend order (default: scraperapi)
+ *   FETCH_PROXIES          Comma-separated proxy URLs for the proxy backend
+ *   FETCH_RATE_PER_SEC     Requests per second per host (default: 1)
+ *   FETCH_MAX_RETRIES      Retries per backend (default: 3)
+ *   FETCH_BREAKER_FAILURES Consecutive failed requests that pause a backend (default: 5)
+ *   FETCH_BREAKER_COOLDOWN_MS  How long it stays paused (default: 60000)
+ */
+
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import type { Browser } from 'puppeteer';
+
+export type TransportBackendName = 'scraperapi' | 'direct' | 'browser' | 'proxy';
+
+export const TRANSPORT_BACKENDS: TransportBackendName[] = ['scraperapi', 'direct', 'browser', 'proxy'];
+
+export interface TransportRequest {
+  url: string;
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;
+  backends?: TransportBackendName[];  // Backend order for this request (default: the transport's)
+  apiKey?: string;                    // ScraperAPI key (default: the backend's)
+  render?: boolean;                   // ScraperAPI / browser: render JavaScript first
+  premium?: boolean;                  // ScraperAPI premium proxies
+  ultraPremium?: boolean;             // ScraperAPI ultra_premium proxies (required for gov.il pages)
+  waitForMs?: number;                 // ScraperAPI wait_for / browser settle time after rendering
+}
+
+export interface TransportBackend {
+  readonly name: TransportBackendName;
+  send(request: TransportRequest, timeoutMs: number): Promise<Response>;
+  unavailable?(request: TransportRequest): string | null;  // Why it cannot serve a request, if so
+  close?(): Promise<void>;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface TransportBackendMetrics {
+  backend: TransportBackendName;
+  circuit: CircuitState;
+  requests: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  rateLimited: number;       // 429 responses
+  circuitOpens: number;
+  avgLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+export interface TransportOptions {
+  backends?: TransportBackendName[];  // Backend order (default: scraperapi)
+  scraperApiKey?: string;             // Default ScraperAPI key (default: SCRAPER_API_KEY)
+  proxies?: string[];                 // Proxy URLs for the proxy backend
+  ratePerSecond?: number;             // Token refill per host (default: 1)
+  burst?: number;                     // Bucket size per host (default: 2)
+  maxRetries?: number;                // Retries per backend (default: 3)
+  baseDelayMs?: number;               // First backoff (default: 1000)
+  maxDelayMs?: number;                // Longest backoff (default: 30000)
+  breakerFailures?: number;           // Consecutive failed requests that open the circuit (default: 5)
+  breakerCooldownMs?: number;         // Time the circuit stays open (default: 60000)
+  timeoutMs?: number;                 // Default per-request timeout (default: 70000, as ScraperAPI advises)
+  custom?: Partial<Record<TransportBackendName, TransportBackend>>;  // Backend implementations to use instead
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// ============================================================
+// Rate limiting and circuit breaking
+// ============================================================
+
+/**
+ * Token bucket: `burst` requests at once, then `ratePerSecond`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private ratePerSecond: number, private capacity: number) {
+    this.tokens = capacity;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+      this.updatedAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+    }
+  }
+}
+
+/**
+ * Opens after `threshold` consecutive failed requests (however many retries
+ * each took); after `cooldownMs` lets one probe through (half-open), which
+ * closes it on success or opens it again on failure
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(private threshold: number, private cooldownMs: number) {}
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a request may go out now. While half-open only one probe is in
+   * flight; the request that gets it must report back (record* or release).
+   */
+  acquire(): boolean {
+    const state = this.getState();
+    if (state === 'open' || (state === 'half-open' && this.probing)) return false;
+    if (state === 'half-open') this.probing = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.state = 'closed';
+    this.probing = false;
+  }
+
+  /**
+   * Returns true when this failure opened the circuit
+   */
+  recordFailure(): boolean {
+    this.failures++;
+    this.probing = false;
+    if (this.state === 'half-open' || this.failures >= this.threshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.failures = 0;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * A request that neither worked nor failed (a 4xx answer, or never sent):
+   * the failure count stays and a half-open probe is given back
+   */
+  release(): void {
+    this.probing = false;
+  }
+}
+
+// ============================================================
+// Backends
+// ============================================================
+
+function directFetch(request: TransportRequest, timeoutMs: number): Promise<Response> {
+  return fetch(request.url, {
+    method: request.method || 'GET',
+    headers: request.headers,
+    body: request.body,
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+}
+
+export class ScraperApiBackend implements TransportBackend {
+  readonly name = 'scraperapi';
+
+  constructor(private apiKey: string) {}
+
+  /**
+   * The ScraperAPI URL for a target URL
+   */
+  buildUrl(request: TransportRequest): string {
+    const params = new URLSearchParams({ api_key: request.apiKey || this.apiKey, url: request.url });
+    if (request.render !== undefined) params.set('render', String(request.render));
+    if (request.premium) params.set('premium', 'true');
+    if (request.ultraPremium) params.set('ultra_premium', 'true');
+    if (request.waitForMs) params.set('wait_for', String(request.waitForMs));
+    return `https://api.scraperapi.com?${params.toString()}`;
+  }
+
+  send(request: TransportRequest, timeoutMs: number): Promise<Response> {
+    return directFetch({ ...request, url: this.buildUrl(request) }, timeoutMs);
+  }
+
+  unavailable(request: TransportRequest): string | null {
+    return request.apiKey || this.apiKey ? null : 'ScraperAPI backend requires SCRAPER_API_KEY';
+  }
+}
+
+export class DirectBackend implements TransportBackend {
+  readonly name = 'direct';
+
+  send(request: TransportRequest, timeoutMs: number): Promise<Response> {
+    return directFetch(request, timeoutMs);
+  }
+}
+
+/**
+ * Headless Chromium for pages that need rendering, with the launch options and
+ * render wait of mcp-server-live; other requests (API, PDFs) go out directly
+ */
+export class BrowserBackend implements TransportBackend {
+  readonly name = 'browser';
+  private browser: Promise<Browser> | null = null;
+
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      this.browser = import('puppeteer')
+        .then(({ default: puppeteer }) => {
+          console.error('[Transport] Launching browser...');
+          return puppeteer.launch({
+            headless: true,
+            args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage', '--disable-gpu']
+          });
+        })
+        .catch(error => {
+          this.browser = null;
+          throw new Error(`Browser backend unavailable (npm install puppeteer): ${error instanceof Error ? error.message : error}`);
+        });
+    }
+    return this.browser;
+  }
+
+  async send(request: TransportRequest, timeoutMs: number): Promise<Response> {
+    if (!request.render || (request.method || 'GET') !== 'GET') return directFetch(request, timeoutMs);
+
+    const browser = await this.getBrowser();
+    const page = await browser.newPage();
+    try {
+      if (request.headers) await page.setExtraHTTPHeaders(request.headers);
+      const response = await page.goto(request.url, { waitUntil: 'networkidle2', timeout: timeoutMs });
+
+      // Wait for Angular to render: network idle, a filled body, then settle
+      await page.waitForNetworkIdle({ idleTime: 500, timeout: 10000 }).catch(() => {});
+      await page.waitForFunction('document.body.innerText.length > 500', { timeout: 5000 }).catch(() => {});
+      await sleep(request.waitForMs ?? 2000);
+
+      return new Response(await page.content(), {
+        status: response?.status() ?? 200,
+        headers: { 'Content-Type': 'text/html; charset=utf-8' }
+      });
+    } finally {
+      await page.close().catch(() => {});
+    }
+  }
+
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    if (browser) await (await browser.catch(() => null))?.close();
+  }
+}
+
+/**
+ * Plain requests through HTTP proxies, rotating per request: absolute-URI
+ * requests for http targets, a CONNECT tunnel for https targets
+ */
+export class ProxyBackend implements TransportBackend {
+  readonly name = 'proxy';
+  private next = 0;
+
+  constructor(private proxies: string[]) {
+    if (proxies.length === 0) throw new Error('Proxy backend requires FETCH_PROXIES');
+  }
+
+  send(request: TransportRequest, timeoutMs: number): Promise<Response> {
+    const proxy = new URL(this.proxies[this.next++ % this.proxies.length]);
+    const target = new URL(request.url);
+    const proxyAuth: Record<string, string> = proxy.username
+      ? { 'Proxy-Authorization': `Basic ${Buffer.from(`${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`).toString('base64')}` }
+      : {};
+    const proxyPort = Number(proxy.port) || 80;
+
+    return new Promise<Response>((resolve, reject) => {
+      const onResponse = (res: http.IncomingMessage) => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('error', reject);
+        res.on('end', () => {
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(res.headers)) {
+            if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+          }
+          const status = res.statusCode || 502;
+          const body = [204, 205, 304].includes(status) ? null : Buffer.concat(chunks);
+          resolve(new Response(body, { status, statusText: res.statusMessage, headers }));
+        });
+      };
+      const send = (req: http.ClientRequest) => {
+        req.setTimeout(timeoutMs, () => req.destroy(new Error(`Proxy request timed out after ${timeoutMs}ms`)));
+        req.on('error', reject);
+        req.end(request.body);
+      };
+
+      if (target.protocol === 'http:') {
+        send(http.request({
+          host: proxy.hostname,
+          port: proxyPort,
+          method: request.method || 'GET',
+          path: target.href,
+          headers: { ...request.headers, Host: target.host, ...proxyAuth }
+        }, onResponse));
+        return;
+      }
+
+      const connect = http.request({
+        host: proxy.hostname,
+        port: proxyPort,
+        method: 'CONNECT',
+        path: `${target.hostname}:${target.port || 443}`,
+        headers: { Host: `${target.hostname}:${target.port || 443}`, ...proxyAuth }
+      });
+      connect.on('connect', (res, socket) => {
+        if (res.statusCode !== 200) {
+          socket.destroy();
+          reject(new Error(`Proxy CONNECT failed: ${res.statusCode} ${res.statusMessage}`));
+          return;
+        }
+        send(https.request({
+          host: target.hostname,
+          port: target.port || 443,
+          method: request.method || 'GET',
+          path: target.pathname + target.search,
+          headers: request.headers,
+          agent: false,
+          createConnection: () => tls.connect({ socket, servername: target.hostname })
+        }, onResponse));
+      });
+      send(connect);
+    });
+  }
+}
+
+// ============================================================
+// Transport
+// ============================================================
+
+export class Transport {
+  private order: TransportBackendName[];
+  private scraperApiKey: string;
+  private proxies: string[];
+  private ratePerSecond: number;
+  private burst: number;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private breakerFailures: number;
+  private breakerCooldownMs: number;
+  private timeoutMs: number;
+  private custom: Partial<Record<TransportBackendName, TransportBackend>>;
+
+  private backends = new Map<TransportBackendName, TransportBackend>();
+  private breakers = new Map<TransportBackendName, CircuitBreaker>();
+  private metrics = new Map<TransportBackendName, TransportBackendMetrics & { latencyTotalMs: number }>();
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(options: TransportOptions = {}) {
+    this.order = options.backends?.length ? options.backends : ['scraperapi'];
+    this.scraperApiKey = options.scraperApiKey ?? process.env.SCRAPER_API_KEY ?? '';
+    this.proxies = options.proxies || [];
+    this.ratePerSecond = options.ratePerSecond || 1;
+    this.burst = options.burst || 2;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.breakerFailures = options.breakerFailures || 5;
+    this.breakerCooldownMs = options.breakerCooldownMs ?? 60000;
+    this.timeoutMs = options.timeoutMs || 70000;
+    this.custom = options.custom || {};
+  }
+
+  /**
+   * Fetch through the first backend that answers. A response that is not
+   * 429/5xx is returned as is (callers check response.ok); when every backend
+   * failed, the last 429/5xx response is returned, or the last error thrown.
+   */
+  async fetch(request: TransportRequest): Promise<Response> {
+    const order = request.backends?.length ? request.backends : this.order;
+    const timeoutMs = request.timeoutMs || this.timeoutMs;
+    let lastResponse: Response | null = null;
+    let lastError: Error | null = null;
+
+    for (const name of order) {
+      const breaker = this.getBreaker(name);
+      if (!breaker.acquire()) {
+        lastError ??= new Error(`Fetch backend ${name} is paused after repeated failures`);
+        continue;
+      }
+      // A half-open backend gets a single probe, without retries
+      const maxRetries = breaker.getState() === 'half-open' ? 0 : this.maxRetries;
+
+      let backend: TransportBackend;
+      try {
+        backend = this.getBackend(name);
+        const reason = backend.unavailable?.(request);
+        if (reason) throw new Error(reason);
+      } catch (error) {
+        breaker.release();
+        lastError ??= error instanceof Error ? error : new Error(String(error));
+        continue;
+      }
+
+      const metrics = this.getMetrics(name);
+      for (let attempt = 0; ; attempt++) {
+        await this.getBucket(request.url).take();
+        metrics.requests++;
+        const startTime = Date.now();
+        let retryAfterMs: number | null = null;
+
+        try {
+          const response = await backend.send(request, timeoutMs);
+          if (!isRetryable(response.status)) {
+            metrics.successes++;
+            metrics.latencyTotalMs += Date.now() - startTime;
+            // A 4xx is about the request, not the backend: it neither fails nor clears the breaker
+            if (response.status < 400) breaker.recordSuccess();
+            else breaker.release();
+            lastResponse?.body?.cancel().catch(() => {});
+            return response;
+          }
+
+          if (response.status === 429) metrics.rateLimited++;
+          retryAfterMs = this.retryAfterMs(response);
+          lastResponse?.body?.cancel().catch(() => {});
+          lastResponse = response;
+          lastError = new Error(`${name}: ${response.status} ${response.statusText}`);
+        } catch (error) {
+          lastError = new Error(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        metrics.failures++;
+        metrics.lastError = lastError.message;
+        metrics.lastErrorAt = new Date().toISOString();
+        if (attempt >= maxRetries) break;
+
+        metrics.retries++;
+        const delayMs = retryAfterMs ?? this.backoffMs(attempt);
+        console.error(`[Transport] ${lastError.message} - retry ${attempt + 1}/${maxRetries} in ${delayMs}ms`);
+        await sleep(delayMs);
+      }
+
+      // One failure per request, after its retries
+      if (breaker.recordFailure()) {
+        metrics.circuitOpens++;
+        console.error(`[Transport] Pausing ${name} for ${Math.round(this.breakerCooldownMs / 1000)}s after repeated failures: ${lastError!.message}`);
+      }
+    }
+
+    if (lastResponse) return lastResponse;
+    throw lastError ?? new Error('No fetch backend configured');
+  }
+
+  /**
+   * Exponential backoff with jitter: between half and all of base * 2^attempt
+   */
+  private backoffMs(attempt: number): number {
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  /**
+   * Retry-After in seconds, capped at the longest backoff
+   */
+  private retryAfterMs(response: Response): number | null {
+    const seconds = Number(response.headers.get('retry-after'));
+    return seconds > 0 ? Math.min(seconds * 1000, this.maxDelayMs) : null;
+  }
+
+  private getBackend(name: TransportBackendName): TransportBackend {
+    let backend = this.backends.get(name) ?? this.custom[name];
+    if (!backend) {
+      switch (name) {
+        case 'scraperapi':
+          backend = new ScraperApiBackend(this.scraperApiKey);
+          break;
+        case 'direct':
+          backend = new DirectBackend();
+          break;
+        case 'browser':
+          backend = new BrowserBackend();
+          break;
+        case 'proxy':
+          backend = new ProxyBackend(this.proxies);
+          break;
+        default:
+          throw new Error(`Unknown fetch backend: ${name}. Valid options: ${TRANSPORT_BACKENDS.join(', ')}`);
+      }
+    }
+    this.backends.set(name, backend);
+    return backend;
+  }
+
+  private getBreaker(name: TransportBackendName): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.breakerFailures, this.breakerCooldownMs);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  private getMetrics(name: TransportBackendName) {
+    let metrics = this.metrics.get(name);
+    if (!metrics) {
+      metrics = {
+        backend: name, circuit: 'closed', requests: 0, successes: 0, failures: 0, retries: 0,
+        rateLimited: 0, circuitOpens: 0, avgLatencyMs: null, lastError: null, lastErrorAt: null, latencyTotalMs: 0
+      };
+      this.metrics.set(name, metrics);
+    }
+    return metrics;
+  }
+
+  private getBucket(url: string): TokenBucket {
+    const host = new URL(url).host;
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = new TokenBucket(this.ratePerSecond, this.burst);
+      this.buckets.set(host, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Metrics of the configured backends and any other backend used
+   */
+  getBackendMetrics(): TransportBackendMetrics[] {
+    const names = [...new Set([...this.order, ...this.metrics.keys()])];
+    return names.map(name => {
+      const { latencyTotalMs, ...metrics } = this.getMetrics(name);
+      return {
+        ...metrics,
+        circuit: this.getBreaker(name).getState(),
+        avgLatencyMs: metrics.successes > 0 ? Math.round(latencyTotalMs / metrics.successes) : null
+      };
+    });
+  }
+
+  /**
+   * Release backend resources (the headless browser)
+   */
+  async close(): Promise<void> {
+    for (const backend of this.backends.values()) {
+      await backend.close?.();
+    }
+    this.backends.clear();
+  }
+}
+
+// Factory function
+export function createTransport(options?: TransportOptions): Transport {
+  return new Transport(options);
+}
+
+// Singleton instance
+let transportInstance: Transport | null = null;
+
+/**
+ * The process-wide transport, configured from FETCH_* (see the header)
+ */
+export function getTransport(): Transport {
+  if (!transportInstance) {
+    const list = (value: string | undefined) => (value || '').split(',').map(item => item.trim()).filter(Boolean);
+    const backends = list(process.env.FETCH_BACKENDS) as TransportBackendName[];
+    const unknown = backends.filter(name => !TRANSPORT_BACKENDS.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown FETCH_BACKENDS: ${unknown.join(', ')}. Valid options: ${TRANSPORT_BACKENDS.join(', ')}`);
+    }
+
+    transportInstance = new Transport({
+      backends,
+      proxies: list(process.env.FETCH_PROXIES),
+      ratePerSecond: Number(process.env.FETCH_RATE_PER_SEC) || undefined,
+      maxRetries: process.env.FETCH_MAX_RETRIES ? Number(process.env.FETCH_MAX_RETRIES) : undefined,
+      breakerFailures: Number(process.env.FETCH_BREAKER_FAILURES) || undefined,
+      breakerCooldownMs: process.env.FETCH_BREAKER_COOLDOWN_MS ? Number(process.env.FETCH_BREAKER_COOLDOWN_MS) : undefined
+    });
+  }
+  return transportInstance;
+}
+
+export async function closeTransport(): Promise<void> {
+  if (transportInstance) {
+    await transportInstance.close();
+    transportInstance = null;
+  }
+}
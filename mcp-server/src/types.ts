@@ -13,11 +13,15 @@ export interface Decision {
   block: string | null;        // גוש
   plot: string | null;         // חלקה
   committee: string | null;    // ועדה מקומית
+  committeeId?: string | null; // Canonical committee (committee-gazetteer.ts), null when unknown
   appraiser: string | null;    // שם השמאי
+  appraiserId?: number | null; // Appraiser entity (appraiser-identity.ts), null until clustered
   caseType: string | null;     // היטל השבחה, פיצויים, etc.
   decisionDate: string | null;
   year: string | null;         // Extracted year for filtering (YYYY format)
   publishDate: string | null;
+  decisionDateIso?: string | null;  // decisionDate normalized to YYYY-MM-DD (set by the database)
+  publishDateIso?: string | null;   // publishDate normalized to YYYY-MM-DD (set by the database)
   contentHash: string;         // For change detection
   pdfText: string | null;      // Full text or summary (max 35KB) - maps to PRD 'description' field
   indexedAt: string;
@@ -32,11 +36,15 @@ export interface DecisionRow {
   block: string | null;
   plot: string | null;
   committee: string | null;
+  committee_id?: string | null;
   appraiser: string | null;
+  appraiser_id?: number | null;
   case_type: string | null;
   decision_date: string | null;
   year: string | null;
   publish_date: string | null;
+  decision_date_iso?: string | null;
+  publish_date_iso?: string | null;
   content_hash: string;
   pdf_text: string | null;
   indexed_at: string;
@@ -51,13 +59,44 @@ export interface SearchParams {
   plot?: string;
   appraiser?: string;
   caseType?: string;
-  fromDate?: string;
-  toDate?: string;
+  year?: string;               // Gregorian (2024) or Hebrew (תשפ"ד) year
+  fromDate?: string;           // Inclusive; YYYY-MM-DD, DD-MM-YYYY, YYYY-MM, YYYY or Hebrew date/year
+  toDate?: string;             // Inclusive; same formats as fromDate
+  blockRange?: NumberRange;    // Blocks from..to, e.g. "גושים 6001-6010"
+  plotRange?: NumberRange;     // Plots from..to
+  lot?: string;                // מגרש
   limit?: number;
   offset?: number;
   semanticSearch?: boolean;
 }
 
+// Inclusive numeric range
+export interface NumberRange {
+  from: number;
+  to: number;
+}
+
+// A parcel a decision refers to (parcel-parser.ts); plots and lots may be ranges
+export interface Parcel {
+  block: number | null;          // גוש
+  plots: NumberRange | null;     // חלקה / חלקות from..to
+  subPlot: number | null;        // תת-חלקה
+  lots: NumberRange | null;      // מגרש / מגרשים (plan lots)
+  partial: boolean;              // חלק מחלקה
+}
+
+export type ParcelSource = 'title' | 'pdf' | 'metadata';
+
+export interface DecisionParcel extends Parcel {
+  source: ParcelSource;          // Where the parcel was read
+}
+
+// Inclusive ISO date range (YYYY-MM-DD), e.g. a Hebrew year converted to Gregorian
+export interface IsoDateRange {
+  from: string;
+  to: string;
+}
+
 export interface SearchResult {
   decisions: Decision[];
   totalCount: number;
@@ -197,6 +236,295 @@ export interface ConstructAnswerResult {
   noResultsWarning?: string;      // "לא נמצאו החלטות רלוונטיות" when applicable
 }
 
+// Structured parameter types (decision_parameters table)
+export type ParamType =
+  | 'city'                    // עיר
+  | 'neighborhood'            // שכונה
+  | 'area_zone'               // אזור (תעשייה, תעסוקה...)
+  | 'land_use'                // ייעוד
+  | 'coefficient'             // מקדם (subtype: גודל, דחייה, היוון...)
+  | 'price_per_meter'         // מחיר למ"ר (subtype: נטו, ברוטו, אקוויולנטי)
+  | 'land_value'              // שווי קרקע
+  | 'building_rights_value'   // שווי זכויות בנייה
+  | 'comparison_transaction'  // עסקת השוואה
+  | 'tradability_fee'         // דמי סחירות
+  | 'sovereignty_rate'        // שיעור ריבונות
+  | 'building_plan'           // תוכנית בנייה
+  | 'outcome';                // תוצאה (התקבל, התקבל חלקית, נדחה)
+
+export type ExtractionMethod = 'regex' | 'metadata' | 'llm';
+
+export interface ExtractedParameter {
+  param_type: ParamType;
+  param_subtype: string | null;
+  value_numeric: number | null;
+  value_text: string | null;
+  unit: string | null;            // ₪/מ"ר, ₪/דונם, %, ...
+  confidence: number;             // 0-1
+  context_snippet: string | null; // Surrounding text the value was read from
+  extraction_method: ExtractionMethod;
+}
+
+export interface DecisionParameter extends ExtractedParameter {
+  id: number;
+  decision_id: string;
+  extracted_at: string;
+}
+
+export interface ParameterFilter {
+  param_type: ParamType;
+  param_subtype?: string;      // Substring match (דחי matches דחייה and דחיה)
+  value_min?: number;
+  value_max?: number;
+  value_text?: string;         // Substring match on value_text
+  min_confidence?: number;
+  committee?: string;
+  year?: string;               // Gregorian (2024) or Hebrew (תשפ"ד) year
+  database?: DatabaseType;
+  limit?: number;
+}
+
+// One search_by_parameters row: the parameter joined with its decision's metadata
+export interface ParameterSearchRow {
+  [column: string]: string | number | null;
+  id: string;
+  database: string;
+  title: string;
+  committee: string | null;
+  appraiser: string | null;
+  block: string | null;
+  plot: string | null;
+  year: string | null;
+  decision_date: string | null;
+  param_type: string;
+  param_subtype: string | null;
+  value_numeric: number | null;
+  value_text: string | null;
+  unit: string | null;
+  confidence: number;
+  context_snippet: string | null;
+}
+
+export interface ParameterExtractionStats {
+  totalDecisions: number;      // Decisions with PDF text
+  extracted: number;
+  failed: number;
+  pending: number;
+  totalParameters: number;
+  byType: Array<{ paramType: string; count: number }>;
+}
+
+// Comparison transaction types (עסקאות השוואה tables in decision PDFs)
+export interface ComparisonTransaction {
+  address: string | null;
+  city: string | null;
+  block: string | null;          // גוש
+  plot: string | null;           // חלקה
+  transactionDate: string | null; // YYYY-MM-DD, or YYYY-MM when the table gives only a month
+  areaSqm: number | null;
+  price: number | null;          // ₪
+  pricePerSqm: number | null;    // ₪/מ"ר (computed from price and area when not in the table)
+  page: number;                  // PDF page the row was read from
+}
+
+export interface ComparisonTransactionFilter {
+  city?: string;
+  block?: string;
+  fromDate?: string;             // Inclusive; same formats as SearchParams.fromDate
+  toDate?: string;
+  priceMin?: number;
+  priceMax?: number;
+  pricePerSqmMin?: number;
+  pricePerSqmMax?: number;
+  limit?: number;
+}
+
+// A deduplicated transaction with the decisions that cite it
+export interface StoredComparisonTransaction extends Omit<ComparisonTransaction, 'page'> {
+  id: number;
+  citedBy: string[];             // Decision IDs
+}
+
+// PDF page layout (pdf_pages table)
+export interface PdfLayoutCell {
+  text: string;
+  left: number;                  // x extent on the page, in points
+  right: number;
+}
+
+export interface PdfLayoutLine {
+  y: number;                     // Baseline, in points from the bottom of the page
+  cells: PdfLayoutCell[];        // In reading order (right to left for Hebrew lines)
+}
+
+export interface PdfPage {
+  pageNumber: number;            // 1-based
+  text: string;
+  lines: PdfLayoutLine[];        // Empty for OCR pages
+  ocrConfidence?: number;        // Mean OCR word confidence 0-100 (OCR pages only)
+}
+
+// How pdf_text was obtained: the PDF text layer, or OCR of a scanned PDF
+export type PdfExtractionMethod = 'text' | 'ocr';
+
+// Section of a decision a passage belongs to (headers: passage-chunker.ts).
+// 'preamble' is the text before the first recognized header.
+export type PassageSectionType =
+  | 'preamble'
+  | 'partyA'          // טענות שמאי המבקש / שומת המבקש
+  | 'partyB'          // טענות שמאי הוועדה / שומת המשיבה
+  | 'partiesClaims'   // טענות הצדדים (both parties together)
+  | 'ruling'          // הכרעה / דיון והכרעה
+  | 'comparisons'     // עסקאות השוואה
+  | 'calculation';    // תחשיב השבחה
+
+// A paragraph-sized span of a decision's pdf_text, within one section
+export interface DecisionPassage {
+  index: number;                 // 0-based, in text order
+  sectionType: PassageSectionType;
+  sectionTitle: string | null;   // Header that opens the section, as matched
+  text: string;
+  charStart: number;             // Offsets into pdf_text
+  charEnd: number;
+  pageStart: number | null;      // Null when the text has no page boundaries
+  pageEnd: number | null;
+}
+
+export interface PassageFilter {
+  query: string;
+  sectionType?: PassageSectionType;
+  database?: DatabaseType;
+  committee?: string;
+  year?: string;                 // Gregorian (2024) or Hebrew (תשפ"ד) year
+  decisionIds?: string[];
+  perDecision?: number;          // Best N passages per decision (default: all)
+  limit?: number;
+}
+
+// One passage search hit with its decision's metadata
+export interface PassageSearchResult extends DecisionPassage {
+  decisionId: string;
+  database: DatabaseType;
+  title: string;
+  committee: string | null;
+  appraiser: string | null;
+  block: string | null;
+  plot: string | null;
+  year: string | null;
+  url: string | null;
+  snippet: string;               // Matched terms marked with [ ]
+  score: number;                 // Higher = more relevant
+}
+
+// An appraiser entity: the spellings of one appraiser's name clustered together
+export interface Appraiser {
+  id: number;
+  name: string;                  // Canonical name, without titles
+  aliases: Array<{ name: string; count: number }>;  // Spellings in decisions, most used first
+  decisionCount: number;
+}
+
+// Distribution of one extracted numeric parameter over an appraiser's decisions
+export interface ValueDistribution {
+  subtype: string | null;
+  count: number;                 // Values
+  decisions: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  mean: number;
+}
+
+export interface AppraiserProfile {
+  appraiser: Appraiser;
+  databases: Array<{ name: DatabaseType; count: number }>;
+  byYear: Array<{ year: string; count: number }>;
+  committees: Array<{ name: string; committeeId: string | null; count: number }>;
+  caseTypes: Array<{ name: string; count: number }>;
+  dateRange: { from: string | null; to: string | null };
+  coefficients: ValueDistribution[];   // Per coefficient subtype (גודל, דחייה...)
+  outcomes: Array<{ outcome: string; count: number }>;
+  decisionsWithParameters: number;     // Decisions the distributions are based on
+}
+
+// One gush of the boundary dataset (gush-layer.ts)
+export interface GushLocation {
+  gush: string;                  // As in decisions.block
+  locality: string | null;
+  lat: number;                   // Centroid, WGS84
+  lon: number;
+  areaSqm: number | null;
+  neighbors: string[];           // Blocks sharing a boundary
+}
+
+// A decision located through its block
+export interface LocatedDecision {
+  decision: Decision;
+  locality: string | null;
+  distanceKm: number;            // Between block centroids
+}
+
+// Class-based CSS selectors of the css_primary scraping strategy (scraper.ts), tried in order
+export interface PrimarySelectors {
+  container: string[];
+  title: string[];
+  pdfLink: string[];
+  date: string[];
+}
+
+// An indexed decision, used to locate decisions in a redesigned page (selector-learner.ts)
+export interface SelectorAnchor {
+  title: string;
+  url: string | null;
+}
+
+export type SelectorConfigSource = 'learned' | 'manual';
+
+// A stored version of the primary selectors; the active one is used by the scraper
+export interface SelectorConfigVersion {
+  version: number;
+  selectors: PrimarySelectors;
+  source: SelectorConfigSource;
+  database: DatabaseType | null;  // Page the selectors were learned from
+  anchors: number;                // Indexed decisions located in that page
+  itemCount: number;              // Decisions the selectors extracted from it
+  active: boolean;
+  createdAt: string;
+  activatedAt: string | null;
+}
+
+// Alerts (alerts.ts)
+export type AlertType =
+  | 'primary_selector_failure'  // Primary CSS selectors failed repeatedly
+  | 'indexing_error'            // A listing page failed to index
+  | 'stale_index'               // No new decisions in a database for N days
+  | 'pdf_failure_spike'         // Many recent PDF downloads failed
+  | 'scraper_quota'             // ScraperAPI credits running out or key rejected
+  | 'test';                     // Sent to check the sinks (scripts/alerts.ts --test)
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface Alert {
+  type: AlertType;
+  severity: AlertSeverity;
+  key: string;                    // Deduplication key (default: the type, and the database if any)
+  title: string;
+  message: string;
+  database: DatabaseType | null;
+  details: Record<string, unknown>;
+  timestamp: string;
+}
+
+// What happened to an alert: delivered, or why it was not (duplicates are not logged)
+export type AlertStatus = 'sent' | 'duplicate' | 'throttled' | 'failed';
+
+export interface AlertRecord extends Alert {
+  status: AlertStatus;
+  sinks: string[];                // Sinks that delivered it
+}
+
 // Database configuration
 export const DATABASE_CONFIG: Record<DatabaseType, { name: string; url: string }> = {
   decisive_appraiser: {
@@ -223,11 +551,15 @@ export function rowToDecision(row: DecisionRow, relevanceScore?: number): Decisi
     block: row.block,
     plot: row.plot,
     committee: row.committee,
+    committeeId: row.committee_id ?? null,
     appraiser: row.appraiser,
+    appraiserId: row.appraiser_id ?? null,
     caseType: row.case_type,
     decisionDate: row.decision_date,
     year: row.year,
     publishDate: row.publish_date,
+    decisionDateIso: row.decision_date_iso ?? null,
+    publishDateIso: row.publish_date_iso ?? null,
     contentHash: row.content_hash,
     pdfText: row.pdf_text,
     indexedAt: row.indexed_at
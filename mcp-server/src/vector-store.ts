@@ -0,0 +1,165 @@
+/**
+ * Vector Store Interface
+ * One interface for every place decision embeddings live, so semantic search,
+ * the embedding job and the sync command work against any of them:
+ *   - local:    int8 file index next to the database (embeddings-db.ts, default)
+ *   - pinecone: the hosted index built by the Python indexer (pinecone-client.ts)
+ *   - memory:   in-process, for tests
+ * The backend is selected with VECTOR_STORE (see getVectorStore in embeddings-db.ts).
+ *
+ * Vector ids are decision ids, or `${decisionId}#${chunk}` for decisions split
+ * into passages.
+ */
+
+export type VectorStoreKind = 'local' | 'pinecone' | 'memory';
+
+export const DEFAULT_NAMESPACE = 'gov-il-decisions';
+
+/** Metadata that every backend can store (Pinecone's value types) */
+export type VectorMetadata = Record<string, string | number | boolean | string[]>;
+
+/** Equality filter on metadata fields */
+export type VectorFilter = Record<string, string | number | boolean>;
+
+export interface VectorRecord {
+  id: string;
+  values: ArrayLike<number>;
+  metadata?: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: Record<string, unknown>;
+}
+
+export interface VectorQueryOptions {
+  topK?: number;          // Default: 10
+  filter?: VectorFilter;
+  namespace?: string;
+}
+
+export interface VectorStoreStats {
+  vectorCount: number;
+  dimensions: number | null;
+  namespace: string;
+}
+
+export interface VectorStore {
+  readonly kind: VectorStoreKind;
+  upsert(records: VectorRecord[], namespace?: string): Promise<void>;
+  query(vector: ArrayLike<number>, options?: VectorQueryOptions): Promise<VectorMatch[]>;
+  /** Metadata of the given ids that exist */
+  fetch(ids: string[], namespace?: string): Promise<Map<string, Record<string, unknown>>>;
+  delete(ids: string[], namespace?: string): Promise<void>;
+  listIds(namespace?: string): Promise<string[]>;
+  stats(namespace?: string): Promise<VectorStoreStats>;
+  /** Persist pending writes (no-op for remote and in-memory stores) */
+  flush(): Promise<void>;
+}
+
+/**
+ * Decision id of a vector id
+ */
+export function decisionIdOf(vectorId: string): string {
+  const hash = vectorId.lastIndexOf('#');
+  return hash === -1 ? vectorId : vectorId.slice(0, hash);
+}
+
+/**
+ * Vector id of a decision chunk
+ */
+export function chunkVectorId(decisionId: string, chunk: number): string {
+  return `${decisionId}#${chunk}`;
+}
+
+export function matchesFilter(metadata: Record<string, unknown>, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, value]) => metadata[key] === value);
+}
+
+/**
+ * Cosine similarity of two vectors
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Exact in-process store (float32), for tests and small experiments
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly kind = 'memory';
+  private namespaces = new Map<string, Map<string, { values: Float32Array; metadata: VectorMetadata }>>();
+
+  constructor(private defaultNamespace: string = DEFAULT_NAMESPACE) {}
+
+  private records(namespace?: string) {
+    const ns = namespace || this.defaultNamespace;
+    let records = this.namespaces.get(ns);
+    if (!records) {
+      records = new Map();
+      this.namespaces.set(ns, records);
+    }
+    return records;
+  }
+
+  async upsert(records: VectorRecord[], namespace?: string): Promise<void> {
+    const stored = this.records(namespace);
+    for (const record of records) {
+      stored.set(record.id, { values: Float32Array.from(record.values), metadata: { ...record.metadata } });
+    }
+  }
+
+  async query(vector: ArrayLike<number>, options: VectorQueryOptions = {}): Promise<VectorMatch[]> {
+    const matches: VectorMatch[] = [];
+    for (const [id, record] of this.records(options.namespace)) {
+      if (!matchesFilter(record.metadata, options.filter)) continue;
+      matches.push({ id, score: cosineSimilarity(vector, record.values), metadata: record.metadata });
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, options.topK ?? 10);
+  }
+
+  async fetch(ids: string[], namespace?: string): Promise<Map<string, Record<string, unknown>>> {
+    const stored = this.records(namespace);
+    const result = new Map<string, Record<string, unknown>>();
+    for (const id of ids) {
+      const record = stored.get(id);
+      if (record) result.set(id, record.metadata);
+    }
+    return result;
+  }
+
+  async delete(ids: string[], namespace?: string): Promise<void> {
+    const stored = this.records(namespace);
+    for (const id of ids) stored.delete(id);
+  }
+
+  async listIds(namespace?: string): Promise<string[]> {
+    return [...this.records(namespace).keys()];
+  }
+
+  async stats(namespace?: string): Promise<VectorStoreStats> {
+    const stored = this.records(namespace);
+    const first = stored.values().next().value;
+    return {
+      vectorCount: stored.size,
+      dimensions: first ? first.values.length : null,
+      namespace: namespace || this.defaultNamespace
+    };
+  }
+
+  async flush(): Promise<void> {}
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getElasticClient, DECISIONS_INDEX, PARAMETERS_INDEX } from '@/lib/elasticsearch';
 import { preprocessQuery } from '@/lib/query-preprocessor';
 import { extractBatch, type ColumnDef, type ExtractionResult, type ExtractedValue } from '@/lib/ai-extractor';
+import { findQuotePage } from '@/lib/section-extractor';
+import { applied, parseQuery, type ParsedQuery, type ParamType, type ValueRange } from '@/lib/query-understanding';
 import type { DatabaseType } from '@/types/api';
 
 // ──────────────────────────────────────────────────────────────────
@@ -23,6 +25,8 @@ interface ClaimValue {
   numeric: number | null;
   unit: string | null;
   quote: string | null;
+  /** PDF page of the quote, for citations (null when not located in the text) */
+  page: number | null;
 }
 
 /** Row with dynamic values keyed by column key */
@@ -143,50 +147,41 @@ interface QueryMapping {
   paramType: string;
   subtypePrefix: string | null;
   valueLabel: string;
+  /** Comparator from the question ("מעל 0.9") */
+  valueRange: ValueRange | null;
 }
 
-function mapQueryToParamType(query: string): QueryMapping | null {
-  if (query.includes('מקדם')) {
-    const match = query.match(/מקדם\s+([\u0590-\u05FF]+)/);
-    let prefix: string | null = null;
-    let label = 'מקדם';
-    if (match) {
-      const coeffType = match[1];
-      prefix = SUBTYPE_NORMALIZATION[coeffType] || coeffType.substring(0, 3);
-      label = `מקדם ${coeffType}`;
-    }
-    return { paramType: 'coefficient', subtypePrefix: prefix, valueLabel: label };
-  }
-  if (query.includes('דמי סחירות')) {
-    return { paramType: 'tradability_fee', subtypePrefix: null, valueLabel: 'דמי סחירות' };
-  }
-  if (query.includes('ריבון')) {
-    return { paramType: 'sovereignty_rate', subtypePrefix: null, valueLabel: 'שיעור ריבונות' };
-  }
-  if (query.includes('למ"ר') || query.includes('למטר')) {
-    return { paramType: 'price_per_meter', subtypePrefix: null, valueLabel: 'מחיר למ"ר' };
-  }
-  if (query.includes('לדונם') || query.includes('שווי קרקע') || query.includes('מחיר קרקע')) {
-    return { paramType: 'land_value', subtypePrefix: null, valueLabel: 'שווי קרקע' };
-  }
-  if (query.includes('זכויות בנייה') || query.includes('זכויות בניה')) {
-    return { paramType: 'building_rights_value', subtypePrefix: null, valueLabel: 'שווי זכויות בנייה' };
-  }
-  if (query.includes('עסקאות השוואה') || query.includes('נתוני השוואה')) {
-    return { paramType: 'comparison_transaction', subtypePrefix: null, valueLabel: 'עסקאות השוואה' };
+const PARAM_TYPE_LABELS: Record<ParamType, string> = {
+  coefficient: 'מקדם',
+  tradability_fee: 'דמי סחירות',
+  sovereignty_rate: 'שיעור ריבונות',
+  price_per_meter: 'מחיר למ"ר',
+  land_value: 'שווי קרקע',
+  building_rights_value: 'שווי זכויות בנייה',
+  comparison_transaction: 'עסקאות השוואה',
+};
+
+/** Parameter named in the question (query-understanding), as an index query */
+function mapQueryToParamType(parsed: ParsedQuery): QueryMapping | null {
+  const parameter = parsed.parameter?.value;
+  if (!parameter) return null;
+  const valueRange = applied(parsed.value) ?? null;
+  if (parameter.param_type === 'coefficient' && parameter.param_subtype) {
+    const coeffType = parameter.param_subtype;
+    return {
+      paramType: 'coefficient',
+      subtypePrefix: SUBTYPE_NORMALIZATION[coeffType] || coeffType.substring(0, 3),
+      valueLabel: `מקדם ${coeffType}`,
+      valueRange,
+    };
   }
-  return null;
+  return { paramType: parameter.param_type, subtypePrefix: null, valueLabel: PARAM_TYPE_LABELS[parameter.param_type], valueRange };
 }
 
 // ──────────────────────────────────────────────────────────────────
-// Year detection
+// Year stripping
 // ──────────────────────────────────────────────────────────────────
 
-function detectYear(query: string): string | null {
-  const match = query.match(/\b(20[0-2]\d)\b/);
-  return match ? match[1] : null;
-}
-
 function stripYear(query: string, year: string): string {
   return query.replace(year, '').replace(/\s+/g, ' ').trim();
 }
@@ -231,17 +226,20 @@ export async function POST(request: NextRequest) {
     const limit = Math.min(body.limit ?? MAX_COMPARE, MAX_COMPARE);
     const es = getElasticClient();
 
+    // Read the question the way the MCP search tools do (query-understanding)
     const preprocessed = preprocessQuery(body.query);
-    const { detectedCities } = preprocessed;
-    const committee = body.committee || (detectedCities.length > 0 ? detectedCities[0] : null);
-    const year = detectYear(body.query);
+    const parsed = parseQuery(body.query);
+    const committee = body.committee || applied(parsed.committee) || null;
+    // The indices store Gregorian years; a Hebrew year spans two of them
+    const parsedYear = applied(parsed.year);
+    const year = parsedYear && /^\d{4}$/.test(parsedYear) ? parsedYear : null;
 
     // Determine columns — custom from UI, or auto-detect preset
     const presetName = detectPreset(body.query);
     const columns: ColumnDef[] = body.columns ?? COLUMN_PRESETS[presetName] ?? COLUMN_PRESETS.dispute;
 
     // Try parameters index for coefficients (structured, no AI needed)
-    const mapping = mapQueryToParamType(body.query);
+    const mapping = mapQueryToParamType(parsed);
     if (mapping && mapping.paramType === 'coefficient') {
       const result = await queryParametersIndex(es, mapping, committee, year, limit, body.resultIds);
       if (result.rows.length >= 3) {
@@ -319,6 +317,9 @@ async function queryParametersIndex(
     if (mapping.subtypePrefix) {
       must.push({ prefix: { param_subtype: mapping.subtypePrefix } });
     }
+    if (mapping.valueRange) {
+      must.push({ range: { value_numeric: { gte: mapping.valueRange.min, lte: mapping.valueRange.max } } });
+    }
     const filter: object[] = decisionIds ? [{ terms: { decision_id: decisionIds } }] : [];
 
     const paramsRes = await es.search({
@@ -397,7 +398,7 @@ async function queryParametersIndex(
         appraiser: (meta.appraiser as string) || null,
         url: (meta.url as string) || null,
         values: {
-          value: { display, numeric: valueNum ?? null, unit, quote: context },
+          value: { display, numeric: valueNum ?? null, unit, quote: context, page: null },
         },
       });
 
@@ -539,7 +540,8 @@ async function aiExtractionPath(
   const extractions = await extractBatch(searchTerm, columns, docsForAI);
 
   // Build rows
-  const emptyValue: ClaimValue = { display: null, numeric: null, unit: null, quote: null };
+  const emptyValue: ClaimValue = { display: null, numeric: null, unit: null, quote: null, page: null };
+  const textById = new Map(docsForAI.map(doc => [doc.id, doc.pdfText]));
   const rowsWithData: CompareRow[] = [];
   const rowsWithout: CompareRow[] = [];
   const seenTitles = new Set<string>();
@@ -564,6 +566,7 @@ async function aiExtractionPath(
           numeric: ev.numeric,
           unit: ev.unit,
           quote: ev.quote,
+          page: findQuotePage(textById.get(id) ?? '', ev.quote),
         } : emptyValue;
       } else {
         values[col.key] = emptyValue;
@@ -0,0 +1,280 @@
+/**
+ * Hebrew Calendar Conversion
+ * Converts Hebrew-calendar dates as written in queries and decisions to
+ * Gregorian ISO dates and ranges:
+ * - Gematria years: תשפ"ד, התשפ״ד, ה'תשפ"ד → 5784 → 2023-09-16..2024-10-02
+ * - Full dates: ט"ו בשבט תשפ"ג, 15 בשבט התשפ"ג → 2023-02-06
+ * - Month and year: אדר ב' תשפ"ד → 2024-03-11..2024-04-08
+ *
+ * Conversion uses the ICU Hebrew calendar (Intl, 'en-u-ca-hebrew'), so no
+ * calendar arithmetic is implemented here.
+ */
+
+// Inlined from mcp-server/src/hebrew-calendar.ts to avoid Turbopack cross-root import issues
+
+// Inclusive ISO date range (YYYY-MM-DD)
+export interface IsoDateRange {
+  from: string;
+  to: string;
+}
+
+// Hebrew letter numeric values for gematria
+const GEMATRIA_VALUES: Record<string, number> = {
+  'א': 1, 'ב': 2, 'ג': 3, 'ד': 4, 'ה': 5, 'ו': 6, 'ז': 7, 'ח': 8, 'ט': 9,
+  'י': 10, 'כ': 20, 'ך': 20, 'ל': 30, 'מ': 40, 'ם': 40, 'נ': 50, 'ן': 50,
+  'ס': 60, 'ע': 70, 'פ': 80, 'ף': 80, 'צ': 90, 'ץ': 90,
+  'ק': 100, 'ר': 200, 'ש': 300, 'ת': 400
+};
+
+// Hebrew years written without the thousands (תשפ"ד = 784) are in the 6th millennium
+const HEBREW_MILLENNIUM = 5000;
+
+// Offset between Hebrew and Gregorian years (Tishrei 5784 falls in September 2023)
+const HEBREW_GREGORIAN_OFFSET = 3761;
+
+// Gematria year in the 5700s-5800s, optionally preceded by ה or ה' (ה'תשפ"ד).
+// Strict letter shape so words like "תשלום" are not read as years:
+// תש"ע / תש"ם, תשט"ו / תשט"ז, תשפ"ד / תשפד
+const YEAR_SOURCE = `(?:ה['׳]?)?(ת[שת](?:["״][א-צךםןףץ]|ט["״]?[וז]|[יכלמנסעפצ]["״]?[א-ט]))`;
+
+// Day of month: gematria (א', ט"ו, כ"ג, ל') or digits
+const DAY_SOURCE = `(\\d{1,2}|[א-ל](?:["״]?[א-ט])?['׳]?)`;
+
+// Characters that may belong to a Hebrew word (used for word boundaries)
+const WORD_CHARS = `א-ת'"׳״`;
+
+/**
+ * Hebrew month names as written in documents, mapped to ICU month names.
+ * Plain "אדר" is resolved per year (Adar in regular years, Adar II in leap years).
+ */
+const HEBREW_MONTHS: Record<string, string> = {
+  'תשרי': 'Tishri',
+  'חשון': 'Heshvan',
+  'חשוון': 'Heshvan',
+  'מרחשון': 'Heshvan',
+  'מרחשוון': 'Heshvan',
+  'כסלו': 'Kislev',
+  'כסליו': 'Kislev',
+  'טבת': 'Tevet',
+  'שבט': 'Shevat',
+  'אדר': 'Adar',
+  "אדר א'": 'Adar I',
+  'אדר א׳': 'Adar I',
+  'אדר א': 'Adar I',
+  'אדר ראשון': 'Adar I',
+  "אדר ב'": 'Adar II',
+  'אדר ב׳': 'Adar II',
+  'אדר ב': 'Adar II',
+  'אדר שני': 'Adar II',
+  'ניסן': 'Nisan',
+  'אייר': 'Iyar',
+  'איר': 'Iyar',
+  'סיון': 'Sivan',
+  'סיוון': 'Sivan',
+  'תמוז': 'Tamuz',
+  'אב': 'Av',
+  'מנחם אב': 'Av',
+  'אלול': 'Elul'
+};
+
+// Longest names first so "אדר ב'" wins over "אדר"
+const MONTH_SOURCE = `(${Object.keys(HEBREW_MONTHS)
+  .sort((a, b) => b.length - a.length)
+  .join('|')})`;
+
+// "ט"ו בשבט תשפ"ג", "15 בשבט, התשפ"ג", "א' באדר ב' תשפ"ד"
+const HEBREW_DATE_PATTERN = new RegExp(
+  `(?:^|[^${WORD_CHARS}])${DAY_SOURCE}\\s+(?:ב|ל)?${MONTH_SOURCE}\\s*,?\\s+${YEAR_SOURCE}(?![${WORD_CHARS}])`
+);
+
+// "שבט תשפ"ג", "משבט תשפ"ג", "בחודש אדר ב' התשפ"ד"
+const HEBREW_MONTH_YEAR_PATTERN = new RegExp(
+  `(?:^|[^${WORD_CHARS}])[בלמ]?${MONTH_SOURCE}\\s*,?\\s+${YEAR_SOURCE}(?![${WORD_CHARS}])`
+);
+
+const HEBREW_YEAR_PATTERN = new RegExp(`(?:^|[^${WORD_CHARS}])${YEAR_SOURCE}(?![${WORD_CHARS}])`);
+
+interface HebrewCalendarDay {
+  iso: string;
+  month: string;
+  day: number;
+}
+
+const hebrewCalendarFormat = new Intl.DateTimeFormat('en-u-ca-hebrew', {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+  timeZone: 'UTC'
+});
+
+// Day-by-day calendar per Hebrew year, built on first use
+const calendarCache = new Map<number, HebrewCalendarDay[]>();
+
+/**
+ * Add days to an ISO date
+ */
+function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Hebrew year, month and day of a Gregorian ISO date
+ */
+function toHebrewParts(isoDate: string): { year: number; month: string; day: number } {
+  const parts = hebrewCalendarFormat.formatToParts(new Date(`${isoDate}T00:00:00Z`));
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return { year: Number(get('year')), month: get('month'), day: Number(get('day')) };
+}
+
+/**
+ * Sum the gematria value of Hebrew letters, ignoring geresh/gershayim
+ * (ט"ו → 15, תשפ"ד → 784). Returns null if the text has no Hebrew letters.
+ */
+export function parseGematria(text: string): number | null {
+  let value = 0;
+  for (const letter of text) {
+    value += GEMATRIA_VALUES[letter] ?? 0;
+  }
+  return value > 0 ? value : null;
+}
+
+/**
+ * Parse a gematria Hebrew year (תשפ"ד, ה'תשפ"ד) to its full numeric value (5784)
+ */
+export function parseHebrewYear(raw: string | null | undefined): number | null {
+  if (!raw) return null;
+  const match = raw.match(HEBREW_YEAR_PATTERN);
+  if (!match) return null;
+
+  const value = parseGematria(match[1]);
+  return value ? HEBREW_MILLENNIUM + value : null;
+}
+
+/**
+ * Every day of a Hebrew year, from 1 Tishrei to 29 Elul
+ */
+function getHebrewYearCalendar(hebrewYear: number): HebrewCalendarDay[] {
+  const cached = calendarCache.get(hebrewYear);
+  if (cached) return cached;
+
+  // Rosh Hashana always falls between September 5 and October 5
+  let current = `${hebrewYear - HEBREW_GREGORIAN_OFFSET}-09-05`;
+  while (toHebrewParts(current).year !== hebrewYear) {
+    current = addDays(current, 1);
+  }
+
+  const days: HebrewCalendarDay[] = [];
+  for (let parts = toHebrewParts(current); parts.year === hebrewYear; parts = toHebrewParts(current)) {
+    days.push({ iso: current, month: parts.month, day: parts.day });
+    current = addDays(current, 1);
+  }
+
+  calendarCache.set(hebrewYear, days);
+  return days;
+}
+
+/**
+ * Resolve a Hebrew month name to the ICU month name used in the given year
+ */
+function resolveMonth(name: string, calendar: HebrewCalendarDay[]): string | null {
+  const month = HEBREW_MONTHS[name.trim()];
+  if (!month) return null;
+
+  const isLeapYear = calendar.some(d => d.month === 'Adar II');
+  if (month === 'Adar' && isLeapYear) return 'Adar II';
+  if (month.startsWith('Adar') && !isLeapYear) return 'Adar';
+  return month;
+}
+
+/**
+ * Parse a day of month written in gematria (ט"ו) or digits (15)
+ */
+function parseHebrewDay(text: string): number | null {
+  const day = /^\d+$/.test(text) ? Number(text) : parseGematria(text);
+  return day && day >= 1 && day <= 30 ? day : null;
+}
+
+/**
+ * Gregorian date range covered by a Hebrew year (1 Tishrei to 29 Elul)
+ */
+export function hebrewYearToIsoRange(hebrewYear: number): IsoDateRange {
+  const calendar = getHebrewYearCalendar(hebrewYear);
+  return { from: calendar[0].iso, to: calendar[calendar.length - 1].iso };
+}
+
+/**
+ * Convert a Hebrew date to a Gregorian ISO date.
+ * Returns null if the month does not exist in that year or the day is out of range.
+ */
+export function hebrewDateToIso(hebrewYear: number, monthName: string, day: number): string | null {
+  const calendar = getHebrewYearCalendar(hebrewYear);
+  const month = resolveMonth(monthName, calendar);
+  if (!month) return null;
+  return calendar.find(d => d.month === month && d.day === day)?.iso ?? null;
+}
+
+/**
+ * Find a full Hebrew date (ט"ו בשבט תשפ"ג) in text and convert it to ISO
+ */
+export function parseHebrewDate(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const match = raw.match(HEBREW_DATE_PATTERN);
+  if (!match) return null;
+
+  const day = parseHebrewDay(match[1]);
+  const yearValue = parseGematria(match[3]);
+  if (!day || !yearValue) return null;
+
+  return hebrewDateToIso(HEBREW_MILLENNIUM + yearValue, match[2], day);
+}
+
+/**
+ * A Hebrew-calendar expression found in text, with the words it was read from
+ */
+export interface HebrewDateMatch {
+  range: IsoDateRange;
+  matched: string;
+  kind: 'date' | 'month' | 'year';
+}
+
+/**
+ * Find the most specific Hebrew-calendar expression in text and convert it
+ * to a Gregorian range: a full date gives one day, a month and year gives
+ * that month, and a bare year gives 1 Tishrei to 29 Elul.
+ */
+export function findHebrewDateRange(raw: string | null | undefined): HebrewDateMatch | null {
+  if (!raw) return null;
+  // The patterns consume the character before the expression
+  const words = (match: RegExpMatchArray) => match[0].replace(new RegExp(`^[^${WORD_CHARS}\\d]+`), '');
+
+  const dateMatch = raw.match(HEBREW_DATE_PATTERN);
+  const date = parseHebrewDate(raw);
+  if (dateMatch && date) return { range: { from: date, to: date }, matched: words(dateMatch), kind: 'date' };
+
+  const monthMatch = raw.match(HEBREW_MONTH_YEAR_PATTERN);
+  const monthYearValue = monthMatch ? parseGematria(monthMatch[2]) : null;
+  if (monthMatch && monthYearValue) {
+    const calendar = getHebrewYearCalendar(HEBREW_MILLENNIUM + monthYearValue);
+    const month = resolveMonth(monthMatch[1], calendar);
+    const days = calendar.filter(d => d.month === month);
+    if (days.length > 0) {
+      return { range: { from: days[0].iso, to: days[days.length - 1].iso }, matched: words(monthMatch), kind: 'month' };
+    }
+  }
+
+  const yearMatch = raw.match(HEBREW_YEAR_PATTERN);
+  const hebrewYear = parseHebrewYear(raw);
+  return yearMatch && hebrewYear
+    ? { range: hebrewYearToIsoRange(hebrewYear), matched: words(yearMatch), kind: 'year' }
+    : null;
+}
+
+/**
+ * Gregorian range of the most specific Hebrew-calendar expression in text
+ * (see findHebrewDateRange)
+ */
+export function parseHebrewDateRange(raw: string | null | undefined): IsoDateRange | null {
+  return findHebrewDateRange(raw)?.range ?? null;
+}
@@ -0,0 +1,121 @@
+/**
+ * Hebrew morphology-aware term matching for decision text.
+ * Finds "מקדם" inside "והמקדם", "במקדם", "למקדמי" and "מקדמים", ignoring
+ * final letters, niqqud, geresh/gershayim variants and ktiv male doubling.
+ */
+
+// Inlined from mcp-server/src/hebrew-normalizer.ts to avoid Turbopack cross-root import issues
+
+const NIQQUD_PATTERN = /[\u0591-\u05BD\u05BF\u05C1-\u05C2\u05C4-\u05C5\u05C7]/g;
+const GERSHAYIM_PATTERN = /[\u05F4\u201C\u201D\u201E\u2033]/g;
+const GERESH_PATTERN = /[\u05F3\u2018\u2019\u201A\u2032`\u00B4]/g;
+const INVISIBLE_PATTERN = /[\u200B-\u200F\u202A-\u202E\u2066-\u2069\uFEFF]/g;
+
+/** A word in document text, including attached niqqud and gershayim */
+const WORD_PATTERN = /[\u05D0-\u05EA\u0591-\u05C7\u05F3\u05F4"'A-Za-z0-9]+/g;
+
+const FINAL_TO_REGULAR: Record<string, string> = {
+  'ך': 'כ',
+  'ם': 'מ',
+  'ן': 'נ',
+  'ף': 'פ',
+  'ץ': 'צ',
+};
+
+/** Prefix letter sequences (ו/ה/ב/ל/מ/ש/כ and combinations), longest first */
+const PREFIX_SEQUENCES = [
+  'וכש', 'ושה', 'ושב', 'ושל', 'ומה',
+  'וה', 'וב', 'ול', 'ומ', 'וש', 'וכ', 'שה', 'שב', 'של', 'שמ', 'מה', 'כש',
+  'ו', 'ה', 'ב', 'ל', 'מ', 'ש', 'כ',
+];
+
+/** Plural / construct suffixes, matched against final-folded words */
+const SUFFIXES = ['ימ', 'ות', 'י', 'ה', 'ת'];
+
+const MIN_STEM_LENGTH = 3;
+
+function isHebrewWord(word: string): boolean {
+  return /^[\u05D0-\u05EA]/.test(word);
+}
+
+/**
+ * Remove niqqud and invisible chars, unify geresh/gershayim variants.
+ */
+export function normalizeHebrew(text: string): string {
+  return text
+    .replace(INVISIBLE_PATTERN, '')
+    .replace(NIQQUD_PATTERN, '')
+    .replace(GERSHAYIM_PATTERN, '"')
+    .replace(GERESH_PATTERN, "'");
+}
+
+function foldFinalLetters(word: string): string {
+  return word.replace(/[\u05DA\u05DD\u05DF\u05E3\u05E5]/g, ch => FINAL_TO_REGULAR[ch]);
+}
+
+function stripSuffix(word: string): string {
+  if (/["']/.test(word)) return word;
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Comparison keys for a word: every prefix reading, final-folded and
+ * ktiv-collapsed (דחייה/דחיה), with and without its suffix.
+ */
+function getMatchKeys(word: string): string[] {
+  const normalized = normalizeHebrew(word).replace(/^["']+|["']+$/g, '').toLowerCase();
+  if (!isHebrewWord(normalized)) return [normalized];
+
+  const candidates = [normalized];
+  for (const prefix of PREFIX_SEQUENCES) {
+    if (normalized.startsWith(prefix) && normalized.length - prefix.length >= MIN_STEM_LENGTH) {
+      candidates.push(normalized.slice(prefix.length));
+    }
+  }
+
+  const keys = new Set<string>();
+  for (const candidate of candidates) {
+    const folded = foldFinalLetters(candidate).replace(/וו/g, 'ו').replace(/יי/g, 'י');
+    keys.add(folded);
+    keys.add(stripSuffix(folded));
+  }
+  return [...keys];
+}
+
+/**
+ * Find every occurrence of a (possibly multi-word) term in text.
+ * Consecutive words must match the term's words morphologically, so
+ * "מקדם דחייה" also finds "מקדם הדחיה" and "למקדמי הדחייה".
+ * Returns char positions in the original text, in order.
+ */
+export function findHebrewTermOccurrences(
+  text: string,
+  term: string
+): Array<{ index: number; length: number }> {
+  const termKeys = (normalizeHebrew(term).match(WORD_PATTERN) || [])
+    .map(word => new Set(getMatchKeys(word)))
+    .filter(keys => [...keys].some(k => k.length > 0));
+  if (termKeys.length === 0) return [];
+
+  const words = [...text.matchAll(WORD_PATTERN)].map(m => ({
+    index: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+    keys: getMatchKeys(m[0]),
+  }));
+
+  const occurrences: Array<{ index: number; length: number }> = [];
+  for (let i = 0; i + termKeys.length <= words.length; i++) {
+    const matches = termKeys.every((keys, j) => words[i + j].keys.some(k => keys.has(k)));
+    if (matches) {
+      const last = words[i + termKeys.length - 1];
+      occurrences.push({ index: words[i].index, length: last.end - words[i].index });
+    }
+  }
+
+  return occurrences;
+}
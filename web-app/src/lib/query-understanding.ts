@@ -0,0 +1,450 @@
+/**
+ * Query Understanding
+ * Turns a free-text Hebrew question into typed search slots. Each slot keeps
+ * the words it was read from and a confidence:
+ *
+ *   "מקדם דחייה מעל 0.9 בנתניה בין 2020 ל-2023 שמאי מכריע"
+ *   → parameter coefficient/דחייה, value ≥ 0.9, committee נתניה,
+ *     dates 2020-01-01..2023-12-31, database decisive_appraiser,
+ *     text "מקדם דחייה"
+ *
+ * Filters (database, committee, block/plot, dates, values) are removed from
+ * `text`, and so are the connecting words around them; the topic (case type,
+ * parameter) stays in it, since it is what the decisions are searched for.
+ *
+ * Used by the compare route to read the question the way the MCP search tools do.
+ */
+
+// Inlined from mcp-server/src/query-understanding.ts to avoid Turbopack cross-root import issues
+
+import type { DatabaseType } from '@/types/api';
+import { findHebrewDateRange, parseHebrewYear, type IsoDateRange } from './hebrew-calendar';
+
+export type ParamType =
+  | 'coefficient' | 'price_per_meter' | 'land_value' | 'building_rights_value'
+  | 'comparison_transaction' | 'tradability_fee' | 'sovereignty_rate';
+
+export interface NumberRange {
+  from: number;
+  to: number;
+}
+
+export interface ParameterFilter {
+  param_type: ParamType;
+  param_subtype?: string;
+  value_min?: number;
+  value_max?: number;
+  committee?: string;
+  year?: string;
+  database?: DatabaseType;
+}
+
+export interface SearchParams {
+  query?: string;
+  database?: DatabaseType;
+  committee?: string;
+  block?: string;
+  plot?: string;
+  year?: string;
+  fromDate?: string;
+  toDate?: string;
+  blockRange?: NumberRange;
+  plotRange?: NumberRange;
+}
+
+// From mcp-server/src/parameter-extractor.ts
+const COEFFICIENT_SUBTYPES = [
+  'גודל', 'דחייה', 'היוון', 'ניצול', 'מיקום', 'סחירות', 'שוליות', 'התאמה',
+  'הפחתה', 'מושע', 'מרתף', 'קומה', 'בינוי', 'פיתוח', 'תחייה', 'משוקלל', 'חזית'
+];
+
+const COEFFICIENT_SUBTYPE_VARIANTS: Record<string, string> = {
+  'דחיה': 'דחייה',
+  'מושעא': 'מושע',
+  'תחיה': 'תחייה'
+};
+
+/**
+ * Coefficient subtype: the first word after "מקדם"
+ * ("מקדם גודל 0.85" → גודל, "מקדם הדחייה 0.9" → דחייה)
+ */
+function coefficientSubtype(match: string): string | null {
+  const words = match.replace(/^.*?מקדם/, '').match(/[א-ת]+/g);
+  if (!words) return null;
+
+  const word = words[0];
+  const candidates = word.startsWith('ה') && word.length > 3 ? [word, word.slice(1)] : [word];
+  for (const candidate of candidates) {
+    if (COEFFICIENT_SUBTYPES.includes(candidate)) return candidate;
+    if (COEFFICIENT_SUBTYPE_VARIANTS[candidate]) return COEFFICIENT_SUBTYPE_VARIANTS[candidate];
+  }
+  return word;
+}
+
+/**
+ * City from a committee name, or null for regional committees
+ * (מרחבית/מחוזית committees span several cities)
+ */
+function cityFromCommittee(committee: string | null | undefined): string | null {
+  const city = committee
+    ?.replace(/(?:ה)?ועדה\s+(?:ה)?מקומית(?:\s+לתכנון\s+(?:ו)?(?:בנייה|בניה))?/, '')
+    .trim();
+  if (!city || /מרחבית|מחוזית|אזורית/.test(city)) return null;
+  return city;
+}
+
+export interface QuerySlot<T> {
+  value: T;
+  confidence: number;           // 0-1
+  matched: string;              // The words of the question the value was read from
+}
+
+// Inclusive bounds of a numeric value ("מעל 0.9" → { min: 0.9 })
+export interface ValueRange {
+  min?: number;
+  max?: number;
+}
+
+export type ParameterSlot = Pick<ParameterFilter, 'param_type' | 'param_subtype'>;
+
+export interface ParsedQuery {
+  query: string;
+  text: string;                 // The question without its filters, for text search
+  database: QuerySlot<DatabaseType> | null;
+  committee: QuerySlot<string> | null;          // City of the local committee
+  block: QuerySlot<NumberRange> | null;         // גוש, or a range of them
+  plot: QuerySlot<NumberRange> | null;          // חלקה, or a range of them
+  caseType: QuerySlot<string> | null;
+  year: QuerySlot<string> | null;               // One Gregorian (2024) or Hebrew (תשפ"ד) year
+  dateRange: QuerySlot<IsoDateRange> | null;    // Anything else: year ranges, open bounds, Hebrew months
+  parameter: QuerySlot<ParameterSlot> | null;
+  value: QuerySlot<ValueRange> | null;          // Comparator on the parameter's value
+}
+
+export interface ParseQueryOptions {
+  committees?: string[];        // Committee names to match (default: KNOWN_CITIES)
+}
+
+// Slots at or above this confidence are applied as filters; the rest are only reported
+export const APPLY_CONFIDENCE = 0.75;
+
+// Database named in the question. Weak keywords ("הכרעה" appears in every
+// kind of decision) are reported but not applied.
+export const DATABASE_KEYWORDS: Record<DatabaseType, { strong: string[]; weak: string[] }> = {
+  decisive_appraiser: { strong: ['שמאי מכריע', 'שמאית מכריעה', 'הכרעת שמאי'], weak: ['מכריע', 'הכרעה'] },
+  appeals_committee: { strong: ['ועדת השגות', 'ועדת ההשגות'], weak: ['השגה', 'השגות'] },
+  appeals_board: { strong: ['ועדת ערעורים', 'ועדת הערעורים', 'ועדת ערר'], weak: ['ערעור', 'ערר', 'ערעורים'] }
+};
+
+export const CASE_TYPE_KEYWORDS = [
+  'היטל השבחה', 'פיצויים', 'ירידת ערך', 'הפקעה',
+  'תכנית מתאר', 'שינוי ייעוד', 'היתר בניה',
+  'תמ"א 38', 'פינוי בינוי', 'תב"ע'
+];
+
+// Cities matched when no committee list is given
+export const KNOWN_CITIES = [
+  'תל אביב', 'ירושלים', 'חיפה', 'באר שבע', 'רעננה', 'נתניה', 'הרצליה',
+  'רמת גן', 'פתח תקווה', 'ראשון לציון', 'אשדוד', 'חולון', 'בת ים', 'רחובות',
+  'כפר סבא', 'הוד השרון', 'רמת השרון', 'גבעתיים', 'בני ברק', 'אשקלון'
+];
+
+// Parameter types named by a phrase in the question (coefficients are handled separately)
+export const PARAMETER_PHRASES: Array<{ pattern: RegExp; paramType: ParamType }> = [
+  { pattern: /דמי\s+(?:ה)?סחירות/, paramType: 'tradability_fee' },
+  { pattern: /(?:שיעור\s+(?:ה)?)?ריבונ(?:ות)?/, paramType: 'sovereignty_rate' },
+  { pattern: /שווי\s+(?:ה)?זכויות|זכויות\s+(?:ה)?(?:בנייה|בניה)/, paramType: 'building_rights_value' },
+  { pattern: /שווי\s+(?:ה)?קרקע|מחיר\s+(?:ה)?קרקע|לדונם/, paramType: 'land_value' },
+  { pattern: /(?:מחיר|שווי)\s+ל-?מ["״]ר|מחיר\s+למטר|ל-?מ["״]ר/, paramType: 'price_per_meter' },
+  { pattern: /עסקאות\s+(?:ה)?השוואה|נתוני\s+(?:ה)?השוואה/, paramType: 'comparison_transaction' }
+];
+
+const CONFIDENCE = {
+  explicit: 0.95,               // "גוש 6638", "ועדת ערעורים"
+  pattern: 0.9,                 // A Gregorian year, a city name, "מקדם דחייה"
+  prefixed: 0.85,               // The same with a prefix letter ("בנתניה"), Hebrew years
+  abbreviation: 0.75,           // "ג' 6638", a comparator without a parameter
+  weak: 0.5                     // Words that also appear in other contexts
+};
+
+const YEAR = '(?:19|20)\\d{2}';
+const NUMBER = '\\d+(?:\\.\\d+)?';
+
+// A number followed by a unit ("2000 ש"ח", "1950 מ"ר") is an amount, not a year
+const NOT_UNIT = '(?!\\s*(?:מ["״\']ר|מטר|ש["״\']ח|שקל|₪|דונם|%|אחוז))';
+
+// Words that only tie the filters into a sentence ("החלטות בשנת תשפ"ד ברמת גן"),
+// and prefixes or prepositions left alone once the filter after them is removed.
+// Left in `text`, they would be searched as terms.
+const FILLER_WORDS = new Set([
+  'החלטה', 'החלטות', 'החלטת', 'שנת', 'בשנת', 'בשנים', 'בחודש', 'בנושא', 'בעניין', 'לגבי', 'של',
+  'בין', 'עד', 'ב', 'ל', 'מ', 'ו', 'ה'
+]);
+
+// Word boundary for Hebrew text (\b does not work for Hebrew letters)
+const START = '(?<=^|[\\s,.;:()"\'])';
+const END = '(?=$|[\\s,.;:()?!"\'])';
+
+/**
+ * Escape a string for use inside a RegExp
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The words of the question left after its filters, without connectors and
+ * the punctuation or prefixes ("ב-") the removed filters left behind
+ */
+function residualText(text: string): string {
+  return text
+    .split(/\s+/)
+    .filter(word => {
+      const bare = word.replace(/^[-–,.;:()]+|[-–,.;:()?!]+$/g, '');
+      return bare !== '' && !FILLER_WORDS.has(bare);
+    })
+    .join(' ');
+}
+
+function slot<T>(value: T, confidence: number, matched: string): QuerySlot<T> {
+  return { value, confidence, matched: matched.trim() };
+}
+
+function range(from: string, to?: string): NumberRange {
+  const [a, b] = [Number(from), Number(to ?? from)];
+  return { from: Math.min(a, b), to: Math.max(a, b) };
+}
+
+/**
+ * Read a question into slots. Committees are matched against the given names
+ * (as their city, see cityFromCommittee), also with a prefix letter ("בנתניה").
+ */
+export function parseQuery(query: string, options: ParseQueryOptions = {}): ParsedQuery {
+  let text = ` ${query} `;
+  // Remove the words a filter was read from, so they are not searched as text
+  const take = (matched: string) => {
+    text = text.replace(matched, ' ');
+  };
+
+  // Block and plot: "גוש 6638", "גושים 6001-6010", "ג' 6638"
+  let block: ParsedQuery['block'] = null;
+  let plot: ParsedQuery['plot'] = null;
+  const blockMatch = text.match(/גוש(?:ים)?\s*(\d+)(?:\s*[-–]\s*(\d+))?/);
+  const blockShort = text.match(new RegExp(`${START}ג['׳]\\s*(\\d+)`));
+  if (blockMatch) {
+    block = slot(range(blockMatch[1], blockMatch[2]), CONFIDENCE.explicit, blockMatch[0]);
+  } else if (blockShort) {
+    block = slot(range(blockShort[1]), CONFIDENCE.abbreviation, blockShort[0]);
+  }
+  if (block) take(block.matched);
+
+  const plotMatch = text.match(/חלק(?:ה|ות)\s*(\d+)(?:\s*[-–]\s*(\d+))?/);
+  const plotShort = text.match(new RegExp(`${START}ח['׳]\\s*(\\d+)`));
+  if (plotMatch) {
+    plot = slot(range(plotMatch[1], plotMatch[2]), CONFIDENCE.explicit, plotMatch[0]);
+  } else if (plotShort) {
+    plot = slot(range(plotShort[1]), CONFIDENCE.abbreviation, plotShort[0]);
+  }
+  if (plot) take(plot.matched);
+
+  // Values: "מעל 0.9", "עד 0.85", "בין 0.8 ל-0.9" (year ranges are dates, below).
+  // Read before the dates, so "מעל 2000" is not taken for a year
+  let value: ParsedQuery['value'] = null;
+  const between = text.match(new RegExp(`בין\\s*(${NUMBER})\\s*(?:ל-?|ו-?|עד)\\s*(${NUMBER})`));
+  const isYear = (n: string) => new RegExp(`^${YEAR}$`).test(n);
+  if (between && !(isYear(between[1]) && isYear(between[2]))) {
+    const bounds = range(between[1], between[2]);
+    value = slot({ min: bounds.from, max: bounds.to }, CONFIDENCE.abbreviation, between[0]);
+    take(between[0]);
+  } else {
+    const above = text.match(new RegExp(`(?:מעל|יותר\\s+מ-?|גבוה\\s+מ-?|למעלה\\s+מ-?|לפחות|>=?)\\s*(${NUMBER})`));
+    const upTo = text.match(new RegExp(`(?:מתחת\\s+ל-?|פחות\\s+מ-?|נמוך\\s+מ-?|לכל\\s+היותר|עד|<=?)\\s*(${NUMBER})`));
+    // "עד 2023" is a date
+    const below = upTo && !(upTo[0].startsWith('עד') && isYear(upTo[1])) ? upTo : null;
+    if (above || below) {
+      value = slot(
+        { ...(above && { min: Number(above[1]) }), ...(below && { max: Number(below[1]) }) },
+        CONFIDENCE.abbreviation,
+        [above?.[0], below?.[0]].filter(Boolean).join(' ')
+      );
+      if (above) take(above[0]);
+      if (below) take(below[0]);
+    }
+  }
+
+  // Dates: year ranges and open bounds first, then a single year, then Hebrew dates
+  let year: ParsedQuery['year'] = null;
+  let dateRange: ParsedQuery['dateRange'] = null;
+  const yearRange = text.match(new RegExp(`(?:בין|מ-?|משנת|מהשנים)?\\s*(${YEAR})\\s*(?:[-–]|ל-?|עד|ו-?)\\s*(?:שנת\\s*)?(${YEAR})(?!\\d)${NOT_UNIT}`));
+  const after = text.match(new RegExp(`(אחרי|לאחר|מאז|החל\\s+מ-?|משנת)\\s*(${YEAR})(?!\\d)${NOT_UNIT}`));
+  const before = text.match(new RegExp(`(לפני|עד)\\s*(?:שנת\\s*)?(${YEAR})(?!\\d)${NOT_UNIT}`));
+  if (yearRange && yearRange[1] !== yearRange[2]) {
+    const years = range(yearRange[1], yearRange[2]);
+    dateRange = slot({ from: `${years.from}-01-01`, to: `${years.to}-12-31` }, CONFIDENCE.pattern, yearRange[0]);
+    take(dateRange.matched);
+  } else if (after || before) {
+    // "אחרי 2020" starts in 2021, "מאז 2020" in 2020
+    const from = after ? `${Number(after[2]) + (/אחרי|לאחר/.test(after[1]) ? 1 : 0)}-01-01` : '1900-01-01';
+    const to = before ? `${Number(before[2]) - (before[1] === 'לפני' ? 1 : 0)}-12-31` : '2099-12-31';
+    dateRange = slot({ from, to }, CONFIDENCE.prefixed, [after?.[0], before?.[0]].filter(Boolean).join(' '));
+    if (after) take(after[0]);
+    if (before) take(before[0]);
+  } else {
+    const single = text.match(new RegExp(`(?:בשנת\\s*|ב-?|מ-?|ל-?)?(?<![\\d₪])(${YEAR})(?!\\d)${NOT_UNIT}`));
+    if (single) {
+      year = slot(single[1], CONFIDENCE.pattern, single[0]);
+      take(single[0]);
+    } else {
+      const hebrew = findHebrewDateRange(text);
+      if (hebrew && hebrew.kind !== 'year') {
+        dateRange = slot(hebrew.range, CONFIDENCE.prefixed, hebrew.matched);
+        take(hebrew.matched);
+      } else {
+        // "בתשפ"ד": the prefix letter is not part of the year
+        for (const word of text.split(/\s+/)) {
+          const candidate = word.replace(/^[בלמ]-?(?=(?:ה['׳])?ת)/, '');
+          if (parseHebrewYear(candidate) !== null) {
+            year = slot(candidate, CONFIDENCE.prefixed, word);
+            take(word);
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  // Committee: longest city first, so "קרית אונו" wins over a shorter name inside it
+  let committee: ParsedQuery['committee'] = null;
+  const cities = [...new Set((options.committees?.length ? options.committees : KNOWN_CITIES).map(c => cityFromCommittee(c) ?? c))]
+    .filter(city => city.length > 1)
+    .sort((a, b) => b.length - a.length);
+  for (const city of cities) {
+    const match = text.match(new RegExp(`${START}(?:(?:ה)?ועד(?:ה|ת)\\s+(?:ה)?מקומית\\s+)?([בלמוה]?-?)${escapeRegExp(city)}${END}`));
+    if (match) {
+      committee = slot(city, match[1] ? CONFIDENCE.prefixed : CONFIDENCE.pattern, match[0]);
+      take(match[0]);
+      break;
+    }
+  }
+
+  // Database: strong keywords are filters, weak ones stay in the text
+  let database: ParsedQuery['database'] = null;
+  for (const strength of ['strong', 'weak'] as const) {
+    for (const [dbType, keywords] of Object.entries(DATABASE_KEYWORDS) as Array<[DatabaseType, typeof DATABASE_KEYWORDS[DatabaseType]]>) {
+      const keyword = keywords[strength].find(k => text.includes(k));
+      if (keyword) {
+        database = slot(dbType, strength === 'strong' ? CONFIDENCE.explicit : CONFIDENCE.weak, keyword);
+        if (strength === 'strong') take(keyword);
+        break;
+      }
+    }
+    if (database) break;
+  }
+
+  // Parameter: "מקדם דחייה", "מקדמי גודל", "שווי למ"ר". Read after the committee
+  // is removed, so "מקדם בנתניה" does not get the subtype "בנתניה"
+  let parameter: ParsedQuery['parameter'] = null;
+  const coefficient = text.match(/(?:מקדמים|מקדמי|מקדם)(?:\s+[א-ת]+)?/);
+  if (coefficient) {
+    const subtype = /\s/.test(coefficient[0]) ? coefficientSubtype(coefficient[0].replace(/^(?:מקדמים|מקדמי)/, 'מקדם')) : null;
+    parameter = subtype
+      ? slot({ param_type: 'coefficient', param_subtype: subtype }, CONFIDENCE.pattern, coefficient[0])
+      : slot({ param_type: 'coefficient' }, CONFIDENCE.abbreviation, coefficient[0].split(/\s/)[0]);
+  } else {
+    for (const { pattern, paramType } of PARAMETER_PHRASES) {
+      const match = text.match(pattern);
+      if (match) {
+        parameter = slot({ param_type: paramType }, CONFIDENCE.prefixed, match[0]);
+        break;
+      }
+    }
+  }
+
+  // A comparator is surer next to a parameter it can apply to
+  if (value && parameter) value.confidence = CONFIDENCE.prefixed;
+
+  const caseTypeKeyword = CASE_TYPE_KEYWORDS.find(caseType => query.includes(caseType));
+  const caseType = caseTypeKeyword ? slot(caseTypeKeyword, CONFIDENCE.prefixed, caseTypeKeyword) : null;
+
+  return {
+    query,
+    text: residualText(text),
+    database,
+    committee,
+    block,
+    plot,
+    caseType,
+    year,
+    dateRange,
+    parameter,
+    value
+  };
+}
+
+/**
+ * The value of a slot confident enough to filter by
+ */
+export function applied<T>(querySlot: QuerySlot<T> | null): T | undefined {
+  return querySlot && querySlot.confidence >= APPLY_CONFIDENCE ? querySlot.value : undefined;
+}
+
+/**
+ * Search filters for a parsed question. The case type stays in `query` (it is
+ * the topic, and many decisions have no case_type), so it is not a filter.
+ */
+export function toSearchParams(parsed: ParsedQuery): SearchParams {
+  const params: SearchParams = {};
+  if (parsed.text) params.query = parsed.text;
+
+  params.database = applied(parsed.database);
+  params.committee = applied(parsed.committee);
+  params.year = applied(parsed.year);
+
+  const block = applied(parsed.block);
+  if (block && block.from === block.to) params.block = String(block.from);
+  else if (block) params.blockRange = block;
+
+  const plot = applied(parsed.plot);
+  if (plot && plot.from === plot.to) params.plot = String(plot.from);
+  else if (plot) params.plotRange = plot;
+
+  const dates = applied(parsed.dateRange);
+  if (dates) {
+    params.fromDate = dates.from;
+    params.toDate = dates.to;
+  }
+
+  return Object.fromEntries(Object.entries(params).filter(([, v]) => v !== undefined)) as SearchParams;
+}
+
+/**
+ * Parameter filter for a parsed question (search_by_parameters), or null when
+ * it names no parameter
+ */
+export function toParameterFilter(parsed: ParsedQuery): ParameterFilter | null {
+  const parameter = applied(parsed.parameter);
+  if (!parameter) return null;
+
+  const value = applied(parsed.value);
+  const committee = applied(parsed.committee);
+  const filter: ParameterFilter = {
+    ...parameter,
+    ...(value?.min !== undefined && { value_min: value.min }),
+    ...(value?.max !== undefined && { value_max: value.max }),
+    ...(committee && { committee }),
+    ...(applied(parsed.year) && { year: applied(parsed.year) }),
+    ...(applied(parsed.database) && { database: applied(parsed.database) })
+  };
+  return filter;
+}
+
+/**
+ * The slots that were found, for tool output: { committee: { value, confidence, matched }, ... }
+ */
+export function describeParsedQuery(parsed: ParsedQuery): Record<string, unknown> {
+  const { query, text, ...slots } = parsed;
+  return {
+    text,
+    ...Object.fromEntries(Object.entries(slots).filter(([, value]) => value !== null))
+  };
+}
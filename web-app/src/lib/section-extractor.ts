@@ -10,6 +10,7 @@ import type {
   ExtractedValue,
   DocumentExtraction,
 } from '@/types/api';
+import { findHebrewTermOccurrences } from './hebrew-normalizer';
 
 // Inlined from shared/extraction-patterns.ts to avoid Turbopack cross-root import issues
 
@@ -17,7 +18,7 @@ import type {
  * Normalize text before pattern matching:
  * - Strip zero-width / invisible Unicode chars
  * - Normalize Hebrew quotes and dashes
- * - Collapse whitespace (preserve newlines)
+ * - Collapse whitespace (preserve newlines and page breaks)
  */
 function normalizeText(text: string): string {
   return text
@@ -31,8 +32,8 @@ function normalizeText(text: string): string {
     // Collapse \r\n → \n
     .replace(/\r\n/g, '\n')
     .replace(/\r/g, '\n')
-    // Collapse multiple spaces (not newlines) → single space
-    .replace(/[^\S\n]+/g, ' ');
+    // Collapse multiple spaces (not newlines or page breaks) → single space
+    .replace(/[^\S\n\f]+/g, ' ');
 }
 
 function parseHebrewNumber(raw: string): number | null {
@@ -43,6 +44,9 @@ function parseHebrewNumber(raw: string): number | null {
   return parseFloat(trimmed.replace(/,/g, ''));
 }
 
+// pdf_text ends every page with a form feed (mcp-server pdf-layout.ts)
+const PAGE_BREAK = '\f';
+
 function estimatePage(charIndex: number, totalLength: number, charsPerPage: number = 3000): number {
   if (charIndex < 0 || totalLength <= 0) return 1;
   const estimatedTotalPages = Math.max(1, Math.ceil(totalLength / charsPerPage));
@@ -744,44 +748,6 @@ export function getPrimaryValue(section: ExtractedSection | null): ExtractedValu
   return section.values[0];
 }
 
-/**
- * Generate spelling variants for Hebrew search terms.
- * Handles common variations like דחייה/דחיה/דחי.
- */
-function generateTermVariants(term: string): string[] {
-  const variants = [term];
-
-  // Handle ייה/יה variations (common in Hebrew: דחייה/דחיה)
-  if (term.includes('ייה')) {
-    variants.push(term.replace(/ייה/g, 'יה'));
-  }
-  if (term.includes('יה') && !term.includes('ייה')) {
-    variants.push(term.replace(/יה/g, 'ייה'));
-  }
-
-  // Try truncating final ה from words ending in ייה/יה
-  // This catches "דחי" matching both "דחייה" and "דחיה"
-  const words = term.split(/\s+/);
-  if (words.length >= 2) {
-    const lastWord = words[words.length - 1];
-    if (/יי?ה$/.test(lastWord)) {
-      const truncated = lastWord.replace(/יי?ה$/, 'י');
-      variants.push([...words.slice(0, -1), truncated].join(' '));
-    }
-
-    // Add variant with definite article ה before second word
-    // "מקדם דחייה" → "מקדם הדחייה"
-    const withH = [...words.slice(0, -1), 'ה' + lastWord].join(' ');
-    variants.push(withH);
-    // Also handle ייה/יה for the ה-prefixed variant
-    if (lastWord.includes('ייה')) {
-      variants.push([...words.slice(0, -1), 'ה' + lastWord.replace('ייה', 'יה')].join(' '));
-    }
-  }
-
-  return [...new Set(variants)];
-}
-
 /**
  * Get the most relevant value from a section for a given search term.
  * Searches for the term within the section text and picks the nearest numeric value.
@@ -797,81 +763,76 @@ export function getSearchTermValue(
   const text = section.text;
   if (!text || text.length === 0) return getPrimaryValue(section);
 
-  const variants = generateTermVariants(searchTerm.trim());
+  // Morphology-aware: also matches prefixed/inflected forms (הדחייה, למקדמי)
+  const occurrences = findHebrewTermOccurrences(text, searchTerm.trim());
   const range = getValueRange(searchTerm);
 
   let bestCandidate: ExtractedValue | null = null;
   let bestDistance = Infinity;
 
-  for (const variant of variants) {
-    let searchIdx = 0;
-    while (true) {
-      const found = text.indexOf(variant, searchIdx);
-      if (found === -1) break;
-
-      // Look for numeric values within 150 chars after the term
-      const windowStart = found + variant.length;
-      const windowEnd = Math.min(text.length, windowStart + 150);
-      const window = text.substring(windowStart, windowEnd);
-
-      const numberPattern = /(\d+(?:[.,]\d+)*)/g;
-      let match;
-      while ((match = numberPattern.exec(window)) !== null) {
-        const raw = match[1];
-
-        // Skip dates
-        if (/^\d{1,2}\.\d{1,2}\.\d{4}$/.test(raw)) continue;
-        const afterNum = window.substring(match.index + raw.length);
-        if (/^\.\d{4}/.test(afterNum)) continue;
-
-        // Skip numbers followed by "שנים"/"שנה" (year counts, not values)
-        if (/^\s*שני[םה]?\b/.test(afterNum)) continue;
-        // Skip numbers immediately followed by "%" (interest rates like "6%")
-        if (/^\s*%/.test(afterNum)) continue;
-        // Skip gush/plot numbers and date fragments
-        if (isGushPlotOrDate(window, match.index, raw)) continue;
-
-        const parsed = parseHebrewNumber(raw);
-        if (parsed === null || isNaN(parsed) || parsed <= 0) continue;
-
-        // Apply range filter
-        if (range && (parsed < range.min || parsed > range.max)) continue;
+  for (const occurrence of occurrences) {
+    const found = occurrence.index;
 
-        // Skip paragraph/section numbers (preceded by many Hebrew words)
-        if (hasHebrewWordsBeforeNumber(window, match.index)) continue;
+    // Look for numeric values within 150 chars after the term
+    const windowStart = found + occurrence.length;
+    const windowEnd = Math.min(text.length, windowStart + 150);
+    const window = text.substring(windowStart, windowEnd);
 
-        // Build context
-        const ctxStart = Math.max(0, found - 20);
-        const ctxEnd = Math.min(text.length, windowStart + match.index + raw.length + 30);
-        const context = text.substring(ctxStart, ctxEnd).replace(/\s+/g, ' ').trim();
-
-        if (match.index < bestDistance) {
-          bestDistance = match.index;
-          // Force unit based on query type:
-          // - coefficient (מקדם) → plain decimal, no unit
-          // - monetary (היטל/פיצוי) → ₪
-          // - otherwise → detect from context
-          let unit: string | null;
-          if (range && searchTerm.includes('מקדם')) {
-            unit = 'מקדם';
-          } else if (range && (searchTerm.includes('היטל') || searchTerm.includes('פיצוי'))) {
-            unit = '₪';
-          } else {
-            unit = detectUnit(context);
-          }
-          bestCandidate = {
-            raw,
-            numeric: parsed,
-            unit,
-            context: context.substring(0, 120),
-            charIndex: section.charIndex + found,
-          };
-        }
+    const numberPattern = /(\d+(?:[.,]\d+)*)/g;
+    let match;
+    while ((match = numberPattern.exec(window)) !== null) {
+      const raw = match[1];
+
+      // Skip dates
+      if (/^\d{1,2}\.\d{1,2}\.\d{4}$/.test(raw)) continue;
+      const afterNum = window.substring(match.index + raw.length);
+      if (/^\.\d{4}/.test(afterNum)) continue;
+
+      // Skip numbers followed by "שנים"/"שנה" (year counts, not values)
+      if (/^\s*שני[םה]?\b/.test(afterNum)) continue;
+      // Skip numbers immediately followed by "%" (interest rates like "6%")
+      if (/^\s*%/.test(afterNum)) continue;
+      // Skip gush/plot numbers and date fragments
+      if (isGushPlotOrDate(window, match.index, raw)) continue;
 
-        break; // Only take first valid number after each term occurrence
+      const parsed = parseHebrewNumber(raw);
+      if (parsed === null || isNaN(parsed) || parsed <= 0) continue;
+
+      // Apply range filter
+      if (range && (parsed < range.min || parsed > range.max)) continue;
+
+      // Skip paragraph/section numbers (preceded by many Hebrew words)
+      if (hasHebrewWordsBeforeNumber(window, match.index)) continue;
+
+      // Build context
+      const ctxStart = Math.max(0, found - 20);
+      const ctxEnd = Math.min(text.length, windowStart + match.index + raw.length + 30);
+      const context = text.substring(ctxStart, ctxEnd).replace(/\s+/g, ' ').trim();
+
+      if (match.index < bestDistance) {
+        bestDistance = match.index;
+        // Force unit based on query type:
+        // - coefficient (מקדם) → plain decimal, no unit
+        // - monetary (היטל/פיצוי) → ₪
+        // - otherwise → detect from context
+        let unit: string | null;
+        if (range && searchTerm.includes('מקדם')) {
+          unit = 'מקדם';
+        } else if (range && (searchTerm.includes('היטל') || searchTerm.includes('פיצוי'))) {
+          unit = '₪';
+        } else {
+          unit = detectUnit(context);
+        }
+        bestCandidate = {
+          raw,
+          numeric: parsed,
+          unit,
+          context: context.substring(0, 120),
+          charIndex: section.charIndex + found,
+        };
       }
 
-      searchIdx = found + 1;
+      break; // Only take first valid number after each term occurrence
     }
   }
 
@@ -897,69 +858,60 @@ export function extractValueFromFullText(
   if (!pdfText || !searchTerm) return null;
 
   const text = normalizeText(pdfText);
-  const variants = generateTermVariants(searchTerm.trim());
+  const occurrences = findHebrewTermOccurrences(text, searchTerm.trim()).slice(0, 20);
   const range = getValueRange(searchTerm);
 
   // Collect all values near the term, pick the most common (mode)
   const allValues: { value: ExtractedValue; distance: number }[] = [];
 
-  for (const variant of variants) {
-    let idx = 0;
-    let occurrences = 0;
-    while (occurrences < 20) {
-      const found = text.indexOf(variant, idx);
-      if (found === -1) break;
-      occurrences++;
-
-      const windowStart = found + variant.length;
-      const windowEnd = Math.min(text.length, windowStart + 150);
-      const window = text.substring(windowStart, windowEnd);
-
-      const numberPattern = /(\d+(?:[.,]\d+)*)/g;
-      let match;
-      while ((match = numberPattern.exec(window)) !== null) {
-        const raw = match[1];
-        if (/^\d{1,2}\.\d{1,2}\.\d{4}$/.test(raw)) continue;
-        const afterNum = window.substring(match.index + raw.length);
-        if (/^\.\d{4}/.test(afterNum)) continue;
-        // Skip year counts ("3 שנים") and interest rates ("6%")
-        if (/^\s*שני[םה]?\b/.test(afterNum)) continue;
-        if (/^\s*%/.test(afterNum)) continue;
-        // Skip gush/plot numbers and date fragments
-        if (isGushPlotOrDate(window, match.index, raw)) continue;
-
-        const parsed = parseHebrewNumber(raw);
-        if (parsed === null || isNaN(parsed) || parsed <= 0) continue;
-        if (range && (parsed < range.min || parsed > range.max)) continue;
-        if (hasHebrewWordsBeforeNumber(window, match.index)) continue;
+  for (const occurrence of occurrences) {
+    const found = occurrence.index;
+    const windowStart = found + occurrence.length;
+    const windowEnd = Math.min(text.length, windowStart + 150);
+    const window = text.substring(windowStart, windowEnd);
 
-        const ctxStart = Math.max(0, found - 20);
-        const ctxEnd = Math.min(text.length, windowStart + match.index + raw.length + 30);
-        const context = text.substring(ctxStart, ctxEnd).replace(/\s+/g, ' ').trim();
-
-        let unit: string | null;
-        if (range && searchTerm.includes('מקדם')) {
-          unit = 'מקדם';
-        } else if (range && (searchTerm.includes('היטל') || searchTerm.includes('פיצוי'))) {
-          unit = '₪';
-        } else {
-          unit = detectUnit(context);
-        }
+    const numberPattern = /(\d+(?:[.,]\d+)*)/g;
+    let match;
+    while ((match = numberPattern.exec(window)) !== null) {
+      const raw = match[1];
+      if (/^\d{1,2}\.\d{1,2}\.\d{4}$/.test(raw)) continue;
+      const afterNum = window.substring(match.index + raw.length);
+      if (/^\.\d{4}/.test(afterNum)) continue;
+      // Skip year counts ("3 שנים") and interest rates ("6%")
+      if (/^\s*שני[םה]?\b/.test(afterNum)) continue;
+      if (/^\s*%/.test(afterNum)) continue;
+      // Skip gush/plot numbers and date fragments
+      if (isGushPlotOrDate(window, match.index, raw)) continue;
 
-        allValues.push({
-          value: {
-            raw,
-            numeric: parsed,
-            unit,
-            context: context.substring(0, 120),
-            charIndex: found,
-          },
-          distance: match.index,
-        });
-        break;
+      const parsed = parseHebrewNumber(raw);
+      if (parsed === null || isNaN(parsed) || parsed <= 0) continue;
+      if (range && (parsed < range.min || parsed > range.max)) continue;
+      if (hasHebrewWordsBeforeNumber(window, match.index)) continue;
+
+      const ctxStart = Math.max(0, found - 20);
+      const ctxEnd = Math.min(text.length, windowStart + match.index + raw.length + 30);
+      const context = text.substring(ctxStart, ctxEnd).replace(/\s+/g, ' ').trim();
+
+      let unit: string | null;
+      if (range && searchTerm.includes('מקדם')) {
+        unit = 'מקדם';
+      } else if (range && (searchTerm.includes('היטל') || searchTerm.includes('פיצוי'))) {
+        unit = '₪';
+      } else {
+        unit = detectUnit(context);
       }
 
-      idx = found + 1;
+      allValues.push({
+        value: {
+          raw,
+          numeric: parsed,
+          unit,
+          context: context.substring(0, 120),
+          charIndex: found,
+        },
+        distance: match.index,
+      });
+      break;
     }
   }
 
@@ -989,8 +941,31 @@ export function formatExtractedValue(value: ExtractedValue): string {
 }
 
 /**
- * Estimate total pages and get page number for a char index.
+ * Page number for a char index in pdf_text: the real page when the text keeps
+ * page boundaries, otherwise estimated. A bare text length can only be estimated.
  */
-export function getPageNumber(charIndex: number, totalLength: number): number {
-  return estimatePage(charIndex, totalLength);
+export function getPageNumber(charIndex: number, text: string | number): number {
+  if (typeof text === 'number') return estimatePage(charIndex, text);
+  if (charIndex < 0 || !text.includes(PAGE_BREAK)) return estimatePage(charIndex, text.length);
+
+  let page = 1;
+  for (let i = text.indexOf(PAGE_BREAK); i !== -1 && i < charIndex; i = text.indexOf(PAGE_BREAK, i + 1)) {
+    page++;
+  }
+  return page;
+}
+
+/**
+ * Page number of a quote (e.g. from AI extraction) in pdf_text, matching its
+ * first words across line breaks. Null when the quote is not in the text.
+ */
+export function findQuotePage(text: string, quote: string | null): number | null {
+  if (!text || !quote) return null;
+
+  const words = quote.trim().split(/\s+/).slice(0, 8)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (words.length === 0 || !words[0]) return null;
+
+  const match = new RegExp(words.join('\\s+')).exec(text);
+  return match ? getPageNumber(match.index, text) : null;
 }